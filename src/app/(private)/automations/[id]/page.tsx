@@ -6,7 +6,10 @@ import type { ReactElement } from 'react';
 import { useParams } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
 import { getActiveWorkspaceId } from '@/lib/activeWorkspace';
-import { Plus, Save, Link2, X, ZoomIn, ZoomOut, LocateFixed, ChevronDown, Mail, MessageSquare } from 'lucide-react';
+import { LEAD_STATUSES } from '@/lib/leadhub/leadConstants';
+import { Plus, Save, Link2, X, ZoomIn, ZoomOut, LocateFixed, ChevronDown, Mail, MessageSquare, Clock, GitBranch, Upload, AlertTriangle, FlaskConical, Webhook, Tag, Flag, ArrowRightLeft, PencilLine, StickyNote, Download, Undo2, Redo2, Network, Bell, ListTodo } from 'lucide-react';
+import { layoutLeftToRight } from '@/lib/automations/graphLayout';
+import type { PortableEdge, PortableNode } from '@/lib/automations/workflowPortable';
 
 type WorkflowStatus = 'draft' | 'active' | 'paused';
 
@@ -14,7 +17,17 @@ function normalizeStatus(v: unknown): WorkflowStatus {
   return v === 'active' || v === 'paused' || v === 'draft' ? v : 'draft';
 }
 
-type Workflow = { id: string; name: string; status: WorkflowStatus };
+type Workflow = { id: string; name: string; status: WorkflowStatus; settings: WorkflowSettingsVM };
+
+// workflows.settings (ver lib/automations/workflowSettings)
+type EnrollmentMode = 'always' | 'once' | 'once_per_period';
+type ExitGoalVM =
+  | { kind: 'stage_won' }
+  | { kind: 'stage_lost' }
+  | { kind: 'stage'; stageId: string }
+  | { kind: 'status'; status: string }
+  | { kind: 'label'; label: string };
+type WorkflowSettingsVM = { enrollment: { mode: EnrollmentMode; periodDays: number }; exitGoals: ExitGoalVM[] };
 
 type NodeUI = { x: number; y: number };
 
@@ -35,22 +48,90 @@ type EdgeRow = {
 
 type EdgeVM = EdgeRow;
 
+// Resultado de validateGraph (servidor): se refresca al cargar, guardar y activar
+type GraphIssueVM = { level: 'error' | 'warning'; code: string; message: string; nodeId?: string; edgeId?: string };
+type ValidationVM = { ok: boolean; errors: GraphIssueVM[]; warnings: GraphIssueVM[] };
+
 type GetResponse =
-  | { ok: true; workflow: { id: string; name: string; status: string }; nodes: NodeRow[]; edges: EdgeRow[] }
+  | {
+      ok: true;
+      workflow: { id: string; name: string; status: string; settings?: unknown };
+      nodes: NodeRow[];
+      edges: EdgeRow[];
+      validation?: ValidationVM;
+    }
   | { ok: false; error: string; detail?: string };
 
-type UpsertGraphResponse = { ok: true } | { ok: false; error: string; detail?: string };
+type UpsertGraphResponse = { ok: true; validation?: ValidationVM } | { ok: false; error: string; detail?: string; validation?: ValidationVM };
+
+type SetStatusResponse =
+  | { ok: true; version?: number; reused?: boolean }
+  | { ok: false; error: string; detail?: string; validation?: ValidationVM };
 
-type SetStatusResponse = { ok: true } | { ok: false; error: string; detail?: string };
+// El JSON exportado se descarga tal cual: solo hace falta el nombre
+type ExportResponse = { ok: true; workflow: { name: string } & Record<string, unknown> } | { ok: false; error: string; detail?: string };
 
 // ---- Tipos/config tipados (PASO 2) ----
-type TriggerEvent = 'lead.stage_changed';
-type TriggerConfig = { event: TriggerEvent; toStageId?: string };
+type TriggerEvent =
+  | 'lead.stage_changed'
+  | 'lead.created'
+  | 'lead.stage_idle'
+  | 'lead.status_changed'
+  | 'lead.label_added'
+  | 'lead.label_removed'
+  | 'lead.field_updated';
+type IdleUnit = 'hours' | 'days';
+type TriggerConfig = {
+  event: TriggerEvent;
+  toStageId?: string;
+  pageIds?: string[];
+  formIds?: string[];
+  // lead.stage_idle
+  stageId?: string;
+  amount?: number;
+  unit?: IdleUnit;
+  // lead.status_changed / lead.label_* / lead.field_updated (vacío = cualquiera)
+  status?: string;
+  label?: string;
+  field?: string;
+};
+
+const LEAD_EDITABLE_FIELDS = ['full_name', 'phone', 'email', 'profession', 'biggest_pain', 'status', 'notes', 'labels'] as const;
 
 // ActionKinds
-type ActionKind = 'lead.add_label' | 'action.send_email' | 'action.send_sms';
+type ActionKind =
+  | 'lead.add_label'
+  | 'lead.remove_label'
+  | 'lead.set_status'
+  | 'lead.move_stage'
+  | 'lead.set_field'
+  | 'lead.add_note'
+  | 'action.send_email'
+  | 'action.send_sms'
+  | 'action.http_request'
+  | 'action.notify_team'
+  | 'action.create_task';
+
+const ACTION_KINDS: ActionKind[] = [
+  'lead.add_label',
+  'lead.remove_label',
+  'lead.set_status',
+  'lead.move_stage',
+  'lead.set_field',
+  'lead.add_note',
+  'action.send_email',
+  'action.send_sms',
+  'action.http_request',
+  'action.notify_team',
+  'action.create_task',
+];
 
 type ActionAddLabelConfig = { action: 'lead.add_label'; label: string };
+type ActionRemoveLabelConfig = { action: 'lead.remove_label'; label: string };
+type ActionSetStatusConfig = { action: 'lead.set_status'; status: string };
+type ActionMoveStageConfig = { action: 'lead.move_stage'; pipelineId: string; stageId: string }; // pipelineId vacío = el del evento
+type ActionSetFieldConfig = { action: 'lead.set_field'; field: string; value: string }; // value admite {{…}}
+type ActionAddNoteConfig = { action: 'lead.add_note'; note: string };
 
 type ActionSendEmailConfig = {
   action: 'action.send_email';
@@ -65,12 +146,85 @@ type ActionSendSmsConfig = {
   body: string;
 };
 
-type ActionConfig = ActionAddLabelConfig | ActionSendEmailConfig | ActionSendSmsConfig;
-type NodeConfig = TriggerConfig | ActionConfig;
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+type ActionHttpRequestConfig = {
+  action: 'action.http_request';
+  method: HttpMethod;
+  url: string;
+  headers: Array<{ key: string; value: string }>;
+  body: string; // JSON; {{lead.email | json}} para insertar valores
+  sign: boolean; // cabecera X-Kalue-Signature con el secreto del workspace
+};
+
+// Acciones internas: no llegan al lead
+type ActionNotifyTeamConfig = {
+  action: 'action.notify_team';
+  kind: string;
+  title: string; // admite {{…}}
+  message: string; // admite {{…}}
+  userIds: string[]; // vacío = todo el equipo
+};
+
+type TaskDueUnit = 'minutes' | 'hours' | 'days';
+
+type ActionCreateTaskConfig = {
+  action: 'action.create_task';
+  assigneeId: string;
+  title: string; // admite {{…}}
+  notes: string; // admite {{…}}
+  dueAmount: number; // vence N unidades después del step
+  dueUnit: TaskDueUnit;
+};
+
+type ActionConfig =
+  | ActionAddLabelConfig
+  | ActionRemoveLabelConfig
+  | ActionSetStatusConfig
+  | ActionMoveStageConfig
+  | ActionSetFieldConfig
+  | ActionAddNoteConfig
+  | ActionSendEmailConfig
+  | ActionSendSmsConfig
+  | ActionHttpRequestConfig
+  | ActionNotifyTeamConfig
+  | ActionCreateTaskConfig;
+
+// Wait (delay) node
+type WaitUnit = 'minutes' | 'hours' | 'days';
+type WaitMode = 'duration' | 'until_time' | 'until_field';
+
+type WaitDurationConfig = { mode: 'duration'; amount: number; unit: WaitUnit };
+type WaitUntilTimeConfig = { mode: 'until_time'; weekdays: number[]; time: string; timezone: string };
+type WaitUntilFieldConfig = { mode: 'until_field'; field: string; offsetAmount: number; offsetUnit: WaitUnit };
+
+type WaitConfig = WaitDurationConfig | WaitUntilTimeConfig | WaitUntilFieldConfig;
+
+// Condition node (branches = workflow_edges.condition_key)
+type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'greater_than'
+  | 'less_than';
+
+type ConditionRule = { field: string; operator: ConditionOperator; value: string };
+type ConditionSwitchCase = { key: string; operator: ConditionOperator; value: string };
+
+type ConditionConfig =
+  | { mode: 'if'; match: 'all' | 'any'; rules: ConditionRule[] }
+  | { mode: 'switch'; field: string; cases: ConditionSwitchCase[] };
+
+type NodeConfig = TriggerConfig | ActionConfig | WaitConfig | ConditionConfig;
 
 type NodeVM = {
   id: string;
-  type: 'trigger' | 'action' | string;
+  type: 'trigger' | 'action' | 'wait' | 'condition' | string;
   name: string;
   config: NodeConfig;
   ui: NodeUI;
@@ -130,12 +284,24 @@ function buildNiceCurvePath(x1: number, y1: number, x2: number, y2: number): str
   return `M ${x1} ${y1} C ${cx1} ${cy1}, ${cx2} ${cy2}, ${x2} ${y2}`;
 }
 
+/** Punto medio (t = 0.5) de la curva de buildNiceCurvePath */
+function bezierMidpoint(x1: number, y1: number, x2: number, y2: number): { x: number; y: number } {
+  const c = clamp(Math.abs(x2 - x1) * 0.55, 60, 320);
+  const cx1 = x1 + c;
+  const cx2 = x2 - c;
+  return { x: (x1 + 3 * cx1 + 3 * cx2 + x2) / 8, y: (y1 + y2) / 2 };
+}
+
 /** UI constants (keep ports aligned with visuals) */
 const NODE_W = 250;
 const NODE_PORT_SIZE = 12; // px
 const NODE_PORT_HALF = NODE_PORT_SIZE / 2; // 6
 const NODE_PORT_Y = 56; // px from top of card (visually centered)
 
+const NODE_H = 110; // alto aproximado de la tarjeta (selección por recuadro)
+const LAYOUT_COL_GAP = NODE_W + 110;
+const LAYOUT_ROW_GAP = NODE_H + 50;
+
 function getPortWorld(n: NodeVM, side: 'left' | 'right'): { x: number; y: number } {
   const x = side === 'left' ? n.ui.x : n.ui.x + NODE_W;
   const y = n.ui.y + NODE_PORT_Y;
@@ -155,18 +321,123 @@ function closestData(el: HTMLElement, attr: string): HTMLElement | null {
   return null;
 }
 
+/** Atajos del canvas: no se aplican mientras se escribe en un campo */
+function isEditableTarget(t: EventTarget | null): boolean {
+  if (!isHTMLElement(t)) return false;
+  return t.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(t.tagName);
+}
+
+/* ---------------- Historial y portapapeles ---------------- */
+
+type GraphSnapshot = { nodes: NodeVM[]; edges: EdgeVM[] };
+
+const HISTORY_LIMIT = 100;
+const HISTORY_COALESCE_MS = 1200; // teclear en un campo cuenta como un solo cambio
+
+// Grupo de nodos copiado (vale entre workflows: viaja por el portapapeles del sistema)
+const CLIPBOARD_FORMAT = 'kalue.workflow.nodes';
+
+type CanvasClipboard = { format: typeof CLIPBOARD_FORMAT; nodes: PortableNode[]; edges: PortableEdge[] };
+
+function buildClipboard(graph: GraphSnapshot, ids: string[]): CanvasClipboard | null {
+  const picked = new Set(ids);
+  const nodes = graph.nodes.filter((n) => picked.has(n.id));
+  if (nodes.length === 0) return null;
+
+  return {
+    format: CLIPBOARD_FORMAT,
+    nodes: nodes.map((n) => ({ id: n.id, type: n.type, name: n.name, config: n.config, ui: n.ui })),
+    edges: graph.edges
+      .filter((e) => picked.has(e.from_node_id) && picked.has(e.to_node_id))
+      .map((e) => ({ from: e.from_node_id, to: e.to_node_id, conditionKey: e.condition_key })),
+  };
+}
+
+function parseClipboard(text: string): CanvasClipboard | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+  if (!isRecord(raw) || raw.format !== CLIPBOARD_FORMAT || !Array.isArray(raw.nodes)) return null;
+
+  const nodes: PortableNode[] = raw.nodes.filter(isRecord).flatMap((n) => {
+    const id = pickString(n, 'id');
+    const type = pickString(n, 'type');
+    if (!id || !type) return [];
+    return [{ id, type, name: pickString(n, 'name') ?? type, config: isRecord(n.config) ? n.config : {}, ui: parseNodeUi(n.ui) }];
+  });
+
+  const edges: PortableEdge[] = (Array.isArray(raw.edges) ? raw.edges : []).filter(isRecord).flatMap((e) => {
+    const from = pickString(e, 'from');
+    const to = pickString(e, 'to');
+    return from && to ? [{ from, to, conditionKey: pickString(e, 'conditionKey') }] : [];
+  });
+
+  return nodes.length > 0 ? { format: CLIPBOARD_FORMAT, nodes, edges } : null;
+}
+
 /* ---------------- Normalizadores config ---------------- */
 
+function asIdList(v: unknown): string[] | undefined {
+  if (!Array.isArray(v)) return undefined;
+  const ids = v.filter((x): x is string => typeof x === 'string').map((x) => x.trim()).filter(Boolean);
+  return ids.length > 0 ? ids : undefined;
+}
+
+function asOptStr(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+}
+
 function asTriggerConfig(v: unknown): TriggerConfig {
   if (!isRecord(v)) return { event: 'lead.stage_changed' };
-  const event: TriggerEvent = v.event === 'lead.stage_changed' ? 'lead.stage_changed' : 'lead.stage_changed';
+  if (v.event === 'lead.created') return { event: 'lead.created', pageIds: asIdList(v.pageIds), formIds: asIdList(v.formIds) };
+  if (v.event === 'lead.status_changed') return { event: 'lead.status_changed', status: asOptStr(v.status) };
+  if (v.event === 'lead.label_added' || v.event === 'lead.label_removed') return { event: v.event, label: asOptStr(v.label) };
+  if (v.event === 'lead.field_updated') return { event: 'lead.field_updated', field: asOptStr(v.field) };
+  if (v.event === 'lead.stage_idle') {
+    const stageId = typeof v.stageId === 'string' && v.stageId.trim() ? v.stageId.trim() : undefined;
+    return { event: 'lead.stage_idle', stageId, amount: Math.max(0, asNumber(v.amount, 3)), unit: v.unit === 'hours' ? 'hours' : 'days' };
+  }
+
   const toStageId = typeof v.toStageId === 'string' && v.toStageId.trim() ? v.toStageId.trim() : undefined;
-  return { event, toStageId };
+  return { event: 'lead.stage_changed', toStageId };
+}
+
+function defaultTriggerConfig(event: string): TriggerConfig {
+  if (event === 'lead.created') return { event: 'lead.created' };
+  if (event === 'lead.stage_idle') return { event: 'lead.stage_idle', amount: 3, unit: 'days' };
+  if (event === 'lead.status_changed' || event === 'lead.label_added' || event === 'lead.label_removed' || event === 'lead.field_updated') {
+    return { event };
+  }
+  return { event: 'lead.stage_changed' };
 }
 
 function defaultActionConfig(kind: ActionKind): ActionConfig {
   if (kind === 'lead.add_label') return { action: 'lead.add_label', label: '' };
+  if (kind === 'lead.remove_label') return { action: 'lead.remove_label', label: '' };
+  if (kind === 'lead.set_status') return { action: 'lead.set_status', status: LEAD_STATUSES[0] };
+  if (kind === 'lead.move_stage') return { action: 'lead.move_stage', pipelineId: '', stageId: '' };
+  if (kind === 'lead.set_field') return { action: 'lead.set_field', field: '', value: '' };
+  if (kind === 'lead.add_note') return { action: 'lead.add_note', note: '' };
   if (kind === 'action.send_email') return { action: 'action.send_email', to: '{{lead.email}}', subject: '', body: '' };
+  if (kind === 'action.http_request') {
+    return {
+      action: 'action.http_request',
+      method: 'POST',
+      url: '',
+      headers: [],
+      body: '{\n  "lead_id": {{lead.id | json}},\n  "email": {{lead.email | default:"" | json}}\n}',
+      sign: true,
+    };
+  }
+  if (kind === 'action.notify_team') {
+    return { action: 'action.notify_team', kind: 'workflow', title: 'Lead caliente: {{lead.full_name}}', message: '', userIds: [] };
+  }
+  if (kind === 'action.create_task') {
+    return { action: 'action.create_task', assigneeId: '', title: 'Llamar a {{lead.full_name}}', notes: '', dueAmount: 1, dueUnit: 'hours' };
+  }
   return { action: 'action.send_sms', to: '{{lead.phone}}', body: '' };
 }
 
@@ -175,11 +446,16 @@ function asActionConfig(v: unknown): ActionConfig {
 
   const action = pickString(v, 'action');
 
-  if (action === 'lead.add_label') {
+  if (action === 'lead.add_label' || action === 'lead.remove_label') {
     const label = typeof v.label === 'string' ? v.label : '';
-    return { action: 'lead.add_label', label };
+    return { action, label };
   }
 
+  if (action === 'lead.set_status') return { action, status: pickString(v, 'status') ?? LEAD_STATUSES[0] };
+  if (action === 'lead.move_stage') return { action, pipelineId: pickString(v, 'pipelineId') ?? '', stageId: pickString(v, 'stageId') ?? '' };
+  if (action === 'lead.set_field') return { action, field: pickString(v, 'field') ?? '', value: typeof v.value === 'string' ? v.value : '' };
+  if (action === 'lead.add_note') return { action, note: typeof v.note === 'string' ? v.note : '' };
+
   if (action === 'action.send_email') {
     const to = typeof v.to === 'string' && v.to.trim() ? v.to : '{{lead.email}}';
     const subject = typeof v.subject === 'string' ? v.subject : '';
@@ -193,11 +469,168 @@ function asActionConfig(v: unknown): ActionConfig {
     return { action: 'action.send_sms', to, body };
   }
 
+  if (action === 'action.http_request') {
+    const m = typeof v.method === 'string' ? v.method.toUpperCase() : '';
+    const headers = (Array.isArray(v.headers) ? v.headers : [])
+      .filter(isRecord)
+      .map((h) => ({ key: typeof h.key === 'string' ? h.key : '', value: typeof h.value === 'string' ? h.value : '' }));
+    return {
+      action: 'action.http_request',
+      method: HTTP_METHODS.find((x) => x === m) ?? 'POST',
+      url: typeof v.url === 'string' ? v.url : '',
+      headers,
+      body: typeof v.body === 'string' ? v.body : '',
+      sign: v.sign === true,
+    };
+  }
+
+  if (action === 'action.notify_team') {
+    const userIds = Array.isArray(v.userIds) ? v.userIds.filter((x): x is string => typeof x === 'string' && x.trim() !== '') : [];
+    return {
+      action,
+      kind: pickString(v, 'kind') ?? 'workflow',
+      title: pickString(v, 'title') ?? '',
+      message: pickString(v, 'message') ?? '',
+      userIds,
+    };
+  }
+
+  if (action === 'action.create_task') {
+    const u = v.dueUnit;
+    return {
+      action,
+      assigneeId: pickString(v, 'assigneeId') ?? '',
+      title: pickString(v, 'title') ?? '',
+      notes: pickString(v, 'notes') ?? '',
+      dueAmount: Math.max(0, asNumber(v.dueAmount, 1)),
+      dueUnit: u === 'minutes' || u === 'hours' || u === 'days' ? u : 'days',
+    };
+  }
+
   return defaultActionConfig('lead.add_label');
 }
 
+function asUnit(v: unknown): WaitUnit {
+  return v === 'minutes' || v === 'hours' || v === 'days' ? v : 'days';
+}
+
+function asNumber(v: unknown, fallback: number): number {
+  return typeof v === 'number' && Number.isFinite(v) ? v : fallback;
+}
+
+function defaultWaitConfig(mode: WaitMode): WaitConfig {
+  if (mode === 'until_time') return { mode: 'until_time', weekdays: [1, 2, 3, 4, 5], time: '09:00', timezone: 'Europe/Madrid' };
+  if (mode === 'until_field') return { mode: 'until_field', field: 'created_at', offsetAmount: 0, offsetUnit: 'days' };
+  return { mode: 'duration', amount: 1, unit: 'days' };
+}
+
+function asWaitConfig(v: unknown): WaitConfig {
+  if (!isRecord(v)) return defaultWaitConfig('duration');
+
+  if (v.mode === 'until_time') {
+    const weekdays = Array.isArray(v.weekdays) ? v.weekdays.filter((d): d is number => typeof d === 'number' && d >= 0 && d <= 6) : [];
+    const time = typeof v.time === 'string' && /^\d{2}:\d{2}$/.test(v.time) ? v.time : '09:00';
+    const timezone = typeof v.timezone === 'string' && v.timezone.trim() ? v.timezone : 'UTC';
+    return { mode: 'until_time', weekdays, time, timezone };
+  }
+
+  if (v.mode === 'until_field') {
+    const field = typeof v.field === 'string' ? v.field : '';
+    return { mode: 'until_field', field, offsetAmount: asNumber(v.offsetAmount, 0), offsetUnit: asUnit(v.offsetUnit) };
+  }
+
+  return { mode: 'duration', amount: Math.max(0, asNumber(v.amount, 1)), unit: asUnit(v.unit) };
+}
+
+const UNIT_LABELS: Record<WaitUnit, string> = { minutes: 'min', hours: 'h', days: 'días' };
+const WEEKDAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+function waitSummary(c: WaitConfig): string {
+  if (c.mode === 'duration') return `espera ${c.amount} ${UNIT_LABELS[c.unit]}`;
+  if (c.mode === 'until_time') {
+    const days = c.weekdays.length > 0 ? c.weekdays.map((d) => WEEKDAY_LABELS[d]).join(',') : 'cualquier día';
+    return `hasta ${days} ${c.time}`;
+  }
+  const off = c.offsetAmount === 0 ? '' : ` ${c.offsetAmount > 0 ? '+' : ''}${c.offsetAmount} ${UNIT_LABELS[c.offsetUnit]}`;
+  return `hasta lead.${c.field || '?'}${off}`;
+}
+
+const CONDITION_OPERATORS: Array<{ value: ConditionOperator; label: string }> = [
+  { value: 'equals', label: 'es igual a' },
+  { value: 'not_equals', label: 'no es igual a' },
+  { value: 'contains', label: 'contiene' },
+  { value: 'not_contains', label: 'no contiene' },
+  { value: 'is_empty', label: 'está vacío' },
+  { value: 'is_not_empty', label: 'no está vacío' },
+  { value: 'greater_than', label: 'mayor que' },
+  { value: 'less_than', label: 'menor que' },
+];
+
+function asOperator(v: unknown): ConditionOperator {
+  return CONDITION_OPERATORS.find((o) => o.value === v)?.value ?? 'equals';
+}
+
+function defaultConditionConfig(mode: 'if' | 'switch'): ConditionConfig {
+  if (mode === 'switch') return { mode: 'switch', field: 'lead.status', cases: [{ key: 'new', operator: 'equals', value: 'new' }] };
+  return { mode: 'if', match: 'all', rules: [{ field: 'lead.status', operator: 'equals', value: '' }] };
+}
+
+function asConditionConfig(v: unknown): ConditionConfig {
+  if (!isRecord(v)) return defaultConditionConfig('if');
+
+  if (v.mode === 'switch') {
+    const cases = (Array.isArray(v.cases) ? v.cases : []).filter(isRecord).map((c) => ({
+      key: typeof c.key === 'string' ? c.key : '',
+      operator: asOperator(c.operator),
+      value: typeof c.value === 'string' ? c.value : '',
+    }));
+    return { mode: 'switch', field: typeof v.field === 'string' ? v.field : '', cases };
+  }
+
+  const rules = (Array.isArray(v.rules) ? v.rules : []).filter(isRecord).map((r) => ({
+    field: typeof r.field === 'string' ? r.field : '',
+    operator: asOperator(r.operator),
+    value: typeof r.value === 'string' ? r.value : '',
+  }));
+  return { mode: 'if', match: v.match === 'any' ? 'any' : 'all', rules };
+}
+
+/** condition_key válidos para los edges que salen de una condición */
+function conditionBranchKeys(c: ConditionConfig): string[] {
+  if (c.mode === 'if') return ['true', 'false'];
+  return [...c.cases.map((x) => x.key.trim()).filter(Boolean), 'default'];
+}
+
+function branchLabel(key: string): string {
+  if (key === 'true') return 'Sí';
+  if (key === 'false') return 'No';
+  if (key === 'default') return 'Otro';
+  return key;
+}
+
+function normalizeNodeConfig(type: string, raw: unknown): NodeConfig {
+  if (type === 'trigger') return asTriggerConfig(raw);
+  if (type === 'wait') return asWaitConfig(raw);
+  if (type === 'condition') return asConditionConfig(raw);
+  return asActionConfig(raw);
+}
+
 function nodeSubtitle(n: NodeVM): string {
-  if (n.type === 'trigger') return 'trigger';
+  if (n.type === 'trigger') {
+    const c = asTriggerConfig(n.config);
+    if (c.event === 'lead.stage_idle') return `parado ${c.amount ?? 0} ${UNIT_LABELS[c.unit ?? 'days']} en stage`;
+    if (c.event === 'lead.status_changed' && c.status) return `status → ${c.status}`;
+    if ((c.event === 'lead.label_added' || c.event === 'lead.label_removed') && c.label) {
+      return `${c.event === 'lead.label_added' ? '+' : '−'} etiqueta ${c.label}`;
+    }
+    if (c.event === 'lead.field_updated' && c.field) return `cambia ${c.field}`;
+    return c.event;
+  }
+  if (n.type === 'wait') return waitSummary(asWaitConfig(n.config));
+  if (n.type === 'condition') {
+    const c = asConditionConfig(n.config);
+    return c.mode === 'if' ? `si ${c.rules.length} regla(s) (${c.match === 'all' ? 'todas' : 'alguna'})` : `switch ${c.field || '?'}`;
+  }
   if (n.type === 'action') {
     const c = n.config;
     if ('action' in c) return c.action;
@@ -208,13 +641,29 @@ function nodeSubtitle(n: NodeVM): string {
 
 function actionLabel(kind: ActionKind): string {
   if (kind === 'lead.add_label') return 'Añadir etiqueta';
+  if (kind === 'lead.remove_label') return 'Quitar etiqueta';
+  if (kind === 'lead.set_status') return 'Cambiar status';
+  if (kind === 'lead.move_stage') return 'Mover de stage';
+  if (kind === 'lead.set_field') return 'Actualizar campo';
+  if (kind === 'lead.add_note') return 'Añadir nota';
   if (kind === 'action.send_email') return 'Enviar Email';
+  if (kind === 'action.http_request') return 'Petición HTTP';
+  if (kind === 'action.notify_team') return 'Notificar al equipo';
+  if (kind === 'action.create_task') return 'Crear tarea';
   return 'Enviar SMS';
 }
 
 function actionIcon(kind: ActionKind): ReactElement {
   if (kind === 'action.send_email') return <Mail className="h-4 w-4" />;
   if (kind === 'action.send_sms') return <MessageSquare className="h-4 w-4" />;
+  if (kind === 'action.http_request') return <Webhook className="h-4 w-4" />;
+  if (kind === 'lead.add_label' || kind === 'lead.remove_label') return <Tag className="h-4 w-4" />;
+  if (kind === 'lead.set_status') return <Flag className="h-4 w-4" />;
+  if (kind === 'lead.move_stage') return <ArrowRightLeft className="h-4 w-4" />;
+  if (kind === 'lead.set_field') return <PencilLine className="h-4 w-4" />;
+  if (kind === 'lead.add_note') return <StickyNote className="h-4 w-4" />;
+  if (kind === 'action.notify_team') return <Bell className="h-4 w-4" />;
+  if (kind === 'action.create_task') return <ListTodo className="h-4 w-4" />;
   return <Plus className="h-4 w-4" />;
 }
 
@@ -231,7 +680,10 @@ export default function AutomationBuilderPage() {
   const [wf, setWf] = useState<Workflow | null>(null);
   const [nodes, setNodes] = useState<NodeVM[]>([]);
   const [edges, setEdges] = useState<EdgeVM[]>([]);
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  // Selección de nodos: uno (se edita en el panel) o varios (recuadro con Shift, Shift+click)
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const selectedNodeId = selectedNodeIds.length === 1 ? selectedNodeIds[0] : null;
+  const selectedNodeSet = useMemo(() => new Set(selectedNodeIds), [selectedNodeIds]);
 
   const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
 
@@ -249,13 +701,33 @@ export default function AutomationBuilderPage() {
   const panningRef = useRef<{ startClientX: number; startClientY: number; startViewX: number; startViewY: number } | null>(null);
 
   const draggingNodeRef = useRef<{
-    nodeId: string;
     startMouseX: number;
     startMouseY: number;
-    startX: number;
-    startY: number;
+    origins: Map<string, NodeUI>; // todos los nodos seleccionados se mueven juntos
+    before: GraphSnapshot;
+    moved: boolean;
   } | null>(null);
 
+  // Selección por recuadro (coordenadas del mundo)
+  const marqueeRef = useRef<{ startX: number; startY: number } | null>(null);
+  const [marquee, setMarquee] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null);
+  const suppressClickRef = useRef(false);
+
+  // Deshacer/rehacer: snapshots completos del grafo (nodos + conexiones)
+  const graphRef = useRef<GraphSnapshot>({ nodes: [], edges: [] });
+  useEffect(() => {
+    graphRef.current = { nodes, edges };
+  }, [nodes, edges]);
+
+  const historyRef = useRef<{ past: GraphSnapshot[]; future: GraphSnapshot[]; lastKey: string | null; lastAt: number }>({
+    past: [],
+    future: [],
+    lastKey: null,
+    lastAt: 0,
+  });
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
+  const pasteSeqRef = useRef(0);
+
   const canvasRef = useRef<HTMLDivElement | null>(null);
 
   const [connectPreviewWorld, setConnectPreviewWorld] = useState<{ x: number; y: number } | null>(null);
@@ -263,6 +735,32 @@ export default function AutomationBuilderPage() {
   // Create Action dropdown (UI)
   const [actionMenuOpen, setActionMenuOpen] = useState(false);
 
+  // Panel derecho: configuración o historial de runs (resalta el camino en el canvas)
+  const [panelTab, setPanelTab] = useState<PanelTab>('config');
+  const [runHighlight, setRunHighlight] = useState<RunHighlight | null>(null);
+
+  const nodeNames = useMemo(() => new Map(nodes.map((n) => [n.id, n.name])), [nodes]);
+
+  const [validation, setValidation] = useState<ValidationVM | null>(null);
+
+  const issuesByTarget = useMemo(() => {
+    const m = new Map<string, GraphIssueVM[]>();
+    for (const i of [...(validation?.errors ?? []), ...(validation?.warnings ?? [])]) {
+      for (const key of [i.nodeId, i.edgeId]) {
+        if (!key) continue;
+        const arr = m.get(key) ?? [];
+        arr.push(i);
+        m.set(key, arr);
+      }
+    }
+    return m;
+  }, [validation]);
+
+  const graphIssues = useMemo(
+    () => [...(validation?.errors ?? []), ...(validation?.warnings ?? [])].filter((i) => !i.nodeId && !i.edgeId),
+    [validation]
+  );
+
   const selectedNode = useMemo(() => {
     if (!selectedNodeId) return null;
     return nodes.find((n) => n.id === selectedNodeId) ?? null;
@@ -273,6 +771,64 @@ export default function AutomationBuilderPage() {
     return edges.find((e) => e.id === selectedEdgeId) ?? null;
   }, [edges, selectedEdgeId]);
 
+  const selectedEdgeSource = useMemo(() => {
+    if (!selectedEdge) return null;
+    return nodes.find((n) => n.id === selectedEdge.from_node_id) ?? null;
+  }, [nodes, selectedEdge]);
+
+  const pushHistory = useCallback((before: GraphSnapshot, coalesceKey?: string) => {
+    const h = historyRef.current;
+    const now = Date.now();
+    if (coalesceKey && h.lastKey === coalesceKey && now - h.lastAt < HISTORY_COALESCE_MS) {
+      h.lastAt = now;
+      return;
+    }
+
+    h.past = [...h.past, before].slice(-HISTORY_LIMIT);
+    h.future = [];
+    h.lastKey = coalesceKey ?? null;
+    h.lastAt = now;
+    setHistorySize({ undo: h.past.length, redo: 0 });
+  }, []);
+
+  // Llamar antes de cada cambio del grafo (guarda el estado actual para deshacer)
+  const recordHistory = useCallback((coalesceKey?: string) => pushHistory(graphRef.current, coalesceKey), [pushHistory]);
+
+  const applySnapshot = useCallback((snap: GraphSnapshot) => {
+    graphRef.current = snap;
+    setNodes(snap.nodes);
+    setEdges(snap.edges);
+
+    const ids = new Set(snap.nodes.map((n) => n.id));
+    setSelectedNodeIds((prev) => prev.filter((id) => ids.has(id)));
+    setSelectedEdgeId((prev) => (prev && snap.edges.some((e) => e.id === prev) ? prev : null));
+    setConnectFromId(null);
+  }, []);
+
+  const undo = useCallback(() => {
+    const h = historyRef.current;
+    const prev = h.past.pop();
+    if (!prev) return;
+
+    h.future.push(graphRef.current);
+    h.lastKey = null;
+    applySnapshot(prev);
+    setHistorySize({ undo: h.past.length, redo: h.future.length });
+    setActionInfo('Cambio deshecho (no olvides Guardar).');
+  }, [applySnapshot]);
+
+  const redo = useCallback(() => {
+    const h = historyRef.current;
+    const next = h.future.pop();
+    if (!next) return;
+
+    h.past.push(graphRef.current);
+    h.lastKey = null;
+    applySnapshot(next);
+    setHistorySize({ undo: h.past.length, redo: h.future.length });
+    setActionInfo('Cambio rehecho (no olvides Guardar).');
+  }, [applySnapshot]);
+
   const load = useCallback(async (): Promise<void> => {
     setLoading(true);
     setPageError(null);
@@ -309,20 +865,14 @@ export default function AutomationBuilderPage() {
       id: j.workflow.id,
       name: j.workflow.name,
       status: normalizeStatus(j.workflow.status),
+      settings: asWorkflowSettings(j.workflow.settings),
     });
+    setValidation(j.validation ?? null);
 
     const vmNodes: NodeVM[] = (Array.isArray(j.nodes) ? j.nodes : [])
       .filter((n): n is NodeRow => Boolean(n && typeof n.id === 'string'))
       .map((n) => {
-        const rawConfig: unknown = n.config;
-
-        const normalizedConfig: NodeConfig =
-          n.type === 'trigger'
-            ? asTriggerConfig(rawConfig)
-            : n.type === 'action'
-              ? asActionConfig(rawConfig)
-              : // fallback safe
-                asActionConfig(rawConfig);
+        const normalizedConfig = normalizeNodeConfig(n.type, n.config);
 
         return {
           id: n.id,
@@ -343,6 +893,10 @@ export default function AutomationBuilderPage() {
       }));
 
     setNodes(vmNodes);
+    setSelectedNodeIds([]);
+    setSelectedEdgeId(null);
+    historyRef.current = { past: [], future: [], lastKey: null, lastAt: 0 };
+    setHistorySize({ undo: 0, redo: 0 });
 
     const nodeIdSet = new Set(vmNodes.map((n) => n.id));
     setEdges(vmEdges.filter((e) => nodeIdSet.has(e.from_node_id) && nodeIdSet.has(e.to_node_id)));
@@ -397,16 +951,37 @@ export default function AutomationBuilderPage() {
     };
   }, []);
 
-  // Global mouse move for node drag / pan
+  // Global mouse move for node drag / pan / selección por recuadro
   useEffect(() => {
+    const toWorld = (ev: MouseEvent): { x: number; y: number } | null => {
+      const rect = canvasRef.current?.getBoundingClientRect() ?? null;
+      if (!rect) return null;
+      const v = viewRef.current;
+      return { x: (ev.clientX - rect.left - v.x) / v.scale, y: (ev.clientY - rect.top - v.y) / v.scale };
+    };
+
     const onMove = (ev: MouseEvent) => {
       const d = draggingNodeRef.current;
       if (d) {
         ev.preventDefault();
         const dx = (ev.clientX - d.startMouseX) / viewRef.current.scale;
         const dy = (ev.clientY - d.startMouseY) / viewRef.current.scale;
+        if (dx !== 0 || dy !== 0) d.moved = true;
+
+        setNodes((prev) =>
+          prev.map((n) => {
+            const o = d.origins.get(n.id);
+            return o ? { ...n, ui: { x: o.x + dx, y: o.y + dy } } : n;
+          })
+        );
+        return;
+      }
 
-        setNodes((prev) => prev.map((n) => (n.id === d.nodeId ? { ...n, ui: { x: d.startX + dx, y: d.startY + dy } } : n)));
+      const m = marqueeRef.current;
+      if (m) {
+        ev.preventDefault();
+        const w = toWorld(ev);
+        if (w) setMarquee({ x1: m.startX, y1: m.startY, x2: w.x, y2: w.y });
         return;
       }
 
@@ -419,9 +994,33 @@ export default function AutomationBuilderPage() {
       }
     };
 
-    const onUp = () => {
+    const onUp = (ev: MouseEvent) => {
+      const d = draggingNodeRef.current;
+      if (d?.moved) {
+        pushHistory(d.before);
+        suppressClickRef.current = true; // el click al soltar no debe reducir la selección a un nodo
+      }
+
+      const m = marqueeRef.current;
+      const w = m ? toWorld(ev) : null;
+      if (m && w) {
+        const x1 = Math.min(m.startX, w.x);
+        const x2 = Math.max(m.startX, w.x);
+        const y1 = Math.min(m.startY, w.y);
+        const y2 = Math.max(m.startY, w.y);
+        const hit = graphRef.current.nodes
+          .filter((n) => n.ui.x < x2 && n.ui.x + NODE_W > x1 && n.ui.y < y2 && n.ui.y + NODE_H > y1)
+          .map((n) => n.id);
+
+        setSelectedNodeIds(hit);
+        setSelectedEdgeId(null);
+        suppressClickRef.current = true; // el click que sigue no debe limpiar la selección recién hecha
+      }
+
       draggingNodeRef.current = null;
       panningRef.current = null;
+      marqueeRef.current = null;
+      setMarquee(null);
     };
 
     window.addEventListener('mousemove', onMove);
@@ -430,53 +1029,33 @@ export default function AutomationBuilderPage() {
       window.removeEventListener('mousemove', onMove);
       window.removeEventListener('mouseup', onUp);
     };
-  }, []);
-
-  // Delete edge with Delete/Backspace
-  useEffect(() => {
-    const onKeyDown = (ev: KeyboardEvent) => {
-      if (ev.key === 'Delete' || ev.key === 'Backspace') {
-        if (selectedEdgeId) {
-          ev.preventDefault();
-          setEdges((prev) => prev.filter((e) => e.id !== selectedEdgeId));
-          setSelectedEdgeId(null);
-          setActionInfo('Conexión eliminada (no olvides Guardar).');
-        }
-      }
-      if (ev.key === 'Escape') {
-        setConnectFromId(null);
-        setConnectMode(false);
-        setConnectPreviewWorld(null);
-        setActionMenuOpen(false);
-      }
-    };
-    window.addEventListener('keydown', onKeyDown);
-    return () => window.removeEventListener('keydown', onKeyDown);
-  }, [selectedEdgeId]);
+  }, [pushHistory]);
 
   const startDragNode = useCallback(
     (nodeId: string, ev: React.MouseEvent) => {
       ev.preventDefault();
       ev.stopPropagation();
-      const n = nodes.find((x) => x.id === nodeId);
-      if (!n) return;
+      suppressClickRef.current = false;
+      if (!nodes.some((x) => x.id === nodeId)) return;
 
-      setSelectedNodeId(nodeId);
+      // Arrastrar un nodo de la selección mueve todo el grupo
+      const group = selectedNodeSet.has(nodeId) ? selectedNodeSet : new Set([nodeId]);
+      if (!selectedNodeSet.has(nodeId)) setSelectedNodeIds([nodeId]);
       setSelectedEdgeId(null);
 
       draggingNodeRef.current = {
-        nodeId,
         startMouseX: ev.clientX,
         startMouseY: ev.clientY,
-        startX: n.ui.x,
-        startY: n.ui.y,
+        origins: new Map(nodes.filter((x) => group.has(x.id)).map((x) => [x.id, x.ui])),
+        before: { nodes, edges },
+        moved: false,
       };
     },
-    [nodes]
+    [nodes, edges, selectedNodeSet]
   );
 
   const clearSelections = useCallback(() => {
-    setSelectedNodeId(null);
+    setSelectedNodeIds([]);
     setSelectedEdgeId(null);
     setActionInfo(null);
     setActionError(null);
@@ -484,23 +1063,34 @@ export default function AutomationBuilderPage() {
   }, [connectMode]);
 
   const onCanvasClick = useCallback(() => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
     clearSelections();
   }, [clearSelections]);
 
   const onNodeClick = useCallback(
-    (nodeId: string) => {
+    (nodeId: string, toggle: boolean) => {
+      if (suppressClickRef.current) {
+        suppressClickRef.current = false;
+        return;
+      }
       setActionError(null);
       setActionInfo(null);
       setSelectedEdgeId(null);
 
       if (!connectMode) {
-        setSelectedNodeId(nodeId);
+        // Shift+click añade/quita el nodo de la selección
+        setSelectedNodeIds((prev) =>
+          !toggle ? [nodeId] : prev.includes(nodeId) ? prev.filter((id) => id !== nodeId) : [...prev, nodeId]
+        );
         return;
       }
 
       if (!connectFromId) {
         setConnectFromId(nodeId);
-        setSelectedNodeId(nodeId);
+        setSelectedNodeIds([nodeId]);
         setActionInfo('Origen seleccionado. Ahora elige el destino…');
         return;
       }
@@ -515,18 +1105,28 @@ export default function AutomationBuilderPage() {
         return;
       }
 
+      // Desde una condición, el nuevo edge toma la primera rama libre
+      const fromNode = nodes.find((n) => n.id === connectFromId);
+      let conditionKey: string | null = null;
+      if (fromNode?.type === 'condition') {
+        const used = new Set(edges.filter((e) => e.from_node_id === connectFromId).map((e) => e.condition_key));
+        const keys = conditionBranchKeys(asConditionConfig(fromNode.config));
+        conditionKey = keys.find((k) => !used.has(k)) ?? keys[0] ?? null;
+      }
+
       const id = uuidv4();
-      setEdges((prev) => [...prev, { id, from_node_id: connectFromId, to_node_id: nodeId, condition_key: null }]);
+      recordHistory();
+      setEdges((prev) => [...prev, { id, from_node_id: connectFromId, to_node_id: nodeId, condition_key: conditionKey }]);
       setConnectFromId(null);
       setConnectPreviewWorld(null);
-      setSelectedNodeId(nodeId);
+      setSelectedNodeIds([nodeId]);
       setActionInfo('Conexión creada (no olvides Guardar).');
     },
-    [connectMode, connectFromId, edges]
+    [connectMode, connectFromId, edges, nodes, recordHistory]
   );
 
   const createNode = useCallback(
-    async (type: 'trigger' | 'action', actionKind?: ActionKind): Promise<void> => {
+    async (type: 'trigger' | 'action' | 'wait' | 'condition', actionKind?: ActionKind): Promise<void> => {
       setActionError(null);
       setActionInfo(null);
 
@@ -555,16 +1155,28 @@ export default function AutomationBuilderPage() {
       const initialConfig: NodeConfig =
         type === 'trigger'
           ? { event: 'lead.stage_changed' }
-          : defaultActionConfig(actionKind ?? 'lead.add_label');
+          : type === 'wait'
+            ? defaultWaitConfig('duration')
+            : type === 'condition'
+              ? defaultConditionConfig('if')
+              : defaultActionConfig(actionKind ?? 'lead.add_label');
 
       const name =
         type === 'trigger'
           ? 'Trigger'
-          : actionKind === 'action.send_email'
+          : type === 'wait'
+            ? 'Espera'
+            : type === 'condition'
+              ? 'Condición'
+              : actionKind === 'action.send_email'
             ? 'Enviar Email'
             : actionKind === 'action.send_sms'
               ? 'Enviar SMS'
-              : 'Acción';
+              : actionKind === 'action.http_request'
+                ? 'Petición HTTP'
+                : actionKind === 'action.notify_team' || actionKind === 'action.create_task'
+                  ? actionLabel(actionKind)
+                  : 'Acción';
 
       // Enviamos config también; si el backend lo ignora, no rompe.
       const res = await fetch('/api/automations/workflows/node-create', {
@@ -638,20 +1250,21 @@ export default function AutomationBuilderPage() {
 
       // Si backend no devuelve config, usamos el inicial
       const rawConfig: unknown = nodeUnknown.config ?? initialConfig;
-      const normalizedConfig: NodeConfig =
-        nodeType === 'trigger' ? asTriggerConfig(rawConfig) : nodeType === 'action' ? asActionConfig(rawConfig) : asActionConfig(rawConfig);
+      const normalizedConfig = normalizeNodeConfig(nodeType, rawConfig);
 
       const node: NodeVM = { id, type: nodeType, name: nodeName, config: normalizedConfig, ui };
 
+      recordHistory();
       setNodes((prev) => [...prev, node]);
-      setSelectedNodeId(node.id);
+      setSelectedNodeIds([node.id]);
       setSelectedEdgeId(null);
-      setActionInfo(`${type === 'trigger' ? 'Trigger' : 'Acción'} creado.`);
+      const createdLabel = type === 'trigger' ? 'Trigger' : type === 'wait' ? 'Espera' : type === 'condition' ? 'Condición' : 'Acción';
+      setActionInfo(`${createdLabel} creado.`);
     },
-    [workflowId]
+    [workflowId, recordHistory]
   );
 
-  const saveGraph = useCallback(async (): Promise<void> => {
+  const saveGraph = useCallback(async (): Promise<boolean> => {
     setActionError(null);
     setActionInfo(null);
 
@@ -661,7 +1274,7 @@ export default function AutomationBuilderPage() {
 
     if (!ws || !token) {
       setActionError(!ws ? 'missing_workspace' : 'login_required');
-      return;
+      return false;
     }
 
     const payload = {
@@ -695,11 +1308,14 @@ export default function AutomationBuilderPage() {
     if (!j.ok) {
       // eslint-disable-next-line no-console
       console.error('upsert-graph failed', j);
+      if (j.validation) setValidation(j.validation);
       setActionError(j.detail ?? j.error);
-      return;
+      return false;
     }
 
+    setValidation(j.validation ?? null);
     setActionInfo('Guardado.');
+    return true;
   }, [workflowId, nodes, edges]);
 
   const setWorkflowStatus = useCallback(
@@ -730,56 +1346,191 @@ export default function AutomationBuilderPage() {
       if (!j.ok) {
         // eslint-disable-next-line no-console
         console.error('set-status failed', j);
+        if (j.validation) {
+          setValidation(j.validation);
+          setActionError(`No se puede activar: ${j.validation.errors.length} error(es) en el workflow.`);
+          return;
+        }
         setActionError('detail' in j && typeof j.detail === 'string' ? j.detail : j.error);
         return;
       }
 
       setWf((prev) => (prev ? { ...prev, status: nextStatus } : prev));
-      setActionInfo(nextStatus === 'active' ? 'Workflow activado.' : nextStatus === 'paused' ? 'Workflow pausado.' : 'Workflow en borrador.');
+      if (nextStatus === 'active' && typeof j.version === 'number') {
+        setActionInfo(j.reused ? `Workflow activo (v${j.version}, sin cambios).` : `Workflow publicado como v${j.version}.`);
+      } else {
+        setActionInfo(nextStatus === 'active' ? 'Workflow activado.' : nextStatus === 'paused' ? 'Workflow pausado.' : 'Workflow en borrador.');
+      }
     },
     [workflowId]
   );
 
+  // Publicar = guardar el borrador y congelarlo como nueva versión (los runs en curso siguen con la suya)
+  const publish = useCallback(async (): Promise<void> => {
+    if (!(await saveGraph())) return;
+    await setWorkflowStatus('active');
+  }, [saveGraph, setWorkflowStatus]);
+
+  // Exporta el borrador guardado (se guarda antes) como JSON portable para importarlo en otro workspace
+  const exportJson = useCallback(async (): Promise<void> => {
+    if (!(await saveGraph())) return;
+
+    const headers = await panelAuthHeaders();
+    if (typeof headers === 'string') {
+      setActionError(headers);
+      return;
+    }
+
+    const res = await fetch(`/api/automations/workflows/export?id=${encodeURIComponent(workflowId)}`, { headers });
+    const j = (await res.json()) as ExportResponse;
+    if (!j.ok) {
+      setActionError(j.detail ?? j.error);
+      return;
+    }
+
+    const slug = j.workflow.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow';
+    const blob = new Blob([JSON.stringify(j.workflow, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${slug}.workflow.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    setActionInfo('Workflow exportado.');
+  }, [saveGraph, workflowId]);
+
   const updateSelectedName = useCallback(
     (name: string) => {
+      recordHistory(`name:${selectedNodeId}`);
       setNodes((prev) => prev.map((n) => (n.id === selectedNodeId ? { ...n, name } : n)));
     },
-    [selectedNodeId]
+    [selectedNodeId, recordHistory]
   );
 
   const deleteSelected = useCallback(() => {
-    const id = selectedNodeId;
-    if (!id) return;
+    if (selectedNodeIds.length === 0) return;
+    const ids = new Set(selectedNodeIds);
 
-    setNodes((prev) => prev.filter((n) => n.id !== id));
-    setEdges((prev) => prev.filter((e) => e.from_node_id !== id && e.to_node_id !== id));
-    setSelectedNodeId(null);
-    if (connectFromId === id) setConnectFromId(null);
-    setActionInfo('Nodo eliminado (no olvides Guardar).');
-  }, [selectedNodeId, connectFromId]);
+    recordHistory();
+    setNodes((prev) => prev.filter((n) => !ids.has(n.id)));
+    setEdges((prev) => prev.filter((e) => !ids.has(e.from_node_id) && !ids.has(e.to_node_id)));
+    setSelectedNodeIds([]);
+    if (connectFromId && ids.has(connectFromId)) setConnectFromId(null);
+    setActionInfo(ids.size > 1 ? `${ids.size} nodos eliminados (no olvides Guardar).` : 'Nodo eliminado (no olvides Guardar).');
+  }, [selectedNodeIds, connectFromId, recordHistory]);
 
   const deleteSelectedEdge = useCallback(() => {
     if (!selectedEdgeId) return;
+    recordHistory();
     setEdges((prev) => prev.filter((e) => e.id !== selectedEdgeId));
     setSelectedEdgeId(null);
     setActionInfo('Conexión eliminada (no olvides Guardar).');
-  }, [selectedEdgeId]);
+  }, [selectedEdgeId, recordHistory]);
+
+  // Pega un grupo copiado con ids nuevos, centrado en la vista (desplazado en pegados sucesivos)
+  const pasteClipboard = useCallback(
+    (clip: CanvasClipboard) => {
+      const rect = canvasRef.current?.getBoundingClientRect() ?? null;
+      const v = viewRef.current;
+      const shift = 30 * pasteSeqRef.current;
+      pasteSeqRef.current += 1;
+
+      const centerX = ((rect ? rect.width / 2 : 320) - v.x) / v.scale + shift;
+      const centerY = ((rect ? rect.height / 2 : 240) - v.y) / v.scale + shift;
+
+      const uis = clip.nodes.map((n) => parseNodeUi(n.ui));
+      const minX = Math.min(...uis.map((u) => u.x));
+      const minY = Math.min(...uis.map((u) => u.y));
+      const maxX = Math.max(...uis.map((u) => u.x)) + NODE_W;
+      const maxY = Math.max(...uis.map((u) => u.y)) + NODE_H;
+      const dx = centerX - (minX + maxX) / 2;
+      const dy = centerY - (minY + maxY) / 2;
+
+      const idMap = new Map(clip.nodes.map((n) => [n.id, uuidv4()]));
+      const pasted: NodeVM[] = clip.nodes.map((n, i) => ({
+        id: idMap.get(n.id) as string,
+        type: n.type,
+        name: n.name,
+        config: normalizeNodeConfig(n.type, n.config),
+        ui: { x: uis[i].x + dx, y: uis[i].y + dy },
+      }));
+      const pastedEdges: EdgeVM[] = clip.edges.flatMap((e) => {
+        const from = idMap.get(e.from);
+        const to = idMap.get(e.to);
+        return from && to ? [{ id: uuidv4(), from_node_id: from, to_node_id: to, condition_key: e.conditionKey }] : [];
+      });
+
+      recordHistory();
+      setNodes((prev) => [...prev, ...pasted]);
+      setEdges((prev) => [...prev, ...pastedEdges]);
+      setSelectedNodeIds(pasted.map((n) => n.id));
+      setSelectedEdgeId(null);
+      setActionInfo(`${pasted.length} nodo(s) pegado(s) (no olvides Guardar).`);
+    },
+    [recordHistory]
+  );
+
+  // Auto-layout de izquierda a derecha, manteniendo la esquina superior izquierda del grafo
+  const autoLayout = useCallback(() => {
+    if (nodes.length === 0) return;
+
+    const positions = layoutLeftToRight(
+      nodes.map((n) => ({ id: n.id, type: n.type })),
+      edges.map((e) => ({ from: e.from_node_id, to: e.to_node_id })),
+      {
+        origin: { x: Math.min(...nodes.map((n) => n.ui.x)), y: Math.min(...nodes.map((n) => n.ui.y)) },
+        colGap: LAYOUT_COL_GAP,
+        rowGap: LAYOUT_ROW_GAP,
+      }
+    );
+
+    recordHistory();
+    setNodes((prev) => prev.map((n) => ({ ...n, ui: positions.get(n.id) ?? n.ui })));
+    setActionInfo('Grafo reorganizado (no olvides Guardar).');
+  }, [nodes, edges, recordHistory]);
 
   const updateSelectedTriggerConfig = useCallback(
     (next: TriggerConfig) => {
+      recordHistory(`config:${selectedNodeId}`);
       setNodes((prev) => prev.map((n) => (n.id === selectedNodeId ? { ...n, config: next } : n)));
     },
-    [selectedNodeId]
+    [selectedNodeId, recordHistory]
   );
 
   const updateSelectedActionConfig = useCallback(
     (next: ActionConfig) => {
+      recordHistory(`config:${selectedNodeId}`);
+      setNodes((prev) => prev.map((n) => (n.id === selectedNodeId ? { ...n, config: next } : n)));
+    },
+    [selectedNodeId, recordHistory]
+  );
+
+  const updateSelectedWaitConfig = useCallback(
+    (next: WaitConfig) => {
+      recordHistory(`config:${selectedNodeId}`);
+      setNodes((prev) => prev.map((n) => (n.id === selectedNodeId ? { ...n, config: next } : n)));
+    },
+    [selectedNodeId, recordHistory]
+  );
+
+  const updateSelectedConditionConfig = useCallback(
+    (next: ConditionConfig) => {
+      recordHistory(`config:${selectedNodeId}`);
       setNodes((prev) => prev.map((n) => (n.id === selectedNodeId ? { ...n, config: next } : n)));
     },
-    [selectedNodeId]
+    [selectedNodeId, recordHistory]
+  );
+
+  const updateSelectedEdgeConditionKey = useCallback(
+    (key: string | null) => {
+      recordHistory();
+      setEdges((prev) => prev.map((e) => (e.id === selectedEdgeId ? { ...e, condition_key: key } : e)));
+    },
+    [selectedEdgeId, recordHistory]
   );
 
   const startPan = useCallback((ev: React.MouseEvent<HTMLDivElement>) => {
+    suppressClickRef.current = false;
     const isMiddle = ev.button === 1;
     const isLeft = ev.button === 0;
 
@@ -794,6 +1545,17 @@ export default function AutomationBuilderPage() {
     ev.stopPropagation();
 
     const prev = viewRef.current;
+
+    // Shift + arrastrar en el fondo = selección por recuadro
+    const rect = canvasRef.current?.getBoundingClientRect() ?? null;
+    if (isLeft && ev.shiftKey && rect) {
+      const x = (ev.clientX - rect.left - prev.x) / prev.scale;
+      const y = (ev.clientY - rect.top - prev.y) / prev.scale;
+      marqueeRef.current = { startX: x, startY: y };
+      setMarquee({ x1: x, y1: y, x2: x, y2: y });
+      return;
+    }
+
     panningRef.current = {
       startClientX: ev.clientX,
       startClientY: ev.clientY,
@@ -893,6 +1655,93 @@ export default function AutomationBuilderPage() {
     setView({ x, y, scale });
   }, [nodes]);
 
+  // Atajos: Supr borra la selección, Ctrl/Cmd+Z deshace, Ctrl/Cmd+Shift+Z o Ctrl+Y rehace, Ctrl/Cmd+A selecciona todo
+  useEffect(() => {
+    const onKeyDown = (ev: KeyboardEvent) => {
+      if (ev.key === 'Escape') {
+        setConnectFromId(null);
+        setConnectMode(false);
+        setConnectPreviewWorld(null);
+        setActionMenuOpen(false);
+        return;
+      }
+      if (isEditableTarget(ev.target)) return;
+
+      const mod = ev.ctrlKey || ev.metaKey;
+      const key = ev.key.toLowerCase();
+
+      if (mod && key === 'z') {
+        ev.preventDefault();
+        if (ev.shiftKey) redo();
+        else undo();
+        return;
+      }
+      if (mod && key === 'y') {
+        ev.preventDefault();
+        redo();
+        return;
+      }
+      if (mod && key === 'a') {
+        ev.preventDefault();
+        setSelectedNodeIds(nodes.map((n) => n.id));
+        setSelectedEdgeId(null);
+        return;
+      }
+
+      if (ev.key === 'Delete' || ev.key === 'Backspace') {
+        if (selectedEdgeId) {
+          ev.preventDefault();
+          deleteSelectedEdge();
+        } else if (selectedNodeIds.length > 0) {
+          ev.preventDefault();
+          deleteSelected();
+        }
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [nodes, selectedEdgeId, selectedNodeIds, undo, redo, deleteSelected, deleteSelectedEdge]);
+
+  // Copiar/cortar/pegar nodos con el portapapeles del sistema (sirve entre workflows y pestañas)
+  useEffect(() => {
+    const copySelection = (ev: ClipboardEvent): boolean => {
+      if (isEditableTarget(ev.target) || (window.getSelection()?.toString() ?? '') !== '') return false;
+      const clip = buildClipboard({ nodes, edges }, selectedNodeIds);
+      if (!clip || !ev.clipboardData) return false;
+
+      ev.preventDefault();
+      ev.clipboardData.setData('text/plain', JSON.stringify(clip));
+      pasteSeqRef.current = 0;
+      return true;
+    };
+
+    const onCopy = (ev: ClipboardEvent) => {
+      if (copySelection(ev)) setActionInfo(`${selectedNodeIds.length} nodo(s) copiado(s).`);
+    };
+
+    const onCut = (ev: ClipboardEvent) => {
+      if (copySelection(ev)) deleteSelected();
+    };
+
+    const onPaste = (ev: ClipboardEvent) => {
+      if (isEditableTarget(ev.target)) return;
+      const clip = parseClipboard(ev.clipboardData?.getData('text/plain') ?? '');
+      if (!clip) return;
+
+      ev.preventDefault();
+      pasteClipboard(clip);
+    };
+
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('cut', onCut);
+    document.addEventListener('paste', onPaste);
+    return () => {
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('cut', onCut);
+      document.removeEventListener('paste', onPaste);
+    };
+  }, [nodes, edges, selectedNodeIds, deleteSelected, pasteClipboard]);
+
   const edgesSvg = useMemo((): ReactElement[] => {
     const map = new Map<string, NodeVM>();
     for (const n of nodes) map.set(n.id, n);
@@ -915,6 +1764,17 @@ export default function AutomationBuilderPage() {
       const d = buildNiceCurvePath(x1, y1, x2, y2);
       const isSelected = selectedEdgeId === e.id;
 
+      // Con un run seleccionado: cable recorrido = ambos extremos tienen step
+      const runTo = runHighlight?.get(e.to_node_id);
+      const walked = Boolean(runHighlight?.has(e.from_node_id) && runTo);
+      const stroke = walked
+        ? STEP_TONE_STROKE[stepTone(runTo ?? '')]
+        : isSelected
+          ? 'rgba(99,102,241,0.55)'
+          : runHighlight
+            ? 'rgba(255,255,255,0.08)'
+            : 'rgba(255,255,255,0.18)';
+
       out.push(
         <path
           key={`${e.id}__hit`}
@@ -927,7 +1787,7 @@ export default function AutomationBuilderPage() {
             ev.preventDefault();
             ev.stopPropagation();
             setSelectedEdgeId(e.id);
-            setSelectedNodeId(null);
+            setSelectedNodeIds([]);
             setActionInfo(null);
             setActionError(null);
           }}
@@ -939,13 +1799,37 @@ export default function AutomationBuilderPage() {
           key={e.id}
           d={d}
           fill="none"
-          stroke={isSelected ? 'rgba(99,102,241,0.55)' : 'rgba(255,255,255,0.18)'}
-          strokeWidth={isSelected ? 2.0 : 1.4}
+          stroke={stroke}
+          strokeWidth={isSelected || walked ? 2.0 : 1.4}
           strokeLinecap="round"
           strokeLinejoin="round"
           style={{ pointerEvents: 'none' }}
         />
       );
+
+      // Etiqueta de rama (condition_key) en el punto medio de la curva
+      if (e.condition_key) {
+        const mid = bezierMidpoint(x1, y1, x2, y2);
+        const label = branchLabel(e.condition_key);
+        const w = Math.max(28, label.length * 7 + 14);
+
+        out.push(
+          <g key={`${e.id}__label`} style={{ pointerEvents: 'none' }}>
+            <rect
+              x={mid.x - w / 2}
+              y={mid.y - 10}
+              width={w}
+              height={20}
+              rx={10}
+              fill="rgba(0,0,0,0.65)"
+              stroke={isSelected ? 'rgba(99,102,241,0.55)' : 'rgba(255,255,255,0.18)'}
+            />
+            <text x={mid.x} y={mid.y + 4} textAnchor="middle" fontSize={11} fill="rgba(255,255,255,0.85)">
+              {label}
+            </text>
+          </g>
+        );
+      }
     }
 
     // Preview
@@ -976,7 +1860,7 @@ export default function AutomationBuilderPage() {
     }
 
     return out;
-  }, [nodes, edges, selectedEdgeId, connectMode, connectFromId, connectPreviewWorld]);
+  }, [nodes, edges, selectedEdgeId, connectMode, connectFromId, connectPreviewWorld, runHighlight]);
 
   if (loading) {
     return (
@@ -1032,7 +1916,7 @@ export default function AutomationBuilderPage() {
 
           <button
             type="button"
-            onClick={() => void setWorkflowStatus(wf.status === 'active' ? 'paused' : 'active')}
+            onClick={() => void (wf.status === 'active' ? setWorkflowStatus('paused') : publish())}
             className={cx(
               'inline-flex items-center gap-2 rounded-xl border px-3 py-2 text-sm transition',
               wf.status === 'active'
@@ -1044,6 +1928,41 @@ export default function AutomationBuilderPage() {
             {wf.status === 'active' ? 'Pausar' : 'Activar'}
           </button>
 
+          <button
+            type="button"
+            onClick={() => {
+              setPanelTab('test');
+              setRunHighlight(null);
+            }}
+            className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10"
+            title="Simular el workflow con un lead (sin enviar nada)"
+          >
+            <FlaskConical className="h-4 w-4" />
+            Probar
+          </button>
+
+          <button
+            type="button"
+            onClick={() => void exportJson()}
+            className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10"
+            title="Descargar el workflow como JSON (para importarlo en otro workspace)"
+          >
+            <Download className="h-4 w-4" />
+            Exportar
+          </button>
+
+          {wf.status === 'active' ? (
+            <button
+              type="button"
+              onClick={() => void publish()}
+              className="inline-flex items-center gap-2 rounded-xl border border-indigo-400/25 bg-indigo-500/15 px-3 py-2 text-sm text-white hover:bg-indigo-500/25"
+              title="Guardar y publicar una nueva versión"
+            >
+              <Upload className="h-4 w-4" />
+              Publicar
+            </button>
+          ) : null}
+
           <button
             type="button"
             onClick={() => {
@@ -1111,7 +2030,7 @@ export default function AutomationBuilderPage() {
 
               {actionMenuOpen ? (
                 <div className="absolute left-0 mt-2 w-64 rounded-2xl border border-white/10 bg-black/60 p-2 backdrop-blur">
-                  {(['lead.add_label', 'action.send_email', 'action.send_sms'] as const).map((k) => (
+                  {ACTION_KINDS.map((k) => (
                     <button
                       key={k}
                       type="button"
@@ -1128,10 +2047,57 @@ export default function AutomationBuilderPage() {
                 </div>
               ) : null}
             </div>
+
+            <button
+              type="button"
+              onClick={() => void createNode('wait')}
+              className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+            >
+              <Clock className="h-4 w-4" />
+              Espera
+            </button>
+
+            <button
+              type="button"
+              onClick={() => void createNode('condition')}
+              className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+            >
+              <GitBranch className="h-4 w-4" />
+              Condición
+            </button>
           </div>
 
           {/* Toolbar right */}
           <div className="absolute right-3 top-3 z-20 flex items-center gap-2">
+            <button
+              type="button"
+              onClick={undo}
+              disabled={historySize.undo === 0}
+              className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10 disabled:opacity-40"
+              title="Deshacer (Ctrl+Z)"
+            >
+              <Undo2 className="h-4 w-4" />
+            </button>
+
+            <button
+              type="button"
+              onClick={redo}
+              disabled={historySize.redo === 0}
+              className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10 disabled:opacity-40"
+              title="Rehacer (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="h-4 w-4" />
+            </button>
+
+            <button
+              type="button"
+              onClick={autoLayout}
+              className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+              title="Ordenar automáticamente (izquierda → derecha)"
+            >
+              <Network className="h-4 w-4" />
+            </button>
+
             <button
               type="button"
               onClick={() => zoomBy(1.12)}
@@ -1201,10 +2167,25 @@ export default function AutomationBuilderPage() {
                 {edgesSvg}
               </svg>
 
+              {/* Selección por recuadro */}
+              {marquee ? (
+                <div
+                  className="pointer-events-none absolute rounded-md border border-indigo-300/60 bg-indigo-500/10"
+                  style={{
+                    left: Math.min(marquee.x1, marquee.x2),
+                    top: Math.min(marquee.y1, marquee.y2),
+                    width: Math.abs(marquee.x2 - marquee.x1),
+                    height: Math.abs(marquee.y2 - marquee.y1),
+                  }}
+                />
+              ) : null}
+
               {/* Nodes */}
               {nodes.map((n) => {
-                const isSelected = n.id === selectedNodeId;
+                const isSelected = selectedNodeSet.has(n.id);
                 const isConnectFrom = connectMode && connectFromId === n.id;
+                const runStatus = runHighlight?.get(n.id);
+                const issues = issuesByTarget.get(n.id) ?? [];
 
                 return (
                   <div
@@ -1212,13 +2193,14 @@ export default function AutomationBuilderPage() {
                     data-node=""
                     onClick={(ev) => {
                       ev.stopPropagation();
-                      onNodeClick(n.id);
+                      onNodeClick(n.id, ev.shiftKey);
                     }}
                     style={{ transform: `translate(${n.ui.x}px, ${n.ui.y}px)` }}
                     className={cx(
                       'absolute left-0 top-0 w-[250px] cursor-default select-none rounded-2xl border p-4 shadow-sm transition',
                       isSelected ? 'border-indigo-400/35 bg-indigo-500/15' : 'border-white/10 bg-white/5 hover:bg-white/10',
-                      isConnectFrom ? 'ring-2 ring-indigo-300/50' : null
+                      isConnectFrom ? 'ring-2 ring-indigo-300/50' : null,
+                      runStatus ? STEP_TONE_RING[stepTone(runStatus)] : runHighlight ? 'opacity-40' : null
                     )}
                     role="button"
                     tabIndex={0}
@@ -1229,6 +2211,8 @@ export default function AutomationBuilderPage() {
                         <div className="text-[12px] text-white/50">{nodeSubtitle(n)}</div>
                       </div>
 
+                      {issues.length > 0 ? <IssueBadge issues={issues} /> : null}
+
                       <button
                         type="button"
                         onMouseDown={(ev) => startDragNode(n.id, ev)}
@@ -1265,7 +2249,7 @@ export default function AutomationBuilderPage() {
 
             {/* Hint overlay */}
             <div className="pointer-events-none absolute bottom-3 left-3 rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-[11px] text-white/70">
-              Arrastra el fondo para mover · Rueda para zoom · Click en cable para seleccionar · (Delete) borra cable
+              Arrastra el fondo para mover · Shift+arrastrar selecciona · Rueda para zoom · Ctrl+Z/C/V deshacer, copiar, pegar · (Delete) borra la selección
             </div>
           </div>
         </div>
@@ -1273,9 +2257,26 @@ export default function AutomationBuilderPage() {
         {/* Right panel */}
         <div className="card-glass rounded-2xl border border-white/10 bg-black/20 p-5 backdrop-blur">
           <div className="flex items-center justify-between">
-            <div className="text-white/90 font-medium">Configuración</div>
+            <div className="inline-flex rounded-xl border border-white/10 bg-white/5 p-1">
+              {PANEL_TABS.map((t) => (
+                <button
+                  key={t}
+                  type="button"
+                  onClick={() => {
+                    setPanelTab(t);
+                    setRunHighlight(null);
+                  }}
+                  className={cx(
+                    'rounded-lg px-3 py-1.5 text-sm',
+                    panelTab === t ? 'bg-indigo-500/25 text-white' : 'text-white/70 hover:bg-white/10'
+                  )}
+                >
+                  {PANEL_TAB_LABELS[t]}
+                </button>
+              ))}
+            </div>
 
-            {selectedNode ? (
+            {panelTab !== 'config' ? null : selectedNodeIds.length > 0 ? (
               <button
                 type="button"
                 onClick={deleteSelected}
@@ -1298,18 +2299,55 @@ export default function AutomationBuilderPage() {
             ) : null}
           </div>
 
-          {selectedEdge ? (
+          {panelTab === 'runs' ? <RunsPanel workflowId={workflowId} nodeNames={nodeNames} onHighlight={setRunHighlight} /> : null}
+          {panelTab === 'versions' ? <VersionsPanel workflowId={workflowId} onRolledBack={() => void load()} /> : null}
+          {panelTab === 'test' ? <TestPanel workflowId={workflowId} nodes={nodes} edges={edges} onHighlight={setRunHighlight} /> : null}
+          {panelTab === 'settings' && wf ? (
+            <SettingsPanel
+              workflowId={workflowId}
+              settings={wf.settings}
+              onSaved={(settings) => setWf((prev) => (prev ? { ...prev, settings } : prev))}
+            />
+          ) : null}
+
+          {panelTab !== 'config' ? null : selectedEdge ? (
             <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-3">
               <div className="text-sm font-medium text-white/85">Conexión</div>
               <div className="mt-2 text-xs text-white/60">
                 {selectedEdge.from_node_id} → {selectedEdge.to_node_id}
               </div>
+              {selectedEdgeSource?.type === 'condition' ? (
+                <div className="mt-3">
+                  <label className="text-xs text-white/60">Rama</label>
+                  <select
+                    value={selectedEdge.condition_key ?? ''}
+                    onChange={(e) => updateSelectedEdgeConditionKey(e.target.value || null)}
+                    className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+                  >
+                    <option value="">— sin rama (no se sigue) —</option>
+                    {conditionBranchKeys(asConditionConfig(selectedEdgeSource.config)).map((k) => (
+                      <option key={k} value={k}>
+                        {branchLabel(k)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : null}
+              <IssueList issues={issuesByTarget.get(selectedEdge.id) ?? []} />
               <div className="mt-2 text-[11px] text-white/55">Pulsa Guardar para persistir.</div>
             </div>
           ) : null}
 
-          {selectedNode ? (
+          {panelTab === 'config' && graphIssues.length > 0 ? (
+            <div className="mt-4">
+              <IssueList issues={graphIssues} />
+            </div>
+          ) : null}
+
+          {panelTab !== 'config' ? null : selectedNode ? (
             <div className="mt-4 space-y-4">
+              <IssueList issues={issuesByTarget.get(selectedNode.id) ?? []} />
+
               <div>
                 <label className="text-xs text-white/60">Nombre</label>
                 <input
@@ -1325,17 +2363,30 @@ export default function AutomationBuilderPage() {
               </div>
 
               {selectedNode.type === 'trigger' ? (
-                <TriggerEditor config={asTriggerConfig(selectedNode.config)} onChange={(next) => updateSelectedTriggerConfig(next)} />
+                <TriggerEditor key={selectedNode.id} config={asTriggerConfig(selectedNode.config)} onChange={(next) => updateSelectedTriggerConfig(next)} />
               ) : null}
 
               {selectedNode.type === 'action' ? (
                 <ActionEditor config={asActionConfig(selectedNode.config)} onChange={(next) => updateSelectedActionConfig(next)} />
               ) : null}
 
+              {selectedNode.type === 'wait' ? (
+                <WaitEditor config={asWaitConfig(selectedNode.config)} onChange={(next) => updateSelectedWaitConfig(next)} />
+              ) : null}
+
+              {selectedNode.type === 'condition' ? (
+                <ConditionEditor config={asConditionConfig(selectedNode.config)} onChange={(next) => updateSelectedConditionConfig(next)} />
+              ) : null}
+
               <div className="text-xs text-white/55">
                 Recuerda pulsar <span className="text-white/75">Guardar</span> para persistir cambios.
               </div>
             </div>
+          ) : selectedNodeIds.length > 1 ? (
+            <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-3 text-sm text-white/75">
+              {selectedNodeIds.length} nodos seleccionados. Arrástralos juntos, cópialos (Ctrl+C) para pegarlos aquí o en otro workflow, o
+              elimínalos.
+            </div>
           ) : !selectedEdge ? (
             <div className="mt-4 text-sm text-white/60">Selecciona un nodo (o una conexión) para editar.</div>
           ) : null}
@@ -1345,9 +2396,49 @@ export default function AutomationBuilderPage() {
   );
 }
 
+/* ------------------ Validación ------------------ */
+
+function IssueBadge(props: { issues: GraphIssueVM[] }) {
+  const errors = props.issues.filter((i) => i.level === 'error').length;
+  const tone = errors > 0 ? 'border-red-400/40 bg-red-500/20 text-red-100' : 'border-amber-400/40 bg-amber-500/20 text-amber-100';
+
+  return (
+    <div
+      className={cx('inline-flex shrink-0 items-center gap-1 rounded-lg border px-1.5 py-1 text-[11px]', tone)}
+      title={props.issues.map((i) => i.message).join('\n')}
+    >
+      <AlertTriangle className="h-3.5 w-3.5" />
+      {errors > 0 ? errors : props.issues.length}
+    </div>
+  );
+}
+
+function IssueList(props: { issues: GraphIssueVM[] }) {
+  if (props.issues.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5">
+      {props.issues.map((i, idx) => (
+        <div
+          key={`${i.code}-${idx}`}
+          className={cx(
+            'flex items-start gap-2 rounded-xl border px-3 py-2 text-xs',
+            i.level === 'error' ? 'border-red-400/30 bg-red-500/10 text-red-100' : 'border-amber-400/30 bg-amber-500/10 text-amber-100'
+          )}
+        >
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <span>{i.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 /* ------------------ Editors ------------------ */
 
 function TriggerEditor(props: { config: TriggerConfig; onChange: (next: TriggerConfig) => void }) {
+  const c = props.config;
+
   return (
     <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
       <div className="text-sm font-medium text-white/85">Trigger</div>
@@ -1355,23 +2446,148 @@ function TriggerEditor(props: { config: TriggerConfig; onChange: (next: TriggerC
       <div className="mt-3">
         <label className="text-xs text-white/60">Evento</label>
         <select
-          value={props.config.event}
-          onChange={() => props.onChange({ ...props.config, event: 'lead.stage_changed' })}
+          value={c.event}
+          onChange={(e) => props.onChange(defaultTriggerConfig(e.target.value))}
           className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
         >
           <option value="lead.stage_changed">Lead movido de stage</option>
+          <option value="lead.created">Lead nuevo</option>
+          <option value="lead.stage_idle">Lead parado en un stage</option>
+          <option value="lead.status_changed">Cambio de status</option>
+          <option value="lead.label_added">Etiqueta añadida</option>
+          <option value="lead.label_removed">Etiqueta quitada</option>
+          <option value="lead.field_updated">Campo del lead actualizado</option>
         </select>
       </div>
 
-      <div className="mt-3">
-        <label className="text-xs text-white/60">Solo si entra a Stage ID (opcional)</label>
-        <input
-          value={props.config.toStageId ?? ''}
-          onChange={(e) => props.onChange({ ...props.config, toStageId: e.target.value.trim() || undefined })}
-          placeholder="stage_uuid (opcional)"
-          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
-        />
-      </div>
+      {c.event === 'lead.status_changed' ? (
+        <div className="mt-3">
+          <label className="text-xs text-white/60">Solo si pasa a status (opcional)</label>
+          <input
+            value={c.status ?? ''}
+            onChange={(e) => props.onChange({ ...c, status: e.target.value.trim() || undefined })}
+            placeholder="hot"
+            className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+          />
+        </div>
+      ) : null}
+
+      {c.event === 'lead.label_added' || c.event === 'lead.label_removed' ? (
+        <div className="mt-3">
+          <label className="text-xs text-white/60">Solo la etiqueta (opcional)</label>
+          <input
+            value={c.label ?? ''}
+            onChange={(e) => props.onChange({ ...c, label: e.target.value.trim() || undefined })}
+            placeholder="hot"
+            className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+          />
+        </div>
+      ) : null}
+
+      {c.event === 'lead.field_updated' ? (
+        <div className="mt-3">
+          <label className="text-xs text-white/60">Campo</label>
+          <select
+            value={c.field ?? ''}
+            onChange={(e) => props.onChange({ ...c, field: e.target.value || undefined })}
+            className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+          >
+            <option value="">Cualquier campo</option>
+            {LEAD_EDITABLE_FIELDS.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+          <div className="mt-2 text-[11px] text-white/55">
+            El evento lleva el valor anterior y el nuevo: {'{{context.event.payload.before}}'} / {'{{context.event.payload.after}}'}.
+          </div>
+        </div>
+      ) : null}
+
+      {c.event === 'lead.stage_idle' ? (
+        <>
+          <div className="mt-3">
+            <label className="text-xs text-white/60">Stage ID</label>
+            <input
+              value={c.stageId ?? ''}
+              onChange={(e) => props.onChange({ ...c, stageId: e.target.value.trim() || undefined })}
+              placeholder="stage_uuid"
+              className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+            />
+          </div>
+          <div className="mt-3 grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-white/60">Sin moverse durante</label>
+              <input
+                type="number"
+                min={1}
+                value={c.amount ?? 0}
+                onChange={(e) => props.onChange({ ...c, amount: Math.max(0, Number(e.target.value) || 0) })}
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-white/60">Unidad</label>
+              <select
+                value={c.unit ?? 'days'}
+                onChange={(e) => props.onChange({ ...c, unit: e.target.value === 'hours' ? 'hours' : 'days' })}
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+              >
+                <option value="hours">Horas</option>
+                <option value="days">Días</option>
+              </select>
+            </div>
+          </div>
+          <div className="mt-2 text-[11px] text-white/55">Se dispara una vez por visita al stage; se revisa cada 15 min.</div>
+        </>
+      ) : null}
+
+      {c.event === 'lead.stage_changed' ? (
+        <div className="mt-3">
+          <label className="text-xs text-white/60">Solo si entra a Stage ID (opcional)</label>
+          <input
+            value={c.toStageId ?? ''}
+            onChange={(e) => props.onChange({ ...c, toStageId: e.target.value.trim() || undefined })}
+            placeholder="stage_uuid (opcional)"
+            className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+          />
+        </div>
+      ) : c.event === 'lead.created' ? (
+        <>
+          <IdListField
+            label="Solo páginas de Meta (IDs, opcional)"
+            value={c.pageIds}
+            onChange={(pageIds) => props.onChange({ ...c, pageIds })}
+          />
+          <IdListField
+            label="Solo formularios de Meta (IDs, opcional)"
+            value={c.formIds}
+            onChange={(formIds) => props.onChange({ ...c, formIds })}
+          />
+          <div className="mt-2 text-[11px] text-white/55">Vacío = cualquier página / formulario. Separa varios IDs con comas.</div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function IdListField(props: { label: string; value: string[] | undefined; onChange: (next: string[] | undefined) => void }) {
+  // Texto local para no perder la coma mientras se escribe
+  const [text, setText] = useState<string>((props.value ?? []).join(', '));
+
+  return (
+    <div className="mt-3">
+      <label className="text-xs text-white/60">{props.label}</label>
+      <input
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          props.onChange(asIdList(e.target.value.split(',')));
+        }}
+        placeholder="123456789, 987654321"
+        className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+      />
     </div>
   );
 }
@@ -1394,19 +2610,34 @@ function ActionEditor(props: { config: ActionConfig; onChange: (next: ActionConf
           className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
         >
           <option value="lead.add_label">Añadir etiqueta (label)</option>
+          <option value="lead.remove_label">Quitar etiqueta (label)</option>
+          <option value="lead.set_status">Cambiar status</option>
+          <option value="lead.move_stage">Mover a un stage</option>
+          <option value="lead.set_field">Actualizar campo del lead</option>
+          <option value="lead.add_note">Añadir nota</option>
           <option value="action.send_email">Enviar Email</option>
           <option value="action.send_sms">Enviar SMS</option>
+          <option value="action.http_request">Petición HTTP (webhook)</option>
+          <option value="action.notify_team">Notificar al equipo</option>
+          <option value="action.create_task">Crear tarea de seguimiento</option>
         </select>
       </div>
 
-      {c.action === 'lead.add_label' ? <ActionAddLabelFields config={c} onChange={props.onChange} /> : null}
+      {c.action === 'lead.add_label' || c.action === 'lead.remove_label' ? <ActionAddLabelFields config={c} onChange={props.onChange} /> : null}
+      {c.action === 'lead.set_status' ? <ActionSetStatusFields config={c} onChange={props.onChange} /> : null}
+      {c.action === 'lead.move_stage' ? <ActionMoveStageFields config={c} onChange={props.onChange} /> : null}
+      {c.action === 'lead.set_field' ? <ActionSetFieldFields config={c} onChange={props.onChange} /> : null}
+      {c.action === 'lead.add_note' ? <ActionAddNoteFields config={c} onChange={props.onChange} /> : null}
       {c.action === 'action.send_email' ? <ActionSendEmailFields config={c} onChange={props.onChange} /> : null}
       {c.action === 'action.send_sms' ? <ActionSendSmsFields config={c} onChange={props.onChange} /> : null}
+      {c.action === 'action.http_request' ? <ActionHttpRequestFields config={c} onChange={props.onChange} /> : null}
+      {c.action === 'action.notify_team' ? <ActionNotifyTeamFields config={c} onChange={props.onChange} /> : null}
+      {c.action === 'action.create_task' ? <ActionCreateTaskFields config={c} onChange={props.onChange} /> : null}
     </div>
   );
 }
 
-function ActionAddLabelFields(props: { config: ActionAddLabelConfig; onChange: (next: ActionConfig) => void }) {
+function ActionAddLabelFields(props: { config: ActionAddLabelConfig | ActionRemoveLabelConfig; onChange: (next: ActionConfig) => void }) {
   return (
     <div className="mt-3">
       <label className="text-xs text-white/60">Label</label>
@@ -1416,6 +2647,94 @@ function ActionAddLabelFields(props: { config: ActionAddLabelConfig; onChange: (
         placeholder="Ej: Movido a Contactado"
         className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
       />
+      <div className="mt-2 text-[11px] text-white/55">Sin distinguir mayúsculas. Si el lead ya está así, el paso no cambia nada.</div>
+    </div>
+  );
+}
+
+function ActionSetStatusFields(props: { config: ActionSetStatusConfig; onChange: (next: ActionConfig) => void }) {
+  return (
+    <div className="mt-3">
+      <label className="text-xs text-white/60">Nuevo status</label>
+      <select
+        value={props.config.status}
+        onChange={(e) => props.onChange({ ...props.config, status: e.target.value })}
+        className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+      >
+        {LEAD_STATUSES.map((st) => (
+          <option key={st} value={st}>
+            {st}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function ActionMoveStageFields(props: { config: ActionMoveStageConfig; onChange: (next: ActionConfig) => void }) {
+  return (
+    <div className="mt-3 space-y-3">
+      <div>
+        <label className="text-xs text-white/60">Stage ID destino</label>
+        <input
+          value={props.config.stageId}
+          onChange={(e) => props.onChange({ ...props.config, stageId: e.target.value.trim() })}
+          placeholder="stage_uuid"
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        />
+      </div>
+      <div>
+        <label className="text-xs text-white/60">Pipeline ID (opcional)</label>
+        <input
+          value={props.config.pipelineId}
+          onChange={(e) => props.onChange({ ...props.config, pipelineId: e.target.value.trim() })}
+          placeholder="vacío = pipeline del evento"
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        />
+      </div>
+      <div className="text-[11px] text-white/55">El lead queda el primero del stage y se emite lead.stage_changed.</div>
+    </div>
+  );
+}
+
+function ActionSetFieldFields(props: { config: ActionSetFieldConfig; onChange: (next: ActionConfig) => void }) {
+  return (
+    <div className="mt-3 space-y-3">
+      <div>
+        <label className="text-xs text-white/60">Campo (columna del lead)</label>
+        <input
+          value={props.config.field}
+          onChange={(e) => props.onChange({ ...props.config, field: e.target.value.trim() })}
+          placeholder="profession"
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        />
+      </div>
+      <div>
+        <label className="text-xs text-white/60">Valor</label>
+        <input
+          value={props.config.value}
+          onChange={(e) => props.onChange({ ...props.config, value: e.target.value })}
+          placeholder='{{form_answers.profesion | default:""}}'
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        />
+      </div>
+      <div className="text-[11px] text-white/55">Vacío = borra el valor. Etiquetas y notas tienen su propia acción.</div>
+    </div>
+  );
+}
+
+function ActionAddNoteFields(props: { config: ActionAddNoteConfig; onChange: (next: ActionConfig) => void }) {
+  return (
+    <div className="mt-3">
+      <label className="text-xs text-white/60">Nota</label>
+      <textarea
+        value={props.config.note}
+        onChange={(e) => props.onChange({ ...props.config, note: e.target.value })}
+        placeholder="Llamar a {{lead.full_name}}: lleva 3 días en {{stage.name}}"
+        rows={4}
+        className="mt-1 w-full resize-y rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+      />
+      <div className="mt-2 text-[11px] text-white/55">Se añade al final de las notas del lead, con fecha.</div>
     </div>
   );
 }
@@ -1423,7 +2742,10 @@ function ActionAddLabelFields(props: { config: ActionAddLabelConfig; onChange: (
 function ActionSendEmailFields(props: { config: ActionSendEmailConfig; onChange: (next: ActionConfig) => void }) {
   return (
     <div className="mt-3 space-y-3">
-      <div className="text-[11px] text-white/55">Tip: usa variables como {'{{lead.email}}'} o {'{{lead.first_name}}'}.</div>
+      <div className="text-[11px] text-white/55">
+        Tip: usa variables como {'{{lead.email}}'}, {'{{lead.first_name | default:"hola"}}'}, {'{{stage.name}}'} o{' '}
+        {'{{lead.created_at | date:"dd/MM/yyyy"}}'}.
+      </div>
 
       <div>
         <label className="text-xs text-white/60">To</label>
@@ -1455,35 +2777,1703 @@ function ActionSendEmailFields(props: { config: ActionSendEmailConfig; onChange:
           className="mt-1 w-full resize-y rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
         />
       </div>
+
+      <TemplatePreview templates={{ to: props.config.to, subject: props.config.subject, body: props.config.body }} />
     </div>
   );
 }
 
-function ActionSendSmsFields(props: { config: ActionSendSmsConfig; onChange: (next: ActionConfig) => void }) {
+type PreviewField = { text: string; missing: string[]; errors: string[] };
+
+type PreviewResponse =
+  | { ok: true; lead: { id: string; full_name: string | null }; rendered: Record<string, PreviewField> }
+  | { ok: false; error: string; detail?: string };
+
+const PREVIEW_LABELS: Record<string, string> = { to: 'To', subject: 'Subject', body: 'Body', url: 'URL', title: 'Título', message: 'Mensaje', notes: 'Notas' };
+
+function TemplatePreview(props: { templates: Record<string, string> }) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<Extract<PreviewResponse, { ok: true }> | null>(null);
+
+  const run = async (): Promise<void> => {
+    setBusy(true);
+    setError(null);
+
+    const ws = await getActiveWorkspaceId();
+    const { data: sess } = await supabase.auth.getSession();
+    const token = sess.session?.access_token;
+
+    if (!ws || !token) {
+      setError(!ws ? 'missing_workspace' : 'login_required');
+      setBusy(false);
+      return;
+    }
+
+    const res = await fetch('/api/automations/templates/preview', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'x-workspace-id': ws,
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify({ templates: props.templates }),
+    });
+
+    const j = (await res.json()) as PreviewResponse;
+    if (!j.ok) {
+      setError(j.error === 'no_leads' ? 'No hay leads en el workspace para previsualizar.' : (j.detail ?? j.error));
+      setResult(null);
+    } else {
+      setResult(j);
+    }
+    setBusy(false);
+  };
+
   return (
-    <div className="mt-3 space-y-3">
-      <div className="text-[11px] text-white/55">Tip: SMS recomendado 160–300 caracteres. Variables: {'{{lead.phone}}'}.</div>
+    <div className="rounded-xl border border-white/10 bg-black/20 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs text-white/60">
+          Vista previa{result ? ` · ${result.lead.full_name ?? result.lead.id}` : ' con el último lead'}
+        </div>
+        <button
+          type="button"
+          onClick={() => void run()}
+          disabled={busy}
+          className="rounded-xl border border-white/10 bg-white/5 px-2.5 py-2 text-[11px] text-white/70 hover:bg-white/10 disabled:opacity-50"
+        >
+          {busy ? 'Cargando…' : 'Previsualizar'}
+        </button>
+      </div>
+
+      {error ? <div className="mt-2 rounded-xl border border-red-400/30 bg-red-500/10 p-2 text-xs text-white/80">{error}</div> : null}
+
+      {result ? (
+        <div className="mt-2 space-y-2">
+          {Object.entries(result.rendered).map(([key, f]) => (
+            <div key={key}>
+              <div className="text-[11px] text-white/50">{PREVIEW_LABELS[key] ?? key}</div>
+              <div className="whitespace-pre-wrap break-words text-xs text-white/85">{f.text || '—'}</div>
+              {f.missing.length > 0 ? (
+                <div className="mt-1 text-[11px] text-amber-300/90">Sin valor: {f.missing.join(', ')} (el step fallará)</div>
+              ) : null}
+              {f.errors.length > 0 ? <div className="mt-1 text-[11px] text-red-300/90">{f.errors.join(', ')}</div> : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+type MemberVM = { userId: string; role: string; email: string | null; name: string | null };
+
+type MembersResponse = { ok: true; members: MemberVM[] } | { ok: false; error: string; detail?: string };
+
+/** Miembros del workspace para los selectores de las acciones de equipo. */
+function useWorkspaceMembers(): { members: MemberVM[]; error: string | null } {
+  const [members, setMembers] = useState<MemberVM[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    async function run() {
+      const headers = await panelAuthHeaders();
+      if (!alive) return;
+      if (typeof headers === 'string') {
+        setError(headers);
+        return;
+      }
+
+      const res = await fetch('/api/automations/members/list', { headers, cache: 'no-store' });
+      const j = (await res.json()) as MembersResponse;
+      if (!alive) return;
+
+      if (!j.ok) setError(j.detail ?? j.error);
+      else setMembers(j.members);
+    }
+
+    void run();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  return { members, error };
+}
+
+function memberLabel(m: MemberVM): string {
+  return m.name ? `${m.name}${m.email ? ` (${m.email})` : ''}` : (m.email ?? m.userId);
+}
+
+function ActionNotifyTeamFields(props: { config: ActionNotifyTeamConfig; onChange: (next: ActionConfig) => void }) {
+  const c = props.config;
+  const { members, error } = useWorkspaceMembers();
+  const known = new Set(members.map((m) => m.userId));
+
+  const toggle = (userId: string) => {
+    const userIds = c.userIds.includes(userId) ? c.userIds.filter((x) => x !== userId) : [...c.userIds, userId];
+    props.onChange({ ...c, userIds });
+  };
 
+  return (
+    <div className="mt-3 space-y-3">
       <div>
-        <label className="text-xs text-white/60">To</label>
+        <label className="text-xs text-white/60">Título</label>
         <input
-          value={props.config.to}
-          onChange={(e) => props.onChange({ ...props.config, to: e.target.value })}
-          placeholder="{{lead.phone}}"
+          value={c.title}
+          onChange={(e) => props.onChange({ ...c, title: e.target.value })}
+          placeholder="Lead caliente: {{lead.full_name}}"
           className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
         />
       </div>
 
       <div>
-        <label className="text-xs text-white/60">Body</label>
+        <label className="text-xs text-white/60">Mensaje</label>
         <textarea
-          value={props.config.body}
-          onChange={(e) => props.onChange({ ...props.config, body: e.target.value })}
-          placeholder="Hola {{lead.first_name}}…"
-          rows={6}
+          value={c.message}
+          onChange={(e) => props.onChange({ ...c, message: e.target.value })}
+          placeholder='{{lead.phone}} · llegó desde {{lead.source | default:"web"}}'
+          rows={3}
           className="mt-1 w-full resize-y rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
         />
       </div>
-    </div>
-  );
-}
\ No newline at end of file
+
+      <div>
+        <label className="text-xs text-white/60">Tipo (kind)</label>
+        <input
+          value={c.kind}
+          onChange={(e) => props.onChange({ ...c, kind: e.target.value.trim() })}
+          placeholder="workflow"
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-white/60">Destinatarios</label>
+        <div className="mt-1 space-y-1 rounded-xl border border-white/10 bg-black/20 p-2">
+          {members.map((m) => (
+            <label key={m.userId} className="flex items-center gap-2 text-xs text-white/80">
+              <input type="checkbox" checked={c.userIds.includes(m.userId)} onChange={() => toggle(m.userId)} />
+              {memberLabel(m)}
+            </label>
+          ))}
+          {c.userIds
+            .filter((id) => members.length > 0 && !known.has(id))
+            .map((id) => (
+              <label key={id} className="flex items-center gap-2 text-xs text-amber-200/90">
+                <input type="checkbox" checked onChange={() => toggle(id)} />
+                {id} (ya no es miembro)
+              </label>
+            ))}
+          {error ? <div className="text-[11px] text-red-300/90">{error}</div> : null}
+        </div>
+        <div className="mt-1 text-[11px] text-white/55">Sin ninguno marcado, la notificación es para todo el equipo.</div>
+      </div>
+
+      <TemplatePreview templates={{ title: c.title, message: c.message }} />
+    </div>
+  );
+}
+
+const DUE_UNIT_LABELS: Record<TaskDueUnit, string> = { minutes: 'minutos', hours: 'horas', days: 'días' };
+
+function ActionCreateTaskFields(props: { config: ActionCreateTaskConfig; onChange: (next: ActionConfig) => void }) {
+  const c = props.config;
+  const { members, error } = useWorkspaceMembers();
+
+  return (
+    <div className="mt-3 space-y-3">
+      <div>
+        <label className="text-xs text-white/60">Asignar a</label>
+        <select
+          value={c.assigneeId}
+          onChange={(e) => props.onChange({ ...c, assigneeId: e.target.value })}
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        >
+          <option value="">— elige un miembro —</option>
+          {members.map((m) => (
+            <option key={m.userId} value={m.userId}>
+              {memberLabel(m)}
+            </option>
+          ))}
+          {c.assigneeId && members.length > 0 && !members.some((m) => m.userId === c.assigneeId) ? (
+            <option value={c.assigneeId}>{c.assigneeId} (ya no es miembro)</option>
+          ) : null}
+        </select>
+        {error ? <div className="mt-1 text-[11px] text-red-300/90">{error}</div> : null}
+      </div>
+
+      <div>
+        <label className="text-xs text-white/60">Título</label>
+        <input
+          value={c.title}
+          onChange={(e) => props.onChange({ ...c, title: e.target.value })}
+          placeholder="Llamar a {{lead.full_name}}"
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-white/60">Notas</label>
+        <textarea
+          value={c.notes}
+          onChange={(e) => props.onChange({ ...c, notes: e.target.value })}
+          placeholder='Interesado en {{form_answers.servicio | default:"-"}}'
+          rows={3}
+          className="mt-1 w-full resize-y rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-white/60">Vence en</label>
+        <div className="mt-1 flex gap-2">
+          <input
+            type="number"
+            min={0}
+            value={c.dueAmount}
+            onChange={(e) => props.onChange({ ...c, dueAmount: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-24 rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+          />
+          <select
+            value={c.dueUnit}
+            onChange={(e) => props.onChange({ ...c, dueUnit: e.target.value as TaskDueUnit })}
+            className="flex-1 rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+          >
+            {(Object.keys(DUE_UNIT_LABELS) as TaskDueUnit[]).map((u) => (
+              <option key={u} value={u}>
+                {DUE_UNIT_LABELS[u]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-1 text-[11px] text-white/55">Contado desde que el workflow llega a este paso.</div>
+      </div>
+
+      <TemplatePreview templates={{ title: c.title, notes: c.notes }} />
+    </div>
+  );
+}
+
+function ActionSendSmsFields(props: { config: ActionSendSmsConfig; onChange: (next: ActionConfig) => void }) {
+  return (
+    <div className="mt-3 space-y-3">
+      <div className="text-[11px] text-white/55">Tip: SMS recomendado 160–300 caracteres. Variables: {'{{lead.phone}}'}.</div>
+
+      <div>
+        <label className="text-xs text-white/60">To</label>
+        <input
+          value={props.config.to}
+          onChange={(e) => props.onChange({ ...props.config, to: e.target.value })}
+          placeholder="{{lead.phone}}"
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        />
+      </div>
+
+      <div>
+        <label className="text-xs text-white/60">Body</label>
+        <textarea
+          value={props.config.body}
+          onChange={(e) => props.onChange({ ...props.config, body: e.target.value })}
+          placeholder="Hola {{lead.first_name}}…"
+          rows={6}
+          className="mt-1 w-full resize-y rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        />
+      </div>
+    </div>
+  );
+}
+
+function ActionHttpRequestFields(props: { config: ActionHttpRequestConfig; onChange: (next: ActionConfig) => void }) {
+  const c = props.config;
+  const inputCls =
+    'mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40';
+
+  const setHeader = (idx: number, patch: Partial<{ key: string; value: string }>) =>
+    props.onChange({ ...c, headers: c.headers.map((h, i) => (i === idx ? { ...h, ...patch } : h)) });
+
+  return (
+    <div className="mt-3 space-y-3">
+      <div className="grid grid-cols-[90px_1fr] gap-2">
+        <div>
+          <label className="text-xs text-white/60">Método</label>
+          <select value={c.method} onChange={(e) => props.onChange({ ...c, method: e.target.value as HttpMethod })} className={inputCls}>
+            {HTTP_METHODS.map((m) => (
+              <option key={m} value={m}>
+                {m}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-white/60">URL</label>
+          <input value={c.url} onChange={(e) => props.onChange({ ...c, url: e.target.value })} placeholder="https://api.example.com/leads" className={inputCls} />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-white/60">Cabeceras</label>
+          <button
+            type="button"
+            onClick={() => props.onChange({ ...c, headers: [...c.headers, { key: '', value: '' }] })}
+            className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-[11px] text-white/70 hover:bg-white/10"
+          >
+            + Añadir
+          </button>
+        </div>
+        {c.headers.map((h, idx) => (
+          <div key={idx} className="mt-1 flex items-center gap-2">
+            <input value={h.key} onChange={(e) => setHeader(idx, { key: e.target.value })} placeholder="Authorization" className={inputCls} />
+            <input value={h.value} onChange={(e) => setHeader(idx, { value: e.target.value })} placeholder="Bearer …" className={inputCls} />
+            <button
+              type="button"
+              onClick={() => props.onChange({ ...c, headers: c.headers.filter((_, i) => i !== idx) })}
+              className="mt-1 rounded-lg p-1.5 text-white/60 hover:bg-white/10"
+              title="Quitar cabecera"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {c.method !== 'GET' ? (
+        <div>
+          <label className="text-xs text-white/60">Cuerpo (JSON)</label>
+          <textarea
+            value={c.body}
+            onChange={(e) => props.onChange({ ...c, body: e.target.value })}
+            rows={7}
+            className="mt-1 w-full resize-y rounded-xl border border-white/10 bg-black/30 px-3 py-2 font-mono text-xs text-white outline-none focus:border-indigo-400/40"
+          />
+          <div className="mt-1 text-[11px] text-white/55">
+            Usa el filtro <span className="text-white/75">json</span> para insertar valores: {'{{lead.full_name | json}}'}.
+          </div>
+        </div>
+      ) : null}
+
+      <label className="flex items-center gap-2 text-xs text-white/70">
+        <input type="checkbox" checked={c.sign} onChange={(e) => props.onChange({ ...c, sign: e.target.checked })} />
+        Firmar con HMAC-SHA256 (cabecera X-Kalue-Signature)
+      </label>
+      {c.sign ? (
+        <div className="text-[11px] text-white/55">
+          El secreto del workspace se gestiona en <span className="text-white/75">Automatizaciones → Proveedores</span>.
+        </div>
+      ) : null}
+
+      <TemplatePreview templates={c.method !== 'GET' ? { url: c.url, body: c.body } : { url: c.url }} />
+    </div>
+  );
+}
+
+function WaitEditor(props: { config: WaitConfig; onChange: (next: WaitConfig) => void }) {
+  const c = props.config;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="text-sm font-medium text-white/85">Espera</div>
+
+      <div className="mt-3">
+        <label className="text-xs text-white/60">Modo</label>
+        <select
+          value={c.mode}
+          onChange={(e) => props.onChange(defaultWaitConfig(e.target.value as WaitMode))}
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        >
+          <option value="duration">Durante un tiempo</option>
+          <option value="until_time">Hasta día/hora</option>
+          <option value="until_field">Hasta una fecha del lead</option>
+        </select>
+      </div>
+
+      {c.mode === 'duration' ? (
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-white/60">Cantidad</label>
+            <input
+              type="number"
+              min={0}
+              value={c.amount}
+              onChange={(e) => props.onChange({ ...c, amount: Math.max(0, Number(e.target.value) || 0) })}
+              className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-white/60">Unidad</label>
+            <WaitUnitSelect value={c.unit} onChange={(unit) => props.onChange({ ...c, unit })} />
+          </div>
+        </div>
+      ) : null}
+
+      {c.mode === 'until_time' ? (
+        <div className="mt-3 space-y-3">
+          <div>
+            <label className="text-xs text-white/60">Días (ninguno = cualquier día)</label>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, d) => {
+                const on = c.weekdays.includes(d);
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() =>
+                      props.onChange({
+                        ...c,
+                        weekdays: on ? c.weekdays.filter((x) => x !== d) : [...c.weekdays, d].sort((a, b) => a - b),
+                      })
+                    }
+                    className={cx(
+                      'rounded-lg border px-2 py-1 text-xs',
+                      on ? 'border-indigo-400/35 bg-indigo-500/20 text-white' : 'border-white/10 bg-black/30 text-white/60'
+                    )}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-white/60">Hora</label>
+              <input
+                type="time"
+                value={c.time}
+                onChange={(e) => props.onChange({ ...c, time: e.target.value || '09:00' })}
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-white/60">Zona horaria</label>
+              <input
+                value={c.timezone}
+                onChange={(e) => props.onChange({ ...c, timezone: e.target.value })}
+                placeholder="Europe/Madrid"
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+              />
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {c.mode === 'until_field' ? (
+        <div className="mt-3 space-y-3">
+          <div>
+            <label className="text-xs text-white/60">Campo fecha del lead</label>
+            <input
+              value={c.field}
+              onChange={(e) => props.onChange({ ...c, field: e.target.value.trim() })}
+              placeholder="created_at o form_answers.fecha_cita"
+              className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-white/60">Desfase (negativo = antes)</label>
+              <input
+                type="number"
+                value={c.offsetAmount}
+                onChange={(e) => props.onChange({ ...c, offsetAmount: Number(e.target.value) || 0 })}
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-white/60">Unidad</label>
+              <WaitUnitSelect value={c.offsetUnit} onChange={(offsetUnit) => props.onChange({ ...c, offsetUnit })} />
+            </div>
+          </div>
+
+          <div className="text-[11px] text-white/55">Si la fecha ya pasó, el workflow continúa de inmediato.</div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function WaitUnitSelect(props: { value: WaitUnit; onChange: (next: WaitUnit) => void }) {
+  return (
+    <select
+      value={props.value}
+      onChange={(e) => props.onChange(asUnit(e.target.value))}
+      className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+    >
+      <option value="minutes">Minutos</option>
+      <option value="hours">Horas</option>
+      <option value="days">Días</option>
+    </select>
+  );
+}
+
+function ConditionEditor(props: { config: ConditionConfig; onChange: (next: ConditionConfig) => void }) {
+  const c = props.config;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+      <div className="text-sm font-medium text-white/85">Condición</div>
+
+      <div className="mt-3">
+        <label className="text-xs text-white/60">Tipo</label>
+        <select
+          value={c.mode}
+          onChange={(e) => props.onChange(defaultConditionConfig(e.target.value === 'switch' ? 'switch' : 'if'))}
+          className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+        >
+          <option value="if">Si / si no</option>
+          <option value="switch">Switch (varias ramas)</option>
+        </select>
+      </div>
+
+      <div className="mt-2 text-[11px] text-white/55">
+        Campos: lead.status, lead.labels, lead.email, form_answers.&lt;clave&gt;, stage, context.&lt;ruta&gt;
+      </div>
+
+      {c.mode === 'if' ? (
+        <div className="mt-3 space-y-3">
+          <div>
+            <label className="text-xs text-white/60">Se cumple si</label>
+            <select
+              value={c.match}
+              onChange={(e) => props.onChange({ ...c, match: e.target.value === 'any' ? 'any' : 'all' })}
+              className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+            >
+              <option value="all">Todas las reglas</option>
+              <option value="any">Alguna regla</option>
+            </select>
+          </div>
+
+          {c.rules.map((r, i) => (
+            <ConditionRuleFields
+              key={i}
+              field={r.field}
+              operator={r.operator}
+              value={r.value}
+              onChange={(next) => props.onChange({ ...c, rules: c.rules.map((x, j) => (j === i ? { ...x, ...next } : x)) })}
+              onRemove={() => props.onChange({ ...c, rules: c.rules.filter((_, j) => j !== i) })}
+            />
+          ))}
+
+          <button
+            type="button"
+            onClick={() => props.onChange({ ...c, rules: [...c.rules, { field: 'lead.status', operator: 'equals', value: '' }] })}
+            className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-white/80 hover:bg-white/10"
+          >
+            <Plus className="h-4 w-4" />
+            Regla
+          </button>
+
+          <div className="text-[11px] text-white/55">Conecta las ramas “Sí” y “No” desde este nodo.</div>
+        </div>
+      ) : (
+        <div className="mt-3 space-y-3">
+          <div>
+            <label className="text-xs text-white/60">Campo</label>
+            <input value={c.field} onChange={(e) => props.onChange({ ...c, field: e.target.value })} placeholder="lead.status" className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40" />
+          </div>
+
+          {c.cases.map((k, i) => (
+            <div key={i} className="rounded-xl border border-white/10 bg-black/20 p-2">
+              <label className="text-xs text-white/60">Rama</label>
+              <input
+                value={k.key}
+                onChange={(e) => props.onChange({ ...c, cases: c.cases.map((x, j) => (j === i ? { ...x, key: e.target.value } : x)) })}
+                placeholder="nombre de la rama"
+                className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+              />
+              <ConditionRuleFields
+                operator={k.operator}
+                value={k.value}
+                onChange={(next) => props.onChange({ ...c, cases: c.cases.map((x, j) => (j === i ? { ...x, ...next } : x)) })}
+                onRemove={() => props.onChange({ ...c, cases: c.cases.filter((_, j) => j !== i) })}
+              />
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() =>
+              props.onChange({ ...c, cases: [...c.cases, { key: `rama_${c.cases.length + 1}`, operator: 'equals', value: '' }] })
+            }
+            className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-white/80 hover:bg-white/10"
+          >
+            <Plus className="h-4 w-4" />
+            Rama
+          </button>
+
+          <div className="text-[11px] text-white/55">Si ninguna rama encaja se sigue la rama “Otro”.</div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ConditionRuleFields(props: {
+  field?: string;
+  operator: ConditionOperator;
+  value: string;
+  onChange: (next: { field?: string; operator?: ConditionOperator; value?: string }) => void;
+  onRemove: () => void;
+}) {
+  const needsValue = props.operator !== 'is_empty' && props.operator !== 'is_not_empty';
+
+  return (
+    <div className="space-y-2">
+      {props.field !== undefined ? (
+        <input value={props.field} onChange={(e) => props.onChange({ field: e.target.value })} placeholder="lead.status" className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40" />
+      ) : null}
+
+      <div className="flex items-center gap-2">
+        <select value={props.operator} onChange={(e) => props.onChange({ operator: asOperator(e.target.value) })} className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40">
+          {CONDITION_OPERATORS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+
+        <button
+          type="button"
+          onClick={props.onRemove}
+          className="mt-1 rounded-xl border border-white/10 bg-white/5 p-2 text-white/70 hover:bg-white/10"
+          title="Quitar"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {needsValue ? <input value={props.value} onChange={(e) => props.onChange({ value: e.target.value })} placeholder="valor" className="mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40" /> : null}
+    </div>
+  );
+}
+
+/* ------------------ Runs ------------------ */
+
+type RunSummaryVM = {
+  id: string;
+  leadId: string | null;
+  leadName: string | null;
+  status: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+type RunStepVM = {
+  id: string;
+  nodeId: string;
+  status: string;
+  attempts: number;
+  scheduledFor: string | null;
+  finishedAt: string | null;
+  output: unknown;
+  error: string | null;
+};
+
+type RunsListResponse = { ok: true; runs: RunSummaryVM[] } | { ok: false; error: string; detail?: string };
+type RunGetResponse = { ok: true; run: RunSummaryVM & { steps: RunStepVM[] } } | { ok: false; error: string; detail?: string };
+
+/** nodeId → status del step (el último si el nodo se ejecutó varias veces) */
+type RunHighlight = Map<string, string>;
+
+type PanelTab = 'config' | 'runs' | 'versions' | 'test' | 'settings';
+
+const PANEL_TABS: PanelTab[] = ['config', 'runs', 'versions', 'test', 'settings'];
+
+const PANEL_TAB_LABELS: Record<PanelTab, string> = {
+  config: 'Configuración',
+  runs: 'Runs',
+  versions: 'Versiones',
+  test: 'Probar',
+  settings: 'Ajustes',
+};
+
+const RUN_STATUS_OPTIONS = ['', 'running', 'paused', 'completed', 'exited', 'failed', 'cancelled'] as const;
+
+type RunControlAction = 'pause' | 'resume' | 'cancel';
+
+type RunControlResponse = { ok: true; status: string } | { ok: false; error: string; detail?: string };
+
+function stepTone(status: string): string {
+  if (status === 'success') return 'emerald';
+  if (status === 'failed' || status === 'dead_letter') return 'red';
+  if (status === 'skipped' || status === 'discarded' || status === 'cancelled') return 'slate';
+  return 'amber';
+}
+
+const STEP_TONE_CLASSES: Record<string, string> = {
+  emerald: 'border-emerald-400/30 bg-emerald-500/15 text-emerald-100',
+  red: 'border-red-400/30 bg-red-500/15 text-red-100',
+  amber: 'border-amber-400/30 bg-amber-500/15 text-amber-100',
+  slate: 'border-white/10 bg-white/5 text-white/60',
+};
+
+const STEP_TONE_RING: Record<string, string> = {
+  emerald: 'ring-2 ring-emerald-400/60',
+  red: 'ring-2 ring-red-400/60',
+  amber: 'ring-2 ring-amber-300/60',
+  slate: 'ring-2 ring-white/30',
+};
+
+const STEP_TONE_STROKE: Record<string, string> = {
+  emerald: 'rgba(52,211,153,0.75)',
+  red: 'rgba(248,113,113,0.75)',
+  amber: 'rgba(252,211,77,0.75)',
+  slate: 'rgba(255,255,255,0.35)',
+};
+
+function fmtDate(v: string | null): string {
+  return v ? new Date(v).toLocaleString() : '—';
+}
+
+async function panelAuthHeaders(): Promise<Record<string, string> | string> {
+  const ws = await getActiveWorkspaceId();
+  if (!ws) return 'missing_workspace';
+
+  const { data: sess } = await supabase.auth.getSession();
+  const token = sess.session?.access_token;
+  if (!token) return 'login_required';
+
+  return { Authorization: `Bearer ${token}`, 'x-workspace-id': ws };
+}
+
+function RunsPanel(props: { workflowId: string; nodeNames: Map<string, string>; onHighlight: (h: RunHighlight | null) => void }) {
+  const { workflowId, onHighlight } = props;
+
+  const [status, setStatus] = useState<string>('');
+  const [from, setFrom] = useState<string>('');
+  const [to, setTo] = useState<string>('');
+  const [lead, setLead] = useState<{ id: string; name: string } | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [runs, setRuns] = useState<RunSummaryVM[]>([]);
+
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [steps, setSteps] = useState<RunStepVM[] | null>(null);
+  const [stepsError, setStepsError] = useState<string | null>(null);
+  const [stepsKey, setStepsKey] = useState(0);
+  const [controlBusy, setControlBusy] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+
+    async function run() {
+      const headers = await panelAuthHeaders();
+      if (!alive) return;
+
+      if (typeof headers === 'string') {
+        setError(headers);
+        setLoading(false);
+        return;
+      }
+
+      const qs = new URLSearchParams({ workflowId });
+      if (status) qs.set('status', status);
+      if (lead) qs.set('leadId', lead.id);
+      if (from) qs.set('from', from);
+      // `to` es un día completo: hasta el inicio del día siguiente
+      if (to) qs.set('to', new Date(Date.parse(to) + 86_400_000).toISOString().slice(0, 10));
+
+      const res = await fetch(`/api/automations/runs/list?${qs.toString()}`, { method: 'GET', headers, cache: 'no-store' });
+      const j = (await res.json()) as RunsListResponse;
+      if (!alive) return;
+
+      if (!j.ok) {
+        setError(j.detail ?? j.error);
+        setRuns([]);
+      } else {
+        setError(null);
+        setRuns(j.runs);
+      }
+      setLoading(false);
+    }
+
+    void run();
+    return () => {
+      alive = false;
+    };
+  }, [workflowId, status, from, to, lead, reloadKey]);
+
+  useEffect(() => {
+    if (!selectedRunId) return;
+    let alive = true;
+
+    async function run() {
+      const headers = await panelAuthHeaders();
+      if (!alive) return;
+
+      if (typeof headers === 'string') {
+        setStepsError(headers);
+        return;
+      }
+
+      const res = await fetch(`/api/automations/runs/get?id=${encodeURIComponent(selectedRunId ?? '')}`, {
+        method: 'GET',
+        headers,
+        cache: 'no-store',
+      });
+      const j = (await res.json()) as RunGetResponse;
+      if (!alive) return;
+
+      if (!j.ok) {
+        setStepsError(j.detail ?? j.error);
+        setSteps(null);
+        onHighlight(null);
+        return;
+      }
+
+      const h: RunHighlight = new Map();
+      for (const s of j.run.steps) h.set(s.nodeId, s.status);
+
+      setStepsError(null);
+      setSteps(j.run.steps);
+      onHighlight(h);
+    }
+
+    void run();
+    return () => {
+      alive = false;
+    };
+  }, [selectedRunId, stepsKey, onHighlight]);
+
+  const controlRun = async (runId: string, action: RunControlAction): Promise<void> => {
+    setControlBusy(true);
+    setStepsError(null);
+
+    const headers = await panelAuthHeaders();
+    if (typeof headers === 'string') {
+      setStepsError(headers);
+      setControlBusy(false);
+      return;
+    }
+
+    const res = await fetch('/api/automations/runs/control', {
+      method: 'POST',
+      headers: { ...headers, 'content-type': 'application/json' },
+      body: JSON.stringify({ runId, action }),
+    });
+    const j = (await res.json()) as RunControlResponse;
+
+    if (!j.ok) {
+      setStepsError(j.detail ?? j.error);
+    } else {
+      setRuns((prev) => prev.map((r) => (r.id === runId ? { ...r, status: j.status } : r)));
+      setStepsKey((k) => k + 1);
+    }
+    setControlBusy(false);
+  };
+
+  const selectedRun = runs.find((r) => r.id === selectedRunId) ?? null;
+
+  const selectRun = (id: string | null) => {
+    setSteps(null);
+    setStepsError(null);
+    if (!id) onHighlight(null);
+    setSelectedRunId(id);
+  };
+
+  const refilter = (fn: () => void) => {
+    setLoading(true);
+    selectRun(null);
+    fn();
+  };
+
+  const inputCls =
+    'mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40';
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="col-span-2">
+          <label className="text-xs text-white/60">Estado</label>
+          <select value={status} onChange={(e) => refilter(() => setStatus(e.target.value))} className={inputCls}>
+            {RUN_STATUS_OPTIONS.map((s) => (
+              <option key={s} value={s}>
+                {s || 'Todos'}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-white/60">Desde</label>
+          <input type="date" value={from} onChange={(e) => refilter(() => setFrom(e.target.value))} className={inputCls} />
+        </div>
+        <div>
+          <label className="text-xs text-white/60">Hasta</label>
+          <input type="date" value={to} onChange={(e) => refilter(() => setTo(e.target.value))} className={inputCls} />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        {lead ? (
+          <button
+            type="button"
+            onClick={() => refilter(() => setLead(null))}
+            className="inline-flex items-center gap-1 rounded-full border border-indigo-400/30 bg-indigo-500/15 px-2.5 py-1 text-[11px] text-white/85"
+            title="Quitar filtro de lead"
+          >
+            Lead: {lead.name}
+            <X className="h-3 w-3" />
+          </button>
+        ) : (
+          <span className="text-[11px] text-white/50">Click en un lead para filtrar.</span>
+        )}
+
+        <button
+          type="button"
+          onClick={() => refilter(() => setReloadKey((k) => k + 1))}
+          className="rounded-xl border border-white/10 bg-white/5 px-2.5 py-1.5 text-[11px] text-white/70 hover:bg-white/10"
+        >
+          Recargar
+        </button>
+      </div>
+
+      {error ? <div className="rounded-xl border border-red-400/30 bg-red-500/10 p-2 text-xs text-white/80">{error}</div> : null}
+
+      {loading ? (
+        <div className="text-sm text-white/60">Cargando runs…</div>
+      ) : runs.length === 0 ? (
+        <div className="text-sm text-white/60">Sin ejecuciones para estos filtros.</div>
+      ) : (
+        <div className="max-h-[40vh] space-y-1.5 overflow-y-auto pr-1">
+          {runs.map((r) => (
+            <div
+              key={r.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => selectRun(r.id === selectedRunId ? null : r.id)}
+              className={cx(
+                'cursor-pointer rounded-xl border p-2.5 text-xs',
+                r.id === selectedRunId ? 'border-indigo-400/35 bg-indigo-500/15' : 'border-white/10 bg-white/5 hover:bg-white/10'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-white/80">{fmtDate(r.startedAt)}</span>
+                <span className="rounded-full border border-white/10 bg-black/30 px-2 py-0.5 text-[10px] text-white/70">{r.status}</span>
+              </div>
+              {r.leadId ? (
+                <button
+                  type="button"
+                  onClick={(ev) => {
+                    ev.stopPropagation();
+                    const leadId = r.leadId ?? '';
+                    refilter(() => setLead({ id: leadId, name: r.leadName ?? leadId.slice(0, 8) }));
+                  }}
+                  className="mt-1 truncate text-left text-indigo-200 hover:underline"
+                >
+                  {r.leadName ?? r.leadId.slice(0, 8)}
+                </button>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selectedRunId ? (
+        <div className="rounded-2xl border border-white/10 bg-black/20 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-medium text-white/85">Steps</div>
+            {selectedRun && (selectedRun.status === 'running' || selectedRun.status === 'paused') ? (
+              <div className="flex items-center gap-1.5">
+                <button
+                  type="button"
+                  disabled={controlBusy}
+                  onClick={() => void controlRun(selectedRun.id, selectedRun.status === 'running' ? 'pause' : 'resume')}
+                  className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-[11px] text-white/80 hover:bg-white/10 disabled:opacity-50"
+                >
+                  {selectedRun.status === 'running' ? 'Pausar' : 'Reanudar'}
+                </button>
+                <button
+                  type="button"
+                  disabled={controlBusy}
+                  onClick={() => {
+                    if (window.confirm('¿Cancelar este run? Los pasos pendientes no se ejecutarán.')) void controlRun(selectedRun.id, 'cancel');
+                  }}
+                  className="rounded-lg border border-red-400/25 bg-red-500/10 px-2 py-1 text-[11px] text-red-100 hover:bg-red-500/20 disabled:opacity-50"
+                >
+                  Cancelar
+                </button>
+              </div>
+            ) : null}
+          </div>
+          {stepsError ? (
+            <div className="mt-2 rounded-xl border border-red-400/30 bg-red-500/10 p-2 text-xs text-white/80">{stepsError}</div>
+          ) : !steps ? (
+            <div className="mt-2 text-xs text-white/60">Cargando…</div>
+          ) : (
+            <ol className="mt-2 space-y-2">
+              {steps.map((s) => (
+                <li key={s.id} className="rounded-xl border border-white/10 bg-white/5 p-2 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-white/85">{props.nodeNames.get(s.nodeId) ?? s.nodeId.slice(0, 8)}</span>
+                    <span className={cx('rounded-full border px-2 py-0.5 text-[10px]', STEP_TONE_CLASSES[stepTone(s.status)])}>{s.status}</span>
+                  </div>
+                  <div className="mt-1 text-[11px] text-white/50">
+                    Programado {fmtDate(s.scheduledFor)} · Fin {fmtDate(s.finishedAt)}
+                    {s.attempts > 1 ? ` · ${s.attempts} intentos` : ''}
+                  </div>
+                  {s.error ? <div className="mt-1 break-words text-[11px] text-red-200/90">{s.error}</div> : null}
+                  {s.output != null ? (
+                    <pre className="mt-1 max-h-32 overflow-auto whitespace-pre-wrap break-words rounded-lg bg-black/30 p-2 text-[10px] text-white/70">
+                      {JSON.stringify(s.output, null, 2)}
+                    </pre>
+                  ) : null}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/* ------------------ Versiones ------------------ */
+
+type VersionVM = {
+  id: string;
+  version: number;
+  createdAt: string | null;
+  nodeCount: number;
+  edgeCount: number;
+  published: boolean;
+};
+
+type DiffNodeVM = { id: string; name: string; type: string };
+type DiffVM = {
+  nodes: { added: DiffNodeVM[]; removed: DiffNodeVM[]; changed: Array<{ id: string; name: string; fields: string[] }> };
+  edges: { added: unknown[]; removed: unknown[] };
+};
+
+type VersionsListResponse = { ok: true; versions: VersionVM[] } | { ok: false; error: string; detail?: string };
+type VersionDiffResponse = { ok: true; diff: DiffVM } | { ok: false; error: string; detail?: string };
+type RollbackResponse = { ok: true; version: number } | { ok: false; error: string; detail?: string };
+
+function VersionsPanel(props: { workflowId: string; onRolledBack: () => void }) {
+  const { workflowId } = props;
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [versions, setVersions] = useState<VersionVM[]>([]);
+
+  const [compare, setCompare] = useState<{ versionId: string; label: string; diff: DiffVM | null } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+
+    async function run() {
+      const headers = await panelAuthHeaders();
+      if (!alive) return;
+
+      if (typeof headers === 'string') {
+        setError(headers);
+        setLoading(false);
+        return;
+      }
+
+      const res = await fetch(`/api/automations/workflows/versions/list?workflowId=${encodeURIComponent(workflowId)}`, {
+        method: 'GET',
+        headers,
+        cache: 'no-store',
+      });
+      const j = (await res.json()) as VersionsListResponse;
+      if (!alive) return;
+
+      if (!j.ok) {
+        setError(j.detail ?? j.error);
+        setVersions([]);
+      } else {
+        setError(null);
+        setVersions(j.versions);
+      }
+      setLoading(false);
+    }
+
+    void run();
+    return () => {
+      alive = false;
+    };
+  }, [workflowId]);
+
+  // Diff versión → borrador guardado (qué cambiaría al publicar / qué se pierde al restaurar)
+  const compareWithDraft = async (v: VersionVM): Promise<void> => {
+    setCompare({ versionId: v.id, label: `v${v.version} → borrador`, diff: null });
+    setError(null);
+
+    const headers = await panelAuthHeaders();
+    if (typeof headers === 'string') {
+      setError(headers);
+      return;
+    }
+
+    const qs = new URLSearchParams({ workflowId, from: v.id, to: 'draft' });
+    const res = await fetch(`/api/automations/workflows/versions/diff?${qs.toString()}`, { method: 'GET', headers, cache: 'no-store' });
+    const j = (await res.json()) as VersionDiffResponse;
+
+    if (!j.ok) {
+      setError(j.detail ?? j.error);
+      setCompare(null);
+      return;
+    }
+    setCompare({ versionId: v.id, label: `v${v.version} → borrador`, diff: j.diff });
+  };
+
+  const rollback = async (v: VersionVM): Promise<void> => {
+    if (!window.confirm(`¿Restaurar v${v.version}? El borrador se sustituye por esa versión y pasa a ser la publicada.`)) return;
+
+    setBusy(true);
+    setError(null);
+
+    const headers = await panelAuthHeaders();
+    if (typeof headers === 'string') {
+      setError(headers);
+      setBusy(false);
+      return;
+    }
+
+    const res = await fetch('/api/automations/workflows/versions/rollback', {
+      method: 'POST',
+      headers: { ...headers, 'content-type': 'application/json' },
+      body: JSON.stringify({ workflowId, versionId: v.id }),
+    });
+    const j = (await res.json()) as RollbackResponse;
+    setBusy(false);
+
+    if (!j.ok) {
+      setError(j.detail ?? j.error);
+      return;
+    }
+    props.onRolledBack();
+  };
+
+  const d = compare?.diff ?? null;
+  const noChanges =
+    d !== null &&
+    d.nodes.added.length + d.nodes.removed.length + d.nodes.changed.length + d.edges.added.length + d.edges.removed.length === 0;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="text-[11px] text-white/55">Cada vez que activas o publicas se guarda una versión. Los runs siguen la versión con la que empezaron.</div>
+
+      {error ? <div className="rounded-xl border border-red-400/30 bg-red-500/10 p-2 text-xs text-white/80">{error}</div> : null}
+
+      {loading ? (
+        <div className="text-sm text-white/60">Cargando versiones…</div>
+      ) : versions.length === 0 ? (
+        <div className="text-sm text-white/60">Aún no hay versiones publicadas.</div>
+      ) : (
+        <div className="max-h-[40vh] space-y-1.5 overflow-y-auto pr-1">
+          {versions.map((v) => (
+            <div key={v.id} className="rounded-xl border border-white/10 bg-white/5 p-2.5 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-white/85">v{v.version}</span>
+                {v.published ? (
+                  <span className="rounded-full border border-emerald-400/30 bg-emerald-500/15 px-2 py-0.5 text-[10px] text-white/85">publicada</span>
+                ) : null}
+              </div>
+              <div className="mt-1 text-[11px] text-white/50">
+                {fmtDate(v.createdAt)} · {v.nodeCount} nodos · {v.edgeCount} conexiones
+              </div>
+              <div className="mt-2 flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => void compareWithDraft(v)}
+                  className="rounded-xl border border-white/10 bg-white/5 px-2.5 py-1.5 text-[11px] text-white/70 hover:bg-white/10"
+                >
+                  Comparar
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void rollback(v)}
+                  disabled={busy}
+                  className="rounded-xl border border-amber-400/25 bg-amber-500/10 px-2.5 py-1.5 text-[11px] text-white/80 hover:bg-amber-500/20 disabled:opacity-50"
+                >
+                  Restaurar
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {compare ? (
+        <div className="rounded-2xl border border-white/10 bg-black/20 p-3 text-xs">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium text-white/85">{compare.label}</div>
+            <button type="button" onClick={() => setCompare(null)} className="text-white/50 hover:text-white/80" title="Cerrar">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          {!d ? (
+            <div className="mt-2 text-white/60">Comparando…</div>
+          ) : noChanges ? (
+            <div className="mt-2 text-white/60">Sin cambios.</div>
+          ) : (
+            <ul className="mt-2 space-y-1">
+              {d.nodes.added.map((n) => (
+                <li key={`a-${n.id}`} className="text-emerald-200/90">
+                  + {n.name || n.id.slice(0, 8)} ({n.type})
+                </li>
+              ))}
+              {d.nodes.removed.map((n) => (
+                <li key={`r-${n.id}`} className="text-red-200/90">
+                  − {n.name || n.id.slice(0, 8)} ({n.type})
+                </li>
+              ))}
+              {d.nodes.changed.map((n) => (
+                <li key={`c-${n.id}`} className="text-amber-200/90">
+                  ~ {n.name || n.id.slice(0, 8)}: {n.fields.join(', ')}
+                </li>
+              ))}
+              {d.edges.added.length + d.edges.removed.length > 0 ? (
+                <li className="text-white/70">
+                  Conexiones: +{d.edges.added.length} / −{d.edges.removed.length}
+                </li>
+              ) : null}
+            </ul>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/* ------------------ Dry-run ------------------ */
+
+type LeadOptionVM = { id: string; full_name: string | null; email: string | null; phone: string | null };
+
+type LeadSearchResponse = { ok: true; leads: LeadOptionVM[] } | { ok: false; error: string; detail?: string };
+
+type DryRunVM = {
+  lead: { id: string; fullName: string | null };
+  trigger: { nodeId: string | null; event: string; matched: boolean; reason: string | null };
+  steps: Array<{ nodeId: string; nodeName: string; nodeType: string; at: string; status: string; output: Record<string, unknown>; error: string | null }>;
+  messages: Array<{ nodeId: string; channel: 'email' | 'sms'; at: string; to: string; subject: string | null; body: string }>;
+  requests: Array<{ nodeId: string; at: string; method: string; url: string; headers: Record<string, string>; body: string | null }>;
+  truncated: boolean;
+};
+
+type DryRunResponse = { ok: true; result: DryRunVM } | { ok: false; error: string; detail?: string };
+
+const TRIGGER_MISS_LABELS: Record<string, string> = {
+  no_trigger: 'El workflow no tiene trigger.',
+  lead_not_in_pipeline: 'El lead no está en ningún pipeline.',
+  pipeline_not_bound: 'El workflow no está asignado al pipeline del lead.',
+  trigger_filter_mismatch: 'El lead no cumple los filtros del trigger.',
+  exit_goal_already_met: 'El lead ya cumple un objetivo de salida del workflow.',
+  enrollment_blocked: 'La política de entrada no deja que este lead vuelva a entrar.',
+  stage_not_idle_yet: 'El lead aún no lleva en el stage el tiempo configurado.',
+};
+
+function stepDetail(s: DryRunVM['steps'][number]): string | null {
+  if (s.error) return s.error;
+  if (typeof s.output.branch === 'string') return `Rama: ${branchLabel(s.output.branch)}`;
+  if (typeof s.output.resumeAt === 'string') return `Continúa: ${fmtDate(s.output.resumeAt)}`;
+  if (typeof s.output.label === 'string') return `Etiqueta: ${s.output.label}`;
+  return null;
+}
+
+function TestPanel(props: { workflowId: string; nodes: NodeVM[]; edges: EdgeVM[]; onHighlight: (h: RunHighlight | null) => void }) {
+  const { onHighlight } = props;
+
+  const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<LeadOptionVM[]>([]);
+  const [lead, setLead] = useState<LeadOptionVM | null>(null);
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<DryRunVM | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    const t = window.setTimeout(() => {
+      async function run() {
+        const headers = await panelAuthHeaders();
+        if (!alive || typeof headers === 'string') return;
+
+        const res = await fetch(`/api/automations/leads/search?q=${encodeURIComponent(query)}`, { method: 'GET', headers, cache: 'no-store' });
+        const j = (await res.json()) as LeadSearchResponse;
+        if (alive) setOptions(j.ok ? j.leads : []);
+      }
+
+      void run();
+    }, 250);
+
+    return () => {
+      alive = false;
+      window.clearTimeout(t);
+    };
+  }, [query]);
+
+  // El resaltado del canvas es de esta simulación: se limpia al salir de la pestaña
+  useEffect(() => () => onHighlight(null), [onHighlight]);
+
+  const simulate = async (): Promise<void> => {
+    if (!lead) return;
+    setBusy(true);
+    setError(null);
+
+    const headers = await panelAuthHeaders();
+    if (typeof headers === 'string') {
+      setError(headers);
+      setBusy(false);
+      return;
+    }
+
+    // Se simula lo que hay en el editor, aunque no esté guardado
+    const graph = {
+      nodes: props.nodes.map((n) => ({ id: n.id, type: n.type, name: n.name, config: n.config, ui: n.ui })),
+      edges: props.edges,
+    };
+
+    const res = await fetch('/api/automations/workflows/dry-run', {
+      method: 'POST',
+      headers: { ...headers, 'content-type': 'application/json' },
+      body: JSON.stringify({ workflowId: props.workflowId, leadId: lead.id, graph }),
+    });
+
+    const j = (await res.json()) as DryRunResponse;
+    if (!j.ok) {
+      setError(j.detail ?? j.error);
+      setResult(null);
+      onHighlight(null);
+    } else {
+      const h: RunHighlight = new Map();
+      for (const s of j.result.steps) h.set(s.nodeId, s.status);
+      setResult(j.result);
+      onHighlight(h);
+    }
+    setBusy(false);
+  };
+
+  const inputCls =
+    'mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40';
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="text-[11px] text-white/55">Simula el workflow con un lead real. No se envía nada ni se modifica el lead.</div>
+
+      <div>
+        <label className="text-xs text-white/60">Lead</label>
+        {lead ? (
+          <div className="mt-1 flex items-center justify-between gap-2 rounded-xl border border-indigo-400/30 bg-indigo-500/15 px-3 py-2 text-sm text-white/85">
+            <span className="truncate">{lead.full_name ?? lead.email ?? lead.id}</span>
+            <button type="button" onClick={() => setLead(null)} title="Cambiar lead">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ) : (
+          <>
+            <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Buscar por nombre, email o teléfono" className={inputCls} />
+            <div className="mt-1 max-h-[25vh] space-y-1 overflow-y-auto pr-1">
+              {options.map((o) => (
+                <button
+                  key={o.id}
+                  type="button"
+                  onClick={() => {
+                    setLead(o);
+                    setResult(null);
+                    onHighlight(null);
+                  }}
+                  className="block w-full rounded-lg border border-white/10 bg-white/5 px-2.5 py-1.5 text-left text-xs text-white/80 hover:bg-white/10"
+                >
+                  <div className="truncate">{o.full_name ?? '—'}</div>
+                  <div className="truncate text-[11px] text-white/50">{[o.email, o.phone].filter(Boolean).join(' · ') || o.id}</div>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => void simulate()}
+        disabled={!lead || busy}
+        className="inline-flex w-full items-center justify-center gap-2 rounded-xl border border-indigo-400/25 bg-indigo-500/15 px-3 py-2 text-sm text-white hover:bg-indigo-500/25 disabled:opacity-50"
+      >
+        <FlaskConical className="h-4 w-4" />
+        {busy ? 'Simulando…' : 'Simular'}
+      </button>
+
+      {error ? <div className="rounded-xl border border-red-400/30 bg-red-500/10 p-2 text-xs text-white/80">{error}</div> : null}
+
+      {result ? (
+        <div className="space-y-3">
+          <div
+            className={cx(
+              'rounded-xl border p-2.5 text-xs',
+              result.trigger.matched ? STEP_TONE_CLASSES.emerald : STEP_TONE_CLASSES.amber
+            )}
+          >
+            {result.trigger.matched
+              ? `El trigger (${result.trigger.event}) se dispararía para este lead.`
+              : `${TRIGGER_MISS_LABELS[result.trigger.reason ?? ''] ?? result.trigger.reason} En real no se dispararía; el recorrido es orientativo.`}
+          </div>
+
+          <div className="space-y-1.5">
+            {result.steps.map((s, idx) => {
+              const detail = stepDetail(s);
+              return (
+                <div key={`${s.nodeId}-${idx}`} className="rounded-xl border border-white/10 bg-white/5 p-2.5 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-white/85">{s.nodeName}</span>
+                    <span className={cx('rounded-full border px-2 py-0.5 text-[10px]', STEP_TONE_CLASSES[stepTone(s.status)])}>{s.status}</span>
+                  </div>
+                  <div className="mt-1 text-[11px] text-white/50">{fmtDate(s.at)}</div>
+                  {detail ? <div className={cx('mt-1 break-words text-[11px]', s.error ? 'text-red-300/90' : 'text-white/65')}>{detail}</div> : null}
+                </div>
+              );
+            })}
+            {result.truncated ? <div className="text-[11px] text-amber-300/90">Simulación cortada: demasiados pasos (¿hay un ciclo?).</div> : null}
+          </div>
+
+          <div>
+            <div className="text-xs text-white/60">Mensajes que se encolarían ({result.messages.length})</div>
+            <div className="mt-1 space-y-1.5">
+              {result.messages.map((m, idx) => (
+                <div key={`${m.nodeId}-${idx}`} className="rounded-xl border border-white/10 bg-black/20 p-2.5 text-xs">
+                  <div className="flex items-center gap-2 text-white/80">
+                    {m.channel === 'email' ? <Mail className="h-3.5 w-3.5" /> : <MessageSquare className="h-3.5 w-3.5" />}
+                    <span className="truncate">{m.to}</span>
+                    <span className="ml-auto text-[11px] text-white/50">{fmtDate(m.at)}</span>
+                  </div>
+                  {m.subject !== null ? <div className="mt-1.5 font-medium text-white/85">{m.subject || '—'}</div> : null}
+                  <div className="mt-1 whitespace-pre-wrap break-words text-white/75">{m.body || '—'}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {result.requests.length > 0 ? (
+            <div>
+              <div className="text-xs text-white/60">Peticiones HTTP que se harían ({result.requests.length})</div>
+              <div className="mt-1 space-y-1.5">
+                {result.requests.map((r, idx) => (
+                  <div key={`${r.nodeId}-${idx}`} className="rounded-xl border border-white/10 bg-black/20 p-2.5 text-xs">
+                    <div className="flex items-center gap-2 text-white/80">
+                      <Webhook className="h-3.5 w-3.5" />
+                      <span className="shrink-0 font-medium">{r.method}</span>
+                      <span className="truncate">{r.url}</span>
+                    </div>
+                    {Object.entries(r.headers).map(([k, v]) => (
+                      <div key={k} className="mt-1 truncate font-mono text-[11px] text-white/55">
+                        {k}: {v}
+                      </div>
+                    ))}
+                    {r.body ? <pre className="mt-1.5 whitespace-pre-wrap break-words font-mono text-[11px] text-white/75">{r.body}</pre> : null}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/* ------------------ Ajustes (entrada / objetivos de salida) ------------------ */
+
+type UpdateWorkflowResponse = { ok: true } | { ok: false; error: string; detail?: string };
+
+const DEFAULT_SETTINGS_VM: WorkflowSettingsVM = { enrollment: { mode: 'always', periodDays: 30 }, exitGoals: [] };
+
+const EXIT_GOAL_LABELS: Record<ExitGoalVM['kind'], string> = {
+  stage_won: 'Llega a un stage ganado',
+  stage_lost: 'Llega a un stage perdido',
+  stage: 'Llega al stage…',
+  status: 'Su status pasa a…',
+  label: 'Tiene la etiqueta…',
+};
+
+function asExitGoal(v: unknown): ExitGoalVM | null {
+  if (!isRecord(v)) return null;
+  if (v.kind === 'stage_won' || v.kind === 'stage_lost') return { kind: v.kind };
+  if (v.kind === 'stage') return { kind: 'stage', stageId: typeof v.stageId === 'string' ? v.stageId : '' };
+  if (v.kind === 'status') return { kind: 'status', status: typeof v.status === 'string' ? v.status : LEAD_STATUSES[0] };
+  if (v.kind === 'label') return { kind: 'label', label: typeof v.label === 'string' ? v.label : '' };
+  return null;
+}
+
+function asWorkflowSettings(v: unknown): WorkflowSettingsVM {
+  if (!isRecord(v)) return DEFAULT_SETTINGS_VM;
+  const e = isRecord(v.enrollment) ? v.enrollment : {};
+  const mode: EnrollmentMode = e.mode === 'once' || e.mode === 'once_per_period' ? e.mode : 'always';
+  const periodDays = Math.max(1, Math.floor(asNumber(e.periodDays, 30)));
+  const exitGoals = Array.isArray(v.exitGoals) ? v.exitGoals.map(asExitGoal).filter((g): g is ExitGoalVM => g !== null) : [];
+  return { enrollment: { mode, periodDays }, exitGoals };
+}
+
+function defaultExitGoal(kind: ExitGoalVM['kind']): ExitGoalVM {
+  if (kind === 'stage') return { kind, stageId: '' };
+  if (kind === 'status') return { kind, status: 'lost' };
+  if (kind === 'label') return { kind, label: '' };
+  return { kind };
+}
+
+function SettingsPanel(props: { workflowId: string; settings: WorkflowSettingsVM; onSaved: (next: WorkflowSettingsVM) => void }) {
+  const [draft, setDraft] = useState<WorkflowSettingsVM>(props.settings);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(props.settings);
+
+  const setGoal = (i: number, next: ExitGoalVM) =>
+    setDraft((d) => ({ ...d, exitGoals: d.exitGoals.map((g, j) => (j === i ? next : g)) }));
+
+  const save = async (): Promise<void> => {
+    setBusy(true);
+    setError(null);
+    setInfo(null);
+
+    const headers = await panelAuthHeaders();
+    if (typeof headers === 'string') {
+      setError(headers);
+      setBusy(false);
+      return;
+    }
+
+    const res = await fetch('/api/automations/workflows/update', {
+      method: 'POST',
+      headers: { ...headers, 'content-type': 'application/json' },
+      body: JSON.stringify({ id: props.workflowId, settings: draft }),
+    });
+
+    const j = (await res.json()) as UpdateWorkflowResponse;
+    if (!j.ok) {
+      setError(j.detail ?? j.error);
+    } else {
+      // El servidor descarta objetivos incompletos: se refleja igual aquí
+      const saved = asWorkflowSettings({
+        ...draft,
+        exitGoals: draft.exitGoals.filter((g) => (g.kind === 'stage' ? g.stageId.trim() : g.kind === 'label' ? g.label.trim() : true)),
+      });
+      setDraft(saved);
+      props.onSaved(saved);
+      setInfo('Ajustes guardados.');
+    }
+    setBusy(false);
+  };
+
+  const inputCls =
+    'mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40';
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+        <div className="text-sm font-medium text-white/85">Entrada</div>
+        <div className="mt-3">
+          <label className="text-xs text-white/60">Un mismo lead puede entrar…</label>
+          <select
+            value={draft.enrollment.mode}
+            onChange={(e) => {
+              const mode: EnrollmentMode = e.target.value === 'once' || e.target.value === 'once_per_period' ? e.target.value : 'always';
+              setDraft((d) => ({ ...d, enrollment: { ...d.enrollment, mode } }));
+            }}
+            className={inputCls}
+          >
+            <option value="always">Siempre que se dispare el trigger</option>
+            <option value="once">Solo una vez</option>
+            <option value="once_per_period">Como mucho una vez cada N días</option>
+          </select>
+        </div>
+        {draft.enrollment.mode === 'once_per_period' ? (
+          <div className="mt-3">
+            <label className="text-xs text-white/60">Días</label>
+            <input
+              type="number"
+              min={1}
+              value={draft.enrollment.periodDays}
+              onChange={(e) =>
+                setDraft((d) => ({ ...d, enrollment: { ...d.enrollment, periodDays: Math.max(1, Math.floor(Number(e.target.value) || 1)) } }))
+              }
+              className={inputCls}
+            />
+          </div>
+        ) : null}
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 p-3">
+        <div className="text-sm font-medium text-white/85">Objetivos de salida</div>
+        <div className="mt-1 text-[11px] text-white/55">
+          Si el lead cumple cualquiera, su run termina y se cancelan los pasos pendientes. Tampoco entra si ya lo cumple.
+        </div>
+
+        <div className="mt-3 space-y-2">
+          {draft.exitGoals.map((g, i) => (
+            <div key={i} className="rounded-xl border border-white/10 bg-black/20 p-2">
+              <div className="flex items-center gap-2">
+                <select
+                  value={g.kind}
+                  onChange={(e) => setGoal(i, defaultExitGoal(e.target.value as ExitGoalVM['kind']))}
+                  className="w-full rounded-lg border border-white/10 bg-black/30 px-2 py-1.5 text-xs text-white outline-none"
+                >
+                  {(Object.keys(EXIT_GOAL_LABELS) as Array<ExitGoalVM['kind']>).map((k) => (
+                    <option key={k} value={k}>
+                      {EXIT_GOAL_LABELS[k]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setDraft((d) => ({ ...d, exitGoals: d.exitGoals.filter((_, j) => j !== i) }))}
+                  className="rounded-lg border border-white/10 bg-white/5 p-1.5 text-white/70 hover:bg-white/10"
+                  title="Quitar objetivo"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+
+              {g.kind === 'stage' ? (
+                <input value={g.stageId} onChange={(e) => setGoal(i, { ...g, stageId: e.target.value.trim() })} placeholder="stage_uuid" className={inputCls} />
+              ) : null}
+              {g.kind === 'status' ? (
+                <select value={g.status} onChange={(e) => setGoal(i, { ...g, status: e.target.value })} className={inputCls}>
+                  {LEAD_STATUSES.map((st) => (
+                    <option key={st} value={st}>
+                      {st}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              {g.kind === 'label' ? (
+                <input value={g.label} onChange={(e) => setGoal(i, { ...g, label: e.target.value })} placeholder="cliente" className={inputCls} />
+              ) : null}
+            </div>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => setDraft((d) => ({ ...d, exitGoals: [...d.exitGoals, defaultExitGoal('stage_won')] }))}
+          className="mt-2 inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/80 hover:bg-white/10"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Añadir objetivo
+        </button>
+      </div>
+
+      {error ? <div className="rounded-xl border border-red-400/30 bg-red-500/10 p-2 text-xs text-white/80">{error}</div> : null}
+      {info ? <div className="rounded-xl border border-emerald-400/30 bg-emerald-500/15 p-2 text-xs text-white/80">{info}</div> : null}
+
+      <button
+        type="button"
+        onClick={() => void save()}
+        disabled={!dirty || busy}
+        className="inline-flex w-full items-center justify-center gap-2 rounded-xl border border-indigo-400/25 bg-indigo-500/15 px-3 py-2 text-sm text-white hover:bg-indigo-500/25 disabled:opacity-50"
+      >
+        <Save className="h-4 w-4" />
+        {busy ? 'Guardando…' : 'Guardar ajustes'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+
+import { supabase } from '@/lib/supabaseClient';
+import { getActiveWorkspaceId } from '@/lib/activeWorkspace';
+
+import { ArrowLeft, RotateCcw, Trash2, Inbox } from 'lucide-react';
+
+type Kind = 'outbox' | 'steps';
+
+type DeadLetterItem = {
+  id: string;
+  kind: Kind;
+  attempts: number;
+  error: string | null;
+  deadAt: string | null;
+  channel?: string;
+  to?: string;
+  runId?: string;
+  nodeId?: string;
+  workflowId?: string;
+  leadId?: string | null;
+};
+
+type ListResponse = { ok: true; items: DeadLetterItem[] } | { ok: false; error: string; detail?: string };
+
+function cx(...parts: Array<string | false | null | undefined>): string {
+  return parts.filter(Boolean).join(' ');
+}
+
+async function authHeaders(): Promise<Record<string, string> | string> {
+  const ws = await getActiveWorkspaceId();
+  if (!ws) return 'missing_workspace';
+
+  const { data: sess } = await supabase.auth.getSession();
+  const token = sess.session?.access_token;
+  if (!token) return 'login_required';
+
+  return { Authorization: `Bearer ${token}`, 'x-workspace-id': ws, 'content-type': 'application/json' };
+}
+
+const KIND_LABELS: Record<Kind, string> = { outbox: 'Mensajes', steps: 'Steps de workflow' };
+
+export default function DeadLetterPage() {
+  const [kind, setKind] = useState<Kind>('outbox');
+  const [reloadKey, setReloadKey] = useState<number>(0);
+
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+  const [items, setItems] = useState<DeadLetterItem[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<boolean>(false);
+
+  useEffect(() => {
+    let alive = true;
+
+    async function run() {
+      const headers = await authHeaders();
+      if (!alive) return;
+
+      if (typeof headers === 'string') {
+        setError(headers);
+        setLoading(false);
+        return;
+      }
+
+      const res = await fetch(`/api/automations/dead-letter/list?kind=${kind}`, { method: 'GET', headers, cache: 'no-store' });
+      const j = (await res.json()) as ListResponse;
+      if (!alive) return;
+
+      if (!j.ok) {
+        setError(j.detail ?? j.error);
+        setItems([]);
+      } else {
+        setError(null);
+        setItems(j.items);
+      }
+      setSelected(new Set());
+      setLoading(false);
+    }
+
+    void run();
+    return () => {
+      alive = false;
+    };
+  }, [kind, reloadKey]);
+
+  const allSelected = items.length > 0 && selected.size === items.length;
+
+  const toggle = useCallback((id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const act = useCallback(
+    async (action: 'retry' | 'discard'): Promise<void> => {
+      if (selected.size === 0) return;
+      if (action === 'discard' && !window.confirm(`¿Descartar ${selected.size} elemento(s)? No se volverán a intentar.`)) return;
+
+      setBusy(true);
+      setError(null);
+      setInfo(null);
+
+      const headers = await authHeaders();
+      if (typeof headers === 'string') {
+        setError(headers);
+        setBusy(false);
+        return;
+      }
+
+      const res = await fetch(`/api/automations/dead-letter/${action}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ kind, ids: Array.from(selected) }),
+      });
+
+      const j = (await res.json()) as { ok: true; retried?: number; discarded?: number } | { ok: false; error: string; detail?: string };
+      if (!j.ok) {
+        setError(j.detail ?? j.error);
+      } else {
+        setInfo(action === 'retry' ? `${j.retried ?? 0} reencolado(s).` : `${j.discarded ?? 0} descartado(s).`);
+        setLoading(true);
+        setReloadKey((k) => k + 1);
+      }
+      setBusy(false);
+    },
+    [kind, selected]
+  );
+
+  const content = useMemo(() => {
+    if (loading) {
+      return <div className="card-glass rounded-2xl border border-white/10 bg-black/20 p-6 backdrop-blur">Cargando…</div>;
+    }
+
+    if (items.length === 0) {
+      return (
+        <div className="card-glass rounded-2xl border border-white/10 bg-black/20 p-6 backdrop-blur">
+          <div className="flex items-center gap-2 text-white/80">
+            <Inbox className="h-5 w-5" />
+            <span>No hay elementos en dead-letter.</span>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="card-glass overflow-x-auto rounded-2xl border border-white/10 bg-black/20 backdrop-blur">
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs text-white/50">
+            <tr className="border-b border-white/10">
+              <th className="p-3">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(items.map((i) => i.id)))}
+                />
+              </th>
+              {kind === 'outbox' ? (
+                <>
+                  <th className="p-3">Canal</th>
+                  <th className="p-3">Destinatario</th>
+                </>
+              ) : (
+                <>
+                  <th className="p-3">Workflow</th>
+                  <th className="p-3">Run / Nodo</th>
+                </>
+              )}
+              <th className="p-3">Intentos</th>
+              <th className="p-3">Error</th>
+              <th className="p-3">Fecha</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((it) => (
+              <tr key={it.id} className={cx('border-b border-white/5 align-top', selected.has(it.id) && 'bg-indigo-500/10')}>
+                <td className="p-3">
+                  <input type="checkbox" checked={selected.has(it.id)} onChange={() => toggle(it.id)} />
+                </td>
+                {kind === 'outbox' ? (
+                  <>
+                    <td className="p-3 text-white/80">{it.channel ?? '—'}</td>
+                    <td className="p-3 text-white/80">{it.to ?? '—'}</td>
+                  </>
+                ) : (
+                  <>
+                    <td className="p-3">
+                      {it.workflowId ? (
+                        <Link href={`/automations/${it.workflowId}`} className="text-indigo-200 hover:underline">
+                          Abrir
+                        </Link>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td className="p-3 font-mono text-[11px] text-white/60">
+                      {it.runId?.slice(0, 8) ?? '—'} / {it.nodeId?.slice(0, 8) ?? '—'}
+                    </td>
+                  </>
+                )}
+                <td className="p-3 text-white/80">{it.attempts}</td>
+                <td className="max-w-md break-words p-3 text-xs text-red-200/90">{it.error ?? '—'}</td>
+                <td className="whitespace-nowrap p-3 text-xs text-white/50">{it.deadAt ? new Date(it.deadAt).toLocaleString() : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }, [loading, items, kind, selected, allSelected, toggle]);
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-white/95">Dead-letter</h1>
+          <p className="text-sm text-white/60">Mensajes y steps que agotaron sus reintentos o fallaron de forma permanente.</p>
+        </div>
+
+        <Link
+          href="/automations"
+          className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Volver
+        </Link>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="inline-flex rounded-xl border border-white/10 bg-white/5 p-1">
+          {(Object.keys(KIND_LABELS) as Kind[]).map((k) => (
+            <button
+              key={k}
+              onClick={() => {
+                if (k === kind) return;
+                setLoading(true);
+                setKind(k);
+              }}
+              className={cx('rounded-lg px-3 py-1.5 text-sm', k === kind ? 'bg-indigo-500/25 text-white' : 'text-white/70 hover:bg-white/10')}
+            >
+              {KIND_LABELS[k]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => void act('retry')}
+            disabled={busy || selected.size === 0}
+            className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-emerald-500/15 px-3 py-2 text-sm text-white hover:bg-emerald-500/25 disabled:opacity-50"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Reintentar
+          </button>
+          <button
+            onClick={() => void act('discard')}
+            disabled={busy || selected.size === 0}
+            className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            Descartar
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="mb-3 card-glass rounded-2xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-white/80">{error}</div>
+      ) : null}
+      {info ? (
+        <div className="mb-3 card-glass rounded-2xl border border-emerald-300/30 bg-emerald-500/10 p-3 text-sm text-white/80">{info}</div>
+      ) : null}
+
+      {content}
+    </div>
+  );
+}
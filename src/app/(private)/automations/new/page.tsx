@@ -1,71 +1,355 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useRef, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { FilePlus2, FileUp, LayoutTemplate } from 'lucide-react';
 
 import { supabase } from '@/lib/supabaseClient';
 import { getActiveWorkspaceId } from '@/lib/activeWorkspace';
+import { WORKFLOW_TEMPLATES } from '@/lib/automations/workflowTemplates';
 
 type CreateResponse =
   | { ok: true; workflowId: string }
   | { ok: false; error: string; detail?: string };
 
+type ImportResponse =
+  | { ok: true; workflowId: string; unresolved: { stages: string[]; pipelines: string[]; members: string[] } }
+  | { ok: false; error: string; detail?: string };
+
+type StageMatchVM = { id: string; pipelineName: string | null; name: string | null; suggestedId: string | null };
+type PipelineMatchVM = { id: string; name: string | null; suggestedId: string | null };
+type TargetPipelineVM = { id: string; name: string; stages: Array<{ id: string; name: string }> };
+
+type PreviewResponse =
+  | {
+      ok: true;
+      name: string;
+      nodeCount: number;
+      preview: { stages: StageMatchVM[]; pipelines: PipelineMatchVM[]; labels: string[]; available: TargetPipelineVM[] };
+    }
+  | { ok: false; error: string; detail?: string };
+
+type PendingImport = {
+  workflow: unknown;
+  nodeCount: number;
+  name: string;
+  stages: StageMatchVM[];
+  pipelines: PipelineMatchVM[];
+  labels: string[];
+  available: TargetPipelineVM[];
+  stageMap: Record<string, string>;
+  pipelineMap: Record<string, string>;
+  labelMap: Record<string, string>;
+};
+
+async function authHeaders(): Promise<Record<string, string> | string> {
+  const ws = await getActiveWorkspaceId();
+  if (!ws) return 'missing_workspace';
+
+  const { data: sess } = await supabase.auth.getSession();
+  const token = sess.session?.access_token;
+  if (!token) return 'login_required';
+
+  return { Authorization: `Bearer ${token}`, 'x-workspace-id': ws, 'content-type': 'application/json' };
+}
+
 export default function NewAutomationPage() {
   const router = useRouter();
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const [busy, setBusy] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
 
-  useEffect(() => {
-    const run = async (): Promise<void> => {
-      const ws = await getActiveWorkspaceId();
-      if (!ws) {
-        setError('missing_workspace');
-        router.push('/automations');
+  const post = useCallback(async <T,>(url: string, body: Record<string, unknown>): Promise<T | string> => {
+    const headers = await authHeaders();
+    if (typeof headers === 'string') return headers;
+    const res = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body) });
+    return (await res.json()) as T;
+  }, []);
+
+  const createBlank = useCallback(async (): Promise<void> => {
+    setBusy('blank');
+    setError(null);
+
+    const j = await post<CreateResponse>('/api/automations/workflows/create', { name: 'Nuevo workflow' });
+    if (typeof j === 'string' || !j.ok) {
+      setError(typeof j === 'string' ? j : (j.detail ?? j.error));
+      setBusy(null);
+      return;
+    }
+
+    router.push(`/automations/${j.workflowId}`);
+  }, [post, router]);
+
+  const createFromTemplate = useCallback(
+    async (templateId: string): Promise<void> => {
+      setBusy(templateId);
+      setError(null);
+
+      const j = await post<ImportResponse>('/api/automations/workflows/import', { templateId });
+      if (typeof j === 'string' || !j.ok) {
+        setError(typeof j === 'string' ? j : (j.detail ?? j.error));
+        setBusy(null);
         return;
       }
 
-      const { data: sess } = await supabase.auth.getSession();
-      const token = sess.session?.access_token;
-      if (!token) {
-        setError('login_required');
-        router.push('/automations');
+      router.push(`/automations/${j.workflowId}`);
+    },
+    [post, router]
+  );
+
+  const readFile = useCallback(
+    async (file: File): Promise<void> => {
+      setBusy('file');
+      setError(null);
+      setPending(null);
+
+      let workflow: unknown;
+      try {
+        workflow = JSON.parse(await file.text()) as unknown;
+      } catch {
+        setError('El archivo no es un JSON válido.');
+        setBusy(null);
         return;
       }
 
-      const res = await fetch('/api/automations/workflows/create', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'x-workspace-id': ws,
-          'content-type': 'application/json',
-        },
-        body: JSON.stringify({ name: 'Nuevo workflow' }),
-      });
-
-      const j = (await res.json()) as CreateResponse;
-      if (!j.ok) {
-        setError(j.detail ?? j.error);
-        router.push('/automations');
+      const j = await post<PreviewResponse>('/api/automations/workflows/import-preview', { workflow });
+      if (typeof j === 'string' || !j.ok) {
+        const err = typeof j === 'string' ? j : (j.detail ?? j.error);
+        setError(err === 'invalid_workflow_json' ? 'El archivo no es un workflow exportado.' : err);
+        setBusy(null);
         return;
       }
 
-      router.push(`/automations/${j.workflowId}`);
-    };
+      const p = j.preview;
+      setPending({
+        workflow,
+        nodeCount: j.nodeCount,
+        name: j.name,
+        stages: p.stages,
+        pipelines: p.pipelines,
+        labels: p.labels,
+        available: p.available,
+        stageMap: Object.fromEntries(p.stages.map((s) => [s.id, s.suggestedId ?? ''])),
+        pipelineMap: Object.fromEntries(p.pipelines.map((x) => [x.id, x.suggestedId ?? ''])),
+        labelMap: Object.fromEntries(p.labels.map((l) => [l, l])),
+      });
+      setBusy(null);
+    },
+    [post]
+  );
+
+  const confirmImport = useCallback(async (): Promise<void> => {
+    if (!pending) return;
+    setBusy('import');
+    setError(null);
+
+    const j = await post<ImportResponse>('/api/automations/workflows/import', {
+      workflow: pending.workflow,
+      name: pending.name,
+      stageMap: pending.stageMap,
+      pipelineMap: pending.pipelineMap,
+      labelMap: pending.labelMap,
+    });
 
-    void run();
-  }, [router]);
+    if (typeof j === 'string' || !j.ok) {
+      setError(typeof j === 'string' ? j : (j.detail ?? j.error));
+      setBusy(null);
+      return;
+    }
+
+    router.push(`/automations/${j.workflowId}`);
+  }, [pending, post, router]);
+
+  const inputCls =
+    'mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40';
 
   return (
-    <div className="p-6">
-      <div className="card-glass rounded-2xl border border-white/10 bg-black/20 p-6 backdrop-blur">
-        {error ? (
-          <div>
-            <div className="text-white/90 font-medium">No se pudo crear el workflow</div>
-            <div className="mt-2 text-sm text-white/70">{error}</div>
-          </div>
-        ) : (
-          <div className="text-white/80">Creando workflow…</div>
-        )}
+    <div className="p-4 md:p-6">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-white/95">Nuevo workflow</h1>
+          <p className="text-sm text-white/60">Empieza en blanco, desde una plantilla o importando un JSON exportado.</p>
+        </div>
+        <Link
+          href="/automations"
+          className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+        >
+          Volver
+        </Link>
       </div>
+
+      {error ? (
+        <div className="mb-4 card-glass rounded-2xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-white/80">{error}</div>
+      ) : null}
+
+      {pending ? (
+        <div className="card-glass rounded-2xl border border-white/10 bg-black/20 p-5 backdrop-blur">
+          <div className="text-white/90 font-medium">Importar workflow</div>
+          <div className="mt-1 text-sm text-white/60">
+            {pending.nodeCount} nodo(s). Se crea como borrador; revisa las referencias antes de activarlo.
+          </div>
+
+          <div className="mt-4 max-w-xl">
+            <label className="text-xs text-white/60">Nombre</label>
+            <input value={pending.name} onChange={(e) => setPending({ ...pending, name: e.target.value })} className={inputCls} />
+          </div>
+
+          {pending.stages.length > 0 ? (
+            <div className="mt-5">
+              <div className="text-sm text-white/85">Stages</div>
+              <div className="text-[11px] text-white/55">Los no asignados quedan vacíos y el editor los marcará como error.</div>
+              <div className="mt-2 grid grid-cols-1 gap-3 md:grid-cols-2">
+                {pending.stages.map((s) => (
+                  <div key={s.id}>
+                    <label className="text-xs text-white/60">
+                      {s.pipelineName ?? 'Pipeline desconocido'} → {s.name ?? s.id}
+                    </label>
+                    <select
+                      value={pending.stageMap[s.id] ?? ''}
+                      onChange={(e) => setPending({ ...pending, stageMap: { ...pending.stageMap, [s.id]: e.target.value } })}
+                      className={inputCls}
+                    >
+                      <option value="">— Sin asignar —</option>
+                      {pending.available.map((p) => (
+                        <optgroup key={p.id} label={p.name}>
+                          {p.stages.map((st) => (
+                            <option key={st.id} value={st.id}>
+                              {st.name}
+                            </option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {pending.pipelines.length > 0 ? (
+            <div className="mt-5">
+              <div className="text-sm text-white/85">Pipelines</div>
+              <div className="text-[11px] text-white/55">Solo se usan si el stage destino de &quot;Mover de stage&quot; queda sin asignar.</div>
+              <div className="mt-2 grid grid-cols-1 gap-3 md:grid-cols-2">
+                {pending.pipelines.map((p) => (
+                  <div key={p.id}>
+                    <label className="text-xs text-white/60">{p.name ?? p.id}</label>
+                    <select
+                      value={pending.pipelineMap[p.id] ?? ''}
+                      onChange={(e) => setPending({ ...pending, pipelineMap: { ...pending.pipelineMap, [p.id]: e.target.value } })}
+                      className={inputCls}
+                    >
+                      <option value="">— Pipeline del run —</option>
+                      {pending.available.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {pending.labels.length > 0 ? (
+            <div className="mt-5">
+              <div className="text-sm text-white/85">Etiquetas</div>
+              <div className="text-[11px] text-white/55">Renombra las que en este workspace se llamen distinto.</div>
+              <div className="mt-2 grid grid-cols-1 gap-3 md:grid-cols-2">
+                {pending.labels.map((l) => (
+                  <div key={l}>
+                    <label className="text-xs text-white/60">{l}</label>
+                    <input
+                      value={pending.labelMap[l] ?? l}
+                      onChange={(e) => setPending({ ...pending, labelMap: { ...pending.labelMap, [l]: e.target.value } })}
+                      className={inputCls}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          <div className="mt-6 flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => void confirmImport()}
+              disabled={busy !== null}
+              className="inline-flex items-center gap-2 rounded-xl border border-indigo-400/25 bg-indigo-500/15 px-4 py-2 text-sm text-white hover:bg-indigo-500/25 disabled:opacity-50"
+            >
+              <FileUp className="h-4 w-4" />
+              {busy === 'import' ? 'Importando…' : 'Importar'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPending(null)}
+              className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white/80 hover:bg-white/10"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+          <button
+            type="button"
+            onClick={() => void createBlank()}
+            disabled={busy !== null}
+            className="card-glass rounded-2xl border border-white/10 bg-black/20 p-5 text-left backdrop-blur hover:bg-white/5 disabled:opacity-50"
+          >
+            <div className="flex items-center gap-2 text-white/95 font-medium">
+              <FilePlus2 className="h-5 w-5" />
+              {busy === 'blank' ? 'Creando…' : 'En blanco'}
+            </div>
+            <div className="mt-2 text-sm text-white/60">Un workflow vacío para construir desde cero.</div>
+          </button>
+
+          <button
+            type="button"
+            onClick={() => fileRef.current?.click()}
+            disabled={busy !== null}
+            className="card-glass rounded-2xl border border-white/10 bg-black/20 p-5 text-left backdrop-blur hover:bg-white/5 disabled:opacity-50"
+          >
+            <div className="flex items-center gap-2 text-white/95 font-medium">
+              <FileUp className="h-5 w-5" />
+              {busy === 'file' ? 'Leyendo…' : 'Importar JSON'}
+            </div>
+            <div className="mt-2 text-sm text-white/60">Un workflow exportado desde otro workspace.</div>
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) void readFile(file);
+            }}
+          />
+
+          {WORKFLOW_TEMPLATES.map((t) => (
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => void createFromTemplate(t.id)}
+              disabled={busy !== null}
+              className="card-glass rounded-2xl border border-white/10 bg-black/20 p-5 text-left backdrop-blur hover:bg-white/5 disabled:opacity-50"
+            >
+              <div className="flex items-center gap-2 text-white/95 font-medium">
+                <LayoutTemplate className="h-5 w-5" />
+                {busy === t.id ? 'Creando…' : t.name}
+              </div>
+              <div className="mt-2 text-sm text-white/60">{t.description}</div>
+              <div className="mt-3 text-xs text-white/45">Plantilla · {t.workflow.nodes.length} nodos</div>
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
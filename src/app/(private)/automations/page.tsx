@@ -8,7 +8,7 @@ import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
 import { getActiveWorkspaceId } from '@/lib/activeWorkspace';
 
-import { Plus, Workflow, PauseCircle, PlayCircle, FileText, Trash2 } from 'lucide-react';
+import { Plus, Workflow, PauseCircle, PlayCircle, FileText, Trash2, Send, AlertTriangle, LayoutTemplate } from 'lucide-react';
 
 type WorkflowStatus = 'draft' | 'active' | 'paused' | string;
 
@@ -267,6 +267,29 @@ export default function AutomationsPage() {
       </div>
 
       {/* ✅ Quitado el botón de arriba */}
+      <div className="flex items-center gap-2">
+        <Link
+          href="/automations/new"
+          className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+        >
+          <LayoutTemplate className="h-4 w-4" />
+          Plantillas e importar
+        </Link>
+        <Link
+          href="/automations/dead-letter"
+          className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+        >
+          <AlertTriangle className="h-4 w-4" />
+          Dead-letter
+        </Link>
+        <Link
+          href="/automations/providers"
+          className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+        >
+          <Send className="h-4 w-4" />
+          Proveedores de envío
+        </Link>
+      </div>
     </div>
 
     {content}
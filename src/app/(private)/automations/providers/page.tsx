@@ -0,0 +1,555 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+
+import { supabase } from '@/lib/supabaseClient';
+import { getActiveWorkspaceId } from '@/lib/activeWorkspace';
+
+import { ArrowLeft, KeyRound, Mail, MessageSquare, Save, Send } from 'lucide-react';
+
+type Channel = 'email' | 'sms';
+
+type PublicSettings = {
+  channel: Channel;
+  provider: string;
+  enabled: boolean;
+  config: Record<string, unknown>;
+  hasSecret: boolean;
+  updatedAt: string | null;
+};
+
+type GetResponse = { ok: true; settings: PublicSettings | null } | { ok: false; error: string; detail?: string };
+
+type SmtpForm = {
+  host: string;
+  port: string;
+  secure: boolean;
+  username: string;
+  password: string;
+  fromEmail: string;
+  fromName: string;
+  enabled: boolean;
+};
+
+type TwilioForm = {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+  messagingServiceSid: string;
+  enabled: boolean;
+};
+
+const EMPTY_SMTP: SmtpForm = {
+  host: '',
+  port: '587',
+  secure: false,
+  username: '',
+  password: '',
+  fromEmail: '',
+  fromName: '',
+  enabled: true,
+};
+
+const EMPTY_TWILIO: TwilioForm = {
+  accountSid: '',
+  authToken: '',
+  fromNumber: '',
+  messagingServiceSid: '',
+  enabled: true,
+};
+
+const INPUT_CLS =
+  'mt-1 w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40';
+
+function cfgStr(cfg: Record<string, unknown>, key: string): string {
+  const v = cfg[key];
+  return typeof v === 'string' ? v : typeof v === 'number' ? String(v) : '';
+}
+
+async function authHeaders(): Promise<Record<string, string> | string> {
+  const ws = await getActiveWorkspaceId();
+  if (!ws) return 'missing_workspace';
+
+  const { data: sess } = await supabase.auth.getSession();
+  const token = sess.session?.access_token;
+  if (!token) return 'login_required';
+
+  return { Authorization: `Bearer ${token}`, 'x-workspace-id': ws, 'content-type': 'application/json' };
+}
+
+export default function MessageProvidersPage() {
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const [smtp, setSmtp] = useState<SmtpForm>(EMPTY_SMTP);
+  const [twilio, setTwilio] = useState<TwilioForm>(EMPTY_TWILIO);
+  const [hasSecret, setHasSecret] = useState<Record<Channel, boolean>>({ email: false, sms: false });
+  const [saving, setSaving] = useState<Channel | null>(null);
+
+  const [testTo, setTestTo] = useState<Record<Channel, string>>({ email: '', sms: '' });
+  const [testing, setTesting] = useState<Channel | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    async function run() {
+      const headers = await authHeaders();
+      if (!alive) return;
+
+      if (typeof headers === 'string') {
+        setError(headers);
+        setLoading(false);
+        return;
+      }
+
+      const [emailRes, smsRes] = await Promise.all(
+        (['email', 'sms'] as const).map((ch) =>
+          fetch(`/api/automations/providers/get?channel=${ch}`, { method: 'GET', headers, cache: 'no-store' }).then(
+            (r) => r.json() as Promise<GetResponse>
+          )
+        )
+      );
+      if (!alive) return;
+
+      if (!emailRes.ok || !smsRes.ok) {
+        const bad = !emailRes.ok ? emailRes : !smsRes.ok ? smsRes : null;
+        setError(bad ? (bad.detail ?? bad.error) : 'unknown_error');
+        setLoading(false);
+        return;
+      }
+
+      if (emailRes.settings && emailRes.settings.provider === 'smtp') {
+        const c = emailRes.settings.config;
+        setSmtp({
+          host: cfgStr(c, 'host'),
+          port: cfgStr(c, 'port') || '587',
+          secure: c.secure === true,
+          username: cfgStr(c, 'username'),
+          password: '',
+          fromEmail: cfgStr(c, 'fromEmail'),
+          fromName: cfgStr(c, 'fromName'),
+          enabled: emailRes.settings.enabled,
+        });
+      }
+
+      if (smsRes.settings && smsRes.settings.provider === 'twilio') {
+        const c = smsRes.settings.config;
+        setTwilio({
+          accountSid: cfgStr(c, 'accountSid'),
+          authToken: '',
+          fromNumber: cfgStr(c, 'fromNumber'),
+          messagingServiceSid: cfgStr(c, 'messagingServiceSid'),
+          enabled: smsRes.settings.enabled,
+        });
+      }
+
+      setHasSecret({ email: Boolean(emailRes.settings?.hasSecret), sms: Boolean(smsRes.settings?.hasSecret) });
+      setLoading(false);
+    }
+
+    void run();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const save = useCallback(
+    async (channel: Channel): Promise<void> => {
+      setSaving(channel);
+      setError(null);
+      setInfo(null);
+
+      const headers = await authHeaders();
+      if (typeof headers === 'string') {
+        setError(headers);
+        setSaving(null);
+        return;
+      }
+
+      // Secreto vacío = conservar el guardado
+      const payload =
+        channel === 'email'
+          ? {
+              channel,
+              provider: 'smtp',
+              enabled: smtp.enabled,
+              config: {
+                host: smtp.host,
+                port: Number(smtp.port),
+                secure: smtp.secure,
+                username: smtp.username,
+                fromEmail: smtp.fromEmail,
+                fromName: smtp.fromName,
+              },
+              ...(smtp.password ? { secret: smtp.password } : {}),
+            }
+          : {
+              channel,
+              provider: 'twilio',
+              enabled: twilio.enabled,
+              config: {
+                accountSid: twilio.accountSid,
+                fromNumber: twilio.fromNumber,
+                messagingServiceSid: twilio.messagingServiceSid,
+              },
+              ...(twilio.authToken ? { secret: twilio.authToken } : {}),
+            };
+
+      const res = await fetch('/api/automations/providers/upsert', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+      });
+
+      const j = (await res.json()) as GetResponse;
+      if (!j.ok) {
+        setError(j.detail ?? j.error);
+      } else {
+        setHasSecret((prev) => ({ ...prev, [channel]: Boolean(j.settings?.hasSecret) }));
+        if (channel === 'email') setSmtp((prev) => ({ ...prev, password: '' }));
+        else setTwilio((prev) => ({ ...prev, authToken: '' }));
+        setInfo(channel === 'email' ? 'Proveedor de email guardado.' : 'Proveedor de SMS guardado.');
+      }
+      setSaving(null);
+    },
+    [smtp, twilio]
+  );
+
+  const sendTest = useCallback(
+    async (channel: Channel): Promise<void> => {
+      setTesting(channel);
+      setError(null);
+      setInfo(null);
+
+      const headers = await authHeaders();
+      if (typeof headers === 'string') {
+        setError(headers);
+        setTesting(null);
+        return;
+      }
+
+      const res = await fetch('/api/automations/providers/test', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ channel, to: testTo[channel] }),
+      });
+
+      const j = (await res.json()) as
+        | { ok: true; providerMessageId: string; source: string }
+        | { ok: false; error: string; kind?: string; detail?: string };
+
+      if (!j.ok) {
+        setError(`${j.error}${j.kind ? ` (${j.kind})` : ''}${j.detail ? `: ${j.detail}` : ''}`);
+      } else {
+        setInfo(`Enviado (${j.source}). ID: ${j.providerMessageId}`);
+      }
+      setTesting(null);
+    },
+    [testTo]
+  );
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-white/95">Proveedores de envío</h1>
+          <p className="text-sm text-white/60">Credenciales usadas por las acciones de email/SMS y webhooks de tus workflows.</p>
+        </div>
+
+        <Link
+          href="/automations"
+          className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Volver
+        </Link>
+      </div>
+
+      {error ? (
+        <div className="mb-3 card-glass rounded-2xl border border-red-400/30 bg-red-500/10 p-3 text-sm text-white/80">{error}</div>
+      ) : null}
+      {info ? (
+        <div className="mb-3 card-glass rounded-2xl border border-emerald-300/30 bg-emerald-500/10 p-3 text-sm text-white/80">{info}</div>
+      ) : null}
+
+      {loading ? (
+        <div className="card-glass rounded-2xl border border-white/10 bg-black/20 p-6 backdrop-blur">Cargando…</div>
+      ) : (
+        <div className="grid max-w-5xl grid-cols-1 gap-4 xl:grid-cols-2">
+          <ProviderCard
+            icon={<Mail className="h-5 w-5" />}
+            title="Email · SMTP"
+            enabled={smtp.enabled}
+            onEnabledChange={(v) => setSmtp({ ...smtp, enabled: v })}
+            saving={saving === 'email'}
+            onSave={() => void save('email')}
+            testLabel="Enviar email de prueba a"
+            testPlaceholder="tu@email.com"
+            testTo={testTo.email}
+            onTestToChange={(v) => setTestTo({ ...testTo, email: v })}
+            testing={testing === 'email'}
+            onTest={() => void sendTest('email')}
+          >
+            <div>
+              <label className="text-xs text-white/60">Host</label>
+              <input value={smtp.host} onChange={(e) => setSmtp({ ...smtp, host: e.target.value })} placeholder="smtp.tudominio.com" className={INPUT_CLS} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs text-white/60">Puerto</label>
+                <input value={smtp.port} onChange={(e) => setSmtp({ ...smtp, port: e.target.value })} inputMode="numeric" className={INPUT_CLS} />
+              </div>
+              <label className="mt-6 inline-flex items-center gap-2 text-sm text-white/80">
+                <input type="checkbox" checked={smtp.secure} onChange={(e) => setSmtp({ ...smtp, secure: e.target.checked })} />
+                TLS (465)
+              </label>
+            </div>
+
+            <div>
+              <label className="text-xs text-white/60">Usuario</label>
+              <input value={smtp.username} onChange={(e) => setSmtp({ ...smtp, username: e.target.value })} autoComplete="off" className={INPUT_CLS} />
+            </div>
+
+            <div>
+              <label className="text-xs text-white/60">Contraseña</label>
+              <input
+                type="password"
+                value={smtp.password}
+                onChange={(e) => setSmtp({ ...smtp, password: e.target.value })}
+                placeholder={hasSecret.email ? '•••••••• (guardada)' : ''}
+                autoComplete="new-password"
+                className={INPUT_CLS}
+              />
+            </div>
+
+            <div>
+              <label className="text-xs text-white/60">Remitente (email)</label>
+              <input value={smtp.fromEmail} onChange={(e) => setSmtp({ ...smtp, fromEmail: e.target.value })} placeholder="hola@tudominio.com" className={INPUT_CLS} />
+            </div>
+
+            <div>
+              <label className="text-xs text-white/60">Remitente (nombre)</label>
+              <input value={smtp.fromName} onChange={(e) => setSmtp({ ...smtp, fromName: e.target.value })} placeholder="Kalue" className={INPUT_CLS} />
+            </div>
+          </ProviderCard>
+
+          <ProviderCard
+            icon={<MessageSquare className="h-5 w-5" />}
+            title="SMS · Twilio (o compatible)"
+            enabled={twilio.enabled}
+            onEnabledChange={(v) => setTwilio({ ...twilio, enabled: v })}
+            saving={saving === 'sms'}
+            onSave={() => void save('sms')}
+            testLabel="Enviar SMS de prueba a"
+            testPlaceholder="+34600000000"
+            testTo={testTo.sms}
+            onTestToChange={(v) => setTestTo({ ...testTo, sms: v })}
+            testing={testing === 'sms'}
+            onTest={() => void sendTest('sms')}
+          >
+            <div>
+              <label className="text-xs text-white/60">Account SID</label>
+              <input value={twilio.accountSid} onChange={(e) => setTwilio({ ...twilio, accountSid: e.target.value })} placeholder="AC…" autoComplete="off" className={INPUT_CLS} />
+            </div>
+
+            <div>
+              <label className="text-xs text-white/60">Auth token</label>
+              <input
+                type="password"
+                value={twilio.authToken}
+                onChange={(e) => setTwilio({ ...twilio, authToken: e.target.value })}
+                placeholder={hasSecret.sms ? '•••••••• (guardado)' : ''}
+                autoComplete="new-password"
+                className={INPUT_CLS}
+              />
+            </div>
+
+            <div>
+              <label className="text-xs text-white/60">Número remitente</label>
+              <input value={twilio.fromNumber} onChange={(e) => setTwilio({ ...twilio, fromNumber: e.target.value })} placeholder="+15550001111" className={INPUT_CLS} />
+            </div>
+
+            <div>
+              <label className="text-xs text-white/60">Messaging Service SID (opcional)</label>
+              <input
+                value={twilio.messagingServiceSid}
+                onChange={(e) => setTwilio({ ...twilio, messagingServiceSid: e.target.value })}
+                placeholder="MG…"
+                className={INPUT_CLS}
+              />
+            </div>
+          </ProviderCard>
+
+          <WebhookSecretCard />
+        </div>
+      )}
+    </div>
+  );
+}
+
+type WebhookSecretResponse = { ok: true; hasSecret: boolean; rotatedAt: string | null } | { ok: false; error: string; detail?: string };
+
+type RotateResponse = { ok: true; secret: string; rotatedAt: string } | { ok: false; error: string; detail?: string };
+
+/** Secreto HMAC de las acciones "Petición HTTP" (cabecera X-Kalue-Signature). */
+function WebhookSecretCard() {
+  const [info, setInfo] = useState<{ hasSecret: boolean; rotatedAt: string | null } | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    async function run() {
+      const headers = await authHeaders();
+      if (!alive || typeof headers === 'string') return;
+
+      const res = await fetch('/api/automations/webhook-secret/get', { method: 'GET', headers, cache: 'no-store' });
+      const j = (await res.json()) as WebhookSecretResponse;
+      if (!alive) return;
+
+      if (!j.ok) setError(j.detail ?? j.error);
+      else setInfo({ hasSecret: j.hasSecret, rotatedAt: j.rotatedAt });
+    }
+
+    void run();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const rotate = async (): Promise<void> => {
+    if (info?.hasSecret && !window.confirm('Las peticiones firmadas con el secreto actual dejarán de validar. ¿Generar uno nuevo?')) return;
+
+    setBusy(true);
+    setError(null);
+
+    const headers = await authHeaders();
+    if (typeof headers === 'string') {
+      setError(headers);
+      setBusy(false);
+      return;
+    }
+
+    const res = await fetch('/api/automations/webhook-secret/rotate', { method: 'POST', headers });
+    const j = (await res.json()) as RotateResponse;
+
+    if (!j.ok) {
+      setError(j.detail ?? j.error);
+    } else {
+      setSecret(j.secret);
+      setInfo({ hasSecret: true, rotatedAt: j.rotatedAt });
+    }
+    setBusy(false);
+  };
+
+  return (
+    <div className="card-glass rounded-2xl border border-white/10 bg-black/20 p-5 backdrop-blur">
+      <div className="flex items-center gap-2 text-white/90">
+        <KeyRound className="h-5 w-5" />
+        <span className="font-medium">Webhooks salientes · firma HMAC</span>
+      </div>
+
+      <p className="mt-3 text-sm text-white/60">
+        Las acciones «Petición HTTP» con firma envían <span className="text-white/80">X-Kalue-Signature: t=…,v1=…</span>, donde v1 es el
+        HMAC-SHA256 en hex de <span className="text-white/80">{'`${t}.${cuerpo}`'}</span> con este secreto.
+      </p>
+
+      {error ? <div className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-2 text-sm text-white/80">{error}</div> : null}
+
+      {secret ? (
+        <div className="mt-3 rounded-xl border border-amber-400/30 bg-amber-500/10 p-3">
+          <div className="text-xs text-white/70">Cópialo ahora: no se volverá a mostrar.</div>
+          <code className="mt-1 block break-all text-sm text-white/90">{secret}</code>
+        </div>
+      ) : null}
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+        <span className="text-sm text-white/60">
+          {info === null
+            ? 'Cargando…'
+            : info.hasSecret
+              ? `Configurado${info.rotatedAt ? ` · ${new Date(info.rotatedAt).toLocaleString()}` : ''}`
+              : 'Sin secreto: las acciones firmadas fallarán.'}
+        </span>
+
+        <button
+          onClick={() => void rotate()}
+          disabled={busy || info === null}
+          className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-indigo-500/20 px-4 py-2 text-sm text-white hover:bg-indigo-500/30 disabled:opacity-50"
+        >
+          <KeyRound className="h-4 w-4" />
+          {busy ? 'Generando…' : info?.hasSecret ? 'Rotar secreto' : 'Generar secreto'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ProviderCard(props: {
+  icon: ReactNode;
+  title: string;
+  children: ReactNode;
+  enabled: boolean;
+  onEnabledChange: (v: boolean) => void;
+  saving: boolean;
+  onSave: () => void;
+  testLabel: string;
+  testPlaceholder: string;
+  testTo: string;
+  onTestToChange: (v: string) => void;
+  testing: boolean;
+  onTest: () => void;
+}) {
+  return (
+    <div className="card-glass rounded-2xl border border-white/10 bg-black/20 p-5 backdrop-blur">
+      <div className="flex items-center gap-2 text-white/90">
+        {props.icon}
+        <span className="font-medium">{props.title}</span>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-2">{props.children}</div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+        <label className="inline-flex items-center gap-2 text-sm text-white/80">
+          <input type="checkbox" checked={props.enabled} onChange={(e) => props.onEnabledChange(e.target.checked)} />
+          Activo
+        </label>
+
+        <button
+          onClick={props.onSave}
+          disabled={props.saving}
+          className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-indigo-500/20 px-4 py-2 text-sm text-white hover:bg-indigo-500/30 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4" />
+          {props.saving ? 'Guardando…' : 'Guardar'}
+        </button>
+      </div>
+
+      <div className="mt-5 border-t border-white/10 pt-4">
+        <label className="text-xs text-white/60">{props.testLabel}</label>
+        <div className="mt-1 flex gap-2">
+          <input
+            value={props.testTo}
+            onChange={(e) => props.onTestToChange(e.target.value)}
+            placeholder={props.testPlaceholder}
+            className={INPUT_CLS.replace('mt-1 ', '')}
+          />
+          <button
+            onClick={props.onTest}
+            disabled={props.testing || !props.testTo.trim()}
+            className="inline-flex shrink-0 items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white/85 hover:bg-white/10 disabled:opacity-50"
+          >
+            <Send className="h-4 w-4" />
+            {props.testing ? 'Enviando…' : 'Probar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { supabaseBrowser } from '@/lib/supabase/client';
 import { getActiveWorkspaceId } from '@/lib/activeWorkspace';
+import { EnrollInWorkflowModal } from '@/components/automations/EnrollInWorkflowModal';
 
 type FormAnswers = Record<string, string | string[]>;
 
@@ -156,6 +157,7 @@ export default function LeadDetailPage() {
   const [loading, setLoading] = useState(true);
   const [lead, setLead] = useState<Lead | null>(null);
   const [error, setError] = useState<string>('');
+  const [enrollOpen, setEnrollOpen] = useState(false);
 
   // 1) Load lead
   useEffect(() => {
@@ -334,10 +336,20 @@ useEffect(() => {
             >
               Refrescar
             </button>
+
+            <button
+              type="button"
+              onClick={() => setEnrollOpen(true)}
+              className="rounded-xl border border-indigo-400/30 bg-indigo-500/10 px-4 py-2 text-sm text-indigo-200 hover:bg-indigo-500/15"
+            >
+              Inscribir en workflow
+            </button>
           </div>
         </div>
       </div>
 
+      <EnrollInWorkflowModal open={enrollOpen} leadIds={[lead.id]} onClose={() => setEnrollOpen(false)} />
+
       {/* ✅ UNA sola card: datos + respuestas + notas (sin duplicar) */}
       <div className="mt-6 card-glass border border-white/10 rounded-2xl p-6">
         <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
@@ -7,6 +7,7 @@ import { supabaseBrowser } from '@/lib/supabase/client';
 import { getActiveWorkspaceId } from '@/lib/activeWorkspace';
 
 import { LEAD_LABELS, type LeadLabel, isLeadLabel, normalizeLabel, type LeadStatus } from '@/lib/leadhub/leadConstants';
+import { EnrollInWorkflowModal } from '@/components/automations/EnrollInWorkflowModal';
 
 type FormAnswers = Record<string, string | string[]>;
 
@@ -60,6 +61,14 @@ async function getAccessToken(): Promise<string | null> {
   return data.session?.access_token ?? null;
 }
 
+/** Sesión + workspace activo: las rutas de leads y notificaciones filtran por workspace. */
+async function getAuthHeaders(): Promise<Record<string, string> | null> {
+  const token = await getAccessToken();
+  const workspaceId = (getActiveWorkspaceId() ?? '').trim();
+  if (!token || !workspaceId) return null;
+  return { authorization: `Bearer ${token}`, 'x-workspace-id': workspaceId };
+}
+
 function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === 'object' && v !== null;
 }
@@ -483,6 +492,7 @@ export default function LeadsPage() {
   const [bulkLabel, setBulkLabel] = useState<LeadLabel | ''>('');
   const [bulkLabelOpen, setBulkLabelOpen] = useState(false);
   const [bulkLabelConfirmOpen, setBulkLabelConfirmOpen] = useState(false);
+  const [enrollOpen, setEnrollOpen] = useState(false);
 
   const [markAllBellOpen, setMarkAllBellOpen] = useState(false);
   const [markAllBellLoading, setMarkAllBellLoading] = useState(false);
@@ -889,23 +899,23 @@ export default function LeadsPage() {
 
       if (!notificationId) return;
 
-      const token = await getAccessToken();
-      if (!token) return;
+      const auth = await getAuthHeaders();
+      if (!auth) return;
 
-      await fetch('/api/admin/leadhub/lead-notifications/mark-read', {
+      await fetch('/api/lead-notifications/mark-read', {
         method: 'POST',
         keepalive: true,
-        headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+        headers: { 'content-type': 'application/json', ...auth },
         body: JSON.stringify({ id: notificationId }),
       });
     },
     [unreadNotificationByLead]
   );
 
-  async function markLeadUnreadByLeadId(leadId: string, token: string) {
-    await fetch('/api/admin/leadhub/lead-notifications/mark-unread', {
+  async function markLeadUnreadByLeadId(leadId: string, auth: Record<string, string>) {
+    await fetch('/api/lead-notifications/mark-unread', {
       method: 'POST',
-      headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+      headers: { 'content-type': 'application/json', ...auth },
       body: JSON.stringify({ lead_id: leadId }),
     });
 
@@ -916,10 +926,10 @@ export default function LeadsPage() {
     });
   }
 
-  async function markLeadReadByLeadId(leadId: string, token: string) {
-    await fetch('/api/admin/leadhub/lead-notifications/mark-read-by-lead', {
+  async function markLeadReadByLeadId(leadId: string, auth: Record<string, string>) {
+    await fetch('/api/lead-notifications/mark-read-by-lead', {
       method: 'POST',
-      headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+      headers: { 'content-type': 'application/json', ...auth },
       body: JSON.stringify({ lead_id: leadId }),
     });
 
@@ -941,11 +951,11 @@ export default function LeadsPage() {
 
     setBulkLoading(true);
     try {
-      const token = await getAccessToken();
-      if (!token) return;
+      const auth = await getAuthHeaders();
+      if (!auth) return;
 
       for (const leadId of selectedLeadIds) {
-        if (unreadLeadIds.has(leadId)) await markLeadReadByLeadId(leadId, token);
+        if (unreadLeadIds.has(leadId)) await markLeadReadByLeadId(leadId, auth);
       }
 
       clearSelection();
@@ -960,11 +970,11 @@ export default function LeadsPage() {
 
     setBulkLoading(true);
     try {
-      const token = await getAccessToken();
-      if (!token) return;
+      const auth = await getAuthHeaders();
+      if (!auth) return;
 
       for (const leadId of selectedLeadIds) {
-        if (!unreadLeadIds.has(leadId)) await markLeadUnreadByLeadId(leadId, token);
+        if (!unreadLeadIds.has(leadId)) await markLeadUnreadByLeadId(leadId, auth);
       }
 
       clearSelection();
@@ -979,11 +989,11 @@ export default function LeadsPage() {
 
     setBulkLoading(true);
     try {
-      const token = await getAccessToken();
-      if (!token) return;
+      const auth = await getAuthHeaders();
+      if (!auth) return;
 
       for (const l of filtered) {
-        if (unreadLeadIds.has(l.id)) await markLeadReadByLeadId(l.id, token);
+        if (unreadLeadIds.has(l.id)) await markLeadReadByLeadId(l.id, auth);
       }
 
       clearSelection();
@@ -998,11 +1008,11 @@ export default function LeadsPage() {
 
     setBulkLoading(true);
     try {
-      const token = await getAccessToken();
-      if (!token) return;
+      const auth = await getAuthHeaders();
+      if (!auth) return;
 
       for (const l of filtered) {
-        if (!unreadLeadIds.has(l.id)) await markLeadUnreadByLeadId(l.id, token);
+        if (!unreadLeadIds.has(l.id)) await markLeadUnreadByLeadId(l.id, auth);
       }
 
       clearSelection();
@@ -1017,12 +1027,12 @@ export default function LeadsPage() {
 
     setMarkAllBellLoading(true);
     try {
-      const token = await getAccessToken();
-      if (!token) return;
+      const auth = await getAuthHeaders();
+      if (!auth) return;
 
-      const res = await fetch('/api/admin/leadhub/lead-notifications/mark-all-read', {
+      const res = await fetch('/api/lead-notifications/mark-all-read', {
         method: 'POST',
-        headers: { authorization: `Bearer ${token}` },
+        headers: auth,
       });
 
       const data = (await res.json()) as { ok: true } | { ok: false; error: string };
@@ -1056,12 +1066,12 @@ export default function LeadsPage() {
 
     setEditSaving(true);
     try {
-      const token = await getAccessToken();
-      if (!token) return;
+      const auth = await getAuthHeaders();
+      if (!auth) return;
 
-      const res = await fetch(`/api/admin/leadhub/leads/${editLeadId}/update`, {
+      const res = await fetch(`/api/marketing/leads/${encodeURIComponent(editLeadId)}/update`, {
         method: 'POST',
-        headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+        headers: { 'content-type': 'application/json', ...auth },
         body: JSON.stringify({
           full_name: next.full_name.trim() || null,
           phone: next.phone.trim() || null,
@@ -1098,12 +1108,12 @@ export default function LeadsPage() {
 
     setDeleteLoading(true);
     try {
-      const token = await getAccessToken();
-      if (!token) return;
+      const auth = await getAuthHeaders();
+      if (!auth) return;
 
-      const res = await fetch(`/api/admin/leadhub/leads/${deleteLeadId}/delete`, {
+      const res = await fetch(`/api/marketing/leads/${encodeURIComponent(deleteLeadId)}/delete`, {
         method: 'POST',
-        headers: { authorization: `Bearer ${token}` },
+        headers: auth,
       });
 
       const data = (await res.json()) as { ok: true } | { ok: false; error: string };
@@ -1130,8 +1140,8 @@ export default function LeadsPage() {
 
     setBulkLoading(true);
     try {
-      const token = await getAccessToken();
-      if (!token) return;
+      const auth = await getAuthHeaders();
+      if (!auth) return;
 
       const selectedIds = Array.from(selectedLeadIds);
       for (const leadId of selectedIds) {
@@ -1141,9 +1151,9 @@ export default function LeadsPage() {
 
         const nextLabels = mergeLabels(lead.labels, bulkLabel);
 
-        const res = await fetch(`/api/admin/leadhub/leads/${leadId}/update`, {
+        const res = await fetch(`/api/marketing/leads/${encodeURIComponent(leadId)}/update`, {
           method: 'POST',
-          headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+          headers: { 'content-type': 'application/json', ...auth },
           body: JSON.stringify({ labels: nextLabels }),
         });
 
@@ -1330,6 +1340,17 @@ export default function LeadsPage() {
                 }}
               />
               <span className="select-none text-xs text-white/70">Seleccionar todos (esta página)</span>
+
+              {selectedLeadIds.size > 0 ? (
+                <button
+                  type="button"
+                  onClick={() => setEnrollOpen(true)}
+                  disabled={bulkLoading}
+                  className="ml-2 inline-flex items-center rounded-xl border border-indigo-400/30 bg-indigo-500/10 px-3 py-1.5 text-xs text-indigo-200 hover:bg-indigo-500/15 disabled:opacity-60"
+                >
+                  Inscribir {selectedLeadIds.size} en workflow
+                </button>
+              ) : null}
             </div>
 
             <div className="flex items-center justify-end gap-3">
@@ -1573,6 +1594,12 @@ export default function LeadsPage() {
             onConfirm={() => void bulkAssignLabelToSelected()}
           />
 
+          <EnrollInWorkflowModal
+            open={enrollOpen}
+            leadIds={Array.from(selectedLeadIds)}
+            onClose={() => setEnrollOpen(false)}
+          />
+
           <ConfirmModal
             open={metaImportOpen}
             title="Importar leads desde Meta"
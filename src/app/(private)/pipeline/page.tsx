@@ -464,35 +464,6 @@ export default function PipelinePage() {
     });
   }
 
-  // ✅ FIX: no requiere workspaceId en args (usa activeWorkspaceId)
-  async function triggerLeadStageChanged(args: {
-    leadId: string;
-    pipelineId: string;
-    fromStageId?: string;
-    toStageId: string;
-  }): Promise<void> {
-    if (!activeWorkspaceId) return;
-
-    const token = await getAccessToken();
-    if (!token) return;
-
-    await fetch('/api/automations/triggers/lead-stage-changed', {
-      method: 'POST',
-      headers: {
-        authorization: `Bearer ${token}`,
-        'x-workspace-id': activeWorkspaceId,
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify({
-        workspaceId: activeWorkspaceId,
-        leadId: args.leadId,
-        pipelineId: args.pipelineId,
-        fromStageId: args.fromStageId ?? undefined,
-        toStageId: args.toStageId,
-      }),
-    }).catch(() => null);
-  }
-
   // ✅ persistMoveLead con razón mínima (para saber si estás revirtiendo por ok=false)
   async function persistMoveLead(args: {
     leadId: string;
@@ -859,19 +830,10 @@ export default function PipelinePage() {
 
     if (pendingMoveIdRef.current !== moveId) return;
 
+    // lead.stage_changed lo encola move-lead al persistir el movimiento
     if (!result.ok) {
       setLeadsByStage(snapshot);
       if (result.reason) setError(`move_lead_failed: ${result.reason}`);
-    } else {
-      // ✅ SOLO si el move se ha persistido OK
-      if (payload.fromStageId !== toStageId) {
-        void triggerLeadStageChanged({
-          leadId: payload.leadId,
-          pipelineId: payload.pipelineId,
-          fromStageId: payload.fromStageId,
-          toStageId,
-        });
-      }
     }
 
     setDragOverLead(null);
@@ -971,19 +933,10 @@ export default function PipelinePage() {
 
     if (pendingMoveIdRef.current !== moveId) return;
 
+    // lead.stage_changed lo encola move-lead al persistir el movimiento
     if (!result.ok) {
       setLeadsByStage(snapshot);
       if (result.reason) setError(`move_lead_failed: ${result.reason}`);
-    } else {
-      // ✅ SOLO si el move se ha persistido OK
-      if (payload.fromStageId !== toStageId) {
-        void triggerLeadStageChanged({
-          leadId: payload.leadId,
-          pipelineId: payload.pipelineId,
-          fromStageId: payload.fromStageId,
-          toStageId,
-        });
-      }
     }
 
     setDragOverLead(null);
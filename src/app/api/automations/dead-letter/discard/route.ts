@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { discardDeadLetters, parseDeadLetterKind } from '@/lib/automations/deadLetter';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/** Body: { kind: 'outbox' | 'steps', ids: string[] } */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const body = await safeJson(req);
+  const kind = parseDeadLetterKind(isRecord(body) ? body.kind : null);
+  if (!kind) return NextResponse.json({ ok: false, error: 'invalid_kind' }, { status: 400 });
+
+  const ids = isRecord(body) && Array.isArray(body.ids) ? body.ids.filter((x): x is string => typeof x === 'string' && x.length > 0) : [];
+  if (ids.length === 0) return NextResponse.json({ ok: false, error: 'missing_ids' }, { status: 400 });
+  if (ids.length > 200) return NextResponse.json({ ok: false, error: 'too_many_ids' }, { status: 400 });
+
+  try {
+    const discarded = await discardDeadLetters(ctx.admin, ctx.workspaceId, kind, ids);
+    return NextResponse.json({ ok: true, discarded }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
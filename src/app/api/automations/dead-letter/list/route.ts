@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { listDeadLetters, parseDeadLetterKind } from '@/lib/automations/deadLetter';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const url = new URL(req.url);
+  const kind = parseDeadLetterKind(url.searchParams.get('kind'));
+  if (!kind) return NextResponse.json({ ok: false, error: 'invalid_kind' }, { status: 400 });
+
+  try {
+    const items = await listDeadLetters(ctx.admin, ctx.workspaceId, kind);
+    return NextResponse.json({ ok: true, items }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
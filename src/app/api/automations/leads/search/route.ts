@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type LeadOption = { id: string; full_name: string | null; email: string | null; phone: string | null; created_at: string | null };
+
+const LIMIT = 20;
+
+/** GET ?q= — leads del workspace para selectores (busca en nombre, email y teléfono). */
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const url = new URL(req.url);
+  // Sin comas ni paréntesis: romperían el filtro .or() de PostgREST
+  const q = (url.searchParams.get('q') ?? '').replace(/[,()%]/g, ' ').trim();
+
+  let query = ctx.admin
+    .from('leads')
+    .select('id, full_name, email, phone, created_at')
+    .eq('workspace_id', ctx.workspaceId)
+    .order('created_at', { ascending: false })
+    .limit(LIMIT);
+
+  if (q) query = query.or(`full_name.ilike.%${q}%,email.ilike.%${q}%,phone.ilike.%${q}%`);
+
+  const { data, error } = await query;
+  if (error) return NextResponse.json({ ok: false, error: 'db_error', detail: error.message }, { status: 500 });
+
+  return NextResponse.json({ ok: true, leads: (data ?? []) as LeadOption[] }, { status: 200 });
+}
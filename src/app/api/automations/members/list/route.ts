@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type MemberOption = { userId: string; role: string; email: string | null; name: string | null };
+
+/** GET — miembros del workspace para los selectores de las acciones de equipo (notificar, crear tarea). */
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const { data, error } = await ctx.admin.from('workspace_members').select('user_id, role').eq('workspace_id', ctx.workspaceId);
+  if (error) return NextResponse.json({ ok: false, error: 'db_error', detail: error.message }, { status: 500 });
+
+  const rows = (data ?? []) as Array<{ user_id: string; role: string | null }>;
+
+  // Email/nombre desde auth.users (equipos pequeños: una llamada por miembro)
+  const members: MemberOption[] = await Promise.all(
+    rows.map(async (r) => {
+      const { data: u } = await ctx.admin.auth.admin.getUserById(r.user_id);
+      const meta = u.user?.user_metadata as Record<string, unknown> | undefined;
+      const name = typeof meta?.full_name === 'string' ? meta.full_name : typeof meta?.name === 'string' ? meta.name : null;
+      return { userId: r.user_id, role: r.role ?? 'member', email: u.user?.email ?? null, name };
+    })
+  );
+
+  members.sort((a, b) => (a.name ?? a.email ?? a.userId).localeCompare(b.name ?? b.email ?? b.userId));
+  return NextResponse.json({ ok: true, members }, { status: 200 });
+}
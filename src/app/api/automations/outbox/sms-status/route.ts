@@ -0,0 +1,81 @@
+// src/app/api/automations/outbox/sms-status/route.ts
+import { NextResponse } from 'next/server';
+import { supabaseServiceRole } from '@/lib/supabase/serviceRole';
+import { loadSmsCallbackSecret, smsStatusCallbackUrl } from '@/lib/automations/messageProviders';
+import { mapTwilioStatus, verifyTwilioSignature } from '@/lib/automations/twilioSmsProvider';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function json(status: number, payload: Record<string, unknown>) {
+  return new NextResponse(JSON.stringify(payload), {
+    status,
+    headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+  });
+}
+
+/**
+ * Callback de estado del proveedor SMS (StatusCallback de Twilio).
+ * Body application/x-www-form-urlencoded: MessageSid, MessageStatus, ErrorCode?, ErrorMessage?
+ *
+ * Actualiza workflow_message_outbox (por provider_message_id) a delivered / undelivered.
+ * Columna delivered_at en supabase/migrations/20261019000300_workflow_automation_schema.sql
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  const url = new URL(req.url);
+  const workspaceId = (url.searchParams.get('workspace_id') ?? '').trim();
+  if (!workspaceId) return json(400, { ok: false, error: 'missing_workspace_id' });
+
+  const form = await req.formData().catch(() => null);
+  if (!form) return json(400, { ok: false, error: 'invalid_body' });
+
+  const params: Record<string, string> = {};
+  form.forEach((v, k) => {
+    if (typeof v === 'string') params[k] = v;
+  });
+
+  const sb = supabaseServiceRole();
+
+  try {
+    const authToken = await loadSmsCallbackSecret(sb, workspaceId);
+    if (!authToken) return json(404, { ok: false, error: 'provider_not_configured' });
+
+    // Se firma con la URL exacta que le dimos al proveedor; detrás de proxies req.url puede diferir
+    const signedUrl = smsStatusCallbackUrl(workspaceId) ?? req.url;
+    const signature = (req.headers.get('x-twilio-signature') ?? '').trim();
+
+    if (!signature || !verifyTwilioSignature({ authToken, url: signedUrl, params, signature })) {
+      return json(401, { ok: false, error: 'invalid_signature' });
+    }
+
+    const sid = (params.MessageSid ?? params.SmsSid ?? '').trim();
+    const rawStatus = (params.MessageStatus ?? params.SmsStatus ?? '').trim();
+    if (!sid || !rawStatus) return json(400, { ok: false, error: 'missing_message_sid_or_status' });
+
+    const next = mapTwilioStatus(rawStatus);
+    if (!next) return json(200, { ok: true, ignored: rawStatus });
+
+    const patch: Record<string, unknown> =
+      next === 'delivered'
+        ? { status: 'delivered', delivered_at: new Date().toISOString() }
+        : {
+            status: 'undelivered',
+            error: `undelivered: ${rawStatus}${params.ErrorCode ? ` (${params.ErrorCode})` : ''}${params.ErrorMessage ? ` ${params.ErrorMessage}` : ''}`,
+          };
+
+    const { data, error } = await sb
+      .from('workflow_message_outbox')
+      .update(patch)
+      .eq('workspace_id', workspaceId)
+      .eq('channel', 'sms')
+      .eq('provider_message_id', sid)
+      .select('id');
+
+    if (error) return json(500, { ok: false, error: 'db_error', detail: error.message });
+
+    return json(200, { ok: true, status: next, updated: Array.isArray(data) ? data.length : 0 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return json(500, { ok: false, error: 'server_error', detail: msg });
+  }
+}
@@ -1,6 +1,8 @@
 // src/app/api/automations/outbox/tick/route.ts
 import { NextResponse, type NextRequest } from 'next/server';
 import { supabaseServiceRole } from '@/lib/supabase/serviceRole';
+import { verifyInternalJob } from '@/lib/automations/internalJobAuth';
+import { processOutbox } from '@/lib/automations/outboxTick';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -13,40 +15,14 @@ function json(status: number, payload: Record<string, unknown>) {
   });
 }
 
-export async function POST(_req: NextRequest) {
-  const sb = supabaseServiceRole();
+export async function POST(req: NextRequest) {
+  const auth = await verifyInternalJob(req);
+  if (!auth.ok) return json(auth.status, { ok: false, error: auth.error });
 
-  const { data: claimed, error } = await sb.rpc('workflow_claim_outbox', {
-    p_batch_size: 25,
-    p_locker: `outbox-${process.env.VERCEL_REGION ?? 'local'}`,
+  const r = await processOutbox(supabaseServiceRole(), {
+    batchSize: 25,
+    locker: `outbox-${process.env.VERCEL_REGION ?? 'local'}`,
   });
 
-  if (error) return json(500, { ok: false, error: 'claim_failed', detail: error.message });
-
-  const rows = Array.isArray(claimed) ? claimed : [];
-  if (rows.length === 0) return json(200, { ok: true, processed: 0 });
-
-  let processed = 0;
-
-  for (const r of rows) {
-    const id = r.id as string;
-
-    try {
-      // TODO: aquí conectamos provider real:
-      // - email: Resend (payload.subject/payload.body)
-      // - sms: Twilio/MessageBird/etc
-      // Por ahora: simular enviado
-      await sb
-        .from('workflow_message_outbox')
-        .update({ status: 'sent', sent_at: new Date().toISOString(), provider_message_id: 'stub' })
-        .eq('id', id);
-
-      processed += 1;
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : 'unknown_error';
-      await sb.from('workflow_message_outbox').update({ status: 'failed', error: msg }).eq('id', id);
-    }
-  }
-
-  return json(200, { ok: true, processed });
-}
\ No newline at end of file
+  return json(r.ok ? 200 : 500, r);
+}
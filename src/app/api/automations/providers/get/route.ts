@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { getProviderRow, toPublicSettings } from '@/lib/automations/messageProviders';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const url = new URL(req.url);
+  const channel = url.searchParams.get('channel');
+  if (channel !== 'email' && channel !== 'sms') {
+    return NextResponse.json({ ok: false, error: 'invalid_channel' }, { status: 400 });
+  }
+
+  try {
+    const row = await getProviderRow(ctx.admin, ctx.workspaceId, channel);
+    return NextResponse.json({ ok: true, settings: row ? toPublicSettings(row) : null }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
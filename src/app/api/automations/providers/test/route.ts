@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { loadDeliveryProvider } from '@/lib/automations/messageProviders';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 30;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Envía un mensaje de prueba con el proveedor configurado (sin pasar por el outbox).
+ * Body: { channel, to }
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const body = await safeJson(req);
+  const channel = isRecord(body) ? body.channel : null;
+  const to = isRecord(body) && typeof body.to === 'string' ? body.to.trim() : '';
+
+  if (channel !== 'email' && channel !== 'sms') return NextResponse.json({ ok: false, error: 'invalid_channel' }, { status: 400 });
+  if (!to) return NextResponse.json({ ok: false, error: 'missing_to' }, { status: 400 });
+
+  try {
+    const loaded = await loadDeliveryProvider(ctx.admin, ctx.workspaceId, channel);
+    if (!loaded.ok) return NextResponse.json({ ok: false, error: loaded.error }, { status: 400 });
+
+    const result = await loaded.provider.send({
+      id: crypto.randomUUID(),
+      workspace_id: ctx.workspaceId,
+      channel,
+      to,
+      payload: { subject: 'Kalue · mensaje de prueba', body: 'Si lees esto, el proveedor de envío está bien configurado.' },
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, error: 'send_failed', kind: result.kind, detail: result.error }, { status: 502 });
+    }
+
+    return NextResponse.json({ ok: true, providerMessageId: result.providerMessageId, source: loaded.source }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'test_failed', detail: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { parseSmtpPublicConfig, parseTwilioPublicConfig, saveProviderRow, toPublicSettings } from '@/lib/automations/messageProviders';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Body: { channel, provider, config, secret?, enabled? }
+ * `secret` ausente = se conserva el guardado; '' = se borra.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const body = await safeJson(req);
+  if (!isRecord(body)) return NextResponse.json({ ok: false, error: 'invalid_body' }, { status: 400 });
+
+  const channel = body.channel;
+  const provider = body.provider;
+  const secret = typeof body.secret === 'string' ? body.secret : undefined;
+  const enabled = body.enabled !== false;
+
+  let config: Record<string, unknown>;
+
+  if (channel === 'email' && provider === 'smtp') {
+    const parsed = parseSmtpPublicConfig(body.config);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+    config = parsed.config;
+  } else if (channel === 'sms' && provider === 'twilio') {
+    const parsed = parseTwilioPublicConfig(body.config);
+    if (!parsed.ok) return NextResponse.json({ ok: false, error: parsed.error }, { status: 400 });
+    config = parsed.config;
+  } else {
+    return NextResponse.json({ ok: false, error: 'unsupported_provider' }, { status: 400 });
+  }
+
+  try {
+    const row = await saveProviderRow(ctx.admin, { workspaceId: ctx.workspaceId, channel, provider, config, secret, enabled });
+    return NextResponse.json({ ok: true, settings: toPublicSettings(row) }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
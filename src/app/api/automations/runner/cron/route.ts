@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { postInternalJob, verifyInternalJob } from '@/lib/automations/internalJobAuth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -10,63 +11,16 @@ function json(status: number, payload: Record<string, unknown>) {
   });
 }
 
-function getEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
-}
-
-function safeEq(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  let out = 0;
-  for (let i = 0; i < a.length; i += 1) out |= a.charCodeAt(i) ^ b.charCodeAt(i);
-  return out === 0;
-}
-
-function isVercelCron(req: Request): boolean {
-  const h = req.headers;
-  const x = (h.get('x-vercel-cron') ?? '').trim();
-  if (x === '1' || x.toLowerCase() === 'true') return true;
-
-  const ua = (h.get('user-agent') ?? '').toLowerCase();
-  return ua.startsWith('vercel-cron/');
-}
-
-function pickSecretFromReq(req: Request): string | null {
-  const u = new URL(req.url);
-
-  const qs = (u.searchParams.get('secret') ?? '').trim();
-  if (qs) return qs;
-
-  const auth = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim();
-  return auth || null;
-}
-
 export async function GET(req: Request): Promise<NextResponse> {
   try {
-    const expected = getEnv('KALUE_CRON_SECRET');
-
-    // ✅ Autorización:
-    // - Si es cron de Vercel => OK
-    // - Si no es cron => requiere secret (query o bearer)
-    if (!isVercelCron(req)) {
-      const got = pickSecretFromReq(req);
-      if (!got || !safeEq(got, expected)) {
-        return json(401, { ok: false, error: 'unauthorized' });
-      }
-    }
+    // Cron de Vercel (Bearer CRON_SECRET) o petición firmada
+    const auth = await verifyInternalJob(req, { allowVercelCron: true });
+    if (!auth.ok) return json(auth.status, { ok: false, error: auth.error });
 
     const base = new URL(req.url);
     const target = new URL('/api/automations/runner/process-queue', base.origin);
 
-    const res = await fetch(target.toString(), {
-      method: 'POST',
-      headers: {
-        authorization: `Bearer ${expected}`,
-        'content-type': 'application/json',
-      },
-      body: JSON.stringify({}),
-    });
+    const res = await postInternalJob(target.toString());
 
     const text = await res.text();
     let upstream: unknown = null;
@@ -80,7 +34,7 @@ export async function GET(req: Request): Promise<NextResponse> {
       ok: true,
       upstreamStatus: res.status,
       upstream,
-      via: isVercelCron(req) ? 'vercel-cron' : 'manual-secret',
+      via: auth.via,
     });
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : 'server_error';
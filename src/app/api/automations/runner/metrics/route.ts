@@ -0,0 +1,32 @@
+// src/app/api/automations/runner/metrics/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { supabaseServiceRole } from '@/lib/supabase/serviceRole';
+import { getQueueMetrics, leaseTimeoutMs } from '@/lib/automations/queueLeases';
+import { verifyInternalJob } from '@/lib/automations/internalJobAuth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function json(status: number, payload: Record<string, unknown>) {
+  return new NextResponse(JSON.stringify(payload), {
+    status,
+    headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+  });
+}
+
+/**
+ * Salud de las colas para monitorización (petición firmada, ver internalJobAuth).
+ * `stuck` > 0 de forma sostenida = los ticks no están recuperando leases.
+ */
+export async function GET(req: NextRequest): Promise<NextResponse> {
+  const auth = await verifyInternalJob(req);
+  if (!auth.ok) return json(auth.status, { ok: false, error: auth.error });
+
+  try {
+    const metrics = await getQueueMetrics(supabaseServiceRole());
+    return json(200, { ok: true, leaseTimeoutMs: leaseTimeoutMs(), ...metrics });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'server_error';
+    return json(500, { ok: false, error: 'metrics_failed', detail: msg });
+  }
+}
@@ -1,6 +1,10 @@
 // src/app/api/automations/runner/process-queue/route.ts
 import { NextResponse, type NextRequest } from 'next/server';
-import { POST as tickPOST } from '../tick/route';
+import { dispatchQueuedEvents } from '@/lib/automations/dispatchWorkflowEvents';
+import { supabaseServiceRole } from '@/lib/supabase/serviceRole';
+import { getQueueMetrics } from '@/lib/automations/queueLeases';
+import { processRunSteps } from '@/lib/automations/runStepsTick';
+import { verifyInternalJob } from '@/lib/automations/internalJobAuth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -13,39 +17,26 @@ function json(status: number, payload: Record<string, unknown>) {
   });
 }
 
-function getEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
-}
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  try {
+    // Petición firmada (la reenvía runner/cron)
+    const auth = await verifyInternalJob(req);
+    if (!auth.ok) return json(auth.status, { ok: false, error: auth.error });
 
-function safeEq(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  let out = 0;
-  for (let i = 0; i < a.length; i += 1) out |= a.charCodeAt(i) ^ b.charCodeAt(i);
-  return out === 0;
-}
+    const sb = supabaseServiceRole();
 
-function pickBearer(req: Request): string | null {
-  const raw = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim();
-  return raw || null;
-}
+    // 1) eventos encolados -> workflow_runs + primeros steps
+    const events = await dispatchQueuedEvents({ limit: 25 });
 
-export async function POST(req: NextRequest): Promise<NextResponse> {
-  try {
-    // ✅ Mantiene tu seguridad actual (cron → process-queue con Bearer secret)
-    const expected = getEnv('KALUE_CRON_SECRET');
-    const got = pickBearer(req);
+    // 2) steps pendientes (mismo ciclo que runner/tick)
+    const tick = await processRunSteps(sb, { batchSize: 25, locker: `runner-${process.env.VERCEL_REGION ?? 'local'}` });
 
-    if (!got || !safeEq(got, expected)) {
-      return json(401, { ok: false, error: 'unauthorized' });
-    }
+    // Métrica de eventos/steps/mensajes atascados (lease caducado) tras este ciclo
+    const queue = await getQueueMetrics(sb).catch(() => null);
 
-    // ✅ Delegamos al nuevo motor (runner/tick) sin cambiar cron/vercel.json
-    // Nota: tickPOST puede no validar secret; aquí ya queda validado.
-    return await tickPOST(req);
+    return json(tick.ok ? 200 : 500, { ...tick, events, queue });
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : 'server_error';
     return json(500, { ok: false, error: 'server_error', detail: msg });
   }
-}
\ No newline at end of file
+}
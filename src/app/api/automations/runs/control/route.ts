@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { controlRun, type RunControlAction } from '@/lib/automations/runControl';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function asAction(v: unknown): RunControlAction | null {
+  return v === 'pause' || v === 'resume' || v === 'cancel' ? v : null;
+}
+
+/** Body: { runId, action: 'pause' | 'resume' | 'cancel' } */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const body = await safeJson(req);
+  const runId = isRecord(body) && typeof body.runId === 'string' ? body.runId.trim() : '';
+  const action = asAction(isRecord(body) ? body.action : null);
+
+  if (!runId || !action) return NextResponse.json({ ok: false, error: 'missing_fields' }, { status: 400 });
+
+  try {
+    const r = await controlRun(ctx.admin, { workspaceId: ctx.workspaceId, runId, action, userId: ctx.userId });
+    if (!r.found) return NextResponse.json({ ok: false, error: 'not_found' }, { status: 404 });
+    if (!r.changed) return NextResponse.json({ ok: false, error: 'invalid_transition', detail: `run ${r.status ?? ''}` }, { status: 409 });
+    return NextResponse.json({ ok: true, status: r.status, steps: r.steps }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
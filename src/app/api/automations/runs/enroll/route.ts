@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { MAX_MANUAL_ENROLL, enrollLeadsManually } from '@/lib/automations/manualEnrollment';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Body: { workflowId, leadIds } — inscribe los leads en el workflow (debe estar activo).
+ * Los que no pasan la política de entrada o ya cumplen un objetivo de salida vuelven como `skipped`.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const body = await safeJson(req);
+  const workflowId = isRecord(body) && typeof body.workflowId === 'string' ? body.workflowId.trim() : '';
+  const leadIds = isRecord(body) && Array.isArray(body.leadIds) ? body.leadIds.filter((x): x is string => typeof x === 'string' && x.trim().length > 0) : [];
+
+  if (!workflowId || leadIds.length === 0) return NextResponse.json({ ok: false, error: 'missing_fields' }, { status: 400 });
+  if (leadIds.length > MAX_MANUAL_ENROLL) {
+    return NextResponse.json({ ok: false, error: 'too_many_leads', detail: `max ${MAX_MANUAL_ENROLL}` }, { status: 400 });
+  }
+
+  try {
+    const r = await enrollLeadsManually(ctx.admin, { workspaceId: ctx.workspaceId, workflowId, leadIds, userId: ctx.userId });
+    if (!r.ok) return NextResponse.json(r, { status: r.error === 'workflow_not_found' ? 404 : 409 });
+    return NextResponse.json(r, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { getRun } from '@/lib/automations/runHistory';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const url = new URL(req.url);
+  const id = (url.searchParams.get('id') ?? '').trim();
+  if (!id) return NextResponse.json({ ok: false, error: 'missing_id' }, { status: 400 });
+
+  try {
+    const run = await getRun(ctx.admin, ctx.workspaceId, id);
+    if (!run) return NextResponse.json({ ok: false, error: 'not_found' }, { status: 404 });
+    return NextResponse.json({ ok: true, run }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { listRuns, parseDateParam } from '@/lib/automations/runHistory';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET ?workflowId=&leadId=&status=&from=&to=&limit=
+ * Hace falta workflowId o leadId (historial de un workflow o de un lead).
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const url = new URL(req.url);
+  const param = (k: string) => (url.searchParams.get(k) ?? '').trim() || null;
+
+  const workflowId = param('workflowId');
+  const leadId = param('leadId');
+  if (!workflowId && !leadId) return NextResponse.json({ ok: false, error: 'missing_workflow_or_lead' }, { status: 400 });
+
+  const from = parseDateParam(param('from'));
+  const to = parseDateParam(param('to'));
+  if ((param('from') && !from) || (param('to') && !to)) {
+    return NextResponse.json({ ok: false, error: 'invalid_date' }, { status: 400 });
+  }
+
+  const limit = Number(param('limit') ?? '');
+
+  try {
+    const runs = await listRuns(ctx.admin, ctx.workspaceId, {
+      workflowId,
+      leadId,
+      status: param('status'),
+      from,
+      to,
+      limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    });
+    return NextResponse.json({ ok: true, runs }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { renderTemplate } from '@/lib/automations/templateEngine';
+import { loadTemplateVars } from '@/lib/automations/loadTemplateVars';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function pickString(v: unknown, key: string): string {
+  if (!isRecord(v)) return '';
+  const x = v[key];
+  return typeof x === 'string' ? x.trim() : '';
+}
+
+/**
+ * Body: { leadId?: string, templates: { to?: string, subject?: string, body?: string } }
+ * Sin leadId se usa el lead más reciente del workspace.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const { admin, workspaceId } = ctx;
+  const body = await safeJson(req);
+
+  const rawTemplates = isRecord(body) && isRecord(body.templates) ? body.templates : {};
+  const templates: Record<string, string> = {};
+  for (const [k, v] of Object.entries(rawTemplates)) {
+    if (typeof v === 'string') templates[k] = v;
+  }
+
+  if (Object.keys(templates).length === 0) {
+    return NextResponse.json({ ok: false, error: 'missing_templates' }, { status: 400 });
+  }
+
+  let leadId = pickString(body, 'leadId');
+
+  if (!leadId) {
+    const { data: latest, error } = await admin
+      .from('leads')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) return NextResponse.json({ ok: false, error: 'db_error', detail: error.message }, { status: 500 });
+    leadId = Array.isArray(latest) && isRecord(latest[0]) && typeof latest[0].id === 'string' ? latest[0].id : '';
+  }
+
+  if (!leadId) return NextResponse.json({ ok: false, error: 'no_leads' }, { status: 404 });
+
+  try {
+    const vars = await loadTemplateVars(admin, { workspaceId, leadId });
+    if (!vars.lead) return NextResponse.json({ ok: false, error: 'lead_not_found' }, { status: 404 });
+
+    const rendered: Record<string, { text: string; missing: string[]; errors: string[] }> = {};
+    for (const [key, tpl] of Object.entries(templates)) {
+      const r = renderTemplate(tpl, vars);
+      rendered[key] = r.ok ? { text: r.text, missing: [], errors: [] } : { text: r.text, missing: r.missing, errors: r.errors };
+    }
+
+    const lead = isRecord(vars.lead) ? vars.lead : {};
+    return NextResponse.json(
+      {
+        ok: true,
+        lead: { id: leadId, full_name: typeof lead.full_name === 'string' ? lead.full_name : null },
+        rendered,
+      },
+      { status: 200 }
+    );
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'preview_failed', detail: msg }, { status: 500 });
+  }
+}
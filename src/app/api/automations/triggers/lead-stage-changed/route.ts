@@ -1,6 +1,7 @@
 // src/app/api/automations/triggers/lead-stage-changed/route.ts
 import { NextResponse, type NextRequest } from 'next/server';
 import { supabaseServiceRole } from '@/lib/supabase/serviceRole';
+import { verifyInternalJob } from '@/lib/automations/internalJobAuth';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -30,14 +31,19 @@ function pickStr(obj: Record<string, unknown>, key: string): string | null {
   return typeof v === 'string' && v.trim() ? v.trim() : null;
 }
 
+/**
+ * Encola lead.stage_changed para cambios de stage hechos fuera de /api/pipelines/move-lead
+ * (importaciones, integraciones…). Solo peticiones firmadas: inserta con service role.
+ */
 export async function POST(req: NextRequest) {
-  const sb = supabaseServiceRole();
+  const auth = await verifyInternalJob(req);
+  if (!auth.ok) return json(auth.status, { ok: false, error: auth.error });
 
-  const xWorkspaceId = req.headers.get('x-workspace-id');
+  const sb = supabaseServiceRole();
 
   let bodyUnknown: unknown = null;
   try {
-    bodyUnknown = (await req.json()) as unknown;
+    bodyUnknown = JSON.parse(auth.body) as unknown;
   } catch {
     return json(400, { ok: false, error: 'invalid_json' });
   }
@@ -53,10 +59,10 @@ export async function POST(req: NextRequest) {
     return json(400, { ok: false, error: 'missing_fields' });
   }
 
-  // coherencia: header debe coincidir con body (anti “spoof”)
-  if (!xWorkspaceId || xWorkspaceId !== workspaceId) {
-    return json(400, { ok: false, error: 'workspace_mismatch' });
-  }
+  // El lead debe ser del workspace (el cuerpo viene firmado, pero no de un usuario)
+  const { data: lead, error: leadErr } = await sb.from('leads').select('id').eq('id', leadId).eq('workspace_id', workspaceId).maybeSingle();
+  if (leadErr) return json(500, { ok: false, error: 'lead_fetch_failed', detail: leadErr.message });
+  if (!lead) return json(404, { ok: false, error: 'lead_not_found' });
 
   const payload = {
     workspaceId,
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { supabaseServiceRole } from '@/lib/supabase/serviceRole';
+import { scanIdleLeads } from '@/lib/automations/stageIdleTrigger';
+import { verifyInternalJob } from '@/lib/automations/internalJobAuth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+function json(status: number, payload: Record<string, unknown>) {
+  return new NextResponse(JSON.stringify(payload), {
+    status,
+    headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+  });
+}
+
+/**
+ * Scanner de lead.stage_idle: encola los leads que llevan en un stage más que el umbral de algún
+ * trigger activo. Los eventos los procesa después el runner (process-queue) como cualquier otro.
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  try {
+    const auth = await verifyInternalJob(req, { allowVercelCron: true });
+    if (!auth.ok) return json(auth.status, { ok: false, error: auth.error });
+
+    const r = await scanIdleLeads(supabaseServiceRole());
+    return json(200, { ok: true, ...r });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'server_error';
+    return json(500, { ok: false, error: 'server_error', detail: msg });
+  }
+}
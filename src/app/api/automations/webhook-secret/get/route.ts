@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { getWebhookSecretInfo } from '@/lib/automations/webhookSigning';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Solo si existe y cuándo se rotó: el secreto no se vuelve a mostrar. */
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  try {
+    const info = await getWebhookSecretInfo(ctx.admin, ctx.workspaceId);
+    return NextResponse.json({ ok: true, ...info }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
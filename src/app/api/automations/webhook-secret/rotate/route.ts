@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { rotateWebhookSecret } from '@/lib/automations/webhookSigning';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Genera un secreto nuevo (invalida el anterior) y lo devuelve en claro una sola vez. */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  try {
+    const r = await rotateWebhookSecret(ctx.admin, ctx.workspaceId);
+    return NextResponse.json({ ok: true, secret: r.secret, rotatedAt: r.rotatedAt }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
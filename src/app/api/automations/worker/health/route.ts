@@ -0,0 +1,29 @@
+// src/app/api/automations/worker/health/route.ts
+import { NextResponse } from 'next/server';
+import { getWorkerState, workerHealth } from '@/lib/automations/worker';
+import { JOB_SIGNATURE_HEADER, verifyInternalJob } from '@/lib/automations/internalJobAuth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function json(status: number, payload: Record<string, unknown>) {
+  return new NextResponse(JSON.stringify(payload), {
+    status,
+    headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+  });
+}
+
+/**
+ * Health check del worker propio (liveness para el orquestador): 200 si está sano, 503 si no.
+ * Con una petición firmada (internalJobAuth) devuelve además el estado de cada bucle.
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  const health = workerHealth();
+  const detailed = req.headers.has(JOB_SIGNATURE_HEADER) && (await verifyInternalJob(req)).ok;
+
+  return json(health.ok ? 200 : 503, {
+    ok: health.ok,
+    status: health.status,
+    ...(detailed ? { problems: health.problems, worker: getWorkerState() } : {}),
+  });
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { simulateWorkflow } from '@/lib/automations/dryRun';
+import { loadDraftGraph, parseGraph } from '@/lib/automations/workflowVersions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function pickString(v: unknown, key: string): string {
+  if (!isRecord(v)) return '';
+  const x = v[key];
+  return typeof x === 'string' ? x.trim() : '';
+}
+
+/**
+ * Body: { workflowId, leadId, pipelineId?, graph?: { nodes, edges } }
+ * Sin `graph` se simula el borrador guardado. No escribe nada.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const { admin, workspaceId } = ctx;
+  const body = await safeJson(req);
+
+  const workflowId = pickString(body, 'workflowId');
+  const leadId = pickString(body, 'leadId');
+  const pipelineId = pickString(body, 'pipelineId') || null;
+
+  if (!workflowId || !leadId) return NextResponse.json({ ok: false, error: 'missing_fields' }, { status: 400 });
+
+  const { data: wf, error: wfErr } = await admin.from('workflows').select('id').eq('id', workflowId).eq('workspace_id', workspaceId).maybeSingle();
+  if (wfErr) return NextResponse.json({ ok: false, error: 'db_error', detail: wfErr.message }, { status: 500 });
+  if (!wf) return NextResponse.json({ ok: false, error: 'workflow_not_found' }, { status: 404 });
+
+  try {
+    const graph = isRecord(body) && isRecord(body.graph) ? parseGraph(body.graph) : await loadDraftGraph(admin, workflowId);
+
+    const result = await simulateWorkflow(admin, { workspaceId, workflowId, graph, leadId, pipelineId });
+    if (!result) return NextResponse.json({ ok: false, error: 'lead_not_found' }, { status: 404 });
+
+    return NextResponse.json({ ok: true, result }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'dry_run_failed', detail: msg }, { status: 500 });
+  }
+}
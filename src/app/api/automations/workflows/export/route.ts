@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { exportWorkflow } from '@/lib/automations/workflowPortable';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** ?id= — borrador actual del workflow en formato portable (ver workflowPortable). */
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const url = new URL(req.url);
+  const id = (url.searchParams.get('id') ?? '').trim();
+  if (!id) return NextResponse.json({ ok: false, error: 'missing_id' }, { status: 400 });
+
+  try {
+    const workflow = await exportWorkflow(ctx.admin, { workspaceId: ctx.workspaceId, workflowId: id });
+    if (!workflow) return NextResponse.json({ ok: false, error: 'not_found' }, { status: 404 });
+    return NextResponse.json({ ok: true, workflow }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
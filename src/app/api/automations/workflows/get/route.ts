@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { validateGraph } from '@/lib/automations/graphValidation';
+import { parseGraph } from '@/lib/automations/workflowVersions';
+import { parseWorkflowSettings } from '@/lib/automations/workflowSettings';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -45,7 +48,7 @@ export async function GET(req: Request): Promise<NextResponse> {
 
   const { data: wf, error: wfErr } = await admin
     .from('workflows')
-    .select('id,workspace_id,name,status,created_at,updated_at')
+    .select('id,workspace_id,name,status,settings,created_at,updated_at')
     .eq('id', id)
     .eq('workspace_id', workspaceId)
     .maybeSingle();
@@ -65,12 +68,16 @@ export async function GET(req: Request): Promise<NextResponse> {
     return NextResponse.json({ ok: false, error: 'db_error', detail: edgesRes.error.message }, { status: 500 });
   }
 
+  const nodes = (nodesRes.data ?? []) as NodeRow[];
+  const edges = (edgesRes.data ?? []) as EdgeRow[];
+
   return NextResponse.json(
     {
       ok: true,
-      workflow: wf as WorkflowRow,
-      nodes: (nodesRes.data ?? []) as NodeRow[],
-      edges: (edgesRes.data ?? []) as EdgeRow[],
+      workflow: { ...(wf as WorkflowRow), settings: parseWorkflowSettings((wf as { settings?: unknown }).settings) },
+      nodes,
+      edges,
+      validation: validateGraph(parseGraph({ nodes, edges })),
     },
     { status: 200 }
   );
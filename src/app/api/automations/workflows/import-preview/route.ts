@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { parsePortableWorkflow, previewImport } from '@/lib/automations/workflowPortable';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Body: { workflow } — referencias del JSON (stages, pipelines, etiquetas) con el emparejamiento
+ * propuesto en este workspace y los pipelines/stages disponibles para corregirlo.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const body = await safeJson(req);
+  const workflow = parsePortableWorkflow(isRecord(body) ? body.workflow : null);
+  if (!workflow) return NextResponse.json({ ok: false, error: 'invalid_workflow_json' }, { status: 400 });
+
+  try {
+    const preview = await previewImport(ctx.admin, { workspaceId: ctx.workspaceId, workflow });
+    return NextResponse.json({ ok: true, name: workflow.name, nodeCount: workflow.nodes.length, preview }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { importWorkflow, parsePortableWorkflow, type ImportMaps } from '@/lib/automations/workflowPortable';
+import { findWorkflowTemplate } from '@/lib/automations/workflowTemplates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function pickStringMap(v: unknown): Record<string, string> | undefined {
+  if (!isRecord(v)) return undefined;
+  const out: Record<string, string> = {};
+  for (const [k, x] of Object.entries(v)) if (typeof x === 'string') out[k] = x.trim();
+  return out;
+}
+
+/**
+ * Crea un workflow (borrador) desde un JSON exportado o desde una plantilla.
+ * Body: { workflow } | { templateId }, más { name?, stageMap?, pipelineMap?, labelMap? } opcionales.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const body = await safeJson(req);
+  if (!isRecord(body)) return NextResponse.json({ ok: false, error: 'invalid_body' }, { status: 400 });
+
+  const templateId = typeof body.templateId === 'string' ? body.templateId.trim() : '';
+  const template = templateId ? findWorkflowTemplate(templateId) : null;
+  if (templateId && !template) return NextResponse.json({ ok: false, error: 'template_not_found' }, { status: 404 });
+
+  const workflow = template ? template.workflow : parsePortableWorkflow(body.workflow);
+  if (!workflow) return NextResponse.json({ ok: false, error: 'invalid_workflow_json' }, { status: 400 });
+
+  const maps: ImportMaps = {
+    stageMap: pickStringMap(body.stageMap),
+    pipelineMap: pickStringMap(body.pipelineMap),
+    labelMap: pickStringMap(body.labelMap),
+  };
+
+  try {
+    const r = await importWorkflow(ctx.admin, {
+      workspaceId: ctx.workspaceId,
+      workflow,
+      name: typeof body.name === 'string' ? body.name : undefined,
+      maps,
+    });
+    return NextResponse.json({ ok: true, workflowId: r.workflowId, unresolved: r.unresolved }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
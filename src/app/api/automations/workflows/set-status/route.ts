@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { loadDraftGraph, publishVersion } from '@/lib/automations/workflowVersions';
+import { validateGraph } from '@/lib/automations/graphValidation';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -127,6 +129,21 @@ export async function POST(req: Request): Promise<NextResponse> {
     const wfOk = await workflowBelongsToWorkspace({ admin, workspaceId, workflowId });
     if (!wfOk) return json(404, { ok: false, error: 'workflow_not_found' });
 
+    // Activar = publicar: el borrador actual se congela como versión (también si ya estaba activo)
+    // y el estado se escribe junto con published_version_id
+    if (statusStr === 'active') {
+      try {
+        const validation = validateGraph(await loadDraftGraph(admin, workflowId));
+        if (!validation.ok) return json(422, { ok: false, error: 'graph_invalid', validation });
+
+        const published = await publishVersion(admin, { workspaceId, workflowId, userId, status: statusStr });
+        return json(200, { ok: true, version: published.version, versionId: published.versionId, reused: published.reused });
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : 'publish_failed';
+        return json(500, { ok: false, error: 'publish_failed', detail: msg });
+      }
+    }
+
     const { error } = await admin
       .from('workflows')
       .update({ status: statusStr, updated_at: new Date().toISOString() })
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { parseWorkflowSettings } from '@/lib/automations/workflowSettings';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -33,11 +34,12 @@ export async function POST(req: Request): Promise<NextResponse> {
   if (!id) return NextResponse.json({ ok: false, error: 'missing_id' }, { status: 400 });
 
   const name = pickString(body, 'name');
-  const status = pickString(body, 'status');
 
+  // El estado solo cambia por set-status (activar valida y publica el grafo)
   const patch: Record<string, unknown> = {};
   if (name) patch.name = name;
-  if (status) patch.status = status;
+  // Se guarda normalizado (objetivos incompletos se descartan)
+  if (isRecord(body) && isRecord(body.settings)) patch.settings = parseWorkflowSettings(body.settings);
 
   if (Object.keys(patch).length === 0) {
     return NextResponse.json({ ok: false, error: 'nothing_to_update' }, { status: 400 });
@@ -50,7 +52,7 @@ export async function POST(req: Request): Promise<NextResponse> {
     .update(patch)
     .eq('id', id)
     .eq('workspace_id', workspaceId)
-    .select('id,workspace_id,name,status,created_at,updated_at')
+    .select('id,workspace_id,name,status,settings,created_at,updated_at')
     .maybeSingle();
 
   if (error) return NextResponse.json({ ok: false, error: 'db_error', detail: error.message }, { status: 500 });
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { validateGraph } from '@/lib/automations/graphValidation';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -163,6 +164,12 @@ export async function POST(req: Request): Promise<NextResponse> {
       edges.push(parsed);
     }
 
+    // El borrador puede guardarse incompleto (sin trigger, acciones a medio rellenar…), pero no con
+    // referencias rotas: eso no se puede ni pintar en el editor.
+    const validation = validateGraph({ nodes, edges });
+    const broken = validation.errors.filter((i) => i.code === 'node_duplicate_id' || i.code === 'edge_unknown_node');
+    if (broken.length > 0) return json(422, { ok: false, error: 'graph_invalid', validation });
+
     // User client (auth)
     const userClient = createClient(supabaseUrl, anonKey, {
       global: { headers: { Authorization: `Bearer ${token}` } },
@@ -205,6 +212,13 @@ export async function POST(req: Request): Promise<NextResponse> {
       const { error: delErr } = await admin.from('workflow_edges').delete().eq('workflow_id', workflowId);
       if (delErr) return json(500, { ok: false, error: 'db_error', detail: delErr.message });
 
+      // Nodos borrados en el editor: fuera del borrador (como rollbackToVersion), para que activar
+      // valide y publique el mismo grafo que se ha guardado
+      let delNodes = admin.from('workflow_nodes').delete().eq('workflow_id', workflowId);
+      if (nodes.length > 0) delNodes = delNodes.not('id', 'in', `(${nodes.map((n) => n.id).join(',')})`);
+      const { error: delNodesErr } = await delNodes;
+      if (delNodesErr) return json(500, { ok: false, error: 'db_error', detail: delNodesErr.message });
+
       if (edges.length > 0) {
         const { error: insErr } = await admin.from('workflow_edges').insert(
           edges.map((e) => ({
@@ -220,7 +234,7 @@ export async function POST(req: Request): Promise<NextResponse> {
       }
     }
 
-    return json(200, { ok: true });
+    return json(200, { ok: true, validation });
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : 'server_error';
     return json(500, { ok: false, error: 'server_error', detail: msg });
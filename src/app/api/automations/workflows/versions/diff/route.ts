@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { diffGraphs, getGraph } from '@/lib/automations/workflowVersions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET ?workflowId=&from=&to=
+ * from/to: id de versión o "draft" (borrador actual).
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const url = new URL(req.url);
+  const workflowId = (url.searchParams.get('workflowId') ?? '').trim();
+  const from = (url.searchParams.get('from') ?? '').trim();
+  const to = (url.searchParams.get('to') ?? '').trim();
+
+  if (!workflowId || !from || !to) return NextResponse.json({ ok: false, error: 'missing_fields' }, { status: 400 });
+
+  try {
+    const [a, b] = await Promise.all([
+      getGraph(ctx.admin, ctx.workspaceId, workflowId, from),
+      getGraph(ctx.admin, ctx.workspaceId, workflowId, to),
+    ]);
+
+    if (!a || !b) return NextResponse.json({ ok: false, error: 'not_found' }, { status: 404 });
+
+    return NextResponse.json({ ok: true, diff: diffGraphs(a, b) }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { listVersions } from '@/lib/automations/workflowVersions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const url = new URL(req.url);
+  const workflowId = (url.searchParams.get('workflowId') ?? '').trim();
+  if (!workflowId) return NextResponse.json({ ok: false, error: 'missing_workflowId' }, { status: 400 });
+
+  try {
+    const versions = await listVersions(ctx.admin, ctx.workspaceId, workflowId);
+    return NextResponse.json({ ok: true, versions }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
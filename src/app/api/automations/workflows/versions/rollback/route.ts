@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { rollbackToVersion } from '@/lib/automations/workflowVersions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown> {
+  const text = await req.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/** Body: { workflowId, versionId } — restaura el borrador a esa versión y la publica. */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
+
+  const body = await safeJson(req);
+  const workflowId = isRecord(body) && typeof body.workflowId === 'string' ? body.workflowId.trim() : '';
+  const versionId = isRecord(body) && typeof body.versionId === 'string' ? body.versionId.trim() : '';
+
+  if (!workflowId || !versionId) return NextResponse.json({ ok: false, error: 'missing_fields' }, { status: 400 });
+
+  try {
+    const r = await rollbackToVersion(ctx.admin, { workspaceId: ctx.workspaceId, workflowId, versionId });
+    if (!r) return NextResponse.json({ ok: false, error: 'not_found' }, { status: 404 });
+    return NextResponse.json({ ok: true, version: r.version }, { status: 200 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : 'unknown_error';
+    return NextResponse.json({ ok: false, error: 'db_error', detail: msg }, { status: 500 });
+  }
+}
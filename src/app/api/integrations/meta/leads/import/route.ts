@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 
 import { decryptToken } from '@/server/crypto/tokenCrypto';
+import { enqueueLeadCreated } from '@/lib/automations/enqueueWorkflowEvent';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -290,19 +291,54 @@ export async function POST(req: Request): Promise<NextResponse> {
         continue;
       }
 
-      // B) normalizada (leads)
-      await admin.from('leads').upsert(
-        {
-          workspace_id,
-          integration_id,
-          source: 'meta',
-          external_id: leadId,
-          full_name: extracted.full_name,
-          email: extracted.email,
-          phone: extracted.phone,
-        },
-        { onConflict: 'workspace_id,source,external_id' }
-      );
+      // B) normalizada (leads) — miramos antes si existe para saber si es alta nueva
+      const { data: existingLead } = await admin
+        .from('leads')
+        .select('id')
+        .eq('workspace_id', workspace_id)
+        .eq('source', 'meta')
+        .eq('external_id', leadId)
+        .maybeSingle();
+
+      const { data: upserted } = await admin
+        .from('leads')
+        .upsert(
+          {
+            workspace_id,
+            integration_id,
+            source: 'meta',
+            external_id: leadId,
+            full_name: extracted.full_name,
+            email: extracted.email,
+            phone: extracted.phone,
+          },
+          { onConflict: 'workspace_id,source,external_id' }
+        )
+        .select('id')
+        .maybeSingle();
+
+      // C) automatizaciones: lead.created solo para altas (re-importar no dispara)
+      if (!existingLead?.id && upserted?.id) {
+        try {
+          await enqueueLeadCreated({
+            admin,
+            workspaceId: workspace_id,
+            leadId: String(upserted.id),
+            source: 'meta',
+            pageId: page_id,
+            formId: form_id,
+          });
+        } catch (e: unknown) {
+          await logEvent(admin, {
+            provider: 'meta',
+            workspace_id,
+            integration_id,
+            event_type: 'workflow_enqueue_failed',
+            object_id: leadId,
+            payload: { message: e instanceof Error ? e.message : 'enqueue_failed' },
+          });
+        }
+      }
 
       imported += 1;
     }
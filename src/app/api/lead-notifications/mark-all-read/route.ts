@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function json(status: number, payload: Record<string, unknown>) {
+  return new NextResponse(JSON.stringify(payload), {
+    status,
+    headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+  });
+}
+
+/** Marca como leídas todas las notificaciones pendientes del workspace que este usuario puede ver. */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return json(ctx.status, (await ctx.json()) as Record<string, unknown>);
+
+  const { data, error } = await ctx.admin
+    .from('lead_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('workspace_id', ctx.workspaceId)
+    .or(`target_user_ids.is.null,target_user_ids.cs.{${ctx.userId}}`)
+    .is('read_at', null)
+    .select('id');
+
+  if (error) return json(500, { ok: false, error: 'db_update_failed', detail: error.message });
+
+  const updated = Array.isArray(data) ? data.length : 0;
+  return json(200, { ok: true, updated });
+}
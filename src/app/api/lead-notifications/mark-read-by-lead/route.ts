@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -11,18 +11,6 @@ function json(status: number, payload: Record<string, unknown>) {
   });
 }
 
-function getEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
-}
-
-function getBearer(req: Request): string | null {
-  const h = req.headers.get('authorization') ?? '';
-  const m = /^Bearer\s+(.+)$/i.exec(h);
-  return m ? m[1] : null;
-}
-
 function isUuid(v: string): boolean {
   return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
 }
@@ -39,27 +27,9 @@ async function safeJson(req: Request): Promise<unknown | null> {
   }
 }
 
-function supabaseAdmin(): SupabaseClient {
-  const url = getEnv('NEXT_PUBLIC_SUPABASE_URL');
-  const key = getEnv('SUPABASE_SERVICE_ROLE_KEY');
-  return createClient(url, key, {
-    auth: { persistSession: false, autoRefreshToken: false },
-  });
-}
-
-async function requireUserId(admin: SupabaseClient, accessToken: string): Promise<string | null> {
-  const { data, error } = await admin.auth.getUser(accessToken);
-  if (error) return null;
-  return data.user?.id ?? null;
-}
-
 export async function POST(req: Request): Promise<NextResponse> {
-  const token = getBearer(req);
-  if (!token) return json(401, { ok: false, error: 'missing_bearer' });
-
-  const workspaceId = (req.headers.get('x-workspace-id') ?? '').trim();
-  if (!workspaceId) return json(400, { ok: false, error: 'missing_workspace' });
-  if (!isUuid(workspaceId)) return json(400, { ok: false, error: 'invalid_workspace' });
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return json(ctx.status, (await ctx.json()) as Record<string, unknown>);
 
   const body = await safeJson(req);
   if (!isRecord(body)) return json(400, { ok: false, error: 'invalid_json' });
@@ -69,20 +39,15 @@ export async function POST(req: Request): Promise<NextResponse> {
   if (!leadId) return json(400, { ok: false, error: 'missing_lead_id' });
   if (!isUuid(leadId)) return json(400, { ok: false, error: 'invalid_lead_id' });
 
-  const admin = supabaseAdmin();
-
-  // valida sesión (aunque luego no uses userId, esto evita llamadas anónimas)
-  const userId = await requireUserId(admin, token);
-  if (!userId) return json(401, { ok: false, error: 'invalid_session' });
-
-  // idempotente: solo actualiza las que estén sin leer
+  // idempotente: solo actualiza las que estén sin leer (y que este usuario puede ver)
   const nowIso = new Date().toISOString();
 
-  const { data, error } = await admin
+  const { data, error } = await ctx.admin
     .from('lead_notifications')
     .update({ read_at: nowIso })
-    .eq('workspace_id', workspaceId)
+    .eq('workspace_id', ctx.workspaceId)
     .eq('lead_id', leadId)
+    .or(`target_user_ids.is.null,target_user_ids.cs.{${ctx.userId}}`)
     .is('read_at', null)
     .select('id');
 
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function json(status: number, payload: Record<string, unknown>) {
+  return new NextResponse(JSON.stringify(payload), {
+    status,
+    headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+  });
+}
+
+function isUuid(v: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown | null> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+/** Body: { id } — marca una notificación como leída (idempotente). */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return json(ctx.status, (await ctx.json()) as Record<string, unknown>);
+
+  const body = await safeJson(req);
+  if (!isRecord(body)) return json(400, { ok: false, error: 'invalid_json' });
+
+  const id = typeof body.id === 'string' ? body.id.trim() : '';
+  if (!id) return json(400, { ok: false, error: 'missing_id' });
+  if (!isUuid(id)) return json(400, { ok: false, error: 'invalid_id' });
+
+  const { data, error } = await ctx.admin
+    .from('lead_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('workspace_id', ctx.workspaceId)
+    .eq('id', id)
+    .or(`target_user_ids.is.null,target_user_ids.cs.{${ctx.userId}}`)
+    .is('read_at', null)
+    .select('id');
+
+  if (error) return json(500, { ok: false, error: 'db_update_failed', detail: error.message });
+
+  const updated = Array.isArray(data) ? data.length : 0;
+  return json(200, { ok: true, updated });
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MANUAL_UNREAD_KIND = 'manual_unread';
+
+function json(status: number, payload: Record<string, unknown>) {
+  return new NextResponse(JSON.stringify(payload), {
+    status,
+    headers: { 'content-type': 'application/json', 'cache-control': 'no-store' },
+  });
+}
+
+function isUuid(v: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(v);
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+async function safeJson(req: Request): Promise<unknown | null> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Body: { lead_id } — el lead vuelve a salir como no leído en la campanita.
+ * Reabre su última notificación visible; si nunca tuvo ninguna, crea una ('manual_unread').
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return json(ctx.status, (await ctx.json()) as Record<string, unknown>);
+
+  const body = await safeJson(req);
+  if (!isRecord(body)) return json(400, { ok: false, error: 'invalid_json' });
+
+  const leadId = typeof body.lead_id === 'string' ? body.lead_id.trim() : '';
+  if (!leadId) return json(400, { ok: false, error: 'missing_lead_id' });
+  if (!isUuid(leadId)) return json(400, { ok: false, error: 'invalid_lead_id' });
+
+  const { data: lead, error: leadErr } = await ctx.admin
+    .from('leads')
+    .select('id')
+    .eq('id', leadId)
+    .eq('workspace_id', ctx.workspaceId)
+    .maybeSingle();
+
+  if (leadErr) return json(500, { ok: false, error: 'db_error', detail: leadErr.message });
+  if (!lead) return json(404, { ok: false, error: 'lead_not_found' });
+
+  const { data: last, error: lastErr } = await ctx.admin
+    .from('lead_notifications')
+    .select('id')
+    .eq('workspace_id', ctx.workspaceId)
+    .eq('lead_id', leadId)
+    .or(`target_user_ids.is.null,target_user_ids.cs.{${ctx.userId}}`)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastErr) return json(500, { ok: false, error: 'db_error', detail: lastErr.message });
+
+  const { error } = last
+    ? await ctx.admin.from('lead_notifications').update({ read_at: null }).eq('id', last.id)
+    : await ctx.admin.from('lead_notifications').insert({ workspace_id: ctx.workspaceId, lead_id: leadId, kind: MANUAL_UNREAD_KIND });
+
+  if (error) return json(500, { ok: false, error: 'db_update_failed', detail: error.message });
+  return json(200, { ok: true });
+}
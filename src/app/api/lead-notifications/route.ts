@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -34,18 +34,6 @@ function json(status: number, payload: OkResponse | ErrResponse): NextResponse {
   });
 }
 
-function getEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
-}
-
-function getBearer(req: Request): string | null {
-  const h = req.headers.get('authorization') ?? '';
-  const m = /^Bearer\s+(.+)$/i.exec(h);
-  return m ? m[1] : null;
-}
-
 function safeInt(v: string | null, fallback: number): number {
   if (!v) return fallback;
   const n = Number.parseInt(v, 10);
@@ -54,31 +42,23 @@ function safeInt(v: string | null, fallback: number): number {
 
 export async function GET(req: Request): Promise<NextResponse> {
   try {
-    const token = getBearer(req);
-    if (!token) return json(401, { ok: false, error: 'missing_token' });
+    const ctx = await requireAuthedWorkspace(req);
+    if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
 
-    const workspaceId = (req.headers.get('x-workspace-id') ?? '').trim();
-    if (!workspaceId) return json(400, { ok: false, error: 'missing_workspace_id' });
+    const { admin: sb, workspaceId, userId } = ctx;
 
     const url = new URL(req.url);
     const unread = (url.searchParams.get('unread') ?? '').trim() === '1';
     const limit = Math.min(500, Math.max(1, safeInt(url.searchParams.get('limit'), 100)));
 
-    const supabaseUrl = getEnv('NEXT_PUBLIC_SUPABASE_URL');
-    const serviceRole = getEnv('SUPABASE_SERVICE_ROLE_KEY');
-
-    const sb: SupabaseClient = createClient(supabaseUrl, serviceRole, {
-      auth: { persistSession: false },
-    });
-
-    // valida sesión del usuario (token real)
-    const { data: userData, error: userErr } = await sb.auth.getUser(token);
-    if (userErr || !userData.user) return json(401, { ok: false, error: 'invalid_token' });
+    // Las notificaciones de workflows pueden ir a miembros concretos (target_user_ids null = todo el equipo)
+    const visibleTo = `target_user_ids.is.null,target_user_ids.cs.{${userId}}`;
 
     let q = sb
       .from('lead_notifications')
       .select('id, workspace_id, lead_id, kind, title, message, created_at, read_at')
       .eq('workspace_id', workspaceId)
+      .or(visibleTo)
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -104,6 +84,7 @@ export async function GET(req: Request): Promise<NextResponse> {
       .from('lead_notifications')
       .select('id', { count: 'exact', head: true })
       .eq('workspace_id', workspaceId)
+      .or(visibleTo)
       .is('read_at', null);
 
     if (countErr) return json(200, { ok: true, unreadCount: 0, items });
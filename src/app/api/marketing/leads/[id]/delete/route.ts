@@ -1,28 +1,15 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-function getBearerToken(req: Request): string | null {
-  const h = req.headers.get('authorization') || '';
-  const m = h.match(/^Bearer\s+(.+)$/i);
-  return m ? m[1] : null;
-}
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
 
 export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
-  const token = getBearerToken(req);
-  if (!token) return NextResponse.json({ ok: false, error: 'No auth' }, { status: 401 });
+  const auth = await requireAuthedWorkspace(req);
+  if (auth instanceof Response) return NextResponse.json(await auth.json(), { status: auth.status });
 
   const { id } = await ctx.params;
 
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const anon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-  if (!url || !anon) return NextResponse.json({ ok: false, error: 'Missing Supabase env' }, { status: 500 });
-
-  const supabase = createClient(url, anon, {
-    global: { headers: { Authorization: `Bearer ${token}` } },
-  });
-
-  const { error } = await supabase.from('leads').delete().eq('id', id);
-  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+  const { data, error } = await auth.admin.from('leads').delete().eq('id', id).eq('workspace_id', auth.workspaceId).select('id');
+  if (error) return NextResponse.json({ ok: false, error: 'db_error', detail: error.message }, { status: 500 });
+  if (!Array.isArray(data) || data.length === 0) return NextResponse.json({ ok: false, error: 'lead_not_found' }, { status: 404 });
 
   return NextResponse.json({ ok: true });
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
+import { enqueueLeadFieldEvents } from '@/lib/automations/leadFieldEvents';
 
 type UpdateBody = {
   full_name?: string | null;
@@ -12,15 +13,9 @@ type UpdateBody = {
   labels?: string[] | null;
 };
 
-function getBearerToken(req: Request): string | null {
-  const h = req.headers.get('authorization') || '';
-  const m = h.match(/^Bearer\s+(.+)$/i);
-  return m ? m[1] : null;
-}
-
 export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
-  const token = getBearerToken(req);
-  if (!token) return NextResponse.json({ ok: false, error: 'No auth' }, { status: 401 });
+  const auth = await requireAuthedWorkspace(req);
+  if (auth instanceof Response) return NextResponse.json(await auth.json(), { status: auth.status });
 
   const { id } = await ctx.params;
 
@@ -30,26 +25,45 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
   }
   const body = bodyUnknown as UpdateBody;
 
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const anon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-  if (!url || !anon) return NextResponse.json({ ok: false, error: 'Missing Supabase env' }, { status: 500 });
-
-  const supabase = createClient(url, anon, {
-    global: { headers: { Authorization: `Bearer ${token}` } },
-  });
-
   const patch: Record<string, unknown> = {};
   for (const k of ['full_name','phone','email','profession','biggest_pain','status','notes','labels'] as const) {
     if (k in body) patch[k] = body[k];
   }
 
-  const { data, error } = await supabase
+  // Valores previos para los eventos de automatizaciones (antes/después)
+  const { data: before, error: beforeErr } = await auth.admin
+    .from('leads')
+    .select('*')
+    .eq('id', id)
+    .eq('workspace_id', auth.workspaceId)
+    .maybeSingle();
+
+  if (beforeErr) return NextResponse.json({ ok: false, error: 'db_error', detail: beforeErr.message }, { status: 500 });
+  if (!before) return NextResponse.json({ ok: false, error: 'lead_not_found' }, { status: 404 });
+
+  const { data, error } = await auth.admin
     .from('leads')
     .update(patch)
     .eq('id', id)
+    .eq('workspace_id', auth.workspaceId)
     .select('*')
     .single();
 
-  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+  if (error) return NextResponse.json({ ok: false, error: 'db_error', detail: error.message }, { status: 500 });
+
+  // Automatizaciones: un fallo al encolar no deshace la edición
+  try {
+    await enqueueLeadFieldEvents({
+      admin: auth.admin,
+      workspaceId: auth.workspaceId,
+      leadId: id,
+      before,
+      after: data,
+      source: 'manual',
+    });
+  } catch (e: unknown) {
+    console.error('[leads/update] enqueue_field_events_failed', e instanceof Error ? e.message : e);
+  }
+
   return NextResponse.json({ ok: true, lead: data });
 }
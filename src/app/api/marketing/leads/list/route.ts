@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { requireAuthedWorkspace } from '@/lib/api/authWorkspace';
 
 type FormAnswers = Record<string, string | string[]>;
 
@@ -19,12 +19,6 @@ type LeadRow = {
   form_answers?: unknown | null;
 };
 
-function getBearerToken(req: Request): string | null {
-  const h = req.headers.get('authorization') || '';
-  const m = h.match(/^Bearer\s+(.+)$/i);
-  return m ? m[1] : null;
-}
-
 function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === 'object' && v !== null;
 }
@@ -112,28 +106,14 @@ function deriveFieldsFromAnswers(row: LeadRow): DerivedLeadFields {
   };
 }
 
+/** Leads del workspace activo (x-workspace-id), solo para miembros. */
 export async function GET(req: Request) {
-  const token = getBearerToken(req);
-  if (!token) return NextResponse.json({ ok: false, error: 'No auth' }, { status: 401 });
-
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const anon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-  if (!url || !anon) {
-    return NextResponse.json({ ok: false, error: 'Missing Supabase env' }, { status: 500 });
-  }
+  const ctx = await requireAuthedWorkspace(req);
+  if (ctx instanceof Response) return NextResponse.json(await ctx.json(), { status: ctx.status });
 
   const { searchParams } = new URL(req.url);
   const includeAnswers = searchParams.get('includeAnswers') === '1';
 
-  const supabase = createClient(url, anon, {
-    global: { headers: { Authorization: `Bearer ${token}` } },
-  });
-
-  // ⚠️ IMPORTANTE: si tu tabla leads es multi-tenant por workspace,
-  // añade filtro por workspace aquí (si existe la columna workspace_id).
-  // const workspaceId = (req.headers.get('x-workspace-id') ?? '').trim();
-  // if (!workspaceId) return NextResponse.json({ ok:false, error:'Missing workspace' }, { status: 400 });
-
   const select = [
     'id',
     'created_at',
@@ -150,14 +130,15 @@ export async function GET(req: Request) {
     'form_answers',
   ].join(', ');
 
-  const q = supabase.from('leads').select(select).order('created_at', { ascending: false }).limit(1000);
-
-  // Si tienes workspace_id:
-  // q.eq('workspace_id', workspaceId);
-
-  const { data, error } = await q;
+  // Service role: el filtro por workspace es obligatorio (no hay RLS que lo haga)
+  const { data, error } = await ctx.admin
+    .from('leads')
+    .select(select)
+    .eq('workspace_id', ctx.workspaceId)
+    .order('created_at', { ascending: false })
+    .limit(1000);
 
-  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+  if (error) return NextResponse.json({ ok: false, error: 'db_error', detail: error.message }, { status: 500 });
 
  const rawRows: unknown[] = Array.isArray(data) ? (data as unknown[]) : [];
 
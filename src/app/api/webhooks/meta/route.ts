@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
 import { decryptToken } from '@/server/crypto/tokenCrypto';
+import { enqueueLeadCreated } from '@/lib/automations/enqueueWorkflowEvent';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -404,7 +405,7 @@ async function upsertLeadWithAnswers(args: {
   email: string | null;
   phone: string | null;
   formAnswers: FormAnswers;
-}): Promise<'inserted' | 'updated'> {
+}): Promise<{ result: 'inserted' | 'updated'; leadId: string }> {
   const { admin, workspaceId, leadgenId, metaFormId, fullName, email, phone, formAnswers } = args;
 
   // 1) ¿ya existe?
@@ -436,7 +437,7 @@ async function upsertLeadWithAnswers(args: {
       .eq('workspace_id', workspaceId);
 
     if (updErr) throw new Error(`lead_update_failed:${updErr.message}`);
-    return 'updated';
+    return { result: 'updated', leadId: String(existing.id) };
   }
 
   const insertPayload: Record<string, unknown> = {
@@ -450,10 +451,10 @@ async function upsertLeadWithAnswers(args: {
     form_answers: formAnswers,
   };
 
-  const { error: insErr } = await admin.from('leads').insert(insertPayload);
-  if (insErr) throw new Error(`lead_insert_failed:${insErr.message}`);
+  const { data: inserted, error: insErr } = await admin.from('leads').insert(insertPayload).select('id').single();
+  if (insErr || !inserted?.id) throw new Error(`lead_insert_failed:${insErr?.message ?? 'no_id'}`);
 
-  return 'inserted';
+  return { result: 'inserted', leadId: String(inserted.id) };
 }
 
 export async function GET(req: Request): Promise<NextResponse> {
@@ -722,7 +723,7 @@ export async function POST(req: Request): Promise<NextResponse> {
         }
 
         // ✅ aquí es el cambio clave: persistimos meta ids + form_answers
-        const result = await upsertLeadWithAnswers({
+        const { result, leadId } = await upsertLeadWithAnswers({
           admin: supabaseAdmin,
           workspaceId,
           leadgenId,
@@ -746,6 +747,35 @@ export async function POST(req: Request): Promise<NextResponse> {
         } catch {
           // no-op
         }
+
+        // ✅ automatizaciones: solo leads nuevos (un reenvío del webhook no vuelve a disparar)
+        if (result === 'inserted') {
+          try {
+            await enqueueLeadCreated({
+              admin: supabaseAdmin,
+              workspaceId,
+              leadId,
+              source: 'meta',
+              pageId,
+              formId: effectiveMetaFormId,
+            });
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : 'enqueue_failed';
+            try {
+              await logWebhookEvent({
+                admin: supabaseAdmin,
+                provider: 'meta',
+                workspaceId,
+                integrationId,
+                eventType: 'error',
+                objectId: leadgenId,
+                payload: { reason: 'workflow_enqueue_failed', lead_id: leadId, message: msg },
+              });
+            } catch {
+              // no-op
+            }
+          }
+        }
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : 'lead_process_failed';
         try {
@@ -0,0 +1,203 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { supabaseBrowser } from '@/lib/supabase/client';
+import { getActiveWorkspaceId } from '@/lib/activeWorkspace';
+
+type WorkflowItem = { id: string; name: string; status: string };
+
+type ListResponse = { ok: true; workflows: WorkflowItem[] } | { ok: false; error: string; detail?: string };
+
+type EnrollResponse =
+  | {
+      ok: true;
+      enrolled: number;
+      skipped: number;
+      results: Array<{ leadId: string; runId?: string; skipped?: string }>;
+    }
+  | { ok: false; error: string; detail?: string };
+
+const SKIP_LABELS: Record<string, string> = {
+  lead_not_found: 'no encontrado',
+  exit_goal_met: 'ya cumple un objetivo de salida',
+  enrollment_blocked: 'la política de entrada no lo permite',
+};
+
+const ERROR_LABELS: Record<string, string> = {
+  workflow_not_active: 'El workflow no está activo.',
+  workflow_no_trigger: 'El workflow no tiene trigger.',
+  workflow_not_found: 'El workflow no existe.',
+};
+
+async function authHeaders(): Promise<Record<string, string> | null> {
+  const { data } = await supabaseBrowser().auth.getSession();
+  const token = data.session?.access_token;
+  const workspaceId = (getActiveWorkspaceId() ?? '').trim();
+  if (!token || !workspaceId) return null;
+  return { authorization: `Bearer ${token}`, 'x-workspace-id': workspaceId };
+}
+
+type EnrollModalProps = { open: boolean; leadIds: string[]; onClose: () => void; onDone?: () => void };
+
+/** Inscribe uno o varios leads en un workflow activo (lista de leads y ficha). */
+export function EnrollInWorkflowModal(props: EnrollModalProps) {
+  // Se monta al abrir: cada apertura empieza con el estado limpio
+  return props.open ? <EnrollDialog {...props} /> : null;
+}
+
+function EnrollDialog(props: EnrollModalProps) {
+  const [workflows, setWorkflows] = useState<WorkflowItem[] | null>(null);
+  const [workflowId, setWorkflowId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<Extract<EnrollResponse, { ok: true }> | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    async function run() {
+      const headers = await authHeaders();
+      if (!headers) {
+        if (alive) setError('No hay sesión activa.');
+        return;
+      }
+
+      const res = await fetch('/api/automations/workflows/list', { headers, cache: 'no-store' });
+      const j = (await res.json()) as ListResponse;
+      if (!alive) return;
+
+      if (!j.ok) {
+        setError(j.detail ?? j.error);
+        return;
+      }
+
+      const active = j.workflows.filter((w) => w.status === 'active');
+      setWorkflows(active);
+      setWorkflowId((prev) => prev || active[0]?.id || '');
+    }
+
+    void run();
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  async function enroll() {
+    if (!workflowId || props.leadIds.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const headers = await authHeaders();
+      if (!headers) {
+        setError('No hay sesión activa.');
+        return;
+      }
+
+      const res = await fetch('/api/automations/runs/enroll', {
+        method: 'POST',
+        headers: { ...headers, 'content-type': 'application/json' },
+        body: JSON.stringify({ workflowId, leadIds: props.leadIds }),
+      });
+
+      const j = (await res.json()) as EnrollResponse;
+      if (!j.ok) {
+        setError(ERROR_LABELS[j.error] ?? j.detail ?? j.error);
+        return;
+      }
+
+      setResult(j);
+      props.onDone?.();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const skippedByReason = new Map<string, number>();
+  for (const r of result?.results ?? []) {
+    if (r.skipped) skippedByReason.set(r.skipped, (skippedByReason.get(r.skipped) ?? 0) + 1);
+  }
+
+  return (
+    <div className="fixed inset-0 z-[95] flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-[520px] card-glass rounded-2xl border border-white/10 p-5">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-lg font-semibold text-white">Inscribir en workflow</p>
+            <p className="mt-1 text-sm text-white/60">
+              {props.leadIds.length === 1 ? 'El lead empezará' : `${props.leadIds.length} leads empezarán`} el workflow desde el principio.
+            </p>
+          </div>
+
+          <button
+            type="button"
+            onClick={props.onClose}
+            disabled={loading}
+            className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 disabled:opacity-60"
+          >
+            Cerrar
+          </button>
+        </div>
+
+        {result ? (
+          <div className="mt-4 space-y-2 text-sm text-white/80">
+            <p>
+              Inscritos: <span className="text-white">{result.enrolled}</span>
+              {result.skipped > 0 ? <> · Omitidos: <span className="text-white">{result.skipped}</span></> : null}
+            </p>
+            {Array.from(skippedByReason.entries()).map(([reason, n]) => (
+              <p key={reason} className="text-xs text-white/60">
+                {n} {SKIP_LABELS[reason] ?? reason}
+              </p>
+            ))}
+            <Link href={`/automations/${workflowId}`} className="inline-block text-xs text-indigo-200 hover:underline">
+              Ver runs del workflow
+            </Link>
+          </div>
+        ) : (
+          <div className="mt-4">
+            {workflows === null && !error ? <p className="text-sm text-white/60">Cargando workflows…</p> : null}
+            {workflows !== null && workflows.length === 0 ? <p className="text-sm text-white/60">No hay workflows activos.</p> : null}
+            {workflows !== null && workflows.length > 0 ? (
+              <select
+                value={workflowId}
+                onChange={(e) => setWorkflowId(e.target.value)}
+                className="w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-indigo-400/40"
+              >
+                {workflows.map((w) => (
+                  <option key={w.id} value={w.id}>
+                    {w.name}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+          </div>
+        )}
+
+        {error ? <p className="mt-3 rounded-xl border border-red-400/30 bg-red-500/10 p-2 text-xs text-white/80">{error}</p> : null}
+
+        {!result ? (
+          <div className="mt-5 flex items-center justify-center gap-2">
+            <button
+              type="button"
+              onClick={props.onClose}
+              disabled={loading}
+              className="rounded-xl border border-white/15 bg-white/5 px-4 py-2 text-sm text-white/80 hover:bg-white/10 disabled:opacity-60"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={() => void enroll()}
+              disabled={loading || !workflowId}
+              className="rounded-xl border border-indigo-400/30 bg-indigo-500/10 px-4 py-2 text-sm text-indigo-200 transition hover:bg-indigo-500/15 disabled:opacity-60"
+            >
+              {loading ? 'Procesando…' : 'Inscribir'}
+            </button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+// src/instrumentation.ts
+
+/** Arranque del servidor: con KALUE_WORKER=1 este proceso también ejecuta el worker de automatizaciones. */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.KALUE_WORKER !== '1') return;
+
+  const { startWorker } = await import('@/lib/automations/worker');
+  startWorker();
+}
@@ -0,0 +1,138 @@
+// src/lib/automations/actionNode.ts
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export type HttpHeader = { key: string; value: string };
+
+export type TaskDueUnit = 'minutes' | 'hours' | 'days';
+
+export type ActionConfig =
+  | { action: 'lead.add_label'; label: string }
+  | { action: 'lead.remove_label'; label: string }
+  | { action: 'lead.set_status'; status: string } // uno de LEAD_STATUSES
+  | { action: 'lead.move_stage'; pipelineId: string; stageId: string } // pipelineId vacío = pipeline del run
+  | { action: 'lead.set_field'; field: string; value: string } // value admite plantillas; vacío = null
+  | { action: 'lead.add_note'; note: string } // admite plantillas; se añade al final de notes
+  | { action: 'action.send_email'; to: string; subject: string; body: string }
+  | { action: 'action.send_sms'; to: string; body: string }
+  | {
+      action: 'action.http_request';
+      method: HttpMethod;
+      url: string; // admite plantillas
+      headers: HttpHeader[]; // los valores admiten plantillas
+      body: string; // JSON con plantillas ({{lead.email | json}})
+      sign: boolean; // firma HMAC-SHA256 con el secreto del workspace (webhookSigning)
+    }
+  | {
+      action: 'action.notify_team';
+      kind: string; // lead_notifications.kind
+      title: string; // admite plantillas
+      message: string; // admite plantillas
+      userIds: string[]; // vacío = todo el equipo
+    }
+  | {
+      action: 'action.create_task';
+      assigneeId: string; // miembro del workspace
+      title: string; // admite plantillas
+      notes: string; // admite plantillas
+      dueAmount: number; // vencimiento relativo al momento del step
+      dueUnit: TaskDueUnit;
+    };
+
+export type ActionKind = ActionConfig['action'];
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function str(v: unknown): string {
+  return typeof v === 'string' ? v : '';
+}
+
+function asMethod(v: unknown): HttpMethod {
+  const m = typeof v === 'string' ? v.toUpperCase() : '';
+  return (HTTP_METHODS as string[]).includes(m) ? (m as HttpMethod) : 'POST';
+}
+
+function asDueUnit(v: unknown): TaskDueUnit {
+  return v === 'minutes' || v === 'hours' || v === 'days' ? v : 'days';
+}
+
+function asIds(v: unknown): string[] {
+  if (!Array.isArray(v)) return [];
+  return Array.from(new Set(v.filter((x): x is string => typeof x === 'string').map((x) => x.trim()).filter(Boolean)));
+}
+
+function asHeaders(v: unknown): HttpHeader[] {
+  if (!Array.isArray(v)) return [];
+  return v.filter(isRecord).map((h) => ({ key: str(h.key), value: str(h.value) }));
+}
+
+/** null = acción desconocida / config corrupta. */
+export function parseActionConfig(v: unknown): ActionConfig | null {
+  if (!isRecord(v)) return null;
+  const a = v.action;
+
+  if (a === 'lead.add_label') {
+    return { action: 'lead.add_label', label: str(v.label) };
+  }
+
+  if (a === 'lead.remove_label') {
+    return { action: 'lead.remove_label', label: str(v.label) };
+  }
+
+  if (a === 'lead.set_status') {
+    return { action: 'lead.set_status', status: str(v.status) };
+  }
+
+  if (a === 'lead.move_stage') {
+    return { action: 'lead.move_stage', pipelineId: str(v.pipelineId), stageId: str(v.stageId) };
+  }
+
+  if (a === 'lead.set_field') {
+    return { action: 'lead.set_field', field: str(v.field), value: str(v.value) };
+  }
+
+  if (a === 'lead.add_note') {
+    return { action: 'lead.add_note', note: str(v.note) };
+  }
+
+  if (a === 'action.send_email') {
+    return { action: 'action.send_email', to: str(v.to), subject: str(v.subject), body: str(v.body) };
+  }
+
+  if (a === 'action.send_sms') {
+    return { action: 'action.send_sms', to: str(v.to), body: str(v.body) };
+  }
+
+  if (a === 'action.http_request') {
+    return {
+      action: 'action.http_request',
+      method: asMethod(v.method),
+      url: str(v.url),
+      headers: asHeaders(v.headers),
+      body: str(v.body),
+      sign: v.sign === true,
+    };
+  }
+
+  if (a === 'action.notify_team') {
+    return { action: 'action.notify_team', kind: str(v.kind), title: str(v.title), message: str(v.message), userIds: asIds(v.userIds) };
+  }
+
+  if (a === 'action.create_task') {
+    const amount = typeof v.dueAmount === 'number' && Number.isFinite(v.dueAmount) ? Math.max(0, v.dueAmount) : 1;
+    return {
+      action: 'action.create_task',
+      assigneeId: str(v.assigneeId).trim(),
+      title: str(v.title),
+      notes: str(v.notes),
+      dueAmount: amount,
+      dueUnit: asDueUnit(v.dueUnit),
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,193 @@
+// src/lib/automations/conditionNode.ts
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'greater_than'
+  | 'less_than';
+
+export type ConditionRule = { field: string; operator: ConditionOperator; value: string };
+
+export type ConditionIfConfig = { mode: 'if'; match: 'all' | 'any'; rules: ConditionRule[] };
+
+export type ConditionSwitchCase = { key: string; operator: ConditionOperator; value: string };
+
+export type ConditionSwitchConfig = { mode: 'switch'; field: string; cases: ConditionSwitchCase[] };
+
+export type ConditionConfig = ConditionIfConfig | ConditionSwitchConfig;
+
+/**
+ * Datos contra los que se evalúa una condición.
+ * `lead` es la fila actual del lead; `context` el workflow_runs.context; `stageId` el stage actual.
+ */
+export type ConditionScope = {
+  lead: Record<string, unknown> | null;
+  context: Record<string, unknown>;
+  stageId: string | null;
+};
+
+export type ConditionResult = { branch: string; evaluated: Array<{ field: string; value: unknown; matched: boolean }> };
+
+/** condition_key de las ramas de un if */
+export const BRANCH_TRUE = 'true';
+export const BRANCH_FALSE = 'false';
+/** condition_key de la rama por defecto de un switch */
+export const BRANCH_DEFAULT = 'default';
+
+const OPERATORS: readonly ConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'is_empty',
+  'is_not_empty',
+  'greater_than',
+  'less_than',
+];
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function asOperator(v: unknown): ConditionOperator {
+  return typeof v === 'string' && (OPERATORS as readonly string[]).includes(v) ? (v as ConditionOperator) : 'equals';
+}
+
+function asText(v: unknown): string {
+  return typeof v === 'string' ? v : typeof v === 'number' || typeof v === 'boolean' ? String(v) : '';
+}
+
+function parseRule(v: unknown): ConditionRule | null {
+  if (!isRecord(v)) return null;
+  const field = asText(v.field).trim();
+  if (!field) return null;
+  return { field, operator: asOperator(v.operator), value: asText(v.value) };
+}
+
+export function parseConditionConfig(v: unknown): ConditionConfig {
+  if (!isRecord(v)) return { mode: 'if', match: 'all', rules: [] };
+
+  if (v.mode === 'switch') {
+    const cases: ConditionSwitchCase[] = [];
+    for (const c of Array.isArray(v.cases) ? v.cases : []) {
+      if (!isRecord(c)) continue;
+      const key = asText(c.key).trim();
+      if (!key || key === BRANCH_DEFAULT) continue;
+      cases.push({ key, operator: asOperator(c.operator), value: asText(c.value) });
+    }
+    return { mode: 'switch', field: asText(v.field).trim(), cases };
+  }
+
+  const rules = (Array.isArray(v.rules) ? v.rules : []).map(parseRule).filter((r): r is ConditionRule => r !== null);
+  return { mode: 'if', match: v.match === 'any' ? 'any' : 'all', rules };
+}
+
+/** Claves de rama posibles (para validar edges y pintar el editor). */
+export function conditionBranchKeys(cfg: ConditionConfig): string[] {
+  if (cfg.mode === 'if') return [BRANCH_TRUE, BRANCH_FALSE];
+  return [...cfg.cases.map((c) => c.key), BRANCH_DEFAULT];
+}
+
+function readPath(obj: unknown, path: string[]): unknown {
+  let cur: unknown = obj;
+  for (const k of path) {
+    if (!isRecord(cur)) return undefined;
+    cur = cur[k];
+  }
+  return cur;
+}
+
+/**
+ * Rutas soportadas:
+ * - lead.<columna> (lead.status, lead.labels, lead.email…)
+ * - form_answers.<clave> o lead.form_answers.<clave>
+ * - stage / stage_id (stage actual del lead en el pipeline del run)
+ * - status / labels (atajos de lead.status / lead.labels)
+ * - context.<ruta> (cualquier dato del contexto del run)
+ */
+export function resolveConditionField(field: string, scope: ConditionScope): unknown {
+  const f = field.trim();
+  if (f === 'stage' || f === 'stage_id') return scope.stageId;
+  if (f === 'status' || f === 'labels') return scope.lead?.[f];
+
+  const parts = f.split('.').filter(Boolean);
+  const [head, ...rest] = parts;
+
+  if (head === 'lead') return readPath(scope.lead, rest);
+  if (head === 'form_answers') return readPath(scope.lead?.form_answers, rest);
+  if (head === 'context') return readPath(scope.context, rest);
+
+  return readPath(scope.lead, parts);
+}
+
+function isEmptyValue(v: unknown): boolean {
+  if (v === null || v === undefined) return true;
+  if (typeof v === 'string') return v.trim() === '';
+  if (Array.isArray(v)) return v.length === 0;
+  return false;
+}
+
+function norm(v: unknown): string {
+  return asText(v).trim().toLowerCase();
+}
+
+function toComparable(v: unknown): number | null {
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  const s = asText(v).trim();
+  if (!s) return null;
+  const n = Number(s);
+  if (Number.isFinite(n)) return n;
+  const t = Date.parse(s);
+  return Number.isNaN(t) ? null : t;
+}
+
+/**
+ * Arrays (labels, respuestas múltiples): equals/contains se cumplen si algún elemento encaja.
+ * Comparación de texto sin distinguir mayúsculas.
+ */
+export function evaluateOperator(actual: unknown, operator: ConditionOperator, expected: string): boolean {
+  if (operator === 'is_empty') return isEmptyValue(actual);
+  if (operator === 'is_not_empty') return !isEmptyValue(actual);
+
+  const values = Array.isArray(actual) ? actual : [actual];
+  const exp = expected.trim().toLowerCase();
+
+  if (operator === 'equals') return values.some((v) => norm(v) === exp);
+  if (operator === 'not_equals') return !values.some((v) => norm(v) === exp);
+  if (operator === 'contains') return values.some((v) => norm(v).includes(exp));
+  if (operator === 'not_contains') return !values.some((v) => norm(v).includes(exp));
+
+  const a = toComparable(actual);
+  const b = toComparable(expected);
+  if (a === null || b === null) return false;
+  return operator === 'greater_than' ? a > b : a < b;
+}
+
+export function evaluateCondition(cfg: ConditionConfig, scope: ConditionScope): ConditionResult {
+  if (cfg.mode === 'switch') {
+    const value = resolveConditionField(cfg.field, scope);
+    const evaluated: ConditionResult['evaluated'] = [];
+
+    for (const c of cfg.cases) {
+      const matched = evaluateOperator(value, c.operator, c.value);
+      evaluated.push({ field: cfg.field, value, matched });
+      if (matched) return { branch: c.key, evaluated };
+    }
+
+    return { branch: BRANCH_DEFAULT, evaluated };
+  }
+
+  const evaluated = cfg.rules.map((r) => {
+    const value = resolveConditionField(r.field, scope);
+    return { field: r.field, value, matched: evaluateOperator(value, r.operator, r.value) };
+  });
+
+  // Un if sin reglas se considera verdadero (rama "sí")
+  const ok = cfg.match === 'any' ? evaluated.length === 0 || evaluated.some((e) => e.matched) : evaluated.every((e) => e.matched);
+
+  return { branch: ok ? BRANCH_TRUE : BRANCH_FALSE, evaluated };
+}
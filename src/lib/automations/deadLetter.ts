@@ -0,0 +1,134 @@
+// src/lib/automations/deadLetter.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEAD_LETTER_STATUS, DISCARDED_STATUS } from '@/lib/automations/retryPolicy';
+
+export type DeadLetterKind = 'outbox' | 'steps';
+
+export type DeadLetterItem = {
+  id: string;
+  kind: DeadLetterKind;
+  attempts: number;
+  error: string | null;
+  deadAt: string | null;
+  // outbox
+  channel?: string;
+  to?: string;
+  // steps
+  runId?: string;
+  nodeId?: string;
+  workflowId?: string;
+  leadId?: string | null;
+};
+
+const LIST_LIMIT = 200;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function s(v: unknown): string | null {
+  return typeof v === 'string' && v ? v : null;
+}
+
+export function parseDeadLetterKind(v: unknown): DeadLetterKind | null {
+  return v === 'outbox' || v === 'steps' ? v : null;
+}
+
+/**
+ * workflow_run_steps no tiene workspace_id: se filtra vía workflow_runs (join !inner).
+ */
+export async function listDeadLetters(admin: SupabaseClient, workspaceId: string, kind: DeadLetterKind): Promise<DeadLetterItem[]> {
+  if (kind === 'outbox') {
+    const { data, error } = await admin
+      .from('workflow_message_outbox')
+      .select('id, channel, to, attempts, error, dead_at')
+      .eq('workspace_id', workspaceId)
+      .eq('status', DEAD_LETTER_STATUS)
+      .order('dead_at', { ascending: false })
+      .limit(LIST_LIMIT);
+
+    if (error) throw new Error(`outbox_fetch_failed: ${error.message}`);
+
+    return (data ?? []).filter(isRecord).map((r) => ({
+      id: String(r.id),
+      kind,
+      attempts: typeof r.attempts === 'number' ? r.attempts : 0,
+      error: s(r.error),
+      deadAt: s(r.dead_at),
+      channel: s(r.channel) ?? undefined,
+      to: s(r.to) ?? undefined,
+    }));
+  }
+
+  const { data, error } = await admin
+    .from('workflow_run_steps')
+    .select('id, run_id, node_id, attempts, error, dead_at, workflow_runs!inner(workspace_id, workflow_id, lead_id)')
+    .eq('workflow_runs.workspace_id', workspaceId)
+    .eq('status', DEAD_LETTER_STATUS)
+    .order('dead_at', { ascending: false })
+    .limit(LIST_LIMIT);
+
+  if (error) throw new Error(`steps_fetch_failed: ${error.message}`);
+
+  return (data ?? []).filter(isRecord).map((r) => {
+    // PostgREST puede devolver el embed como objeto o como array de uno
+    const embed: unknown = Array.isArray(r.workflow_runs) ? r.workflow_runs[0] : r.workflow_runs;
+    const run: Record<string, unknown> = isRecord(embed) ? embed : {};
+    return {
+      id: String(r.id),
+      kind,
+      attempts: typeof r.attempts === 'number' ? r.attempts : 0,
+      error: s(r.error),
+      deadAt: s(r.dead_at),
+      runId: s(r.run_id) ?? undefined,
+      nodeId: s(r.node_id) ?? undefined,
+      workflowId: s(run.workflow_id) ?? undefined,
+      leadId: s(run.lead_id),
+    };
+  });
+}
+
+/** Devuelve solo los ids que pertenecen al workspace y siguen en dead-letter. */
+async function scopedIds(admin: SupabaseClient, workspaceId: string, kind: DeadLetterKind, ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+
+  const q =
+    kind === 'outbox'
+      ? admin.from('workflow_message_outbox').select('id').eq('workspace_id', workspaceId)
+      : admin.from('workflow_run_steps').select('id, workflow_runs!inner(workspace_id)').eq('workflow_runs.workspace_id', workspaceId);
+
+  const { data, error } = await q.in('id', ids).eq('status', DEAD_LETTER_STATUS);
+  if (error) throw new Error(`dead_letter_fetch_failed: ${error.message}`);
+
+  return (data ?? []).filter(isRecord).map((r) => String(r.id));
+}
+
+function tableFor(kind: DeadLetterKind): 'workflow_message_outbox' | 'workflow_run_steps' {
+  return kind === 'outbox' ? 'workflow_message_outbox' : 'workflow_run_steps';
+}
+
+/** Vuelve a encolar con el contador a cero (nuevo ciclo completo de reintentos). */
+export async function retryDeadLetters(admin: SupabaseClient, workspaceId: string, kind: DeadLetterKind, ids: string[]): Promise<number> {
+  const ok = await scopedIds(admin, workspaceId, kind, ids);
+  if (ok.length === 0) return 0;
+
+  const nowIso = new Date().toISOString();
+  const patch: Record<string, unknown> = { status: 'queued', attempts: 0, next_attempt_at: null, dead_at: null, error: null };
+  if (kind === 'steps') {
+    patch.scheduled_for = nowIso;
+    patch.finished_at = null;
+  }
+
+  const { error } = await admin.from(tableFor(kind)).update(patch).in('id', ok).eq('status', DEAD_LETTER_STATUS);
+  if (error) throw new Error(`dead_letter_retry_failed: ${error.message}`);
+  return ok.length;
+}
+
+export async function discardDeadLetters(admin: SupabaseClient, workspaceId: string, kind: DeadLetterKind, ids: string[]): Promise<number> {
+  const ok = await scopedIds(admin, workspaceId, kind, ids);
+  if (ok.length === 0) return 0;
+
+  const { error } = await admin.from(tableFor(kind)).update({ status: DISCARDED_STATUS }).in('id', ok).eq('status', DEAD_LETTER_STATUS);
+  if (error) throw new Error(`dead_letter_discard_failed: ${error.message}`);
+  return ok.length;
+}
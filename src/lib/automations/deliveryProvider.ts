@@ -0,0 +1,54 @@
+// src/lib/automations/deliveryProvider.ts
+
+export type DeliveryChannel = 'email' | 'sms';
+
+/** Fila de workflow_message_outbox tal y como la devuelve workflow_claim_outbox. */
+export type OutboxMessage = {
+  id: string;
+  workspace_id: string;
+  channel: DeliveryChannel;
+  to: string;
+  payload: { subject?: string; body?: string };
+};
+
+/**
+ * - permanent: reintentar no sirve (dirección inválida, credenciales mal, 5xx SMTP…)
+ * - transient: red, timeouts, 4xx SMTP, rate limits → se puede reintentar
+ */
+export type DeliveryErrorKind = 'permanent' | 'transient';
+
+export type DeliveryResult =
+  | { ok: true; providerMessageId: string }
+  | { ok: false; kind: DeliveryErrorKind; error: string };
+
+export interface DeliveryProvider {
+  readonly key: string;
+  readonly channel: DeliveryChannel;
+  send(msg: OutboxMessage): Promise<DeliveryResult>;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+export function asOutboxMessage(row: unknown): OutboxMessage | null {
+  if (!isRecord(row)) return null;
+
+  const id = typeof row.id === 'string' ? row.id : '';
+  const workspaceId = typeof row.workspace_id === 'string' ? row.workspace_id : '';
+  const channel = row.channel === 'email' || row.channel === 'sms' ? row.channel : null;
+  if (!id || !workspaceId || !channel) return null;
+
+  const p = isRecord(row.payload) ? row.payload : {};
+
+  return {
+    id,
+    workspace_id: workspaceId,
+    channel,
+    to: typeof row.to === 'string' ? row.to.trim() : '',
+    payload: {
+      subject: typeof p.subject === 'string' ? p.subject : undefined,
+      body: typeof p.body === 'string' ? p.body : undefined,
+    },
+  };
+}
@@ -0,0 +1,585 @@
+// src/lib/automations/dispatchWorkflowEvents.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseServiceRole } from '@/lib/supabase/serviceRole';
+import { claimableLockFilter } from '@/lib/automations/queueLeases';
+import { maxAttempts, readAttempts } from '@/lib/automations/retryPolicy';
+import { STAGE_IDLE_EVENT } from '@/lib/automations/stageIdleTrigger';
+import { LEAD_FIELD_UPDATED, LEAD_LABEL_ADDED, LEAD_LABEL_REMOVED, LEAD_STATUS_CHANGED } from '@/lib/automations/leadFieldEvents';
+import { canEnroll, exitLeadRunsOnGoals, loadLeadStages, reachedExitGoal } from '@/lib/automations/enrollment';
+import { loadWorkflowSettings } from '@/lib/automations/workflowSettings';
+import { graphKey, loadRunGraphs, type GraphRef, type RuntimeGraph } from '@/lib/automations/workflowVersions';
+
+export type QueuedWorkflowEvent = {
+  id: string;
+  workspace_id: string;
+  event_type: string;
+  entity_id: string;
+  payload: unknown;
+};
+
+export type DispatchResult = {
+  matchedWorkflows: number;
+  runIds: string[];
+};
+
+export type TriggerNode = {
+  id: string;
+  workflow_id: string;
+  config: unknown;
+  graph: RuntimeGraph;
+  versionId: string | null;
+};
+
+export type BindingRow = {
+  workflow_id: string;
+  pipeline_id: string;
+  enabled: boolean | null;
+};
+
+export const LEAD_CONTEXT_COLUMNS = [
+  'id',
+  'workspace_id',
+  'created_at',
+  'source',
+  'full_name',
+  'email',
+  'phone',
+  'status',
+  'labels',
+  'notes',
+  'profession',
+  'biggest_pain',
+  'form_answers',
+].join(', ');
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function pickStr(obj: Record<string, unknown>, key: string): string | null {
+  const v = obj[key];
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+/**
+ * Un trigger sin `event` (nodo recién creado con config {}) se considera
+ * `lead.stage_changed`, igual que hace el editor al normalizar.
+ */
+export function triggerMatchesEvent(config: unknown, ev: QueuedWorkflowEvent): boolean {
+  const cfg = isRecord(config) ? config : {};
+  const event = pickStr(cfg, 'event') ?? 'lead.stage_changed';
+  if (event !== ev.event_type) return false;
+
+  const p = isRecord(ev.payload) ? ev.payload : {};
+
+  if (ev.event_type === 'lead.stage_changed') {
+    const wantedStage = pickStr(cfg, 'toStageId');
+    if (wantedStage && wantedStage !== pickStr(p, 'toStageId')) return false;
+  }
+
+  if (ev.event_type === 'lead.created') {
+    if (!matchesAnyOf(cfg.pageIds, pickStr(p, 'pageId'))) return false;
+    if (!matchesAnyOf(cfg.formIds, pickStr(p, 'formId'))) return false;
+  }
+
+  if (ev.event_type === STAGE_IDLE_EVENT) {
+    if (pickStr(cfg, 'stageId') !== pickStr(p, 'stageId')) return false;
+  }
+
+  if (ev.event_type === LEAD_STATUS_CHANGED) {
+    if (!matchesText(pickStr(cfg, 'status'), pickStr(p, 'toStatus'))) return false;
+  }
+
+  if (ev.event_type === LEAD_LABEL_ADDED || ev.event_type === LEAD_LABEL_REMOVED) {
+    if (!matchesText(pickStr(cfg, 'label'), pickStr(p, 'label'))) return false;
+  }
+
+  if (ev.event_type === LEAD_FIELD_UPDATED) {
+    const wantedField = pickStr(cfg, 'field');
+    if (wantedField && wantedField !== pickStr(p, 'field')) return false;
+  }
+
+  return true;
+}
+
+/** Filtro opcional de texto (status, etiqueta): sin filtro encaja todo; sin mayúsculas/minúsculas. */
+function matchesText(wanted: string | null, value: string | null): boolean {
+  if (!wanted) return true;
+  return value !== null && wanted.toLowerCase() === value.toLowerCase();
+}
+
+/**
+ * Eventos dirigidos a un workflow concreto (payload.workflowId), como lead.stage_idle:
+ * el umbral es de cada trigger, así que el scanner encola uno por workflow.
+ */
+export function eventTargetsWorkflow(ev: QueuedWorkflowEvent, workflowId: string): boolean {
+  const target = isRecord(ev.payload) ? pickStr(ev.payload, 'workflowId') : null;
+  return target === null || target === workflowId;
+}
+
+/** Lista vacía o ausente = sin filtro. */
+function matchesAnyOf(list: unknown, value: string | null): boolean {
+  const wanted = Array.isArray(list) ? list.filter((x): x is string => typeof x === 'string' && x.trim().length > 0) : [];
+  if (wanted.length === 0) return true;
+  return value !== null && wanted.some((w) => w.trim() === value);
+}
+
+// Eventos con pipeline en el payload; el resto (lead.created, cambios de campos) no lo tienen
+const PIPELINE_EVENTS = new Set(['lead.stage_changed', STAGE_IDLE_EVENT]);
+
+/**
+ * Si un workflow tiene bindings (workflow_pipeline_bindings) solo escucha esos pipelines.
+ * Sin bindings escucha cualquier pipeline del workspace.
+ * Los eventos sin pipeline (lead.created, lead.status_changed…) no dependen de los bindings.
+ */
+export function workflowListensToPipeline(bindings: BindingRow[], pipelineId: string | null, eventType: string): boolean {
+  if (!PIPELINE_EVENTS.has(eventType)) return true;
+  if (bindings.length === 0) return true;
+  if (!pipelineId) return false;
+  return bindings.some((b) => b.pipeline_id === pipelineId && b.enabled !== false);
+}
+
+async function loadLead(admin: SupabaseClient, workspaceId: string, leadId: string): Promise<Record<string, unknown> | null> {
+  const { data, error } = await admin
+    .from('leads')
+    .select(LEAD_CONTEXT_COLUMNS)
+    .eq('id', leadId)
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (error) throw new Error(`lead_fetch_failed: ${error.message}`);
+  return isRecord(data) ? data : null;
+}
+
+/**
+ * Contexto inicial del run. Los steps lo leen tal cual (templates, condiciones…).
+ */
+export function buildRunContext(ev: QueuedWorkflowEvent, lead: Record<string, unknown>): Record<string, unknown> {
+  const p = isRecord(ev.payload) ? ev.payload : {};
+
+  return {
+    event: {
+      id: ev.id,
+      type: ev.event_type,
+      payload: p,
+    },
+    lead,
+    leadId: typeof lead.id === 'string' ? lead.id : ev.entity_id,
+    pipelineId: pickStr(p, 'pipelineId'),
+    stageId: pickStr(p, 'toStageId') ?? pickStr(p, 'stageId'),
+  };
+}
+
+/**
+ * Empareja un evento de workflow_event_queue con los workflows activos del workspace
+ * y crea un workflow_run (+ primeros workflow_run_steps) por cada trigger que encaje.
+ *
+ * Los triggers y edges salen de la versión publicada (workflowVersions); el run queda fijado a ella.
+ *
+ * Antes de emparejar, los runs en curso del lead que ya cumplen un objetivo de salida se terminan.
+ * Un workflow solo crea run si su política de entrada lo permite y el lead no cumple ya un objetivo
+ * (workflowSettings / enrollment).
+ *
+ * Tablas (supabase/migrations/20261019000300_workflow_automation_schema.sql):
+ * - workflow_runs (id, workspace_id, workflow_id, version_id, lead_id, status, context, started_at, trigger_event_id)
+ * - workflow_run_steps (id, run_id, node_id, status, scheduled_for, output, finished_at)
+ *
+ * Si el evento se reintenta tras crear parte de los runs, los ya creados no se duplican
+ * ((trigger_event_id, workflow_id) es único, ver startRun).
+ */
+export async function dispatchWorkflowEvent(args: {
+  admin: SupabaseClient;
+  event: QueuedWorkflowEvent;
+}): Promise<DispatchResult> {
+  const { admin, event: ev } = args;
+  const empty: DispatchResult = { matchedWorkflows: 0, runIds: [] };
+
+  const p = isRecord(ev.payload) ? ev.payload : {};
+  const leadId = pickStr(p, 'leadId') ?? ev.entity_id;
+
+  await exitLeadRunsOnGoals(admin, { workspaceId: ev.workspace_id, leadId });
+
+  const { data: wfRows, error: wfErr } = await admin
+    .from('workflows')
+    .select('id, published_version_id')
+    .eq('workspace_id', ev.workspace_id)
+    .eq('status', 'active');
+
+  if (wfErr) throw new Error(`workflows_fetch_failed: ${wfErr.message}`);
+
+  // Workflows activos antes del versionado no tienen versión: se usa el borrador
+  const refs: GraphRef[] = (wfRows ?? [])
+    .filter(isRecord)
+    .map((r) => ({ workflowId: pickStr(r, 'id') ?? '', versionId: pickStr(r, 'published_version_id') }))
+    .filter((r) => Boolean(r.workflowId));
+
+  if (refs.length === 0) return empty;
+
+  const workflowIds = refs.map((r) => r.workflowId);
+
+  const [graphs, bindingsRes] = await Promise.all([
+    loadRunGraphs(admin, refs),
+    admin
+      .from('workflow_pipeline_bindings')
+      .select('workflow_id, pipeline_id, enabled')
+      .eq('workspace_id', ev.workspace_id)
+      .in('workflow_id', workflowIds),
+  ]);
+
+  if (bindingsRes.error) throw new Error(`bindings_fetch_failed: ${bindingsRes.error.message}`);
+
+  const triggers: TriggerNode[] = [];
+  for (const ref of refs) {
+    const graph = graphs.get(graphKey(ref));
+    if (!graph) continue;
+    for (const n of graph.nodes.values()) {
+      if (n.type === 'trigger') triggers.push({ id: n.id, workflow_id: ref.workflowId, config: n.config, graph, versionId: ref.versionId });
+    }
+  }
+
+  const bindingsByWorkflow = new Map<string, BindingRow[]>();
+  for (const b of (bindingsRes.data ?? []) as BindingRow[]) {
+    const arr = bindingsByWorkflow.get(b.workflow_id) ?? [];
+    arr.push(b);
+    bindingsByWorkflow.set(b.workflow_id, arr);
+  }
+
+  const pipelineId = pickStr(p, 'pipelineId');
+
+  // Un run por workflow aunque tenga varios triggers que encajen
+  const matched = new Map<string, TriggerNode>();
+  for (const t of triggers) {
+    if (matched.has(t.workflow_id)) continue;
+    if (!eventTargetsWorkflow(ev, t.workflow_id)) continue;
+    if (!workflowListensToPipeline(bindingsByWorkflow.get(t.workflow_id) ?? [], pipelineId, ev.event_type)) continue;
+    if (!triggerMatchesEvent(t.config, ev)) continue;
+    matched.set(t.workflow_id, t);
+  }
+
+  if (matched.size === 0) return empty;
+
+  const lead = await loadLead(admin, ev.workspace_id, leadId);
+  if (!lead) return empty;
+
+  const [settings, stages] = await Promise.all([
+    loadWorkflowSettings(admin, Array.from(matched.keys())),
+    loadLeadStages(admin, [leadId]),
+  ]);
+
+  for (const workflowId of Array.from(matched.keys())) {
+    const cfg = settings.get(workflowId);
+    if (!cfg) continue;
+    // El run que este evento ya creó en un intento anterior no cuenta para la política (startRun lo retoma)
+    const allowed =
+      !reachedExitGoal(cfg.exitGoals, lead, stages.get(leadId) ?? []) &&
+      (await canEnroll(admin, { workflowId, leadId, policy: cfg.enrollment, triggerEventId: ev.id }));
+    if (!allowed) matched.delete(workflowId);
+  }
+
+  if (matched.size === 0) return empty;
+
+  const context = buildRunContext(ev, lead);
+
+  const runIds: string[] = [];
+
+  for (const trigger of matched.values()) {
+    runIds.push(
+      await startRun(admin, {
+        workspaceId: ev.workspace_id,
+        leadId,
+        trigger,
+        context,
+        triggerOutput: { event: ev.event_type, eventId: ev.id },
+        triggerEventId: ev.id,
+      })
+    );
+  }
+
+  return { matchedWorkflows: matched.size, runIds };
+}
+
+/**
+ * Crea el run y sus primeros steps: el trigger queda registrado como step ya resuelto (historial)
+ * y se encolan sus sucesores. Lo usan el dispatcher y la inscripción manual (manualEnrollment).
+ *
+ * Con triggerEventId es idempotente: si ya hay run para (evento, workflow) se reutiliza y solo se
+ * completan los steps que falten (supabase/migrations/20261019000200_workflow_run_trigger_event.sql).
+ */
+export async function startRun(
+  admin: SupabaseClient,
+  args: {
+    workspaceId: string;
+    leadId: string;
+    trigger: TriggerNode;
+    context: Record<string, unknown>;
+    triggerOutput: Record<string, unknown>;
+    triggerEventId?: string;
+  }
+): Promise<string> {
+  const { trigger } = args;
+  const nowIso = new Date().toISOString();
+  const triggerEventId = args.triggerEventId ?? null;
+
+  const { data: run, error: runErr } = await admin
+    .from('workflow_runs')
+    .insert({
+      workspace_id: args.workspaceId,
+      workflow_id: trigger.workflow_id,
+      version_id: trigger.versionId,
+      lead_id: args.leadId,
+      status: 'running',
+      context: args.context,
+      started_at: nowIso,
+      trigger_event_id: triggerEventId,
+    })
+    .select('id')
+    .single();
+
+  let runId = run?.id ? String(run.id) : null;
+
+  // Reintento del mismo evento: el run ya existe
+  if (runErr?.code === '23505' && triggerEventId) {
+    const { data: existing, error: exErr } = await admin
+      .from('workflow_runs')
+      .select('id')
+      .eq('trigger_event_id', triggerEventId)
+      .eq('workflow_id', trigger.workflow_id)
+      .maybeSingle();
+
+    if (exErr) throw new Error(`run_fetch_failed: ${exErr.message}`);
+    runId = existing?.id ? String(existing.id) : null;
+  }
+
+  if (!runId) throw new Error(`run_insert_failed: ${runErr?.message ?? 'no_id'}`);
+
+  // Step del trigger (si un intento anterior ya lo creó, se reutiliza)
+  const { data: prevTrigger, error: prevErr } = await admin
+    .from('workflow_run_steps')
+    .select('id')
+    .eq('run_id', runId)
+    .eq('node_id', trigger.id)
+    .maybeSingle();
+
+  if (prevErr) throw new Error(`steps_fetch_failed: ${prevErr.message}`);
+
+  let triggerStepId = prevTrigger?.id ? String(prevTrigger.id) : null;
+
+  if (!triggerStepId) {
+    const { data: step, error: stepErr } = await admin
+      .from('workflow_run_steps')
+      .insert({
+        run_id: runId,
+        node_id: trigger.id,
+        status: 'success',
+        scheduled_for: nowIso,
+        output: args.triggerOutput,
+        finished_at: nowIso,
+      })
+      .select('id')
+      .single();
+
+    if (stepErr || !step?.id) throw new Error(`steps_insert_failed: ${stepErr?.message ?? 'no_id'}`);
+    triggerStepId = String(step.id);
+  }
+
+  const nextNodeIds = (trigger.graph.next.get(trigger.id) ?? []).map((e) => e.to);
+
+  if (nextNodeIds.length > 0) {
+    // Mismo encadenado idempotente que runStepsTick: (parent_step_id, node_id) es único
+    const { error: stepsErr } = await admin.from('workflow_run_steps').upsert(
+      nextNodeIds.map((nid) => ({
+        run_id: runId,
+        node_id: nid,
+        parent_step_id: triggerStepId,
+        status: 'queued',
+        scheduled_for: nowIso,
+      })),
+      { onConflict: 'parent_step_id,node_id', ignoreDuplicates: true }
+    );
+    if (stepsErr) throw new Error(`steps_insert_failed: ${stepsErr.message}`);
+  }
+
+  return runId;
+}
+
+/**
+ * Lee N eventos pendientes, los bloquea con lock_token,
+ * y devuelve filas para procesar. Es idempotente.
+ *
+ * Un lock más viejo que el lease timeout (queueLeases) se puede volver a tomar: el tick que lo tenía murió.
+ * Cada toma cuenta como intento; un evento que llega a maxAttempts() sin procesarse se aparta (dead_at)
+ * para que un evento "veneno" no bloquee la cola. Un evento sin workspace_id, event_type o entity_id
+ * no se puede procesar nunca: se aparta en el acto (last_error 'invalid_event').
+ *
+ * Columnas attempts, dead_at y last_error en supabase/migrations/20261019000300_workflow_automation_schema.sql
+ */
+async function lockNextEvents(args: {
+  admin: SupabaseClient;
+  limit: number;
+  lockToken: string;
+}): Promise<{ events: QueuedWorkflowEvent[]; deadLettered: number }> {
+  const sb = args.admin;
+  const none = { events: [], deadLettered: 0 };
+  const claimable = claimableLockFilter();
+
+  // 1) seleccionar candidatos (libres o con lease caducado)
+  const { data: ids, error: e1 } = await sb
+    .from('workflow_event_queue')
+    .select('id')
+    .is('processed_at', null)
+    .is('dead_at', null)
+    .or(claimable)
+    .order('created_at', { ascending: true })
+    .limit(args.limit);
+
+  if (e1 || !Array.isArray(ids) || ids.length === 0) return none;
+
+  const idList = ids
+    .map((r) => (isRecord(r) ? pickStr(r, 'id') : null))
+    .filter((x): x is string => Boolean(x));
+
+  if (idList.length === 0) return none;
+
+  // 2) lock (mismas condiciones: si otro tick lo tomó entre medias, no se pisa)
+  const nowIso = new Date().toISOString();
+  const { error: e2 } = await sb
+    .from('workflow_event_queue')
+    .update({ locked_at: nowIso, lock_token: args.lockToken })
+    .in('id', idList)
+    .is('processed_at', null)
+    .is('dead_at', null)
+    .or(claimable);
+
+  if (e2) return none;
+
+  // 3) leer locked
+  const { data: rows, error: e3 } = await sb
+    .from('workflow_event_queue')
+    .select('id, workspace_id, event_type, entity_id, payload, attempts')
+    .eq('lock_token', args.lockToken)
+    .is('processed_at', null);
+
+  if (e3 || !Array.isArray(rows)) return none;
+
+  // 4) contar el intento; los que ya agotaron intentos se apartan
+  const limit = maxAttempts();
+  const poisoned: string[] = [];
+  const invalid: string[] = [];
+  const byAttempts = new Map<number, string[]>();
+
+  const out: QueuedWorkflowEvent[] = [];
+  for (const r of rows) {
+    if (!isRecord(r)) continue;
+    const id = pickStr(r, 'id');
+    const workspaceId = pickStr(r, 'workspace_id');
+    const eventType = pickStr(r, 'event_type');
+    const entityId = pickStr(r, 'entity_id');
+    const payload = (r as { payload?: unknown }).payload;
+
+    if (!id) continue;
+
+    if (!workspaceId || !eventType || !entityId) {
+      invalid.push(id);
+      continue;
+    }
+
+    const attempts = readAttempts(r);
+    if (attempts >= limit) {
+      poisoned.push(id);
+      continue;
+    }
+
+    const group = byAttempts.get(attempts) ?? [];
+    group.push(id);
+    byAttempts.set(attempts, group);
+
+    out.push({ id, workspace_id: workspaceId, event_type: eventType, entity_id: entityId, payload });
+  }
+
+  for (const [attempts, group] of byAttempts) {
+    await sb
+      .from('workflow_event_queue')
+      .update({ attempts: attempts + 1 })
+      .in('id', group)
+      .eq('lock_token', args.lockToken);
+  }
+
+  if (poisoned.length > 0) {
+    await sb
+      .from('workflow_event_queue')
+      .update({ dead_at: nowIso, locked_at: null, lock_token: null, last_error: 'max_attempts_exceeded' })
+      .in('id', poisoned)
+      .eq('lock_token', args.lockToken);
+  }
+
+  if (invalid.length > 0) {
+    await sb
+      .from('workflow_event_queue')
+      .update({ dead_at: nowIso, locked_at: null, lock_token: null, last_error: 'invalid_event' })
+      .in('id', invalid)
+      .eq('lock_token', args.lockToken);
+  }
+
+  return { events: out, deadLettered: poisoned.length + invalid.length };
+}
+
+async function markProcessed(args: { admin: SupabaseClient; ids: string[]; lockToken: string }): Promise<void> {
+  if (args.ids.length === 0) return;
+  const nowIso = new Date().toISOString();
+  await args.admin
+    .from('workflow_event_queue')
+    .update({ processed_at: nowIso })
+    .in('id', args.ids)
+    .eq('lock_token', args.lockToken)
+    .is('processed_at', null);
+}
+
+async function releaseLock(args: { admin: SupabaseClient; failures: Array<{ id: string; error: string }>; lockToken: string }): Promise<void> {
+  for (const f of args.failures) {
+    await args.admin
+      .from('workflow_event_queue')
+      .update({ locked_at: null, lock_token: null, last_error: f.error })
+      .eq('id', f.id)
+      .eq('lock_token', args.lockToken)
+      .is('processed_at', null);
+  }
+}
+
+/**
+ * Bloquea un lote de workflow_event_queue y lo despacha.
+ * Los eventos que fallan se liberan para reintentarse en el próximo tick
+ * (hasta maxAttempts(); después quedan con dead_at).
+ */
+export async function dispatchQueuedEvents(args: { limit: number }): Promise<{
+  processed: number;
+  released: number;
+  deadLettered: number;
+  runsCreated: number;
+}> {
+  const admin = supabaseServiceRole();
+  const lockToken = crypto.randomUUID();
+  const { events: batch, deadLettered } = await lockNextEvents({ admin, limit: args.limit, lockToken });
+
+  if (batch.length === 0) return { processed: 0, released: 0, deadLettered, runsCreated: 0 };
+
+  const processedIds: string[] = [];
+  const toRelease: Array<{ id: string; error: string }> = [];
+  let runsCreated = 0;
+
+  for (const ev of batch) {
+    try {
+      const r = await dispatchWorkflowEvent({ admin, event: ev });
+      runsCreated += r.runIds.length;
+      processedIds.push(ev.id);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'unknown_error';
+      console.error('dispatchWorkflowEvent failed', ev.id, msg);
+      toRelease.push({ id: ev.id, error: msg });
+    }
+  }
+
+  await markProcessed({ admin, ids: processedIds, lockToken });
+  await releaseLock({ admin, failures: toRelease, lockToken });
+
+  return { processed: processedIds.length, released: toRelease.length, deadLettered, runsCreated };
+}
@@ -0,0 +1,406 @@
+// src/lib/automations/dryRun.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { computeWaitUntil, parseWaitConfig } from '@/lib/automations/waitNode';
+import { evaluateCondition, parseConditionConfig } from '@/lib/automations/conditionNode';
+import { parseActionConfig } from '@/lib/automations/actionNode';
+import { renderTemplateFields, type TemplateVars } from '@/lib/automations/templateEngine';
+import { loadTemplateVars } from '@/lib/automations/loadTemplateVars';
+import { prepareHttpRequest } from '@/lib/automations/httpRequestAction';
+import { isLeadMutation, planLeadPatch } from '@/lib/automations/leadMutationActions';
+import { isTeamAction, planTeamAction } from '@/lib/automations/teamActions';
+import { canEnroll, loadLeadStages, reachedExitGoal } from '@/lib/automations/enrollment';
+import { loadWorkflowSettings } from '@/lib/automations/workflowSettings';
+import { SIGNATURE_HEADER } from '@/lib/automations/webhookSigning';
+import { STAGE_IDLE_EVENT, idleThresholdMs, parseStageIdleConfig } from '@/lib/automations/stageIdleTrigger';
+import { LEAD_FIELD_UPDATED, LEAD_LABEL_ADDED, LEAD_LABEL_REMOVED, LEAD_STATUS_CHANGED } from '@/lib/automations/leadFieldEvents';
+import {
+  buildRunContext,
+  triggerMatchesEvent,
+  workflowListensToPipeline,
+  type BindingRow,
+  type QueuedWorkflowEvent,
+} from '@/lib/automations/dispatchWorkflowEvents';
+import { toRuntimeGraph, type WorkflowGraph } from '@/lib/automations/workflowVersions';
+
+/**
+ * Simulación (dry-run) de un workflow contra un lead real, sin efectos:
+ * no crea runs/steps, no encola mensajes, no hace peticiones HTTP ni toca el lead.
+ *
+ * Recorre el grafo igual que el runner (tick) pero con tiempo simulado: un "wait" adelanta el reloj
+ * en vez de programar el siguiente step. Las condiciones leen el estado actual del lead, con los cambios
+ * de las acciones lead.* ya simulados (solo en memoria).
+ */
+
+export type DryRunStep = {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  at: string; // momento simulado (ISO)
+  status: 'success' | 'failed' | 'skipped';
+  output: Record<string, unknown>;
+  error: string | null;
+};
+
+export type DryRunMessage = {
+  nodeId: string;
+  channel: 'email' | 'sms';
+  at: string;
+  to: string;
+  subject: string | null;
+  body: string;
+};
+
+export type DryRunRequest = {
+  nodeId: string;
+  at: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string | null;
+};
+
+export type DryRunTrigger = {
+  nodeId: string | null;
+  event: string;
+  matched: boolean;
+  reason: string | null; // por qué no se dispararía (null si encaja)
+};
+
+export type DryRunResult = {
+  lead: { id: string; fullName: string | null };
+  pipelineId: string | null;
+  stageId: string | null;
+  trigger: DryRunTrigger;
+  steps: DryRunStep[];
+  messages: DryRunMessage[];
+  requests: DryRunRequest[]; // action.http_request: petición ya renderizada (no se envía)
+  truncated: boolean; // se cortó por MAX_STEPS (ciclo o grafo enorme)
+};
+
+const MAX_STEPS = 100;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function pickStr(obj: Record<string, unknown>, key: string): string | null {
+  const v = obj[key];
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+async function loadLeadState(
+  admin: SupabaseClient,
+  leadId: string,
+  pipelineId: string | null
+): Promise<{ pipelineId: string | null; stageId: string | null; stageChangedAt: string | null }> {
+  let q = admin.from('lead_pipeline_state').select('pipeline_id, stage_id, stage_changed_at').eq('lead_id', leadId);
+  if (pipelineId) q = q.eq('pipeline_id', pipelineId);
+
+  const { data, error } = await q.limit(1);
+  if (error) throw new Error(`lead_state_fetch_failed: ${error.message}`);
+
+  const row = Array.isArray(data) && isRecord(data[0]) ? data[0] : null;
+  return {
+    pipelineId: row ? pickStr(row, 'pipeline_id') : pipelineId,
+    stageId: row ? pickStr(row, 'stage_id') : null,
+    stageChangedAt: row ? pickStr(row, 'stage_changed_at') : null,
+  };
+}
+
+/**
+ * Evento sintético equivalente al que dispararía el trigger para este lead:
+ * - lead.stage_changed: el lead "entra" en su stage actual
+ * - lead.created: formulario de Meta guardado en el lead (meta_form_id)
+ * - lead.stage_idle: el lead lleva en su stage actual el tiempo configurado
+ * - lead.status_changed / label_* / field_updated: el lead "pasa" a su valor actual
+ *   (la etiqueta/campo es la del filtro del trigger si lo tiene)
+ */
+function syntheticEvent(args: {
+  workspaceId: string;
+  workflowId: string;
+  eventType: string;
+  triggerConfig: Record<string, unknown>;
+  lead: Record<string, unknown>;
+  leadId: string;
+  pipelineId: string | null;
+  stageId: string | null;
+  stageChangedAt: string | null;
+}): QueuedWorkflowEvent {
+  let payload: Record<string, unknown>;
+  if (args.eventType === 'lead.created') {
+    payload = { leadId: args.leadId, source: pickStr(args.lead, 'source'), pageId: null, formId: pickStr(args.lead, 'meta_form_id') };
+  } else if (args.eventType === LEAD_STATUS_CHANGED) {
+    payload = { leadId: args.leadId, fromStatus: null, toStatus: pickStr(args.lead, 'status') };
+  } else if (args.eventType === LEAD_LABEL_ADDED || args.eventType === LEAD_LABEL_REMOVED) {
+    const labels = Array.isArray(args.lead.labels) ? args.lead.labels.filter((l): l is string => typeof l === 'string') : [];
+    payload = { leadId: args.leadId, label: pickStr(args.triggerConfig, 'label') ?? labels[0] ?? null, labels };
+  } else if (args.eventType === LEAD_FIELD_UPDATED) {
+    const field = pickStr(args.triggerConfig, 'field') ?? 'status';
+    payload = { leadId: args.leadId, field, before: null, after: args.lead[field] ?? null };
+  } else if (args.eventType === STAGE_IDLE_EVENT) {
+    payload = {
+      workflowId: args.workflowId,
+      leadId: args.leadId,
+      pipelineId: args.pipelineId,
+      stageId: args.stageId,
+      stageChangedAt: args.stageChangedAt,
+    };
+  } else {
+    payload = { leadId: args.leadId, pipelineId: args.pipelineId, fromStageId: null, toStageId: args.stageId };
+  }
+
+  return { id: 'dry-run', workspace_id: args.workspaceId, event_type: args.eventType, entity_id: args.leadId, payload };
+}
+
+function isIdleLongEnough(stageChangedAt: string | null, thresholdMs: number, now: Date): boolean {
+  const t = stageChangedAt ? Date.parse(stageChangedAt) : NaN;
+  return Number.isFinite(t) && now.getTime() - t >= thresholdMs;
+}
+
+export async function simulateWorkflow(
+  admin: SupabaseClient,
+  args: { workspaceId: string; workflowId: string; graph: WorkflowGraph; leadId: string; pipelineId?: string | null; now?: Date }
+): Promise<DryRunResult | null> {
+  const { data: leadRow, error: leadErr } = await admin
+    .from('leads')
+    .select('*')
+    .eq('id', args.leadId)
+    .eq('workspace_id', args.workspaceId)
+    .maybeSingle();
+
+  if (leadErr) throw new Error(`lead_fetch_failed: ${leadErr.message}`);
+  if (!isRecord(leadRow)) return null;
+  let lead: Record<string, unknown> = leadRow;
+
+  const state = await loadLeadState(admin, args.leadId, args.pipelineId ?? null);
+  const graph = toRuntimeGraph(args.graph);
+  const triggerNode = args.graph.nodes.find((n) => n.type === 'trigger') ?? null;
+
+  const triggerCfg = triggerNode && isRecord(triggerNode.config) ? triggerNode.config : {};
+  const eventType = pickStr(triggerCfg, 'event') ?? 'lead.stage_changed';
+  const start = args.now ?? new Date();
+  const ev = syntheticEvent({
+    workspaceId: args.workspaceId,
+    workflowId: args.workflowId,
+    eventType,
+    triggerConfig: triggerCfg,
+    lead,
+    leadId: args.leadId,
+    ...state,
+  });
+
+  // Trigger: mismas reglas que el dispatcher (config del trigger + bindings de pipeline)
+  let reason: string | null = null;
+  if (!triggerNode) {
+    reason = 'no_trigger';
+  } else {
+    const { data: bindings, error: bErr } = await admin
+      .from('workflow_pipeline_bindings')
+      .select('workflow_id, pipeline_id, enabled')
+      .eq('workspace_id', args.workspaceId)
+      .eq('workflow_id', args.workflowId);
+
+    if (bErr) throw new Error(`bindings_fetch_failed: ${bErr.message}`);
+
+    const idleCfg = eventType === STAGE_IDLE_EVENT ? parseStageIdleConfig(triggerNode.config) : null;
+
+    if ((eventType === 'lead.stage_changed' || eventType === STAGE_IDLE_EVENT) && !state.stageId) reason = 'lead_not_in_pipeline';
+    else if (!workflowListensToPipeline((bindings ?? []) as BindingRow[], state.pipelineId, eventType)) reason = 'pipeline_not_bound';
+    else if (!triggerMatchesEvent(triggerNode.config, ev)) reason = 'trigger_filter_mismatch';
+    else if (idleCfg && !isIdleLongEnough(state.stageChangedAt, idleThresholdMs(idleCfg), start)) reason = 'stage_not_idle_yet';
+
+    // Ajustes del workflow: igual que el dispatcher (objetivo ya cumplido / política de entrada)
+    if (reason === null) {
+      const [settings, stages] = await Promise.all([loadWorkflowSettings(admin, [args.workflowId]), loadLeadStages(admin, [args.leadId])]);
+      const cfg = settings.get(args.workflowId);
+      if (cfg && reachedExitGoal(cfg.exitGoals, lead, stages.get(args.leadId) ?? [])) reason = 'exit_goal_already_met';
+      else if (cfg && !(await canEnroll(admin, { workflowId: args.workflowId, leadId: args.leadId, policy: cfg.enrollment, now: start }))) {
+        reason = 'enrollment_blocked';
+      }
+    }
+  }
+
+  const result: DryRunResult = {
+    lead: { id: args.leadId, fullName: pickStr(lead, 'full_name') },
+    pipelineId: state.pipelineId,
+    stageId: state.stageId,
+    trigger: { nodeId: triggerNode?.id ?? null, event: eventType, matched: reason === null, reason },
+    steps: [],
+    messages: [],
+    requests: [],
+    truncated: false,
+  };
+
+  if (!triggerNode) return result;
+
+  // Se recorre aunque el trigger no encaje: así se puede probar el resto del flujo con cualquier lead
+  const context = buildRunContext(ev, lead);
+  let vars: TemplateVars | null = null;
+
+  // Variables con el lead y el stage simulados en ese momento (el runner las carga en cada step)
+  const buildVars = () =>
+    loadTemplateVars(admin, { workspaceId: args.workspaceId, lead, pipelineId: state.pipelineId, stageId: state.stageId, context });
+
+  result.steps.push({
+    nodeId: triggerNode.id,
+    nodeName: triggerNode.name,
+    nodeType: 'trigger',
+    at: start.toISOString(),
+    status: 'success',
+    output: { event: eventType },
+    error: null,
+  });
+
+  // Cola ordenada por tiempo simulado (como scheduled_for en workflow_run_steps)
+  const queue: Array<{ nodeId: string; at: Date }> = (graph.next.get(triggerNode.id) ?? []).map((e) => ({ nodeId: e.to, at: start }));
+
+  while (queue.length > 0) {
+    if (result.steps.length >= MAX_STEPS) {
+      result.truncated = true;
+      break;
+    }
+
+    queue.sort((a, b) => a.at.getTime() - b.at.getTime());
+    const { nodeId, at } = queue.shift() as { nodeId: string; at: Date };
+    const node = graph.nodes.get(nodeId);
+
+    const step: DryRunStep = {
+      nodeId,
+      nodeName: node?.name ?? nodeId,
+      nodeType: node?.type ?? 'unknown',
+      at: at.toISOString(),
+      status: 'success',
+      output: {},
+      error: null,
+    };
+    result.steps.push(step);
+
+    if (!node) {
+      step.status = 'failed';
+      step.error = 'missing_run_or_node';
+      continue;
+    }
+
+    let nextAt = at;
+    let branch: string | null = null;
+
+    if (node.type === 'wait') {
+      const waitCfg = parseWaitConfig(node.config);
+      const waited = computeWaitUntil(waitCfg, { now: at, lead });
+      if (!waited.ok) {
+        step.status = 'failed';
+        step.error = waited.error;
+        continue;
+      }
+      nextAt = waited.until;
+      step.output = { mode: waitCfg.mode, resumeAt: nextAt.toISOString() };
+    } else if (node.type === 'condition') {
+      const evaluated = evaluateCondition(parseConditionConfig(node.config), { lead, context, stageId: state.stageId });
+      branch = evaluated.branch;
+      step.output = { branch: evaluated.branch, evaluated: evaluated.evaluated };
+    } else if (node.type !== 'action') {
+      step.status = 'skipped';
+      step.output = { reason: 'non_action_node' };
+      continue;
+    } else {
+      const cfg = parseActionConfig(node.config);
+      if (!cfg) {
+        step.status = 'failed';
+        step.error = 'invalid_action_config';
+        continue;
+      }
+
+      const needsVars = !isLeadMutation(cfg) || cfg.action === 'lead.set_field' || cfg.action === 'lead.add_note';
+      if (needsVars) {
+        vars = vars ?? (await buildVars());
+      }
+
+      if (cfg.action === 'lead.move_stage') {
+        const pipelineId = cfg.pipelineId.trim() || state.pipelineId;
+        const toStageId = cfg.stageId.trim();
+        if (!pipelineId || !toStageId) {
+          step.status = 'failed';
+          step.error = pipelineId ? 'stage_missing' : 'pipeline_missing';
+          continue;
+        }
+
+        const fromStageId = pipelineId === state.pipelineId ? state.stageId : null;
+        step.output = { action: cfg.action, pipelineId, fromStageId, toStageId, applied: fromStageId !== toStageId };
+        if (pipelineId === state.pipelineId) state.stageId = toStageId;
+        // Las plantillas siguientes ven el stage nuevo
+        vars = await buildVars();
+      } else if (isLeadMutation(cfg)) {
+        const plan = planLeadPatch(cfg, lead, vars ?? {}, at);
+        if (!plan.ok) {
+          step.status = 'failed';
+          step.error = plan.error;
+          continue;
+        }
+
+        step.output = plan.output;
+        if (plan.patch) {
+          lead = { ...lead, ...plan.patch };
+          // Las plantillas siguientes ven el lead cambiado
+          vars = await buildVars();
+        }
+      } else if (cfg.action === 'action.http_request') {
+        const prepared = prepareHttpRequest(cfg, vars ?? {});
+        step.output = { action: cfg.action };
+
+        if (!prepared.ok) {
+          step.status = 'failed';
+          step.error = prepared.error;
+          continue;
+        }
+
+        const headers = { ...prepared.request.headers };
+        if (cfg.sign) headers[SIGNATURE_HEADER] = 't=…,v1=…';
+
+        result.requests.push({ nodeId, at: at.toISOString(), ...prepared.request, headers });
+      } else if (isTeamAction(cfg)) {
+        // No se inserta nada: el output muestra la notificación / tarea ya renderizada
+        const plan = planTeamAction(cfg, { workspaceId: args.workspaceId, leadId: args.leadId, vars: vars ?? {}, now: at });
+        if (!plan.ok) {
+          step.status = 'failed';
+          step.error = plan.error;
+          continue;
+        }
+        step.output = plan.output;
+      } else {
+        const rendered = renderTemplateFields(
+          { to: cfg.to, subject: cfg.action === 'action.send_email' ? cfg.subject : '', body: cfg.body },
+          vars ?? {}
+        );
+
+        const channel = cfg.action === 'action.send_email' ? 'email' : 'sms';
+        step.output = { action: cfg.action, channel };
+
+        if (!rendered.ok) {
+          step.status = 'failed';
+          step.error = rendered.error;
+          continue;
+        }
+        if (!rendered.values.to.trim()) {
+          step.status = 'failed';
+          step.error = 'recipient_empty';
+          continue;
+        }
+
+        result.messages.push({
+          nodeId,
+          channel,
+          at: at.toISOString(),
+          to: rendered.values.to.trim(),
+          subject: channel === 'email' ? rendered.values.subject : null,
+          body: rendered.values.body,
+        });
+      }
+    }
+
+    for (const e of graph.next.get(nodeId) ?? []) {
+      if (branch === null || e.conditionKey === branch) queue.push({ nodeId: e.to, at: nextAt });
+    }
+  }
+
+  return result;
+}
@@ -5,6 +5,8 @@ type JsonPrimitive = string | number | boolean | null;
 export type JsonValue = JsonPrimitive | { [k: string]: JsonValue } | JsonValue[];
 
 type EnqueueArgs = {
+  // Si el caller ya tiene un cliente service-role se reutiliza
+  admin?: SupabaseClient;
   workspaceId: string;
   eventType: string;
   entityId: string;
@@ -26,7 +28,7 @@ function createServiceClient(): SupabaseClient {
 }
 
 export async function enqueueWorkflowEvent(args: EnqueueArgs): Promise<void> {
-  const svc = createServiceClient();
+  const svc = args.admin ?? createServiceClient();
 
   const { error } = await svc.from('workflow_event_queue').insert({
     workspace_id: args.workspaceId,
@@ -37,3 +39,32 @@ export async function enqueueWorkflowEvent(args: EnqueueArgs): Promise<void> {
 
   if (error) throw new Error(`enqueue_workflow_event_failed: ${error.message}`);
 }
+
+export type LeadCreatedSource = {
+  source: string;
+  pageId?: string | null;
+  formId?: string | null;
+};
+
+/**
+ * `lead.created`: se llama solo cuando la fila de leads es nueva (no en updates/re-imports).
+ * Los triggers pueden filtrar por pageIds / formIds (ver dispatchWorkflowEvents).
+ */
+export async function enqueueLeadCreated(
+  args: { admin?: SupabaseClient; workspaceId: string; leadId: string } & LeadCreatedSource
+): Promise<void> {
+  await enqueueWorkflowEvent({
+    admin: args.admin,
+    workspaceId: args.workspaceId,
+    eventType: 'lead.created',
+    entityId: args.leadId,
+    payload: {
+      workspaceId: args.workspaceId,
+      leadId: args.leadId,
+      source: args.source,
+      pageId: args.pageId ?? null,
+      formId: args.formId ?? null,
+      occurredAt: new Date().toISOString(),
+    },
+  });
+}
@@ -0,0 +1,170 @@
+// src/lib/automations/enrollment.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  describeExitGoal,
+  loadWorkflowSettings,
+  type EnrollmentPolicy,
+  type ExitGoal,
+} from '@/lib/automations/workflowSettings';
+import { RUN_EXITED_STATUS, RUN_RUNNING_STATUS, endRun } from '@/lib/automations/runControl';
+
+/**
+ * Política de entrada (¿puede el lead empezar otro run?) y objetivos de salida (¿debe terminar su run?).
+ * Ver workflowSettings para la configuración.
+ */
+
+export type LeadStageFlag = { stageId: string; isWon: boolean; isLost: boolean };
+
+type RunRef = { id: string; workflow_id: string; lead_id: string | null };
+
+const DAY_MS = 86_400_000;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function pickStr(obj: Record<string, unknown>, key: string): string | null {
+  const v = obj[key];
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+/**
+ * false si la política no deja entrar al lead otra vez (cuenta cualquier run previo, acabe como acabe).
+ * `triggerEventId`: el run que ya creó ese mismo evento no cuenta (reintento del evento, startRun lo retoma).
+ */
+export async function canEnroll(
+  admin: SupabaseClient,
+  args: { workflowId: string; leadId: string; policy: EnrollmentPolicy; now?: Date; triggerEventId?: string }
+): Promise<boolean> {
+  if (args.policy.mode === 'always') return true;
+
+  let q = admin.from('workflow_runs').select('id').eq('workflow_id', args.workflowId).eq('lead_id', args.leadId);
+  if (args.triggerEventId) q = q.or(`trigger_event_id.is.null,trigger_event_id.neq.${args.triggerEventId}`);
+  if (args.policy.mode === 'once_per_period') {
+    const since = new Date((args.now ?? new Date()).getTime() - args.policy.periodDays * DAY_MS);
+    q = q.gte('started_at', since.toISOString());
+  }
+
+  const { data, error } = await q.limit(1);
+  if (error) throw new Error(`enrollment_check_failed: ${error.message}`);
+  return (data ?? []).length === 0;
+}
+
+/** Stages actuales de cada lead (uno por pipeline) con sus flags is_won / is_lost. */
+export async function loadLeadStages(admin: SupabaseClient, leadIds: string[]): Promise<Map<string, LeadStageFlag[]>> {
+  const out = new Map<string, LeadStageFlag[]>();
+  if (leadIds.length === 0) return out;
+
+  const { data: states, error } = await admin.from('lead_pipeline_state').select('lead_id, stage_id').in('lead_id', leadIds);
+  if (error) throw new Error(`lead_states_fetch_failed: ${error.message}`);
+
+  const rows = (states ?? []).filter(isRecord);
+  const stageIds = Array.from(new Set(rows.map((r) => pickStr(r, 'stage_id')).filter((x): x is string => Boolean(x))));
+
+  const flags = new Map<string, { isWon: boolean; isLost: boolean }>();
+  if (stageIds.length > 0) {
+    const { data: stages, error: sErr } = await admin.from('pipeline_stages').select('id, is_won, is_lost').in('id', stageIds);
+    if (sErr) throw new Error(`stages_fetch_failed: ${sErr.message}`);
+    for (const s of (stages ?? []).filter(isRecord)) {
+      const id = pickStr(s, 'id');
+      if (id) flags.set(id, { isWon: s.is_won === true, isLost: s.is_lost === true });
+    }
+  }
+
+  for (const r of rows) {
+    const leadId = pickStr(r, 'lead_id');
+    const stageId = pickStr(r, 'stage_id');
+    if (!leadId || !stageId) continue;
+    const f = flags.get(stageId) ?? { isWon: false, isLost: false };
+    const arr = out.get(leadId) ?? [];
+    arr.push({ stageId, ...f });
+    out.set(leadId, arr);
+  }
+
+  return out;
+}
+
+/** Primer objetivo que el lead ya cumple (null si ninguno). */
+export function reachedExitGoal(goals: ExitGoal[], lead: Record<string, unknown>, stages: LeadStageFlag[]): ExitGoal | null {
+  const status = (pickStr(lead, 'status') ?? '').toLowerCase();
+  const labels = Array.isArray(lead.labels) ? lead.labels.filter((l): l is string => typeof l === 'string').map((l) => l.trim().toLowerCase()) : [];
+
+  for (const g of goals) {
+    if (g.kind === 'stage_won' && stages.some((s) => s.isWon)) return g;
+    if (g.kind === 'stage_lost' && stages.some((s) => s.isLost)) return g;
+    if (g.kind === 'stage' && stages.some((s) => s.stageId === g.stageId)) return g;
+    if (g.kind === 'status' && status === g.status.toLowerCase()) return g;
+    if (g.kind === 'label' && labels.includes(g.label.toLowerCase())) return g;
+  }
+  return null;
+}
+
+async function loadLeads(admin: SupabaseClient, leadIds: string[]): Promise<Map<string, Record<string, unknown>>> {
+  const out = new Map<string, Record<string, unknown>>();
+  if (leadIds.length === 0) return out;
+
+  const { data, error } = await admin.from('leads').select('id, status, labels').in('id', leadIds);
+  if (error) throw new Error(`leads_fetch_failed: ${error.message}`);
+
+  for (const l of (data ?? []).filter(isRecord)) {
+    const id = pickStr(l, 'id');
+    if (id) out.set(id, l);
+  }
+  return out;
+}
+
+/**
+ * Termina los runs (de la lista) cuyo lead ya cumple un objetivo de salida de su workflow.
+ * `leads` evita volver a leer leads que el caller ya tiene. Devuelve los ids de los runs terminados.
+ */
+export async function exitRunsOnGoals(
+  admin: SupabaseClient,
+  runs: RunRef[],
+  opts: { leads?: Map<string, Record<string, unknown>> } = {}
+): Promise<Set<string>> {
+  const exited = new Set<string>();
+
+  const settings = await loadWorkflowSettings(admin, runs.map((r) => r.workflow_id));
+  const withGoals = runs.filter((r) => r.lead_id && (settings.get(r.workflow_id)?.exitGoals.length ?? 0) > 0);
+  if (withGoals.length === 0) return exited;
+
+  const leadIds = Array.from(new Set(withGoals.map((r) => r.lead_id as string)));
+  const known = opts.leads ?? new Map<string, Record<string, unknown>>();
+  const missing = leadIds.filter((id) => !known.has(id));
+
+  const [fetched, stages] = await Promise.all([loadLeads(admin, missing), loadLeadStages(admin, leadIds)]);
+
+  for (const r of withGoals) {
+    const leadId = r.lead_id as string;
+    const lead = known.get(leadId) ?? fetched.get(leadId);
+    if (!lead) continue;
+
+    const goal = reachedExitGoal(settings.get(r.workflow_id)?.exitGoals ?? [], lead, stages.get(leadId) ?? []);
+    if (!goal) continue;
+
+    const res = await endRun(admin, { runId: r.id, status: RUN_EXITED_STATUS, reason: `goal:${describeExitGoal(goal)}` });
+    if (res.ended) exited.add(r.id);
+  }
+
+  return exited;
+}
+
+/** Tras un cambio en el lead: revisa sus runs en curso. */
+export async function exitLeadRunsOnGoals(admin: SupabaseClient, args: { workspaceId: string; leadId: string }): Promise<Set<string>> {
+  const { data, error } = await admin
+    .from('workflow_runs')
+    .select('id, workflow_id, lead_id')
+    .eq('workspace_id', args.workspaceId)
+    .eq('lead_id', args.leadId)
+    .eq('status', RUN_RUNNING_STATUS);
+
+  if (error) throw new Error(`runs_fetch_failed: ${error.message}`);
+
+  const runs: RunRef[] = (data ?? []).filter(isRecord).map((r) => ({
+    id: String(r.id),
+    workflow_id: String(r.workflow_id),
+    lead_id: pickStr(r, 'lead_id'),
+  }));
+
+  return runs.length > 0 ? exitRunsOnGoals(admin, runs) : new Set<string>();
+}
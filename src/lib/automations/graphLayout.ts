@@ -0,0 +1,111 @@
+// src/lib/automations/graphLayout.ts
+
+/**
+ * Auto-layout del canvas: columnas de izquierda a derecha por profundidad desde los triggers.
+ * - Cada nodo va en la columna de su camino más largo desde una raíz (ignorando ciclos).
+ * - Dentro de cada columna, los nodos siguen el orden medio de sus padres (menos cruces).
+ * - Las columnas se centran en vertical respecto a la más alta.
+ *
+ * Sin dependencias de servidor: lo usa el editor en el cliente.
+ */
+
+export type LayoutNode = { id: string; type: string };
+export type LayoutEdge = { from: string; to: string };
+export type LayoutPoint = { x: number; y: number };
+
+export type LayoutOptions = {
+  origin: LayoutPoint; // esquina superior izquierda del resultado
+  colGap: number; // distancia entre columnas (ancho de nodo + hueco)
+  rowGap: number; // distancia entre filas
+};
+
+export function layoutLeftToRight(nodes: LayoutNode[], edges: LayoutEdge[], opts: LayoutOptions): Map<string, LayoutPoint> {
+  const ids = new Set(nodes.map((n) => n.id));
+  const out = new Map<string, string[]>();
+  const incoming = new Map<string, number>();
+
+  for (const n of nodes) out.set(n.id, []);
+  for (const e of edges) {
+    if (!ids.has(e.from) || !ids.has(e.to) || e.from === e.to) continue;
+    out.get(e.from)?.push(e.to);
+    incoming.set(e.to, (incoming.get(e.to) ?? 0) + 1);
+  }
+
+  // Raíces: triggers, luego nodos sin entrada, luego el resto (componentes que son solo ciclos)
+  const roots = [
+    ...nodes.filter((n) => n.type === 'trigger'),
+    ...nodes.filter((n) => n.type !== 'trigger' && !incoming.get(n.id)),
+    ...nodes,
+  ].map((n) => n.id);
+
+  // DFS: orden de visita y aristas hacia atrás (cierran un ciclo, no cuentan para la profundidad)
+  const visitOrder = new Map<string, number>();
+  const onStack = new Set<string>();
+  const forward: LayoutEdge[] = [];
+
+  const visit = (id: string) => {
+    visitOrder.set(id, visitOrder.size);
+    onStack.add(id);
+    for (const to of out.get(id) ?? []) {
+      if (onStack.has(to)) continue;
+      forward.push({ from: id, to });
+      if (!visitOrder.has(to)) visit(to);
+    }
+    onStack.delete(id);
+  };
+
+  for (const id of roots) if (!visitOrder.has(id)) visit(id);
+
+  // Camino más largo sobre el DAG resultante (orden topológico de Kahn)
+  const indeg = new Map<string, number>(nodes.map((n) => [n.id, 0]));
+  for (const e of forward) indeg.set(e.to, (indeg.get(e.to) ?? 0) + 1);
+
+  const layer = new Map<string, number>(nodes.map((n) => [n.id, 0]));
+  const queue = nodes.map((n) => n.id).filter((id) => indeg.get(id) === 0);
+  const parents = new Map<string, string[]>();
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    for (const e of forward) {
+      if (e.from !== id) continue;
+      layer.set(e.to, Math.max(layer.get(e.to) ?? 0, (layer.get(id) ?? 0) + 1));
+      parents.set(e.to, [...(parents.get(e.to) ?? []), id]);
+      const left = (indeg.get(e.to) ?? 0) - 1;
+      indeg.set(e.to, left);
+      if (left === 0) queue.push(e.to);
+    }
+  }
+
+  const columns: string[][] = [];
+  for (const n of nodes) {
+    const l = layer.get(n.id) ?? 0;
+    (columns[l] ??= []).push(n.id);
+  }
+
+  // Orden dentro de la columna: baricentro de los padres; sin padres, orden de visita
+  const row = new Map<string, number>();
+  for (const col of columns) {
+    if (!col) continue;
+    const key = (id: string) => {
+      const ps = (parents.get(id) ?? []).filter((p) => row.has(p));
+      if (ps.length === 0) return visitOrder.get(id) ?? 0;
+      return ps.reduce((acc, p) => acc + (row.get(p) ?? 0), 0) / ps.length;
+    };
+    const keys = new Map(col.map((id) => [id, key(id)]));
+    col.sort((a, b) => (keys.get(a) ?? 0) - (keys.get(b) ?? 0) || (visitOrder.get(a) ?? 0) - (visitOrder.get(b) ?? 0));
+    col.forEach((id, i) => row.set(id, i));
+  }
+
+  const tallest = Math.max(0, ...columns.map((c) => c?.length ?? 0));
+  const result = new Map<string, LayoutPoint>();
+
+  columns.forEach((col, l) => {
+    if (!col) return;
+    const offset = ((tallest - col.length) * opts.rowGap) / 2;
+    col.forEach((id, i) => {
+      result.set(id, { x: opts.origin.x + l * opts.colGap, y: opts.origin.y + offset + i * opts.rowGap });
+    });
+  });
+
+  return result;
+}
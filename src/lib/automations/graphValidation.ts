@@ -0,0 +1,230 @@
+// src/lib/automations/graphValidation.ts
+import type { WorkflowGraph } from '@/lib/automations/workflowVersions';
+import { parseWaitConfig } from '@/lib/automations/waitNode';
+import { conditionBranchKeys, parseConditionConfig } from '@/lib/automations/conditionNode';
+import { parseActionConfig } from '@/lib/automations/actionNode';
+import { isLeadStatus, isSettableLeadField } from '@/lib/automations/leadMutationActions';
+import { STAGE_IDLE_EVENT, parseStageIdleConfig } from '@/lib/automations/stageIdleTrigger';
+
+/**
+ * Validación del grafo de un workflow (borrador).
+ * - error: el workflow no puede activarse/publicarse
+ * - warning: se puede publicar, pero probablemente no hace lo que se espera
+ *
+ * Los issues sin nodeId/edgeId son del grafo completo (p.ej. "no hay trigger").
+ */
+
+export type GraphIssueLevel = 'error' | 'warning';
+
+export type GraphIssue = {
+  level: GraphIssueLevel;
+  code: string;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
+};
+
+export type GraphValidation = {
+  ok: boolean; // sin errores (puede haber warnings)
+  errors: GraphIssue[];
+  warnings: GraphIssue[];
+};
+
+const NODE_TYPES = new Set(['trigger', 'action', 'wait', 'condition']);
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function blank(v: unknown): boolean {
+  return typeof v !== 'string' || v.trim().length === 0;
+}
+
+function validateNodeConfig(type: string, config: unknown, push: (level: GraphIssueLevel, code: string, message: string) => void) {
+  const c = isRecord(config) ? config : {};
+
+  if (type === 'trigger') {
+    if (c.event === STAGE_IDLE_EVENT && !parseStageIdleConfig(config)) {
+      push('error', 'stage_idle_invalid', 'Falta el stage o el tiempo de inactividad no es mayor que 0');
+    }
+    return;
+  }
+
+  if (type === 'action') {
+    const a = parseActionConfig(config);
+    if (!a) {
+      push('error', 'action_unknown', `Acción desconocida: ${typeof c.action === 'string' && c.action ? c.action : '(vacía)'}`);
+      return;
+    }
+    if ((a.action === 'lead.add_label' || a.action === 'lead.remove_label') && blank(a.label)) push('error', 'action_label_empty', 'La etiqueta está vacía');
+    if (a.action === 'lead.set_status' && !isLeadStatus(a.status.trim())) push('error', 'action_status_invalid', 'Status no válido');
+    if (a.action === 'lead.move_stage' && blank(a.stageId)) push('error', 'action_stage_missing', 'Falta el stage destino');
+    if (a.action === 'lead.set_field' && !isSettableLeadField(a.field.trim())) {
+      push('error', 'action_field_invalid', blank(a.field) ? 'Falta el campo' : `El campo "${a.field.trim()}" no se puede modificar`);
+    }
+    if (a.action === 'lead.add_note' && blank(a.note)) push('error', 'action_note_empty', 'La nota está vacía');
+    if (a.action === 'action.send_email' || a.action === 'action.send_sms') {
+      if (blank(a.to)) push('error', 'action_to_empty', 'Falta el destinatario');
+      if (blank(a.body)) push(a.action === 'action.send_sms' ? 'error' : 'warning', 'action_body_empty', 'El mensaje está vacío');
+    }
+    if (a.action === 'action.send_email' && blank(a.subject)) push('warning', 'action_subject_empty', 'El asunto está vacío');
+    if (a.action === 'action.notify_team' && blank(a.title) && blank(a.message)) push('error', 'notify_empty', 'La notificación no tiene título ni mensaje');
+    if (a.action === 'action.create_task') {
+      if (blank(a.assigneeId)) push('error', 'task_assignee_missing', 'Falta el miembro asignado');
+      if (blank(a.title)) push('error', 'task_title_empty', 'La tarea no tiene título');
+    }
+    if (a.action === 'action.http_request') {
+      if (blank(a.url)) push('error', 'http_url_empty', 'Falta la URL');
+      else if (!a.url.includes('{{') && !/^https?:\/\//i.test(a.url.trim())) push('error', 'http_url_invalid', 'La URL debe empezar por http:// o https://');
+      if (a.headers.some((h) => !h.key.trim() && h.value.trim())) push('warning', 'http_header_no_name', 'Hay una cabecera sin nombre: se ignora');
+      if (a.method === 'GET' && !blank(a.body)) push('warning', 'http_get_body', 'Las peticiones GET no envían cuerpo');
+      // Con plantillas solo se puede comprobar tras el render (runner / dry-run)
+      if (!blank(a.body) && !a.body.includes('{{')) {
+        try {
+          JSON.parse(a.body);
+        } catch {
+          push('error', 'http_body_invalid_json', 'El cuerpo no es JSON válido');
+        }
+      }
+    }
+    return;
+  }
+
+  if (type === 'wait') {
+    const w = parseWaitConfig(config);
+    if (w.mode === 'duration' && w.amount <= 0) push('warning', 'wait_zero', 'La espera es de 0: no retrasa nada');
+    if (w.mode === 'until_field' && !w.field) push('error', 'wait_field_missing', 'Falta el campo de fecha del lead');
+    return;
+  }
+
+  if (type === 'condition') {
+    const cc = parseConditionConfig(config);
+    if (cc.mode === 'if' && cc.rules.length === 0) push('error', 'condition_no_rules', 'La condición no tiene reglas');
+    if (cc.mode === 'switch' && !cc.field) push('error', 'condition_no_field', 'Falta el campo del switch');
+    if (cc.mode === 'switch' && cc.cases.length === 0) push('warning', 'condition_no_cases', 'El switch solo tiene la rama por defecto');
+  }
+}
+
+export function validateGraph(graph: WorkflowGraph): GraphValidation {
+  const issues: GraphIssue[] = [];
+  const push = (issue: GraphIssue) => issues.push(issue);
+
+  const nodeById = new Map<string, WorkflowGraph['nodes'][number]>();
+  for (const n of graph.nodes) {
+    if (nodeById.has(n.id)) {
+      push({ level: 'error', code: 'node_duplicate_id', message: 'ID de nodo duplicado', nodeId: n.id });
+      continue;
+    }
+    nodeById.set(n.id, n);
+  }
+
+  // Triggers: exactamente uno
+  const triggers = graph.nodes.filter((n) => n.type === 'trigger');
+  if (triggers.length === 0) push({ level: 'error', code: 'no_trigger', message: 'El workflow no tiene trigger' });
+  if (triggers.length > 1) {
+    for (const t of triggers) push({ level: 'error', code: 'multiple_triggers', message: 'Solo puede haber un trigger', nodeId: t.id });
+  }
+
+  // Nodos
+  for (const n of nodeById.values()) {
+    if (!NODE_TYPES.has(n.type)) {
+      push({ level: 'error', code: 'node_unknown_type', message: `Tipo de nodo desconocido: ${n.type}`, nodeId: n.id });
+      continue;
+    }
+    if (!n.name.trim()) push({ level: 'warning', code: 'node_unnamed', message: 'El nodo no tiene nombre', nodeId: n.id });
+    validateNodeConfig(n.type, n.config, (level, code, message) => push({ level, code, message, nodeId: n.id }));
+  }
+
+  // Edges
+  const out = new Map<string, string[]>();
+  const seen = new Set<string>();
+
+  for (const e of graph.edges) {
+    const from = nodeById.get(e.from_node_id);
+    const to = nodeById.get(e.to_node_id);
+
+    if (!from || !to) {
+      push({ level: 'error', code: 'edge_unknown_node', message: 'La conexión apunta a un nodo que no existe', edgeId: e.id });
+      continue;
+    }
+    if (e.from_node_id === e.to_node_id) {
+      push({ level: 'error', code: 'edge_self_loop', message: 'Un nodo no puede conectarse consigo mismo', edgeId: e.id, nodeId: from.id });
+      continue;
+    }
+    if (to.type === 'trigger') {
+      push({ level: 'error', code: 'edge_into_trigger', message: 'Un trigger no puede tener conexiones de entrada', edgeId: e.id, nodeId: to.id });
+    }
+
+    const sig = `${e.from_node_id}>${e.to_node_id}#${e.condition_key ?? ''}`;
+    if (seen.has(sig)) push({ level: 'warning', code: 'edge_duplicate', message: 'Conexión duplicada', edgeId: e.id });
+    seen.add(sig);
+
+    if (from.type === 'condition') {
+      const keys = conditionBranchKeys(parseConditionConfig(from.config));
+      if (!e.condition_key) {
+        push({ level: 'warning', code: 'edge_no_branch', message: 'Conexión sin rama: nunca se sigue', edgeId: e.id, nodeId: from.id });
+      } else if (!keys.includes(e.condition_key)) {
+        push({ level: 'error', code: 'edge_unknown_branch', message: `La rama "${e.condition_key}" no existe en la condición`, edgeId: e.id, nodeId: from.id });
+      }
+    }
+
+    const arr = out.get(e.from_node_id) ?? [];
+    arr.push(e.to_node_id);
+    out.set(e.from_node_id, arr);
+  }
+
+  // Ramas de condición sin conectar
+  for (const n of nodeById.values()) {
+    if (n.type !== 'condition') continue;
+    const used = new Set(graph.edges.filter((e) => e.from_node_id === n.id).map((e) => e.condition_key));
+    const free = conditionBranchKeys(parseConditionConfig(n.config)).filter((k) => !used.has(k));
+    if (free.length > 0) {
+      push({ level: 'warning', code: 'condition_branch_unconnected', message: `Ramas sin conectar: ${free.join(', ')}`, nodeId: n.id });
+    }
+  }
+
+  // Ciclos (DFS con colores): cada nodo en un ciclo se marca una vez
+  const color = new Map<string, 0 | 1 | 2>();
+  const inCycle = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    color.set(id, 1);
+    stack.push(id);
+    for (const nxt of out.get(id) ?? []) {
+      const c = color.get(nxt) ?? 0;
+      if (c === 0) visit(nxt);
+      else if (c === 1) {
+        for (let i = stack.lastIndexOf(nxt); i < stack.length; i += 1) inCycle.add(stack[i]);
+      }
+    }
+    stack.pop();
+    color.set(id, 2);
+  };
+  for (const id of nodeById.keys()) if ((color.get(id) ?? 0) === 0) visit(id);
+
+  for (const id of inCycle) push({ level: 'error', code: 'cycle', message: 'El nodo forma parte de un ciclo', nodeId: id });
+
+  // Alcanzabilidad desde el/los trigger(s)
+  if (triggers.length > 0) {
+    const reached = new Set<string>();
+    const queue = triggers.map((t) => t.id);
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      if (reached.has(id)) continue;
+      reached.add(id);
+      queue.push(...(out.get(id) ?? []));
+    }
+
+    for (const n of nodeById.values()) {
+      if (!reached.has(n.id)) push({ level: 'warning', code: 'node_unreachable', message: 'Ningún camino desde el trigger llega a este nodo', nodeId: n.id });
+    }
+    for (const t of triggers) {
+      if ((out.get(t.id) ?? []).length === 0) push({ level: 'warning', code: 'trigger_no_next', message: 'El trigger no está conectado a nada', nodeId: t.id });
+    }
+  }
+
+  const errors = issues.filter((i) => i.level === 'error');
+  const warnings = issues.filter((i) => i.level === 'warning');
+  return { ok: errors.length === 0, errors, warnings };
+}
@@ -0,0 +1,257 @@
+// src/lib/automations/httpRequestAction.ts
+import { lookup } from 'node:dns/promises';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import type { ActionConfig, HttpMethod } from '@/lib/automations/actionNode';
+import type { DeliveryErrorKind } from '@/lib/automations/deliveryProvider';
+import { renderTemplateFields, type TemplateVars } from '@/lib/automations/templateEngine';
+import { SIGNATURE_HEADER, signWebhookBody } from '@/lib/automations/webhookSigning';
+
+/**
+ * action.http_request: render de la petición (plantillas) y envío.
+ *
+ * Clasificación de fallos (para retryPolicy):
+ * - transient: red, timeout, 408, 429 y 5xx
+ * - permanent: resto de 4xx, URL/JSON inválidos, falta el secreto de firma, destino bloqueado
+ *
+ * SSRF: antes de enviar se resuelve el host y se rechaza (blocked_destination) si alguna dirección es
+ * loopback, privada (RFC1918, CGNAT, ULA), link-local (incluye metadata 169.254.169.254) o no unicast.
+ * La conexión va a la IP ya comprobada (sin segunda resolución: nada de DNS rebinding) y las
+ * redirecciones se siguen a mano (máx. MAX_REDIRECTS), comprobando cada salto igual.
+ */
+
+type HttpRequestConfig = Extract<ActionConfig, { action: 'action.http_request' }>;
+
+export type PreparedHttpRequest = { method: HttpMethod; url: string; headers: Record<string, string>; body: string | null };
+
+export type HttpRequestResult =
+  | { ok: true; status: number; bodySnippet: string; durationMs: number }
+  | { ok: false; kind: DeliveryErrorKind; error: string; status: number | null; bodySnippet: string | null; durationMs: number };
+
+const TIMEOUT_MS = 10_000;
+const SNIPPET_CHARS = 1000;
+const MAX_BODY_BYTES = 64 * 1024; // de la respuesta solo se guarda un fragmento
+const MAX_REDIRECTS = 3;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+type Destination = { address: string; family: 4 | 6 };
+type RawResponse = { status: number; location: string | null; text: string };
+
+function isHttpUrl(v: string): boolean {
+  try {
+    const u = new URL(v);
+    return u.protocol === 'https:' || u.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+export function prepareHttpRequest(
+  cfg: HttpRequestConfig,
+  vars: TemplateVars
+): { ok: true; request: PreparedHttpRequest } | { ok: false; error: string } {
+  const headers = cfg.headers.filter((h) => h.key.trim());
+
+  const fields: Record<string, string> = { url: cfg.url, body: cfg.body };
+  headers.forEach((h, i) => {
+    fields[`header:${i}`] = h.value;
+  });
+
+  const rendered = renderTemplateFields(fields, vars);
+  if (!rendered.ok) return { ok: false, error: rendered.error };
+
+  const url = rendered.values.url.trim();
+  if (!isHttpUrl(url)) return { ok: false, error: 'invalid_url' };
+
+  const out: Record<string, string> = {};
+  headers.forEach((h, i) => {
+    out[h.key.trim()] = rendered.values[`header:${i}`];
+  });
+
+  let body: string | null = rendered.values.body.trim() || null;
+  if (body !== null) {
+    try {
+      JSON.parse(body);
+    } catch {
+      return { ok: false, error: 'invalid_json_body' };
+    }
+    if (!Object.keys(out).some((k) => k.toLowerCase() === 'content-type')) out['Content-Type'] = 'application/json';
+  }
+  if (cfg.method === 'GET') body = null;
+
+  return { ok: true, request: { method: cfg.method, url, headers: out, body } };
+}
+
+function parseIpv4(ip: string): number[] | null {
+  const parts = ip.split('.').map(Number);
+  return parts.length === 4 && parts.every((n) => Number.isInteger(n) && n >= 0 && n <= 255) ? parts : null;
+}
+
+/** 8 grupos de 16 bits; admite "::" y la forma con IPv4 al final (::ffff:1.2.3.4). */
+function parseIpv6(ip: string): number[] | null {
+  let v = ip.toLowerCase().split('%')[0];
+  const tail = v.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const v4 = parseIpv4(tail[1]);
+    if (!v4) return null;
+    v = `${v.slice(0, -tail[1].length)}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const [head, rest, ...extra] = v.split('::');
+  if (extra.length > 0) return null;
+  const a = head ? head.split(':') : [];
+  const b = rest !== undefined && rest ? rest.split(':') : [];
+  const fill = rest !== undefined ? 8 - a.length - b.length : 0;
+  if (fill < 0 || (rest === undefined && a.length !== 8)) return null;
+
+  const groups = [...a, ...Array<string>(fill).fill('0'), ...b].map((g) => (/^[0-9a-f]{1,4}$/.test(g) ? parseInt(g, 16) : NaN));
+  return groups.every((g) => !Number.isNaN(g)) ? groups : null;
+}
+
+function isBlockedIpv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "esta" red
+    a === 10 || // RFC1918
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // CGNAT
+    (a === 169 && b === 254) || // link-local / metadata
+    (a === 172 && b >= 16 && b <= 31) || // RFC1918
+    (a === 192 && b === 168) || // RFC1918
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast, reservado, broadcast
+  );
+}
+
+function isBlockedAddress(ip: string): boolean {
+  const v4 = parseIpv4(ip);
+  if (v4) return isBlockedIpv4(v4);
+
+  const g = parseIpv6(ip);
+  if (!g) return true;
+
+  // IPv4 embebida: mapeada (::ffff:0:0/96), compatible (::/96) y NAT64 (64:ff9b::/96)
+  const embedded = [(g[6] >> 8) & 255, g[6] & 255, (g[7] >> 8) & 255, g[7] & 255];
+  const prefixZero = g.slice(0, 5).every((x) => x === 0);
+  if (prefixZero && (g[5] === 0xffff || g[5] === 0)) return g[5] === 0 && g[6] === 0 ? true : isBlockedIpv4(embedded);
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((x) => x === 0)) return isBlockedIpv4(embedded);
+
+  return (
+    (g[0] & 0xfe00) === 0xfc00 || // ULA (incluye fd00:ec2::254)
+    (g[0] & 0xffc0) === 0xfe80 || // link-local
+    (g[0] & 0xff00) === 0xff00 // multicast
+  );
+}
+
+/** Dirección a la que conectar si todas las del host son públicas; si no, el error a devolver. */
+async function checkDestination(url: URL): Promise<{ ok: true; dest: Destination } | { ok: false; kind: DeliveryErrorKind; error: string }> {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: Destination[];
+  if (isIP(host)) {
+    addresses = [{ address: host, family: isIP(host) === 6 ? 6 : 4 }];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((a) => ({ address: a.address, family: a.family === 6 ? 6 : 4 }));
+    } catch (e) {
+      return { ok: false, kind: 'transient', error: `dns_error: ${e instanceof Error ? e.message : 'unknown_error'}` };
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some((a) => isBlockedAddress(a.address))) {
+    return { ok: false, kind: 'permanent', error: 'blocked_destination' };
+  }
+  return { ok: true, dest: addresses[0] };
+}
+
+/** Petición conectando a `dest` (el TLS sigue validando el certificado contra el hostname de la URL). */
+function requestPinned(
+  url: URL,
+  dest: Destination,
+  init: { method: HttpMethod; headers: Record<string, string>; body: string | null; signal: AbortSignal }
+): Promise<RawResponse> {
+  const pinned: LookupFunction = (_host, opts, cb) => {
+    if (opts.all) cb(null, [dest]);
+    else cb(null, dest.address, dest.family);
+  };
+
+  const headers = { ...init.headers };
+  if (init.body !== null) headers['Content-Length'] = String(Buffer.byteLength(init.body));
+
+  return new Promise((resolve, reject) => {
+    const req = (url.protocol === 'https:' ? https : http).request(
+      url,
+      { method: init.method, headers, lookup: pinned, signal: init.signal },
+      (res) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on('data', (c: Buffer) => {
+          if (size >= MAX_BODY_BYTES) return;
+          chunks.push(c);
+          size += c.length;
+        });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, location: res.headers.location ?? null, text: Buffer.concat(chunks).toString('utf8') }));
+        res.on('error', reject);
+      }
+    );
+    req.on('error', reject);
+    req.end(init.body ?? undefined);
+  });
+}
+
+function classifyStatus(status: number): DeliveryErrorKind {
+  return status === 408 || status === 429 || status >= 500 ? 'transient' : 'permanent';
+}
+
+/** `secret` solo si la acción firma; la firma cubre el cuerpo exacto que se envía. */
+export async function sendHttpRequest(req: PreparedHttpRequest, secret: string | null): Promise<HttpRequestResult> {
+  const signed = { ...req.headers };
+  if (secret) signed[SIGNATURE_HEADER] = signWebhookBody(secret, Math.floor(Date.now() / 1000), req.body ?? '');
+
+  const started = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+  let url = new URL(req.url);
+  let method = req.method;
+  let body = req.body;
+  let headers = signed;
+
+  try {
+    for (let hop = 0; ; hop += 1) {
+      const checked = await checkDestination(url);
+      if (!checked.ok) return { ok: false, kind: checked.kind, error: checked.error, status: null, bodySnippet: null, durationMs: Date.now() - started };
+
+      const res = await requestPinned(url, checked.dest, { method, headers, body, signal: controller.signal });
+      const bodySnippet = res.text.slice(0, SNIPPET_CHARS);
+      const durationMs = Date.now() - started;
+
+      if (REDIRECT_STATUSES.has(res.status) && res.location) {
+        const next = URL.canParse(res.location, url) ? new URL(res.location, url) : null;
+        if (!next || !isHttpUrl(next.href)) return { ok: false, kind: 'permanent', error: 'invalid_redirect', status: res.status, bodySnippet, durationMs };
+        if (hop >= MAX_REDIRECTS) return { ok: false, kind: 'permanent', error: 'too_many_redirects', status: res.status, bodySnippet, durationMs };
+
+        // 303 (y 301/302 tras un no-GET, como los navegadores) pasan a GET sin cuerpo
+        if (res.status === 303 || ((res.status === 301 || res.status === 302) && method !== 'GET')) {
+          method = 'GET';
+          body = null;
+          headers = Object.fromEntries(Object.entries(headers).filter(([k]) => k.toLowerCase() !== 'content-type'));
+        }
+        // Cabeceras propias y firma no viajan a otro origen
+        if (next.origin !== url.origin) headers = {};
+
+        url = next;
+        continue;
+      }
+
+      if (res.status >= 200 && res.status < 300) return { ok: true, status: res.status, bodySnippet, durationMs };
+      return { ok: false, kind: classifyStatus(res.status), error: `http_${res.status}`, status: res.status, bodySnippet, durationMs };
+    }
+  } catch (e) {
+    const aborted = e instanceof Error && e.name === 'AbortError';
+    const error = aborted ? 'timeout' : `network_error: ${e instanceof Error ? e.message : 'unknown_error'}`;
+    return { ok: false, kind: 'transient', error, status: null, bodySnippet: null, durationMs: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,134 @@
+// src/lib/automations/internalJobAuth.ts
+import crypto from 'crypto';
+import { supabaseServiceRole } from '@/lib/supabase/serviceRole';
+
+/**
+ * Autenticación de los endpoints internos de jobs (ticks, process-queue, crons, triggers internos).
+ *
+ * Petición firmada (crons que reenvían, scripts, otros servicios):
+ *   X-Kalue-Job-Timestamp: <unix seconds>
+ *   X-Kalue-Job-Nonce: <aleatorio, único por petición>
+ *   X-Kalue-Job-Signature: v1=<hex HMAC-SHA256(secret, `${t}.${nonce}.${METHOD}.${path+query}.${body}`)>
+ * Se rechaza si el timestamp se desvía más de MAX_SKEW_SECONDS o si el nonce ya se usó (replay).
+ *
+ * Cron de Vercel: no puede firmar; manda `Authorization: Bearer ${CRON_SECRET}`. Solo lo aceptan
+ * los endpoints de cron (allowVercelCron).
+ *
+ * Secretos: KALUE_INTERNAL_JOB_SECRET (firma) y CRON_SECRET (Vercel).
+ * Tabla internal_job_nonces (nonce text pk, expires_at timestamptz) en supabase/migrations/20261019000300_workflow_automation_schema.sql
+ */
+
+export const JOB_TIMESTAMP_HEADER = 'X-Kalue-Job-Timestamp';
+export const JOB_NONCE_HEADER = 'X-Kalue-Job-Nonce';
+export const JOB_SIGNATURE_HEADER = 'X-Kalue-Job-Signature';
+
+const MAX_SKEW_SECONDS = 300;
+const NONCE_PURGE_EVERY_MS = 60_000;
+
+export type InternalJobAuth =
+  | { ok: true; via: 'signature' | 'vercel_cron'; body: string }
+  | { ok: false; status: 401 | 500; error: string };
+
+let lastNoncePurge = 0;
+
+function getEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env: ${name}`);
+  return v;
+}
+
+function safeEq(a: string, b: string): boolean {
+  const x = Buffer.from(a, 'utf8');
+  const y = Buffer.from(b, 'utf8');
+  return x.length === y.length && crypto.timingSafeEqual(x, y);
+}
+
+function pathOf(url: string): string {
+  const u = new URL(url);
+  return `${u.pathname}${u.search}`;
+}
+
+function computeSignature(secret: string, args: { timestamp: number; nonce: string; method: string; path: string; body: string }): string {
+  const base = `${args.timestamp}.${args.nonce}.${args.method.toUpperCase()}.${args.path}.${args.body}`;
+  return `v1=${crypto.createHmac('sha256', secret).update(base, 'utf8').digest('hex')}`;
+}
+
+/** Cabeceras de firma para una petición a un endpoint interno. */
+export function signInternalJob(args: { method: string; url: string; body: string; now?: Date }): Record<string, string> {
+  const timestamp = Math.floor((args.now ?? new Date()).getTime() / 1000);
+  const nonce = crypto.randomUUID();
+  const signature = computeSignature(getEnv('KALUE_INTERNAL_JOB_SECRET'), {
+    timestamp,
+    nonce,
+    method: args.method,
+    path: pathOf(args.url),
+    body: args.body,
+  });
+
+  return { [JOB_TIMESTAMP_HEADER]: String(timestamp), [JOB_NONCE_HEADER]: nonce, [JOB_SIGNATURE_HEADER]: signature };
+}
+
+/** POST firmado a otro endpoint interno (los crons reenvían así a process-queue). */
+export function postInternalJob(url: string, payload: Record<string, unknown> = {}): Promise<Response> {
+  const body = JSON.stringify(payload);
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...signInternalJob({ method: 'POST', url, body }) },
+    body,
+  });
+}
+
+/** Registra el nonce; false si ya existía. Aprovecha para borrar los caducados de vez en cuando. */
+async function consumeNonce(nonce: string, now: number): Promise<boolean> {
+  const admin = supabaseServiceRole();
+
+  if (now - lastNoncePurge > NONCE_PURGE_EVERY_MS) {
+    lastNoncePurge = now;
+    await admin.from('internal_job_nonces').delete().lt('expires_at', new Date(now).toISOString());
+  }
+
+  // Pasado 2×skew el timestamp ya no es válido: el nonce puede olvidarse
+  const { error } = await admin
+    .from('internal_job_nonces')
+    .insert({ nonce, expires_at: new Date(now + 2 * MAX_SKEW_SECONDS * 1000).toISOString() });
+
+  if (!error) return true;
+  if (error.code === '23505') return false;
+  throw new Error(`nonce_store_failed: ${error.message}`);
+}
+
+/**
+ * Valida la petición y devuelve el cuerpo crudo (ya consumido: parsear desde `body`).
+ * Falla cerrado: sin secreto configurado o sin almacén de nonces, 500.
+ */
+export async function verifyInternalJob(req: Request, opts: { allowVercelCron?: boolean } = {}): Promise<InternalJobAuth> {
+  try {
+    if (opts.allowVercelCron) {
+      const cronSecret = process.env.CRON_SECRET ?? '';
+      const bearer = (req.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, '').trim();
+      if (cronSecret && bearer && safeEq(bearer, cronSecret)) return { ok: true, via: 'vercel_cron', body: await req.text() };
+    }
+
+    const secret = getEnv('KALUE_INTERNAL_JOB_SECRET');
+    const timestamp = Number(req.headers.get(JOB_TIMESTAMP_HEADER) ?? '');
+    const nonce = (req.headers.get(JOB_NONCE_HEADER) ?? '').trim();
+    const signature = (req.headers.get(JOB_SIGNATURE_HEADER) ?? '').trim();
+
+    if (!Number.isInteger(timestamp) || !nonce || nonce.length > 200 || !signature) {
+      return { ok: false, status: 401, error: 'unauthorized' };
+    }
+
+    const now = Date.now();
+    if (Math.abs(now / 1000 - timestamp) > MAX_SKEW_SECONDS) return { ok: false, status: 401, error: 'stale_timestamp' };
+
+    const body = await req.text();
+    const expected = computeSignature(secret, { timestamp, nonce, method: req.method, path: pathOf(req.url), body });
+    if (!safeEq(signature, expected)) return { ok: false, status: 401, error: 'unauthorized' };
+
+    if (!(await consumeNonce(nonce, now))) return { ok: false, status: 401, error: 'replayed_request' };
+
+    return { ok: true, via: 'signature', body };
+  } catch (e: unknown) {
+    return { ok: false, status: 500, error: e instanceof Error ? e.message : 'server_error' };
+  }
+}
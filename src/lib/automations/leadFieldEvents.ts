@@ -0,0 +1,94 @@
+// src/lib/automations/leadFieldEvents.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { enqueueWorkflowEvent, type JsonValue } from '@/lib/automations/enqueueWorkflowEvent';
+
+/**
+ * Eventos de cambios en campos del lead (edición manual, acciones…), con valores antes/después:
+ * - lead.status_changed: { fromStatus, toStatus }
+ * - lead.label_added / lead.label_removed: una por etiqueta, { label, labels } (labels = lista final)
+ * - lead.field_updated: uno por campo cambiado, { field, before, after } (incluye status y labels)
+ *
+ * Ninguno tiene pipeline: los bindings de pipeline no aplican (ver dispatchWorkflowEvents).
+ */
+
+export const LEAD_STATUS_CHANGED = 'lead.status_changed';
+export const LEAD_LABEL_ADDED = 'lead.label_added';
+export const LEAD_LABEL_REMOVED = 'lead.label_removed';
+export const LEAD_FIELD_UPDATED = 'lead.field_updated';
+
+// Campos editables del lead que generan lead.field_updated
+export const TRACKED_LEAD_FIELDS = ['full_name', 'phone', 'email', 'profession', 'biggest_pain', 'status', 'notes', 'labels'] as const;
+
+export type LeadFieldEvent = { eventType: string; payload: Record<string, JsonValue> };
+
+function toJson(v: unknown): JsonValue {
+  if (v === undefined || v === null) return null;
+  if (typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean') return v;
+  return JSON.parse(JSON.stringify(v)) as JsonValue;
+}
+
+function strOrNull(v: unknown): string | null {
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+function labelList(v: unknown): string[] {
+  if (!Array.isArray(v)) return [];
+  return v.filter((x): x is string => typeof x === 'string').map((x) => x.trim()).filter(Boolean);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(toJson(a)) === JSON.stringify(toJson(b));
+}
+
+/** Eventos que produce pasar de `before` a `after` (filas de leads). Sin cambios = lista vacía. */
+export function diffLeadFields(before: Record<string, unknown>, after: Record<string, unknown>): LeadFieldEvent[] {
+  const out: LeadFieldEvent[] = [];
+
+  const fromStatus = strOrNull(before.status);
+  const toStatus = strOrNull(after.status);
+  if (fromStatus !== toStatus) out.push({ eventType: LEAD_STATUS_CHANGED, payload: { fromStatus, toStatus } });
+
+  const prevLabels = labelList(before.labels);
+  const nextLabels = labelList(after.labels);
+  const prevSet = new Set(prevLabels.map((l) => l.toLowerCase()));
+  const nextSet = new Set(nextLabels.map((l) => l.toLowerCase()));
+
+  for (const label of nextLabels) {
+    if (!prevSet.has(label.toLowerCase())) out.push({ eventType: LEAD_LABEL_ADDED, payload: { label, labels: nextLabels } });
+  }
+  for (const label of prevLabels) {
+    if (!nextSet.has(label.toLowerCase())) out.push({ eventType: LEAD_LABEL_REMOVED, payload: { label, labels: nextLabels } });
+  }
+
+  for (const field of TRACKED_LEAD_FIELDS) {
+    if (!(field in after) || sameValue(before[field], after[field])) continue;
+    out.push({ eventType: LEAD_FIELD_UPDATED, payload: { field, before: toJson(before[field]), after: toJson(after[field]) } });
+  }
+
+  return out;
+}
+
+/** Encola los eventos de diffLeadFields. `source` queda en el payload (p.ej. 'manual'). */
+export async function enqueueLeadFieldEvents(args: {
+  admin?: SupabaseClient;
+  workspaceId: string;
+  leadId: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  source: string;
+}): Promise<number> {
+  const events = diffLeadFields(args.before, args.after);
+  const occurredAt = new Date().toISOString();
+
+  for (const ev of events) {
+    await enqueueWorkflowEvent({
+      admin: args.admin,
+      workspaceId: args.workspaceId,
+      eventType: ev.eventType,
+      entityId: args.leadId,
+      payload: { workspaceId: args.workspaceId, leadId: args.leadId, ...ev.payload, source: args.source, occurredAt },
+    });
+  }
+
+  return events.length;
+}
@@ -0,0 +1,257 @@
+// src/lib/automations/leadMutationActions.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActionConfig } from '@/lib/automations/actionNode';
+import type { FailureKind } from '@/lib/automations/retryPolicy';
+import { renderTemplateFields, type TemplateVars } from '@/lib/automations/templateEngine';
+import { enqueueWorkflowEvent } from '@/lib/automations/enqueueWorkflowEvent';
+import { enqueueLeadFieldEvents } from '@/lib/automations/leadFieldEvents';
+import { LEAD_STATUSES } from '@/lib/leadhub/leadConstants';
+
+/**
+ * Acciones que modifican el lead: etiquetas, status, stage, campo libre y notas.
+ *
+ * planLeadPatch calcula el cambio sin tocar nada (también lo usa el dry-run) y applyLeadMutation lo aplica.
+ * El output del step guarda el antes/después; `applied: false` si el lead ya estaba así.
+ *
+ * Los cambios encolan los mismos eventos que una edición manual (leadFieldEvents, lead.stage_changed)
+ * con source 'workflow'.
+ */
+
+export type LeadMutationConfig = Extract<
+  ActionConfig,
+  { action: 'lead.add_label' | 'lead.remove_label' | 'lead.set_status' | 'lead.move_stage' | 'lead.set_field' | 'lead.add_note' }
+>;
+
+type LeadPatchConfig = Exclude<LeadMutationConfig, { action: 'lead.move_stage' }>;
+
+export type LeadPatchPlan =
+  | { ok: true; patch: Record<string, unknown> | null; output: Record<string, unknown> }
+  | { ok: false; error: string };
+
+export type LeadMutationResult =
+  | { ok: true; output: Record<string, unknown>; lead: Record<string, unknown> }
+  | { ok: false; kind: FailureKind; error: string };
+
+const LEAD_MUTATION_ACTIONS: readonly string[] = [
+  'lead.add_label',
+  'lead.remove_label',
+  'lead.set_status',
+  'lead.move_stage',
+  'lead.set_field',
+  'lead.add_note',
+];
+
+// lead.set_field no toca identidad ni campos con acción propia
+const PROTECTED_FIELDS = new Set(['id', 'workspace_id', 'created_at', 'updated_at', 'labels', 'notes']);
+
+// Posición en el stage destino al mover desde un workflow (arriba del todo)
+const MOVE_POSITION = 0;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function labelList(v: unknown): string[] {
+  if (!Array.isArray(v)) return [];
+  return v.filter((x): x is string => typeof x === 'string').map((x) => x.trim()).filter(Boolean);
+}
+
+function strOrNull(v: unknown): string | null {
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+export function isLeadMutation(cfg: ActionConfig): cfg is LeadMutationConfig {
+  return LEAD_MUTATION_ACTIONS.includes(cfg.action);
+}
+
+export function isLeadStatus(v: string): boolean {
+  return (LEAD_STATUSES as readonly string[]).includes(v);
+}
+
+/** Nombre de columna válido y no protegido (que exista en el lead se comprueba al aplicar). */
+export function isSettableLeadField(field: string): boolean {
+  return /^[a-z_][a-z0-9_]*$/.test(field) && !PROTECTED_FIELDS.has(field);
+}
+
+export function planLeadPatch(cfg: LeadPatchConfig, lead: Record<string, unknown>, vars: TemplateVars, now: Date = new Date()): LeadPatchPlan {
+  const action = cfg.action;
+
+  if (action === 'lead.add_label' || action === 'lead.remove_label') {
+    const label = cfg.label.trim();
+    if (!label) return { ok: false, error: 'label_empty' };
+
+    const before = labelList(lead.labels);
+    const has = before.some((l) => l.toLowerCase() === label.toLowerCase());
+    const after = action === 'lead.add_label' ? (has ? before : [...before, label]) : before.filter((l) => l.toLowerCase() !== label.toLowerCase());
+
+    const applied = action === 'lead.add_label' ? !has : has;
+    return { ok: true, patch: applied ? { labels: after } : null, output: { action, label, before, after, applied } };
+  }
+
+  if (action === 'lead.set_status') {
+    const status = cfg.status.trim();
+    if (!isLeadStatus(status)) return { ok: false, error: `invalid_status: ${status || '(vacío)'}` };
+
+    const before = strOrNull(lead.status);
+    const applied = before !== status;
+    return { ok: true, patch: applied ? { status } : null, output: { action, field: 'status', before, after: status, applied } };
+  }
+
+  if (action === 'lead.set_field') {
+    const field = cfg.field.trim();
+    if (!isSettableLeadField(field)) return { ok: false, error: `field_not_allowed: ${field || '(vacío)'}` };
+    if (!(field in lead)) return { ok: false, error: `lead_field_unknown: ${field}` };
+
+    const rendered = renderTemplateFields({ value: cfg.value }, vars);
+    if (!rendered.ok) return { ok: false, error: rendered.error };
+
+    const value = rendered.values.value.trim() || null;
+    if (field === 'status' && (value === null || !isLeadStatus(value))) return { ok: false, error: `invalid_status: ${value ?? '(vacío)'}` };
+
+    const before = lead[field] ?? null;
+    const applied = (before === null ? null : String(before)) !== value;
+    return { ok: true, patch: applied ? { [field]: value } : null, output: { action, field, before, after: value, applied } };
+  }
+
+  const rendered = renderTemplateFields({ note: cfg.note }, vars);
+  if (!rendered.ok) return { ok: false, error: rendered.error };
+
+  const note = rendered.values.note.trim();
+  if (!note) return { ok: false, error: 'note_empty' };
+
+  const prev = typeof lead.notes === 'string' ? lead.notes.trimEnd() : '';
+  const entry = `[${now.toISOString()}] ${note}`;
+  return { ok: true, patch: { notes: prev ? `${prev}\n\n${entry}` : entry }, output: { action, note, applied: true } };
+}
+
+async function moveLeadToStage(
+  admin: SupabaseClient,
+  args: { workspaceId: string; lead: Record<string, unknown>; leadId: string; pipelineId: string | null; stageId: string }
+): Promise<LeadMutationResult> {
+  const action = 'lead.move_stage';
+  const { workspaceId, leadId, stageId } = args;
+  if (!args.pipelineId) return { ok: false, kind: 'permanent', error: 'pipeline_missing' };
+  if (!stageId) return { ok: false, kind: 'permanent', error: 'stage_missing' };
+  const pipelineId = args.pipelineId;
+
+  // Mismas validaciones que pipelines/move-lead antes del RPC
+  const [pipelineRes, stageRes] = await Promise.all([
+    admin.from('pipelines').select('id').eq('id', pipelineId).eq('workspace_id', workspaceId).maybeSingle(),
+    admin.from('pipeline_stages').select('id').eq('id', stageId).eq('pipeline_id', pipelineId).maybeSingle(),
+  ]);
+
+  if (pipelineRes.error) return { ok: false, kind: 'transient', error: `pipeline_fetch_failed: ${pipelineRes.error.message}` };
+  if (stageRes.error) return { ok: false, kind: 'transient', error: `stage_fetch_failed: ${stageRes.error.message}` };
+  if (!pipelineRes.data) return { ok: false, kind: 'permanent', error: 'pipeline_not_found' };
+  if (!stageRes.data) return { ok: false, kind: 'permanent', error: 'stage_not_found_in_pipeline' };
+
+  const { data: state, error: stateErr } = await admin
+    .from('lead_pipeline_state')
+    .select('stage_id')
+    .eq('workspace_id', workspaceId)
+    .eq('pipeline_id', pipelineId)
+    .eq('lead_id', leadId)
+    .maybeSingle();
+
+  if (stateErr) return { ok: false, kind: 'transient', error: `lead_state_fetch_failed: ${stateErr.message}` };
+
+  const fromStageId = isRecord(state) ? strOrNull(state.stage_id) : null;
+  if (fromStageId === stageId) {
+    return { ok: true, lead: args.lead, output: { action, pipelineId, fromStageId, toStageId: stageId, applied: false } };
+  }
+
+  const move = () =>
+    admin.rpc('move_lead_in_pipeline', {
+      p_workspace_id: workspaceId,
+      p_pipeline_id: pipelineId,
+      p_lead_id: leadId,
+      p_to_stage_id: stageId,
+      p_to_position: MOVE_POSITION,
+    });
+
+  // Igual que move-lead: si falla, rebalance del stage destino y un reintento
+  let { error: moveErr } = await move();
+  if (moveErr) {
+    const { error: rebErr } = await admin.rpc('rebalance_stage_positions', {
+      p_workspace_id: workspaceId,
+      p_pipeline_id: pipelineId,
+      p_stage_id: stageId,
+    });
+    if (rebErr) return { ok: false, kind: 'transient', error: `rebalance_failed: ${rebErr.message}` };
+    ({ error: moveErr } = await move());
+  }
+  if (moveErr) return { ok: false, kind: 'transient', error: `move_failed: ${moveErr.message}` };
+
+  const output: Record<string, unknown> = { action, pipelineId, fromStageId, toStageId: stageId, applied: true };
+
+  try {
+    await enqueueWorkflowEvent({
+      admin,
+      workspaceId,
+      eventType: 'lead.stage_changed',
+      entityId: leadId,
+      payload: {
+        workspaceId,
+        pipelineId,
+        leadId,
+        fromStageId,
+        toStageId: stageId,
+        toPosition: MOVE_POSITION,
+        source: 'workflow',
+        occurredAt: new Date().toISOString(),
+      },
+    });
+  } catch (e: unknown) {
+    // El lead ya se movió: reintentar el step no aporta nada
+    output.eventError = e instanceof Error ? e.message : 'enqueue_failed';
+  }
+
+  return { ok: true, lead: args.lead, output };
+}
+
+/**
+ * Aplica la acción sobre el lead del run. Fallos de BD = transient (se reintenta el step);
+ * config inválida o plantillas sin valor = permanent.
+ */
+export async function applyLeadMutation(
+  admin: SupabaseClient,
+  args: { workspaceId: string; lead: Record<string, unknown>; cfg: LeadMutationConfig; vars: TemplateVars; pipelineId: string | null }
+): Promise<LeadMutationResult> {
+  const leadId = strOrNull(args.lead.id);
+  if (!leadId) return { ok: false, kind: 'permanent', error: 'lead_missing' };
+
+  const cfg = args.cfg;
+  if (cfg.action === 'lead.move_stage') {
+    return moveLeadToStage(admin, {
+      workspaceId: args.workspaceId,
+      lead: args.lead,
+      leadId,
+      pipelineId: strOrNull(cfg.pipelineId) ?? args.pipelineId,
+      stageId: cfg.stageId.trim(),
+    });
+  }
+
+  const plan = planLeadPatch(cfg, args.lead, args.vars);
+  if (!plan.ok) return { ok: false, kind: 'permanent', error: plan.error };
+  if (!plan.patch) return { ok: true, lead: args.lead, output: plan.output };
+
+  const { data, error } = await admin
+    .from('leads')
+    .update(plan.patch)
+    .eq('id', leadId)
+    .eq('workspace_id', args.workspaceId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) return { ok: false, kind: 'transient', error: `lead_update_failed: ${error.message}` };
+  if (!isRecord(data)) return { ok: false, kind: 'permanent', error: 'lead_not_found' };
+
+  const output = { ...plan.output };
+  try {
+    await enqueueLeadFieldEvents({ admin, workspaceId: args.workspaceId, leadId, before: args.lead, after: data, source: 'workflow' });
+  } catch (e: unknown) {
+    output.eventError = e instanceof Error ? e.message : 'enqueue_failed';
+  }
+
+  return { ok: true, lead: data, output };
+}
@@ -0,0 +1,90 @@
+// src/lib/automations/loadTemplateVars.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { buildTemplateVars, type TemplateVars } from '@/lib/automations/templateEngine';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function pickStr(obj: Record<string, unknown>, key: string): string | null {
+  const v = obj[key];
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+/** pipeline_stages no tiene workspace_id: se acota por pipeline_id. */
+async function loadName(
+  admin: SupabaseClient,
+  table: 'pipelines' | 'pipeline_stages' | 'workspaces',
+  id: string | null,
+  scope: { column: 'workspace_id' | 'pipeline_id'; value: string | null } | null
+): Promise<{ id: string; name: string } | null> {
+  if (!id) return null;
+  if (scope && !scope.value) return null;
+
+  let q = admin.from(table).select('id, name').eq('id', id);
+  if (scope?.value) q = q.eq(scope.column, scope.value);
+
+  const { data, error } = await q.maybeSingle();
+  if (error) throw new Error(`${table}_fetch_failed: ${error.message}`);
+  if (!isRecord(data)) return null;
+
+  const name = pickStr(data, 'name');
+  return name ? { id, name } : null;
+}
+
+/**
+ * Reúne lo necesario para renderizar plantillas de un lead:
+ * nombres de stage/pipeline/workspace (el lead se pasa ya cargado o se lee aquí).
+ */
+export async function loadTemplateVars(
+  admin: SupabaseClient,
+  args: {
+    workspaceId: string;
+    leadId?: string | null;
+    lead?: Record<string, unknown> | null;
+    pipelineId?: string | null;
+    stageId?: string | null;
+    context?: Record<string, unknown>;
+  }
+): Promise<TemplateVars> {
+  let lead = args.lead ?? null;
+
+  if (!lead && args.leadId) {
+    const { data, error } = await admin
+      .from('leads')
+      .select('*')
+      .eq('id', args.leadId)
+      .eq('workspace_id', args.workspaceId)
+      .maybeSingle();
+
+    if (error) throw new Error(`lead_fetch_failed: ${error.message}`);
+    lead = isRecord(data) ? data : null;
+  }
+
+  const leadId = lead ? pickStr(lead, 'id') : null;
+  let pipelineId = args.pipelineId ?? null;
+  let stageId = args.stageId ?? null;
+
+  // Sin pipeline explícito: el primero en el que esté el lead
+  if (leadId && !stageId) {
+    let q = admin.from('lead_pipeline_state').select('pipeline_id, stage_id').eq('lead_id', leadId);
+    if (pipelineId) q = q.eq('pipeline_id', pipelineId);
+
+    const { data, error } = await q.limit(1);
+    if (error) throw new Error(`lead_state_fetch_failed: ${error.message}`);
+
+    const row = Array.isArray(data) && isRecord(data[0]) ? data[0] : null;
+    if (row) {
+      pipelineId = pipelineId ?? pickStr(row, 'pipeline_id');
+      stageId = pickStr(row, 'stage_id');
+    }
+  }
+
+  const [stage, pipeline, workspace] = await Promise.all([
+    loadName(admin, 'pipeline_stages', stageId, { column: 'pipeline_id', value: pipelineId }),
+    loadName(admin, 'pipelines', pipelineId, { column: 'workspace_id', value: args.workspaceId }),
+    loadName(admin, 'workspaces', args.workspaceId, null),
+  ]);
+
+  return buildTemplateVars({ lead, stage, pipeline, workspace, context: args.context });
+}
@@ -0,0 +1,169 @@
+// src/lib/automations/manualEnrollment.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LEAD_CONTEXT_COLUMNS, buildRunContext, startRun, type TriggerNode } from '@/lib/automations/dispatchWorkflowEvents';
+import { canEnroll, loadLeadStages, reachedExitGoal } from '@/lib/automations/enrollment';
+import { loadWorkflowSettings } from '@/lib/automations/workflowSettings';
+import { graphKey, loadRunGraphs } from '@/lib/automations/workflowVersions';
+
+/**
+ * Inscripción manual de leads en un workflow activo (desde la lista de leads o la ficha).
+ *
+ * El run arranca como si el trigger hubiera saltado (mismo grafo publicado, mismos steps iniciales),
+ * sin pasar por los filtros del trigger. Sí aplican la política de entrada y los objetivos de salida.
+ * El pipeline del run es el del lead en un pipeline vinculado al workflow (o el primero que tenga).
+ */
+
+export const MANUAL_ENROLL_EVENT = 'manual.enroll';
+export const MAX_MANUAL_ENROLL = 500;
+
+export type EnrollSkipReason = 'lead_not_found' | 'exit_goal_met' | 'enrollment_blocked';
+
+export type EnrollOutcome = { leadId: string; runId: string } | { leadId: string; skipped: EnrollSkipReason };
+
+export type ManualEnrollResult =
+  | { ok: true; results: EnrollOutcome[]; enrolled: number; skipped: number }
+  | { ok: false; error: 'workflow_not_found' | 'workflow_not_active' | 'workflow_no_trigger' };
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function pickStr(obj: Record<string, unknown>, key: string): string | null {
+  const v = obj[key];
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+/** leadId → { pipelineId, stageId } del pipeline que usará el run. */
+async function pickLeadPipelines(
+  admin: SupabaseClient,
+  args: { workspaceId: string; workflowId: string; leadIds: string[] }
+): Promise<Map<string, { pipelineId: string; stageId: string }>> {
+  const [bindingsRes, statesRes] = await Promise.all([
+    admin
+      .from('workflow_pipeline_bindings')
+      .select('pipeline_id, enabled')
+      .eq('workspace_id', args.workspaceId)
+      .eq('workflow_id', args.workflowId),
+    admin.from('lead_pipeline_state').select('lead_id, pipeline_id, stage_id').eq('workspace_id', args.workspaceId).in('lead_id', args.leadIds),
+  ]);
+
+  if (bindingsRes.error) throw new Error(`bindings_fetch_failed: ${bindingsRes.error.message}`);
+  if (statesRes.error) throw new Error(`lead_states_fetch_failed: ${statesRes.error.message}`);
+
+  const bound = new Set(
+    (bindingsRes.data ?? [])
+      .filter(isRecord)
+      .filter((b) => b.enabled !== false)
+      .map((b) => pickStr(b, 'pipeline_id'))
+      .filter((x): x is string => Boolean(x))
+  );
+
+  const out = new Map<string, { pipelineId: string; stageId: string }>();
+  for (const st of (statesRes.data ?? []).filter(isRecord)) {
+    const leadId = pickStr(st, 'lead_id');
+    const pipelineId = pickStr(st, 'pipeline_id');
+    const stageId = pickStr(st, 'stage_id');
+    if (!leadId || !pipelineId || !stageId) continue;
+
+    const current = out.get(leadId);
+    if (!current || (bound.has(pipelineId) && !bound.has(current.pipelineId))) out.set(leadId, { pipelineId, stageId });
+  }
+  return out;
+}
+
+export async function enrollLeadsManually(
+  admin: SupabaseClient,
+  args: { workspaceId: string; workflowId: string; leadIds: string[]; userId: string | null }
+): Promise<ManualEnrollResult> {
+  const { workspaceId, workflowId } = args;
+  const leadIds = Array.from(new Set(args.leadIds.map((x) => x.trim()).filter(Boolean))).slice(0, MAX_MANUAL_ENROLL);
+
+  const { data: wf, error: wfErr } = await admin
+    .from('workflows')
+    .select('id, status, published_version_id')
+    .eq('id', workflowId)
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (wfErr) throw new Error(`workflow_fetch_failed: ${wfErr.message}`);
+  if (!isRecord(wf)) return { ok: false, error: 'workflow_not_found' };
+  if (wf.status !== 'active') return { ok: false, error: 'workflow_not_active' };
+
+  const ref = { workflowId, versionId: pickStr(wf, 'published_version_id') };
+  const graph = (await loadRunGraphs(admin, [ref])).get(graphKey(ref));
+  const triggerNode = graph ? Array.from(graph.nodes.values()).find((n) => n.type === 'trigger') : undefined;
+  if (!graph || !triggerNode) return { ok: false, error: 'workflow_no_trigger' };
+
+  const trigger: TriggerNode = { id: triggerNode.id, workflow_id: workflowId, config: triggerNode.config, graph, versionId: ref.versionId };
+
+  const { data: leadRows, error: leadsErr } = leadIds.length
+    ? await admin.from('leads').select(LEAD_CONTEXT_COLUMNS).eq('workspace_id', workspaceId).in('id', leadIds)
+    : { data: [], error: null };
+  if (leadsErr) throw new Error(`leads_fetch_failed: ${leadsErr.message}`);
+
+  const leads = new Map<string, Record<string, unknown>>();
+  for (const l of ((leadRows ?? []) as unknown[]).filter(isRecord)) {
+    const id = pickStr(l, 'id');
+    if (id) leads.set(id, l);
+  }
+
+  const [settings, stages, pipelines] = await Promise.all([
+    loadWorkflowSettings(admin, [workflowId]),
+    loadLeadStages(admin, Array.from(leads.keys())),
+    pickLeadPipelines(admin, { workspaceId, workflowId, leadIds: Array.from(leads.keys()) }),
+  ]);
+
+  const cfg = settings.get(workflowId);
+  const results: EnrollOutcome[] = [];
+
+  for (const leadId of leadIds) {
+    const lead = leads.get(leadId);
+    if (!lead) {
+      results.push({ leadId, skipped: 'lead_not_found' });
+      continue;
+    }
+
+    if (cfg && reachedExitGoal(cfg.exitGoals, lead, stages.get(leadId) ?? [])) {
+      results.push({ leadId, skipped: 'exit_goal_met' });
+      continue;
+    }
+
+    if (cfg && !(await canEnroll(admin, { workflowId, leadId, policy: cfg.enrollment }))) {
+      results.push({ leadId, skipped: 'enrollment_blocked' });
+      continue;
+    }
+
+    const where = pipelines.get(leadId);
+    const eventId = crypto.randomUUID();
+    const context = buildRunContext(
+      {
+        id: eventId,
+        workspace_id: workspaceId,
+        event_type: MANUAL_ENROLL_EVENT,
+        entity_id: leadId,
+        payload: {
+          workspaceId,
+          leadId,
+          pipelineId: where?.pipelineId ?? null,
+          stageId: where?.stageId ?? null,
+          enrolledBy: args.userId,
+          source: 'manual',
+          occurredAt: new Date().toISOString(),
+        },
+      },
+      lead
+    );
+
+    const runId = await startRun(admin, {
+      workspaceId,
+      leadId,
+      trigger,
+      context,
+      triggerOutput: { event: MANUAL_ENROLL_EVENT, eventId, enrolledBy: args.userId },
+    });
+    results.push({ leadId, runId });
+  }
+
+  const enrolled = results.filter((r) => 'runId' in r).length;
+  return { ok: true, results, enrolled, skipped: results.length - enrolled };
+}
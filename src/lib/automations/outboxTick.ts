@@ -0,0 +1,98 @@
+// src/lib/automations/outboxTick.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { asOutboxMessage, type DeliveryChannel } from '@/lib/automations/deliveryProvider';
+import { loadDeliveryProvider, type LoadProviderResult } from '@/lib/automations/messageProviders';
+import { DEAD_LETTER_STATUS, outboxFailurePatch, readAttempts } from '@/lib/automations/retryPolicy';
+import { recoverExpiredOutboxLeases } from '@/lib/automations/queueLeases';
+import type { TickOptions } from '@/lib/automations/runStepsTick';
+
+/** Un ciclo del outbox: reclama un lote de workflow_message_outbox y lo envía por el proveedor del workspace. */
+
+export type OutboxTickResult =
+  | { ok: true; processed: number; sent?: number; retrying?: number; deadLettered?: number; recovered: number }
+  | { ok: false; error: string; detail: string };
+
+async function getProvider(
+  cache: Map<string, LoadProviderResult>,
+  sb: SupabaseClient,
+  workspaceId: string,
+  channel: DeliveryChannel
+): Promise<LoadProviderResult> {
+  const key = `${workspaceId}:${channel}`;
+  const hit = cache.get(key);
+  if (hit) return hit;
+
+  const loaded = await loadDeliveryProvider(sb, workspaceId, channel);
+  cache.set(key, loaded);
+  return loaded;
+}
+
+export async function processOutbox(sb: SupabaseClient, opts: TickOptions): Promise<OutboxTickResult> {
+  // Mensajes reclamados por un tick que no terminó: vuelven a 'queued' (cuenta como intento)
+  const recovered = await recoverExpiredOutboxLeases(sb);
+
+  const { data: claimed, error } = await sb.rpc('workflow_claim_outbox', {
+    p_batch_size: opts.batchSize,
+    p_locker: opts.locker,
+  });
+
+  if (error) return { ok: false, error: 'claim_failed', detail: error.message };
+
+  const rows = Array.isArray(claimed) ? claimed : [];
+  if (rows.length === 0) return { ok: true, processed: 0, recovered };
+
+  let processed = 0;
+  let sent = 0;
+  let retrying = 0;
+  let deadLettered = 0;
+
+  // Un proveedor por workspace+canal dentro del mismo tick
+  const providers = new Map<string, LoadProviderResult>();
+
+  // El RPC ya excluye las filas cuyo backoff no ha vencido (next_attempt_at)
+  for (const r of rows) {
+    const id = r.id as string;
+    const attemptsSoFar = readAttempts(r);
+
+    try {
+      const msg = asOutboxMessage(r);
+      const loaded = msg ? await getProvider(providers, sb, msg.workspace_id, msg.channel) : null;
+
+      const result = !msg
+        ? ({ ok: false, kind: 'permanent', error: 'invalid_outbox_row' } as const)
+        : loaded && loaded.ok
+          ? await loaded.provider.send(msg)
+          : ({ ok: false, kind: 'permanent', error: loaded?.error ?? 'provider_not_configured' } as const);
+
+      if (result.ok) {
+        await sb
+          .from('workflow_message_outbox')
+          .update({
+            status: 'sent',
+            sent_at: new Date().toISOString(),
+            provider_message_id: result.providerMessageId,
+            attempts: attemptsSoFar + 1,
+            next_attempt_at: null,
+            error: null,
+          })
+          .eq('id', id);
+        sent += 1;
+      } else {
+        const patch = outboxFailurePatch({ attemptsSoFar, kind: result.kind, error: result.error });
+        await sb.from('workflow_message_outbox').update(patch).eq('id', id);
+        if (patch.status === DEAD_LETTER_STATUS) deadLettered += 1;
+        else retrying += 1;
+      }
+
+      processed += 1;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'unknown_error';
+      const patch = outboxFailurePatch({ attemptsSoFar, kind: 'transient', error: msg });
+      await sb.from('workflow_message_outbox').update(patch).eq('id', id);
+      if (patch.status === DEAD_LETTER_STATUS) deadLettered += 1;
+      else retrying += 1;
+    }
+  }
+
+  return { ok: true, processed, sent, retrying, deadLettered, recovered };
+}
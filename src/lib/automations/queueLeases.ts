@@ -0,0 +1,134 @@
+// src/lib/automations/queueLeases.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEAD_LETTER_STATUS, DISCARDED_STATUS, outboxFailurePatch, readAttempts, stepFailurePatch } from '@/lib/automations/retryPolicy';
+import { STEP_CANCELLED_STATUS, STEP_PAUSED_STATUS } from '@/lib/automations/runControl';
+
+/**
+ * Visibility timeout ("lease") para las tres colas:
+ * - workflow_event_queue: locked_at + lock_token (lockNextEvents)
+ * - workflow_run_steps / workflow_message_outbox: locked_at que ponen los RPC de claim
+ *
+ * Un lock más viejo que el timeout se considera abandonado (la función murió por maxDuration, deploy…)
+ * y la fila vuelve a ser reclamable. Cada recuperación cuenta como intento.
+ *
+ * Columnas: workflow_event_queue.attempts, dead_at, last_error (supabase/migrations/20261019000300_workflow_automation_schema.sql);
+ * locked_at en steps y outbox (supabase/migrations/20261019000000_workflow_retry_backoff.sql).
+ */
+
+const DEFAULT_LEASE_MINUTES = 10; // > maxDuration de process-queue (300s)
+const RECOVER_BATCH = 100;
+
+// Estados en los que una fila ya no está "en vuelo"
+const STEP_IDLE_STATUSES = ['queued', 'success', 'failed', 'skipped', STEP_CANCELLED_STATUS, STEP_PAUSED_STATUS, DEAD_LETTER_STATUS, DISCARDED_STATUS];
+const OUTBOX_IDLE_STATUSES = ['queued', 'sent', 'delivered', 'undelivered', 'failed', DEAD_LETTER_STATUS, DISCARDED_STATUS];
+
+export type QueueMetrics = {
+  events: { pending: number; stuck: number; dead: number };
+  steps: { stuck: number; deadLetter: number };
+  outbox: { stuck: number; deadLetter: number };
+};
+
+/** AUTOMATIONS_LEASE_TIMEOUT_MINUTES (por defecto 10) */
+export function leaseTimeoutMs(): number {
+  const n = Number(process.env.AUTOMATIONS_LEASE_TIMEOUT_MINUTES ?? '');
+  return (Number.isFinite(n) && n > 0 ? n : DEFAULT_LEASE_MINUTES) * 60_000;
+}
+
+export function leaseCutoffIso(now: Date = new Date()): string {
+  return new Date(now.getTime() - leaseTimeoutMs()).toISOString();
+}
+
+/** Filtro PostgREST: sin lock o con lock caducado. */
+export function claimableLockFilter(now: Date = new Date()): string {
+  return `locked_at.is.null,locked_at.lt.${leaseCutoffIso(now)}`;
+}
+
+function idleList(statuses: string[]): string {
+  return `(${statuses.map((s) => `"${s}"`).join(',')})`;
+}
+
+async function recoverTable(
+  admin: SupabaseClient,
+  table: 'workflow_run_steps' | 'workflow_message_outbox',
+  idle: string[],
+  patchFor: (attemptsSoFar: number) => Record<string, unknown>
+): Promise<number> {
+  const { data, error } = await admin
+    .from(table)
+    .select('id, attempts')
+    .not('status', 'in', idleList(idle))
+    .lt('locked_at', leaseCutoffIso())
+    .limit(RECOVER_BATCH);
+
+  if (error) throw new Error(`${table}_lease_scan_failed: ${error.message}`);
+
+  let recovered = 0;
+  for (const row of data ?? []) {
+    const id = (row as { id?: unknown }).id;
+    if (typeof id !== 'string') continue;
+
+    // Condición de estado repetida: si el worker original terminó entre medias no se pisa su resultado
+    const { error: upErr } = await admin
+      .from(table)
+      .update({ ...patchFor(readAttempts(row)), locked_at: null })
+      .eq('id', id)
+      .not('status', 'in', idleList(idle))
+      .lt('locked_at', leaseCutoffIso());
+
+    if (!upErr) recovered += 1;
+  }
+
+  return recovered;
+}
+
+/** Steps reclamados cuyo worker no terminó: vuelven a 'queued' con backoff (o a dead-letter). */
+export function recoverExpiredStepLeases(admin: SupabaseClient): Promise<number> {
+  return recoverTable(admin, 'workflow_run_steps', STEP_IDLE_STATUSES, (attemptsSoFar) =>
+    stepFailurePatch({ attemptsSoFar, kind: 'transient', error: 'lease_expired' })
+  );
+}
+
+export function recoverExpiredOutboxLeases(admin: SupabaseClient): Promise<number> {
+  return recoverTable(admin, 'workflow_message_outbox', OUTBOX_IDLE_STATUSES, (attemptsSoFar) =>
+    outboxFailurePatch({ attemptsSoFar, kind: 'transient', error: 'lease_expired' })
+  );
+}
+
+async function count(q: PromiseLike<{ count: number | null; error: { message: string } | null }>, label: string): Promise<number> {
+  const { count: n, error } = await q;
+  if (error) throw new Error(`${label}_count_failed: ${error.message}`);
+  return n ?? 0;
+}
+
+/**
+ * Métricas de salud de las colas. `stuck` = locks caducados que aún no se han recuperado.
+ */
+export async function getQueueMetrics(admin: SupabaseClient): Promise<QueueMetrics> {
+  const cutoff = leaseCutoffIso();
+  const head = { count: 'exact' as const, head: true };
+
+  const [eventsPending, eventsStuck, eventsDead, stepsStuck, stepsDead, outboxStuck, outboxDead] = await Promise.all([
+    count(admin.from('workflow_event_queue').select('id', head).is('processed_at', null).is('dead_at', null), 'events_pending'),
+    count(
+      admin.from('workflow_event_queue').select('id', head).is('processed_at', null).is('dead_at', null).lt('locked_at', cutoff),
+      'events_stuck'
+    ),
+    count(admin.from('workflow_event_queue').select('id', head).not('dead_at', 'is', null), 'events_dead'),
+    count(
+      admin.from('workflow_run_steps').select('id', head).not('status', 'in', idleList(STEP_IDLE_STATUSES)).lt('locked_at', cutoff),
+      'steps_stuck'
+    ),
+    count(admin.from('workflow_run_steps').select('id', head).eq('status', DEAD_LETTER_STATUS), 'steps_dead'),
+    count(
+      admin.from('workflow_message_outbox').select('id', head).not('status', 'in', idleList(OUTBOX_IDLE_STATUSES)).lt('locked_at', cutoff),
+      'outbox_stuck'
+    ),
+    count(admin.from('workflow_message_outbox').select('id', head).eq('status', DEAD_LETTER_STATUS), 'outbox_dead'),
+  ]);
+
+  return {
+    events: { pending: eventsPending, stuck: eventsStuck, dead: eventsDead },
+    steps: { stuck: stepsStuck, deadLetter: stepsDead },
+    outbox: { stuck: outboxStuck, deadLetter: outboxDead },
+  };
+}
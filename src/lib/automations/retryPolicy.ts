@@ -0,0 +1,77 @@
+// src/lib/automations/retryPolicy.ts
+
+/**
+ * Reintentos con backoff exponencial + dead-letter para workflow_message_outbox y workflow_run_steps.
+ *
+ * Columnas y claim RPC en supabase/migrations/20261019000000_workflow_retry_backoff.sql:
+ * workflow_claim_outbox / workflow_claim_run_steps solo reclaman filas 'queued' con next_attempt_at
+ * null o <= now() (los steps además respetan scheduled_for, que se iguala a next_attempt_at).
+ */
+
+export const DEAD_LETTER_STATUS = 'dead_letter';
+export const DISCARDED_STATUS = 'discarded';
+
+export type FailureKind = 'permanent' | 'transient';
+
+export type RetryDecision =
+  | { retry: true; attempts: number; nextAttemptAt: Date }
+  | { retry: false; attempts: number };
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 60_000; // 1 min, 2, 4, 8…
+const MAX_DELAY_MS = 6 * 3_600_000;
+
+/** AUTOMATIONS_MAX_ATTEMPTS (por defecto 5) */
+export function maxAttempts(): number {
+  const n = Number(process.env.AUTOMATIONS_MAX_ATTEMPTS ?? '');
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_MAX_ATTEMPTS;
+}
+
+/** Retraso antes del intento `attempt + 1` (attempt = intentos ya hechos, >= 1), con ±20% de jitter. */
+export function backoffDelayMs(attempt: number, random: () => number = Math.random): number {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+  const jitter = 1 + (random() * 0.4 - 0.2);
+  return Math.round(exp * jitter);
+}
+
+/**
+ * Decide qué hacer tras un fallo. Los permanentes van directos a dead-letter
+ * (reintentar solo tiene sentido tras corregir algo, desde la UI).
+ */
+export function decideRetry(args: { attemptsSoFar: number; kind: FailureKind; now?: Date }): RetryDecision {
+  const attempts = Math.max(0, args.attemptsSoFar) + 1;
+  const now = args.now ?? new Date();
+
+  if (args.kind === 'permanent' || attempts >= maxAttempts()) return { retry: false, attempts };
+
+  return { retry: true, attempts, nextAttemptAt: new Date(now.getTime() + backoffDelayMs(attempts)) };
+}
+
+export function readAttempts(row: unknown): number {
+  if (typeof row !== 'object' || row === null) return 0;
+  const v = (row as Record<string, unknown>).attempts;
+  const n = typeof v === 'number' ? v : Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+/** Patch para workflow_message_outbox tras un fallo. */
+export function outboxFailurePatch(args: { attemptsSoFar: number; kind: FailureKind; error: string }): Record<string, unknown> {
+  const d = decideRetry(args);
+  const error = `${args.kind}: ${args.error}`;
+
+  if (d.retry) return { status: 'queued', attempts: d.attempts, next_attempt_at: d.nextAttemptAt.toISOString(), error };
+  return { status: DEAD_LETTER_STATUS, attempts: d.attempts, next_attempt_at: null, dead_at: new Date().toISOString(), error };
+}
+
+/** Patch para workflow_run_steps tras un fallo. */
+export function stepFailurePatch(args: { attemptsSoFar: number; kind: FailureKind; error: string }): Record<string, unknown> {
+  const d = decideRetry(args);
+
+  if (d.retry) {
+    const at = d.nextAttemptAt.toISOString();
+    return { status: 'queued', attempts: d.attempts, next_attempt_at: at, scheduled_for: at, error: args.error };
+  }
+
+  const nowIso = new Date().toISOString();
+  return { status: DEAD_LETTER_STATUS, attempts: d.attempts, next_attempt_at: null, dead_at: nowIso, finished_at: nowIso, error: args.error };
+}
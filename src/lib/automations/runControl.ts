@@ -0,0 +1,110 @@
+// src/lib/automations/runControl.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Control de runs en curso.
+ *
+ * - endRun: fin anticipado; el run pasa a `status` y sus steps pendientes ('queued' / 'paused') se cancelan.
+ *   Un step ya reclamado por el runner termina, pero el runner no encadena nada tras un run que ya no está 'running'.
+ * - pauseRun / resumeRun: los steps pendientes pasan a 'paused' y vuelven a 'queued' al reanudar
+ *   (con su scheduled_for: una espera que venció durante la pausa se ejecuta en el siguiente tick).
+ *
+ * Columnas workflow_runs.finished_at y exit_reason en supabase/migrations/20261019000300_workflow_automation_schema.sql
+ */
+
+export const RUN_RUNNING_STATUS = 'running';
+export const RUN_PAUSED_STATUS = 'paused';
+export const RUN_CANCELLED_STATUS = 'cancelled';
+export const RUN_EXITED_STATUS = 'exited'; // objetivo de salida cumplido
+export const STEP_CANCELLED_STATUS = 'cancelled';
+export const STEP_PAUSED_STATUS = 'paused';
+
+export type RunControlAction = 'pause' | 'resume' | 'cancel';
+
+// Runs que aún pueden terminar antes de tiempo
+const OPEN_RUN_STATUSES = [RUN_RUNNING_STATUS, RUN_PAUSED_STATUS];
+
+export async function endRun(
+  admin: SupabaseClient,
+  args: { runId: string; status: string; reason: string; now?: Date }
+): Promise<{ ended: boolean; cancelledSteps: number }> {
+  const nowIso = (args.now ?? new Date()).toISOString();
+
+  const { data: run, error: runErr } = await admin
+    .from('workflow_runs')
+    .update({ status: args.status, finished_at: nowIso, exit_reason: args.reason })
+    .eq('id', args.runId)
+    .in('status', OPEN_RUN_STATUSES)
+    .select('id')
+    .maybeSingle();
+
+  if (runErr) throw new Error(`run_end_failed: ${runErr.message}`);
+  if (!run) return { ended: false, cancelledSteps: 0 };
+
+  const { data: steps, error: stepsErr } = await admin
+    .from('workflow_run_steps')
+    .update({ status: STEP_CANCELLED_STATUS, finished_at: nowIso, next_attempt_at: null, output: { reason: args.reason } })
+    .eq('run_id', args.runId)
+    .in('status', ['queued', STEP_PAUSED_STATUS])
+    .select('id');
+
+  if (stepsErr) throw new Error(`steps_cancel_failed: ${stepsErr.message}`);
+  return { ended: true, cancelledSteps: (steps ?? []).length };
+}
+
+/** Steps de un estado a otro. Los reclamados por el runner no están en 'queued' ni 'paused': no se tocan. */
+async function moveSteps(admin: SupabaseClient, runId: string, from: string, to: string): Promise<number> {
+  const { data, error } = await admin
+    .from('workflow_run_steps')
+    .update({ status: to })
+    .eq('run_id', runId)
+    .eq('status', from)
+    .select('id');
+
+  if (error) throw new Error(`steps_update_failed: ${error.message}`);
+  return (data ?? []).length;
+}
+
+async function setRunStatus(admin: SupabaseClient, runId: string, from: string, to: string): Promise<boolean> {
+  const { data, error } = await admin.from('workflow_runs').update({ status: to }).eq('id', runId).eq('status', from).select('id').maybeSingle();
+  if (error) throw new Error(`run_update_failed: ${error.message}`);
+  return Boolean(data);
+}
+
+/**
+ * Aplica pause/resume/cancel a un run del workspace.
+ * `changed: false` si el run no estaba en un estado que lo permita (p. ej. reanudar uno que no está pausado).
+ * Un step que el runner tenía reclamado al pausar vuelve a 'paused' en ese tick (ver runner/tick).
+ */
+export async function controlRun(
+  admin: SupabaseClient,
+  args: { workspaceId: string; runId: string; action: RunControlAction; userId?: string | null }
+): Promise<{ found: boolean; changed: boolean; status: string | null; steps: number }> {
+  const { data: run, error } = await admin
+    .from('workflow_runs')
+    .select('id, status')
+    .eq('id', args.runId)
+    .eq('workspace_id', args.workspaceId)
+    .maybeSingle();
+
+  if (error) throw new Error(`run_fetch_failed: ${error.message}`);
+  if (!run) return { found: false, changed: false, status: null, steps: 0 };
+
+  const current = String(run.status);
+
+  if (args.action === 'cancel') {
+    const r = await endRun(admin, { runId: args.runId, status: RUN_CANCELLED_STATUS, reason: args.userId ? `cancelled_by:${args.userId}` : 'cancelled' });
+    return { found: true, changed: r.ended, status: r.ended ? RUN_CANCELLED_STATUS : current, steps: r.cancelledSteps };
+  }
+
+  const [from, to, stepFrom, stepTo] =
+    args.action === 'pause'
+      ? [RUN_RUNNING_STATUS, RUN_PAUSED_STATUS, 'queued', STEP_PAUSED_STATUS]
+      : [RUN_PAUSED_STATUS, RUN_RUNNING_STATUS, STEP_PAUSED_STATUS, 'queued'];
+
+  // Primero el run: el runner deja de encadenar steps en cuanto lo ve pausado
+  if (!(await setRunStatus(admin, args.runId, from, to))) return { found: true, changed: false, status: current, steps: 0 };
+
+  const steps = await moveSteps(admin, args.runId, stepFrom, stepTo);
+  return { found: true, changed: true, status: to, steps };
+}
@@ -0,0 +1,151 @@
+// src/lib/automations/runHistory.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Historial de ejecuciones (workflow_runs + workflow_run_steps) para la UI.
+ *
+ * workflow_run_steps no tiene workspace_id: siempre se llega a los steps a través de un run
+ * ya filtrado por workspace.
+ */
+
+export type RunSummary = {
+  id: string;
+  workflowId: string;
+  workflowName: string | null;
+  leadId: string | null;
+  leadName: string | null;
+  status: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type RunStep = {
+  id: string;
+  nodeId: string;
+  status: string;
+  attempts: number;
+  scheduledFor: string | null;
+  finishedAt: string | null;
+  output: unknown;
+  error: string | null;
+};
+
+export type RunDetail = RunSummary & { context: unknown; steps: RunStep[] };
+
+export type RunFilters = {
+  workflowId?: string | null;
+  leadId?: string | null;
+  status?: string | null;
+  from?: string | null; // ISO, inclusive (started_at)
+  to?: string | null; // ISO, exclusive
+  limit?: number;
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function s(v: unknown): string | null {
+  return typeof v === 'string' && v ? v : null;
+}
+
+/** Acepta fecha (yyyy-MM-dd) o ISO; devuelve ISO o null si no es válida. */
+export function parseDateParam(v: string | null): string | null {
+  if (!v) return null;
+  const t = Date.parse(v.trim());
+  return Number.isNaN(t) ? null : new Date(t).toISOString();
+}
+
+async function nameMap(admin: SupabaseClient, table: 'workflows' | 'leads', column: string, workspaceId: string, ids: string[]) {
+  const out = new Map<string, string>();
+  if (ids.length === 0) return out;
+
+  const { data, error } = await admin.from(table).select(`id, ${column}`).eq('workspace_id', workspaceId).in('id', ids);
+  if (error) throw new Error(`${table}_fetch_failed: ${error.message}`);
+
+  for (const r of (data ?? []) as unknown[]) {
+    if (!isRecord(r)) continue;
+    const id = s(r.id);
+    const name = s(r[column]);
+    if (id && name) out.set(id, name);
+  }
+  return out;
+}
+
+function toSummary(r: Record<string, unknown>, workflows: Map<string, string>, leads: Map<string, string>): RunSummary {
+  const workflowId = String(r.workflow_id ?? '');
+  const leadId = s(r.lead_id);
+  return {
+    id: String(r.id),
+    workflowId,
+    workflowName: workflows.get(workflowId) ?? null,
+    leadId,
+    leadName: leadId ? (leads.get(leadId) ?? null) : null,
+    status: s(r.status) ?? 'unknown',
+    startedAt: s(r.started_at),
+    finishedAt: s(r.finished_at),
+  };
+}
+
+async function withNames(admin: SupabaseClient, workspaceId: string, rows: Record<string, unknown>[]): Promise<RunSummary[]> {
+  const wfIds = Array.from(new Set(rows.map((r) => s(r.workflow_id)).filter((x): x is string => Boolean(x))));
+  const leadIds = Array.from(new Set(rows.map((r) => s(r.lead_id)).filter((x): x is string => Boolean(x))));
+
+  const [workflows, leads] = await Promise.all([
+    nameMap(admin, 'workflows', 'name', workspaceId, wfIds),
+    nameMap(admin, 'leads', 'full_name', workspaceId, leadIds),
+  ]);
+
+  return rows.map((r) => toSummary(r, workflows, leads));
+}
+
+export async function listRuns(admin: SupabaseClient, workspaceId: string, filters: RunFilters): Promise<RunSummary[]> {
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(filters.limit ?? DEFAULT_LIMIT)));
+
+  let q = admin.from('workflow_runs').select('*').eq('workspace_id', workspaceId);
+  if (filters.workflowId) q = q.eq('workflow_id', filters.workflowId);
+  if (filters.leadId) q = q.eq('lead_id', filters.leadId);
+  if (filters.status) q = q.eq('status', filters.status);
+  if (filters.from) q = q.gte('started_at', filters.from);
+  if (filters.to) q = q.lt('started_at', filters.to);
+
+  const { data, error } = await q.order('started_at', { ascending: false }).limit(limit);
+  if (error) throw new Error(`runs_fetch_failed: ${error.message}`);
+
+  return withNames(admin, workspaceId, (data ?? []).filter(isRecord));
+}
+
+/** Run con sus steps en orden de ejecución (scheduled_for, luego finished_at). */
+export async function getRun(admin: SupabaseClient, workspaceId: string, runId: string): Promise<RunDetail | null> {
+  const { data: run, error } = await admin.from('workflow_runs').select('*').eq('id', runId).eq('workspace_id', workspaceId).maybeSingle();
+
+  if (error) throw new Error(`run_fetch_failed: ${error.message}`);
+  if (!isRecord(run)) return null;
+
+  const { data: stepRows, error: sErr } = await admin
+    .from('workflow_run_steps')
+    .select('id, node_id, status, attempts, scheduled_for, finished_at, output, error')
+    .eq('run_id', runId)
+    .order('scheduled_for', { ascending: true })
+    .order('finished_at', { ascending: true, nullsFirst: false });
+
+  if (sErr) throw new Error(`steps_fetch_failed: ${sErr.message}`);
+
+  const [summary] = await withNames(admin, workspaceId, [run]);
+
+  const steps: RunStep[] = (stepRows ?? []).filter(isRecord).map((r) => ({
+    id: String(r.id),
+    nodeId: String(r.node_id ?? ''),
+    status: s(r.status) ?? 'unknown',
+    attempts: typeof r.attempts === 'number' ? r.attempts : 0,
+    scheduledFor: s(r.scheduled_for),
+    finishedAt: s(r.finished_at),
+    output: r.output ?? null,
+    error: s(r.error),
+  }));
+
+  return { ...summary, context: run.context ?? null, steps };
+}
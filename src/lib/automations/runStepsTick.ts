@@ -0,0 +1,425 @@
+// src/lib/automations/runStepsTick.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { computeWaitUntil, parseWaitConfig } from '@/lib/automations/waitNode';
+import { evaluateCondition, parseConditionConfig } from '@/lib/automations/conditionNode';
+import { parseActionConfig } from '@/lib/automations/actionNode';
+import { renderTemplateFields } from '@/lib/automations/templateEngine';
+import { prepareHttpRequest, sendHttpRequest } from '@/lib/automations/httpRequestAction';
+import { loadWebhookSecret } from '@/lib/automations/webhookSigning';
+import { loadTemplateVars } from '@/lib/automations/loadTemplateVars';
+import { applyLeadMutation, isLeadMutation } from '@/lib/automations/leadMutationActions';
+import { applyTeamAction, isTeamAction } from '@/lib/automations/teamActions';
+import { exitRunsOnGoals } from '@/lib/automations/enrollment';
+import { RUN_EXITED_STATUS, RUN_PAUSED_STATUS, RUN_RUNNING_STATUS, STEP_CANCELLED_STATUS, STEP_PAUSED_STATUS } from '@/lib/automations/runControl';
+import { readAttempts, stepFailurePatch } from '@/lib/automations/retryPolicy';
+import { recoverExpiredStepLeases } from '@/lib/automations/queueLeases';
+import { graphKey, loadRunGraphs, type RuntimeGraph } from '@/lib/automations/workflowVersions';
+
+/**
+ * Un ciclo del runner: reclama un lote de workflow_run_steps y los ejecuta.
+ * Lo usan runner/tick (cron de Vercel) y el worker propio (src/lib/automations/worker.ts).
+ */
+
+export type TickOptions = {
+  batchSize: number;
+  locker: string; // p_locker del RPC de claim: identifica al proceso que reclama
+};
+
+export type RunStepsTickResult =
+  | { ok: true; processed: number; recovered: number }
+  | { ok: false; error: string; detail: string };
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function pickStr(obj: Record<string, unknown>, key: string): string | null {
+  const v = obj[key];
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+type RunRow = {
+  id: string;
+  workflow_id: string;
+  version_id: string | null;
+  workspace_id: string;
+  lead_id: string | null;
+  status: string;
+  context: unknown;
+};
+
+export async function processRunSteps(sb: SupabaseClient, opts: TickOptions): Promise<RunStepsTickResult> {
+  // 0) steps con lease caducado (tick anterior murió a medias) vuelven a la cola
+  const recovered = await recoverExpiredStepLeases(sb);
+
+  // 1) claim steps
+  const { data: claimed, error: cErr } = await sb.rpc('workflow_claim_run_steps', {
+    p_batch_size: opts.batchSize,
+    p_locker: opts.locker,
+  });
+
+  if (cErr) return { ok: false, error: 'claim_failed', detail: cErr.message };
+
+  const steps = Array.isArray(claimed) ? claimed : [];
+  if (steps.length === 0) return { ok: true, processed: 0, recovered };
+
+  const runIds = steps.map((s) => s.run_id as string).filter((x) => typeof x === 'string');
+
+  // 2) cargar runs
+  const { data: runRows, error: rErr } = await sb
+    .from('workflow_runs')
+    .select('id, workflow_id, version_id, workspace_id, lead_id, status, context')
+    .in('id', runIds);
+  if (rErr) return { ok: false, error: 'runs_fetch_failed', detail: rErr.message };
+
+  const runById = new Map<string, RunRow>();
+  for (const r of runRows ?? []) {
+    if (r && typeof r.id === 'string') {
+      runById.set(r.id, {
+        ...(r as RunRow),
+        version_id: typeof r.version_id === 'string' ? r.version_id : null,
+        lead_id: typeof r.lead_id === 'string' ? r.lead_id : null,
+      });
+    }
+  }
+
+  // 3-4) nodos + edges de la versión en la que arrancó cada run (borrador si el run es previo al versionado)
+  let graphs: Map<string, RuntimeGraph>;
+  try {
+    graphs = await loadRunGraphs(
+      sb,
+      Array.from(runById.values()).map((r) => ({ workflowId: r.workflow_id, versionId: r.version_id }))
+    );
+  } catch (e) {
+    return { ok: false, error: 'graphs_fetch_failed', detail: e instanceof Error ? e.message : 'unknown_error' };
+  }
+
+  // 5) estado actual de los leads (condiciones / esperas leen datos frescos, no el snapshot del trigger)
+  const leadIds = Array.from(
+    new Set(
+      (runRows ?? [])
+        .map((r) => (isRecord(r.context) ? pickStr(r.context, 'leadId') : null))
+        .filter((x): x is string => Boolean(x))
+    )
+  );
+
+  const leadById = new Map<string, Record<string, unknown>>();
+  const stageByLeadPipeline = new Map<string, string>();
+
+  if (leadIds.length > 0) {
+    const [leadsRes, statesRes] = await Promise.all([
+      sb.from('leads').select('*').in('id', leadIds),
+      sb.from('lead_pipeline_state').select('lead_id, pipeline_id, stage_id').in('lead_id', leadIds),
+    ]);
+
+    if (leadsRes.error) return { ok: false, error: 'leads_fetch_failed', detail: leadsRes.error.message };
+    if (statesRes.error) return { ok: false, error: 'lead_states_fetch_failed', detail: statesRes.error.message };
+
+    for (const l of leadsRes.data ?? []) {
+      if (isRecord(l) && typeof l.id === 'string') leadById.set(l.id, l);
+    }
+    for (const st of statesRes.data ?? []) {
+      if (!isRecord(st)) continue;
+      const lid = pickStr(st, 'lead_id');
+      const pid = pickStr(st, 'pipeline_id');
+      const sid = pickStr(st, 'stage_id');
+      if (lid && pid && sid) stageByLeadPipeline.set(`${lid}:${pid}`, sid);
+    }
+  }
+
+  // 6) objetivos de salida: el lead pudo cambiar sin evento (o antes de que se procesara)
+  try {
+    const running = Array.from(runById.values()).filter((r) => r.status === RUN_RUNNING_STATUS);
+    const exited = await exitRunsOnGoals(sb, running, { leads: leadById });
+    for (const id of exited) {
+      const r = runById.get(id);
+      if (r) r.status = RUN_EXITED_STATUS;
+    }
+  } catch (e) {
+    return { ok: false, error: 'exit_goals_failed', detail: e instanceof Error ? e.message : 'unknown_error' };
+  }
+
+  let processed = 0;
+
+  for (const s of steps) {
+    const stepId = s.id as string;
+    const runId = s.run_id as string;
+    const nodeId = s.node_id as string;
+    const attemptsSoFar = readAttempts(s);
+
+    const run = runById.get(runId);
+    const graph = run ? graphs.get(graphKey({ workflowId: run.workflow_id, versionId: run.version_id })) : undefined;
+    const node = graph?.nodes.get(nodeId);
+
+    if (!run || !graph || !node) {
+      await sb
+        .from('workflow_run_steps')
+        .update(stepFailurePatch({ attemptsSoFar, kind: 'permanent', error: 'missing_run_or_node' }))
+        .eq('id', stepId);
+      continue;
+    }
+
+    // Run pausado mientras el step estaba en cola o reclamado: espera a que se reanude
+    if (run.status === RUN_PAUSED_STATUS) {
+      await sb.from('workflow_run_steps').update({ status: STEP_PAUSED_STATUS }).eq('id', stepId);
+      continue;
+    }
+
+    // Run terminado (objetivo cumplido, cancelado…) mientras el step estaba en cola o reclamado
+    if (run.status !== RUN_RUNNING_STATUS) {
+      await sb
+        .from('workflow_run_steps')
+        .update({ status: STEP_CANCELLED_STATUS, output: { reason: `run_${run.status}` }, finished_at: new Date().toISOString() })
+        .eq('id', stepId);
+      continue;
+    }
+
+    try {
+      const ctx = isRecord(run.context) ? run.context : {};
+      const ctxLeadId = pickStr(ctx, 'leadId');
+      const ctxPipelineId = pickStr(ctx, 'pipelineId');
+      const lead = (ctxLeadId ? leadById.get(ctxLeadId) : undefined) ?? (isRecord(ctx.lead) ? ctx.lead : null);
+      const stageId =
+        (ctxLeadId && ctxPipelineId ? stageByLeadPipeline.get(`${ctxLeadId}:${ctxPipelineId}`) : undefined) ??
+        pickStr(ctx, 'stageId');
+
+      // Momento en que se programan los nodos siguientes (los "wait" lo retrasan)
+      let nextAt = new Date();
+      // Rama elegida por un nodo "condition" (null = seguir todos los edges)
+      let branch: string | null = null;
+
+      // finished_at en un step reclamado = el nodo ya se ejecutó y falló después, al encadenar.
+      // El efecto (mensaje, mutación, petición) no se repite: solo se vuelve a encadenar con su output.
+      const completed = typeof s.finished_at === 'string' && s.finished_at ? (isRecord(s.output) ? s.output : {}) : null;
+
+      if (completed) {
+        branch = node.type === 'condition' ? pickStr(completed, 'branch') : null;
+        const resumeAt = node.type === 'wait' ? Date.parse(pickStr(completed, 'resumeAt') ?? '') : NaN;
+        if (!Number.isNaN(resumeAt)) nextAt = new Date(resumeAt);
+      } else if (node.type === 'wait') {
+        const waitCfg = parseWaitConfig(node.config);
+        const waited = computeWaitUntil(waitCfg, { now: nextAt, lead });
+
+        if (!waited.ok) {
+          await sb.from('workflow_run_steps').update(stepFailurePatch({ attemptsSoFar, kind: 'permanent', error: waited.error })).eq('id', stepId);
+          continue;
+        }
+
+        nextAt = waited.until;
+        await sb
+          .from('workflow_run_steps')
+          .update({
+            status: 'success',
+            output: { waited: true, mode: waitCfg.mode, resumeAt: nextAt.toISOString() },
+            finished_at: new Date().toISOString(),
+          })
+          .eq('id', stepId);
+      } else if (node.type === 'condition') {
+        const condCfg = parseConditionConfig(node.config);
+        const result = evaluateCondition(condCfg, { lead, context: ctx, stageId });
+        branch = result.branch;
+
+        await sb
+          .from('workflow_run_steps')
+          .update({
+            status: 'success',
+            output: { branch: result.branch, mode: condCfg.mode, evaluated: result.evaluated },
+            finished_at: new Date().toISOString(),
+          })
+          .eq('id', stepId);
+      } else if (node.type !== 'action') {
+        await sb
+          .from('workflow_run_steps')
+          .update({ status: 'skipped', output: { reason: 'non_action_node' }, finished_at: new Date().toISOString() })
+          .eq('id', stepId);
+        processed += 1;
+        continue;
+      } else {
+        const cfg = parseActionConfig(node.config);
+        if (!cfg) {
+          await sb.from('workflow_run_steps').update(stepFailurePatch({ attemptsSoFar, kind: 'permanent', error: 'invalid_action_config' })).eq('id', stepId);
+          continue;
+        }
+
+        // Ejecutar acción (v1: outbox)
+        if (cfg.action === 'action.send_email' || cfg.action === 'action.send_sms') {
+          // Plantillas {{lead.*}}: si falta alguna variable el step falla sin encolar nada
+          const vars = await loadTemplateVars(sb, {
+            workspaceId: run.workspace_id,
+            lead,
+            pipelineId: ctxPipelineId,
+            stageId,
+            context: ctx,
+          });
+
+          const rendered = renderTemplateFields(
+            { to: cfg.to, subject: cfg.action === 'action.send_email' ? cfg.subject : '', body: cfg.body },
+            vars
+          );
+
+          if (!rendered.ok) {
+            await sb.from('workflow_run_steps').update(stepFailurePatch({ attemptsSoFar, kind: 'permanent', error: rendered.error })).eq('id', stepId);
+            continue;
+          }
+
+          cfg.to = rendered.values.to.trim();
+          cfg.body = rendered.values.body;
+          if (cfg.action === 'action.send_email') cfg.subject = rendered.values.subject;
+
+          if (!cfg.to) {
+            await sb.from('workflow_run_steps').update(stepFailurePatch({ attemptsSoFar, kind: 'permanent', error: 'recipient_empty' })).eq('id', stepId);
+            continue;
+          }
+        }
+
+        if (cfg.action === 'action.send_email') {
+          // Un mensaje por step (step_id único): si el step se reintenta no se encola otra vez
+          const ins = await sb.from('workflow_message_outbox').upsert(
+            {
+              workspace_id: run.workspace_id,
+              run_id: run.id,
+              step_id: stepId,
+              channel: 'email',
+              to: cfg.to,
+              payload: { subject: cfg.subject, body: cfg.body, context: run.context },
+              status: 'queued',
+            },
+            { onConflict: 'step_id', ignoreDuplicates: true },
+          );
+          if (ins.error) throw new Error(ins.error.message);
+
+          await sb
+            .from('workflow_run_steps')
+            .update({ status: 'success', output: { enqueued: true, channel: 'email' }, finished_at: new Date().toISOString() })
+            .eq('id', stepId);
+        } else if (cfg.action === 'action.send_sms') {
+          // Un mensaje por step (step_id único): si el step se reintenta no se encola otra vez
+          const ins = await sb.from('workflow_message_outbox').upsert(
+            {
+              workspace_id: run.workspace_id,
+              run_id: run.id,
+              step_id: stepId,
+              channel: 'sms',
+              to: cfg.to,
+              payload: { body: cfg.body, context: run.context },
+              status: 'queued',
+            },
+            { onConflict: 'step_id', ignoreDuplicates: true },
+          );
+          if (ins.error) throw new Error(ins.error.message);
+
+          await sb
+            .from('workflow_run_steps')
+            .update({ status: 'success', output: { enqueued: true, channel: 'sms' }, finished_at: new Date().toISOString() })
+            .eq('id', stepId);
+        } else if (cfg.action === 'action.http_request') {
+          const vars = await loadTemplateVars(sb, {
+            workspaceId: run.workspace_id,
+            lead,
+            pipelineId: ctxPipelineId,
+            stageId,
+            context: ctx,
+          });
+
+          const prepared = prepareHttpRequest(cfg, vars);
+          if (!prepared.ok) {
+            await sb.from('workflow_run_steps').update(stepFailurePatch({ attemptsSoFar, kind: 'permanent', error: prepared.error })).eq('id', stepId);
+            continue;
+          }
+
+          const secret = cfg.sign ? await loadWebhookSecret(sb, run.workspace_id) : null;
+          if (cfg.sign && !secret) {
+            await sb
+              .from('workflow_run_steps')
+              .update(stepFailurePatch({ attemptsSoFar, kind: 'permanent', error: 'webhook_secret_missing' }))
+              .eq('id', stepId);
+            continue;
+          }
+
+          const sent = await sendHttpRequest(prepared.request, secret);
+          const output = {
+            action: cfg.action,
+            method: prepared.request.method,
+            url: prepared.request.url,
+            status: sent.status,
+            bodySnippet: sent.bodySnippet,
+            durationMs: sent.durationMs,
+          };
+
+          // Los fallos transitorios (5xx, 429, red) se reintentan con backoff; la respuesta queda en output
+          if (!sent.ok) {
+            await sb
+              .from('workflow_run_steps')
+              .update({ ...stepFailurePatch({ attemptsSoFar, kind: sent.kind, error: sent.error }), output })
+              .eq('id', stepId);
+            continue;
+          }
+
+          await sb.from('workflow_run_steps').update({ status: 'success', output, finished_at: new Date().toISOString() }).eq('id', stepId);
+        } else if (isTeamAction(cfg)) {
+          const vars = await loadTemplateVars(sb, { workspaceId: run.workspace_id, lead, pipelineId: ctxPipelineId, stageId, context: ctx });
+          const done = await applyTeamAction(sb, { workspaceId: run.workspace_id, leadId: ctxLeadId, runId: run.id, stepId, cfg, vars });
+          if (!done.ok) {
+            await sb.from('workflow_run_steps').update(stepFailurePatch({ attemptsSoFar, kind: done.kind, error: done.error })).eq('id', stepId);
+            continue;
+          }
+
+          await sb
+            .from('workflow_run_steps')
+            .update({ status: 'success', output: done.output, finished_at: new Date().toISOString() })
+            .eq('id', stepId);
+        } else if (isLeadMutation(cfg)) {
+          if (!lead) {
+            await sb.from('workflow_run_steps').update(stepFailurePatch({ attemptsSoFar, kind: 'permanent', error: 'lead_missing' })).eq('id', stepId);
+            continue;
+          }
+
+          // Solo set_field / add_note llevan plantillas
+          const vars =
+            cfg.action === 'lead.set_field' || cfg.action === 'lead.add_note'
+              ? await loadTemplateVars(sb, { workspaceId: run.workspace_id, lead, pipelineId: ctxPipelineId, stageId, context: ctx })
+              : {};
+
+          const mutated = await applyLeadMutation(sb, { workspaceId: run.workspace_id, lead, cfg, vars, pipelineId: ctxPipelineId });
+          if (!mutated.ok) {
+            await sb.from('workflow_run_steps').update(stepFailurePatch({ attemptsSoFar, kind: mutated.kind, error: mutated.error })).eq('id', stepId);
+            continue;
+          }
+
+          // Otros steps del mismo lead en este tick ven el lead ya modificado
+          if (ctxLeadId) leadById.set(ctxLeadId, mutated.lead);
+
+          await sb
+            .from('workflow_run_steps')
+            .update({ status: 'success', output: mutated.output, finished_at: new Date().toISOString() })
+            .eq('id', stepId);
+        }
+      }
+
+      // Encadenar siguientes steps (tras una condición, solo los edges de la rama elegida).
+      // Idempotente: (parent_step_id, node_id) es único, un reintento no duplica los siguientes steps.
+      const nextNodes = (graph.next.get(nodeId) ?? []).filter((e) => branch === null || e.conditionKey === branch);
+      if (nextNodes.length > 0) {
+        const inserts = nextNodes.map((e) => ({
+          run_id: run.id,
+          node_id: e.to,
+          parent_step_id: stepId,
+          status: 'queued',
+          scheduled_for: nextAt.toISOString(),
+        }));
+
+        const insNext = await sb
+          .from('workflow_run_steps')
+          .upsert(inserts, { onConflict: 'parent_step_id,node_id', ignoreDuplicates: true });
+        if (insNext.error) throw new Error(insNext.error.message);
+      }
+
+      processed += 1;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'unknown_error';
+      await sb.from('workflow_run_steps').update(stepFailurePatch({ attemptsSoFar, kind: 'transient', error: msg })).eq('id', stepId);
+    }
+  }
+
+  return { ok: true, processed, recovered };
+}
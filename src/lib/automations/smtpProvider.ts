@@ -0,0 +1,86 @@
+// src/lib/automations/smtpProvider.ts
+import nodemailer from 'nodemailer';
+import type { DeliveryErrorKind, DeliveryProvider, DeliveryResult, OutboxMessage } from '@/lib/automations/deliveryProvider';
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean; // true = TLS implícito (465); false = STARTTLS si el servidor lo ofrece
+  username: string | null;
+  password: string | null;
+  fromEmail: string;
+  fromName: string | null;
+};
+
+const EMAIL_RE = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+// Códigos de nodemailer que indican fallo de red / temporal
+const TRANSIENT_CODES = new Set(['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNRESET', 'ECONNREFUSED', 'EPROTOCOL']);
+
+function looksLikeHtml(body: string): boolean {
+  return /<(p|br|div|a|table|strong|em|h[1-6]|ul|ol|li|span|img)\b[^>]*>/i.test(body);
+}
+
+/**
+ * 4xx SMTP → transitorio; 5xx → permanente.
+ * Sin código SMTP se decide por el código de error de nodemailer (red = transitorio).
+ */
+export function classifySmtpError(err: unknown): { kind: DeliveryErrorKind; error: string } {
+  const e = (typeof err === 'object' && err !== null ? err : {}) as { responseCode?: unknown; code?: unknown; message?: unknown };
+  const message = typeof e.message === 'string' ? e.message : 'smtp_error';
+  const responseCode = typeof e.responseCode === 'number' ? e.responseCode : null;
+  const code = typeof e.code === 'string' ? e.code : null;
+
+  if (responseCode !== null) {
+    const kind: DeliveryErrorKind = responseCode >= 400 && responseCode < 500 ? 'transient' : 'permanent';
+    return { kind, error: `smtp_${responseCode}: ${message}` };
+  }
+
+  if (code && TRANSIENT_CODES.has(code)) return { kind: 'transient', error: `${code}: ${message}` };
+
+  // EAUTH, EENVELOPE, EMESSAGE… requieren cambiar config o mensaje
+  return { kind: 'permanent', error: code ? `${code}: ${message}` : message };
+}
+
+export function createSmtpProvider(cfg: SmtpConfig): DeliveryProvider {
+  const transport = nodemailer.createTransport({
+    host: cfg.host,
+    port: cfg.port,
+    secure: cfg.secure,
+    auth: cfg.username ? { user: cfg.username, pass: cfg.password ?? '' } : undefined,
+    connectionTimeout: 15_000,
+    greetingTimeout: 10_000,
+    socketTimeout: 20_000,
+  });
+
+  const from = cfg.fromName ? { name: cfg.fromName, address: cfg.fromEmail } : cfg.fromEmail;
+
+  return {
+    key: 'smtp',
+    channel: 'email',
+    async send(msg: OutboxMessage): Promise<DeliveryResult> {
+      if (!EMAIL_RE.test(msg.to)) return { ok: false, kind: 'permanent', error: `invalid_recipient: ${msg.to || '(vacío)'}` };
+
+      const body = msg.payload.body ?? '';
+
+      try {
+        const info = await transport.sendMail({
+          from,
+          to: msg.to,
+          subject: msg.payload.subject ?? '',
+          text: body,
+          html: looksLikeHtml(body) ? body : undefined,
+          headers: { 'X-Kalue-Outbox-Id': msg.id },
+        });
+
+        if (Array.isArray(info.rejected) && info.rejected.length > 0) {
+          return { ok: false, kind: 'permanent', error: `recipient_rejected: ${info.rejected.map(String).join(', ')}` };
+        }
+
+        return { ok: true, providerMessageId: typeof info.messageId === 'string' && info.messageId ? info.messageId : msg.id };
+      } catch (err) {
+        return { ok: false, ...classifySmtpError(err) };
+      }
+    },
+  };
+}
@@ -0,0 +1,178 @@
+// src/lib/automations/stageIdleTrigger.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { enqueueWorkflowEvent } from '@/lib/automations/enqueueWorkflowEvent';
+import { graphKey, loadRunGraphs, type GraphRef } from '@/lib/automations/workflowVersions';
+
+/**
+ * Trigger "lead parado en un stage": lead.stage_idle.
+ *
+ * Un scanner periódico busca, por cada workflow activo con este trigger, los leads cuyo
+ * lead_pipeline_state.stage_changed_at es más antiguo que el umbral y encola un evento por workflow.
+ * Cada visita al stage (identificada por stage_changed_at) dispara como mucho una vez por workflow:
+ * si el lead sale y vuelve a entrar, stage_changed_at cambia y es una visita nueva.
+ *
+ * Tabla (supabase/migrations/20261019000300_workflow_automation_schema.sql):
+ * - workflow_stage_idle_fires (workflow_id, lead_id, stage_id, stage_changed_at, fired_at)
+ *   pk (workflow_id, lead_id, stage_id, stage_changed_at)
+ * Candidatas: RPC workflow_stage_idle_candidates (supabase/migrations/20261019000400_workflow_stage_idle_candidates.sql)
+ */
+
+export const STAGE_IDLE_EVENT = 'lead.stage_idle';
+
+export type IdleUnit = 'hours' | 'days';
+
+export type StageIdleConfig = { stageId: string; amount: number; unit: IdleUnit };
+
+export type StageIdleScanResult = { triggers: number; candidates: number; enqueued: number; failed: number };
+
+const UNIT_MS: Record<IdleUnit, number> = { hours: 3_600_000, days: 86_400_000 };
+
+// Por trigger y pasada; primero las visitas que llevan más tiempo esperando
+const MAX_LEADS_PER_TRIGGER = 500;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function pickStr(obj: Record<string, unknown>, key: string): string | null {
+  const v = obj[key];
+  return typeof v === 'string' && v.trim() ? v.trim() : null;
+}
+
+/** null si falta el stage o el umbral no es positivo (el trigger no puede disparar). */
+export function parseStageIdleConfig(v: unknown): StageIdleConfig | null {
+  const c = isRecord(v) ? v : {};
+  const stageId = pickStr(c, 'stageId');
+  const amount = typeof c.amount === 'number' ? c.amount : Number(c.amount);
+  if (!stageId || !Number.isFinite(amount) || amount <= 0) return null;
+  return { stageId, amount, unit: c.unit === 'hours' ? 'hours' : 'days' };
+}
+
+export function idleThresholdMs(cfg: StageIdleConfig): number {
+  return cfg.amount * UNIT_MS[cfg.unit];
+}
+
+type IdleTrigger = { workspaceId: string; workflowId: string; config: StageIdleConfig };
+
+async function loadIdleTriggers(admin: SupabaseClient): Promise<IdleTrigger[]> {
+  const { data, error } = await admin.from('workflows').select('id, workspace_id, published_version_id').eq('status', 'active');
+  if (error) throw new Error(`workflows_fetch_failed: ${error.message}`);
+
+  const rows = (data ?? []).filter(isRecord);
+  const refs: GraphRef[] = rows
+    .map((r) => ({ workflowId: pickStr(r, 'id') ?? '', versionId: pickStr(r, 'published_version_id') }))
+    .filter((r) => Boolean(r.workflowId));
+
+  const graphs = await loadRunGraphs(admin, refs);
+  const out: IdleTrigger[] = [];
+
+  for (const r of rows) {
+    const workflowId = pickStr(r, 'id');
+    const workspaceId = pickStr(r, 'workspace_id');
+    if (!workflowId || !workspaceId) continue;
+
+    const graph = graphs.get(graphKey({ workflowId, versionId: pickStr(r, 'published_version_id') }));
+    for (const n of graph?.nodes.values() ?? []) {
+      if (n.type !== 'trigger' || !isRecord(n.config) || n.config.event !== STAGE_IDLE_EVENT) continue;
+      const config = parseStageIdleConfig(n.config);
+      if (config) out.push({ workspaceId, workflowId, config });
+    }
+  }
+
+  return out;
+}
+
+async function scanTrigger(admin: SupabaseClient, t: IdleTrigger, now: Date, result: StageIdleScanResult): Promise<void> {
+  const cutoff = new Date(now.getTime() - idleThresholdMs(t.config)).toISOString();
+
+  // Visitas sin disparar, las más antiguas primero (el RPC excluye las que ya tienen fila en fires)
+  const { data, error } = await admin.rpc('workflow_stage_idle_candidates', {
+    p_workflow_id: t.workflowId,
+    p_workspace_id: t.workspaceId,
+    p_stage_id: t.config.stageId,
+    p_cutoff: cutoff,
+    p_limit: MAX_LEADS_PER_TRIGGER,
+  });
+
+  if (error) throw new Error(`idle_candidates_fetch_failed: ${error.message}`);
+
+  const visits = (Array.isArray(data) ? data : []).filter(isRecord).filter((r) => pickStr(r, 'lead_id') && pickStr(r, 'stage_changed_at'));
+  result.candidates += visits.length;
+  if (visits.length === 0) return;
+
+  const { data: claimed, error: insErr } = await admin
+    .from('workflow_stage_idle_fires')
+    .upsert(
+      visits.map((v) => ({
+        workflow_id: t.workflowId,
+        lead_id: v.lead_id,
+        stage_id: t.config.stageId,
+        stage_changed_at: v.stage_changed_at,
+        fired_at: now.toISOString(),
+      })),
+      { onConflict: 'workflow_id,lead_id,stage_id,stage_changed_at', ignoreDuplicates: true }
+    )
+    .select('lead_id, stage_changed_at');
+
+  if (insErr) throw new Error(`idle_fires_insert_failed: ${insErr.message}`);
+
+  const pipelineByLead = new Map(visits.map((v) => [String(v.lead_id), pickStr(v, 'pipeline_id')]));
+
+  for (const c of (claimed ?? []).filter(isRecord)) {
+    const leadId = pickStr(c, 'lead_id');
+    const stageChangedAt = pickStr(c, 'stage_changed_at');
+    if (!leadId || !stageChangedAt) continue;
+
+    try {
+      await enqueueWorkflowEvent({
+        admin,
+        workspaceId: t.workspaceId,
+        eventType: STAGE_IDLE_EVENT,
+        entityId: leadId,
+        payload: {
+          workspaceId: t.workspaceId,
+          workflowId: t.workflowId,
+          leadId,
+          pipelineId: pipelineByLead.get(leadId) ?? null,
+          stageId: t.config.stageId,
+          stageChangedAt,
+          occurredAt: now.toISOString(),
+        },
+      });
+      result.enqueued += 1;
+    } catch (e) {
+      result.failed += 1;
+      console.error('scanIdleLeads enqueue failed', t.workflowId, leadId, e instanceof Error ? e.message : 'unknown_error');
+
+      await admin
+        .from('workflow_stage_idle_fires')
+        .delete()
+        .eq('workflow_id', t.workflowId)
+        .eq('lead_id', leadId)
+        .eq('stage_id', t.config.stageId)
+        .eq('stage_changed_at', stageChangedAt);
+    }
+  }
+}
+
+/**
+ * Una pasada del scanner. El insert en workflow_stage_idle_fires (ignoreDuplicates) es el "claim":
+ * solo se encolan las visitas que esta pasada ha insertado, así dos scanners a la vez no duplican.
+ * Si el encolado falla se borra el claim (la visita vuelve a ser candidata en la siguiente pasada).
+ * Un trigger que falla no corta la pasada: se cuenta en `failed` y se sigue con el resto.
+ */
+export async function scanIdleLeads(admin: SupabaseClient, now: Date = new Date()): Promise<StageIdleScanResult> {
+  const triggers = await loadIdleTriggers(admin);
+  const result: StageIdleScanResult = { triggers: triggers.length, candidates: 0, enqueued: 0, failed: 0 };
+
+  for (const t of triggers) {
+    try {
+      await scanTrigger(admin, t, now, result);
+    } catch (e) {
+      result.failed += 1;
+      console.error('scanIdleLeads trigger failed', t.workflowId, e instanceof Error ? e.message : 'unknown_error');
+    }
+  }
+
+  return result;
+}
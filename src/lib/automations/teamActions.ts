@@ -0,0 +1,156 @@
+// src/lib/automations/teamActions.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActionConfig, TaskDueUnit } from '@/lib/automations/actionNode';
+import type { FailureKind } from '@/lib/automations/retryPolicy';
+import { renderTemplateFields, type TemplateVars } from '@/lib/automations/templateEngine';
+
+/**
+ * Acciones internas para el equipo (no llegan al lead):
+ * - action.notify_team: notificación en lead_notifications, para todo el equipo o para miembros concretos
+ * - action.create_task: tarea de seguimiento asignada a un miembro, con vencimiento relativo al step;
+ *   el asignado se entera por una notificación dirigida solo a él (kind 'task')
+ *
+ * planTeamAction renderiza y valida sin escribir (también lo usa el dry-run); applyTeamAction inserta.
+ * Todas las filas llevan el step de origen (único): reintentar el step no duplica la notificación ni la tarea.
+ *
+ * Tablas/columnas (supabase/migrations/20261019000300_workflow_automation_schema.sql):
+ * - lead_notifications.target_user_ids uuid[] null (null = todo el equipo), lead_notifications.workflow_step_id uuid null unique
+ * - lead_tasks (id, workspace_id, lead_id, assigned_to, title, notes, due_at, status 'open'|'done',
+ *   source, workflow_run_id, workflow_step_id unique, created_at)
+ */
+
+export type TeamActionConfig = Extract<ActionConfig, { action: 'action.notify_team' | 'action.create_task' }>;
+
+export type TeamActionPlan =
+  | {
+      ok: true;
+      table: 'lead_notifications' | 'lead_tasks';
+      row: Record<string, unknown>;
+      notification: Record<string, unknown> | null; // aviso extra en lead_notifications (tareas)
+      memberIds: string[];
+      output: Record<string, unknown>;
+    }
+  | { ok: false; error: string };
+
+export type TeamActionResult = { ok: true; output: Record<string, unknown> } | { ok: false; kind: FailureKind; error: string };
+
+export const DEFAULT_NOTIFICATION_KIND = 'workflow';
+export const TASK_NOTIFICATION_KIND = 'task';
+
+const DUE_UNIT_MS: Record<TaskDueUnit, number> = {
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+};
+
+const TEAM_ACTIONS: readonly string[] = ['action.notify_team', 'action.create_task'];
+
+export function isTeamAction(cfg: ActionConfig): cfg is TeamActionConfig {
+  return TEAM_ACTIONS.includes(cfg.action);
+}
+
+export function planTeamAction(
+  cfg: TeamActionConfig,
+  args: { workspaceId: string; leadId: string | null; vars: TemplateVars; now?: Date }
+): TeamActionPlan {
+  const now = args.now ?? new Date();
+
+  if (cfg.action === 'action.notify_team') {
+    if (!args.leadId) return { ok: false, error: 'lead_missing' };
+
+    const rendered = renderTemplateFields({ title: cfg.title, message: cfg.message }, args.vars);
+    if (!rendered.ok) return { ok: false, error: rendered.error };
+
+    const title = rendered.values.title.trim();
+    const message = rendered.values.message.trim();
+    if (!title && !message) return { ok: false, error: 'notification_empty' };
+
+    const kind = cfg.kind.trim() || DEFAULT_NOTIFICATION_KIND;
+    const targets = cfg.userIds.length > 0 ? cfg.userIds : null;
+    return {
+      ok: true,
+      table: 'lead_notifications',
+      row: { workspace_id: args.workspaceId, lead_id: args.leadId, kind, title: title || null, message: message || null, target_user_ids: targets },
+      notification: null,
+      memberIds: cfg.userIds,
+      output: { action: cfg.action, kind, title, message, targetUserIds: targets },
+    };
+  }
+
+  if (!cfg.assigneeId) return { ok: false, error: 'assignee_missing' };
+
+  const rendered = renderTemplateFields({ title: cfg.title, notes: cfg.notes }, args.vars);
+  if (!rendered.ok) return { ok: false, error: rendered.error };
+
+  const title = rendered.values.title.trim();
+  if (!title) return { ok: false, error: 'task_title_empty' };
+
+  const notes = rendered.values.notes.trim() || null;
+  const dueAt = new Date(now.getTime() + cfg.dueAmount * DUE_UNIT_MS[cfg.dueUnit]).toISOString();
+  return {
+    ok: true,
+    table: 'lead_tasks',
+    row: {
+      workspace_id: args.workspaceId,
+      lead_id: args.leadId,
+      assigned_to: cfg.assigneeId,
+      title,
+      notes,
+      due_at: dueAt,
+      status: 'open',
+      source: 'workflow',
+    },
+    // Las notificaciones van ligadas a un lead: sin lead la tarea se crea igual, sin aviso
+    notification: args.leadId
+      ? {
+          workspace_id: args.workspaceId,
+          lead_id: args.leadId,
+          kind: TASK_NOTIFICATION_KIND,
+          title: `Tarea asignada: ${title}`,
+          message: notes,
+          target_user_ids: [cfg.assigneeId],
+        }
+      : null,
+    memberIds: [cfg.assigneeId],
+    output: { action: cfg.action, assigneeId: cfg.assigneeId, title, notes, dueAt },
+  };
+}
+
+/**
+ * Fallos de BD = transient; config inválida, plantillas sin valor o destinatarios que ya no
+ * son miembros del workspace = permanent.
+ */
+export async function applyTeamAction(
+  admin: SupabaseClient,
+  args: { workspaceId: string; leadId: string | null; runId: string; stepId: string; cfg: TeamActionConfig; vars: TemplateVars }
+): Promise<TeamActionResult> {
+  const plan = planTeamAction(args.cfg, { workspaceId: args.workspaceId, leadId: args.leadId, vars: args.vars });
+  if (!plan.ok) return { ok: false, kind: 'permanent', error: plan.error };
+
+  if (plan.memberIds.length > 0) {
+    const { data, error } = await admin
+      .from('workspace_members')
+      .select('user_id')
+      .eq('workspace_id', args.workspaceId)
+      .in('user_id', plan.memberIds);
+
+    if (error) return { ok: false, kind: 'transient', error: `members_fetch_failed: ${error.message}` };
+
+    const found = new Set((data ?? []).map((m: { user_id: string }) => m.user_id));
+    const missing = plan.memberIds.filter((id) => !found.has(id));
+    if (missing.length > 0) return { ok: false, kind: 'permanent', error: `not_members: ${missing.join(', ')}` };
+  }
+
+  const row = { ...plan.row, workflow_step_id: args.stepId, ...(plan.table === 'lead_tasks' ? { workflow_run_id: args.runId } : {}) };
+  const { error } = await admin.from(plan.table).upsert(row, { onConflict: 'workflow_step_id', ignoreDuplicates: true });
+  if (error) return { ok: false, kind: 'transient', error: `${plan.table}_insert_failed: ${error.message}` };
+
+  if (plan.notification) {
+    const { error: nErr } = await admin
+      .from('lead_notifications')
+      .upsert({ ...plan.notification, workflow_step_id: args.stepId }, { onConflict: 'workflow_step_id', ignoreDuplicates: true });
+    if (nErr) return { ok: false, kind: 'transient', error: `lead_notifications_insert_failed: ${nErr.message}` };
+  }
+
+  return { ok: true, output: plan.output };
+}
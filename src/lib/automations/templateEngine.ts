@@ -0,0 +1,240 @@
+// src/lib/automations/templateEngine.ts
+
+/**
+ * Motor de plantillas para acciones (email/SMS/HTTP).
+ *
+ * Sintaxis:
+ *   {{lead.first_name}}
+ *   {{lead.first_name | default:"amigo"}}
+ *   {{lead.full_name | upper}}
+ *   {{lead.created_at | date:"dd/MM/yyyy HH:mm":"Europe/Madrid"}}
+ *   {{form_answers.presupuesto}}  {{stage.name}}  {{pipeline.name}}  {{workspace.name}}
+ *   {"name": {{lead.full_name | json}}}   (json: literal JSON con comillas/escapes, para cuerpos JSON)
+ *
+ * Una variable que resuelve a null/undefined sin `default` hace fallar el render.
+ */
+
+export type TemplateVars = Record<string, unknown>;
+
+export type RenderResult = { ok: true; text: string } | { ok: false; text: string; missing: string[]; errors: string[] };
+
+export type TemplateSource = {
+  lead: Record<string, unknown> | null;
+  stage?: { id: string; name: string } | null;
+  pipeline?: { id: string; name: string } | null;
+  workspace?: { id: string; name: string } | null;
+  context?: Record<string, unknown>;
+};
+
+type Filter = { name: string; args: string[] };
+
+const TAG_RE = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function splitName(fullName: unknown): { first: string | null; last: string | null } {
+  if (typeof fullName !== 'string' || !fullName.trim()) return { first: null, last: null };
+  const parts = fullName.trim().split(/\s+/);
+  return { first: parts[0] ?? null, last: parts.length > 1 ? parts.slice(1).join(' ') : null };
+}
+
+/**
+ * Variables disponibles en las plantillas: columnas del lead + derivados,
+ * form_answers, stage/pipeline/workspace y el contexto del run.
+ */
+export function buildTemplateVars(src: TemplateSource): TemplateVars {
+  const lead = src.lead ? { ...src.lead } : null;
+
+  if (lead) {
+    const { first, last } = splitName(lead.full_name);
+    if (lead.first_name === undefined) lead.first_name = first;
+    if (lead.last_name === undefined) lead.last_name = last;
+  }
+
+  return {
+    lead,
+    form_answers: lead && isRecord(lead.form_answers) ? lead.form_answers : {},
+    stage: src.stage ?? null,
+    pipeline: src.pipeline ?? null,
+    workspace: src.workspace ?? null,
+    context: src.context ?? {},
+  };
+}
+
+/** Divide por `sep` respetando comillas simples/dobles. */
+function splitOutsideQuotes(input: string, sep: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let quote: string | null = null;
+
+  for (const ch of input) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      cur += ch;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      cur += ch;
+      continue;
+    }
+    if (ch === sep) {
+      out.push(cur);
+      cur = '';
+      continue;
+    }
+    cur += ch;
+  }
+
+  out.push(cur);
+  return out.map((x) => x.trim());
+}
+
+function unquote(v: string): string {
+  const m = /^(["'])([\s\S]*)\1$/.exec(v);
+  return m ? m[2] : v;
+}
+
+function parseFilters(parts: string[]): Filter[] {
+  return parts
+    .filter((p) => p.length > 0)
+    .map((p) => {
+      const [name, ...args] = splitOutsideQuotes(p, ':');
+      return { name: name.toLowerCase(), args: args.map(unquote) };
+    });
+}
+
+function lookup(vars: TemplateVars, path: string): unknown {
+  let cur: unknown = vars;
+  for (const key of path.split('.').filter(Boolean)) {
+    if (!isRecord(cur)) return undefined;
+    cur = cur[key];
+  }
+  return cur;
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatDate(value: unknown, pattern: string, timeZone: string): string | null {
+  const t = typeof value === 'string' || typeof value === 'number' ? Date.parse(String(value)) : NaN;
+  if (Number.isNaN(t)) return null;
+
+  let parts: Record<string, string>;
+  try {
+    const fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    parts = {};
+    for (const p of fmt.formatToParts(new Date(t))) parts[p.type] = p.value;
+  } catch {
+    return null;
+  }
+
+  const tokens: Record<string, string> = {
+    yyyy: parts.year,
+    MM: pad2(Number(parts.month)),
+    dd: pad2(Number(parts.day)),
+    HH: pad2(Number(parts.hour)),
+    mm: pad2(Number(parts.minute)),
+  };
+
+  return pattern.replace(/yyyy|MM|dd|HH|mm/g, (tok) => tokens[tok] ?? tok);
+}
+
+function stringify(v: unknown): string {
+  if (v === null || v === undefined) return '';
+  if (Array.isArray(v)) return v.map(stringify).join(', ');
+  if (typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+}
+
+function applyFilter(value: unknown, f: Filter): { value: unknown; error?: string } {
+  switch (f.name) {
+    case 'default': {
+      const empty = value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+      return { value: empty ? (f.args[0] ?? '') : value };
+    }
+    case 'upper':
+      return { value: value === null || value === undefined ? value : stringify(value).toUpperCase() };
+    case 'lower':
+      return { value: value === null || value === undefined ? value : stringify(value).toLowerCase() };
+    case 'capitalize': {
+      if (value === null || value === undefined) return { value };
+      const s = stringify(value).toLowerCase();
+      return { value: s.charAt(0).toUpperCase() + s.slice(1) };
+    }
+    case 'json':
+      return { value: value === null || value === undefined ? value : JSON.stringify(value) };
+    case 'trim':
+      return { value: value === null || value === undefined ? value : stringify(value).trim() };
+    case 'date': {
+      if (value === null || value === undefined) return { value };
+      const out = formatDate(value, f.args[0] || 'dd/MM/yyyy', f.args[1] || 'UTC');
+      return out === null ? { value, error: `invalid_date` } : { value: out };
+    }
+    default:
+      return { value, error: `unknown_filter:${f.name}` };
+  }
+}
+
+export function renderTemplate(template: string, vars: TemplateVars): RenderResult {
+  const missing: string[] = [];
+  const errors: string[] = [];
+
+  const text = template.replace(TAG_RE, (_match, exprRaw: string) => {
+    const [pathRaw, ...filterParts] = splitOutsideQuotes(exprRaw, '|');
+    const path = pathRaw.trim();
+    const filters = parseFilters(filterParts);
+
+    let value = lookup(vars, path);
+    for (const f of filters) {
+      const r = applyFilter(value, f);
+      if (r.error) errors.push(`${path}: ${r.error}`);
+      value = r.value;
+    }
+
+    if (value === null || value === undefined) {
+      missing.push(path);
+      return '';
+    }
+
+    return stringify(value);
+  });
+
+  if (missing.length > 0 || errors.length > 0) {
+    return { ok: false, text, missing: Array.from(new Set(missing)), errors: Array.from(new Set(errors)) };
+  }
+
+  return { ok: true, text };
+}
+
+/** Renderiza varios campos a la vez y agrega los errores (p.ej. to/subject/body). */
+export function renderTemplateFields<K extends string>(
+  fields: Record<K, string>,
+  vars: TemplateVars
+): { ok: true; values: Record<K, string> } | { ok: false; values: Record<K, string>; error: string } {
+  const values = {} as Record<K, string>;
+  const problems: string[] = [];
+
+  for (const key of Object.keys(fields) as K[]) {
+    const r = renderTemplate(fields[key], vars);
+    values[key] = r.text;
+    if (r.ok === true) continue;
+
+    if (r.missing.length > 0) problems.push(`${key}: variables sin valor (${r.missing.join(', ')})`);
+    if (r.errors.length > 0) problems.push(`${key}: ${r.errors.join(', ')}`);
+  }
+
+  if (problems.length > 0) return { ok: false, values, error: `template_unresolved: ${problems.join('; ')}` };
+  return { ok: true, values };
+}
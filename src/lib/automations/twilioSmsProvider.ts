@@ -0,0 +1,120 @@
+// src/lib/automations/twilioSmsProvider.ts
+import crypto from 'crypto';
+import type { DeliveryProvider, DeliveryResult, OutboxMessage } from '@/lib/automations/deliveryProvider';
+
+/**
+ * Adaptador SMS compatible con la API de Twilio (Messages.json).
+ * `baseUrl` permite apuntar a otro proveedor compatible o a un mock local (solo por entorno, ver messageProviders).
+ */
+export type TwilioSmsConfig = {
+  baseUrl: string;
+  accountSid: string;
+  authToken: string;
+  fromNumber: string | null;
+  messagingServiceSid: string | null;
+  statusCallbackUrl: string | null;
+};
+
+export const TWILIO_DEFAULT_BASE_URL = 'https://api.twilio.com';
+
+const E164_RE = /^\+[1-9]\d{6,14}$/;
+
+/** Quita espacios, guiones y paréntesis; 00 inicial → + */
+export function normalizePhone(raw: string): string {
+  const compact = raw.replace(/[\s\-().]/g, '');
+  return compact.startsWith('00') ? `+${compact.slice(2)}` : compact;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+export function createTwilioSmsProvider(cfg: TwilioSmsConfig): DeliveryProvider {
+  const base = cfg.baseUrl.replace(/\/+$/, '');
+  const endpoint = `${base}/2010-04-01/Accounts/${encodeURIComponent(cfg.accountSid)}/Messages.json`;
+  const basicAuth = Buffer.from(`${cfg.accountSid}:${cfg.authToken}`, 'utf8').toString('base64');
+
+  return {
+    key: 'twilio',
+    channel: 'sms',
+    async send(msg: OutboxMessage): Promise<DeliveryResult> {
+      const to = normalizePhone(msg.to);
+      if (!E164_RE.test(to)) return { ok: false, kind: 'permanent', error: `invalid_recipient: ${msg.to || '(vacío)'}` };
+
+      const body = (msg.payload.body ?? '').trim();
+      if (!body) return { ok: false, kind: 'permanent', error: 'empty_body' };
+
+      const form = new URLSearchParams();
+      form.set('To', to);
+      form.set('Body', body);
+      if (cfg.messagingServiceSid) form.set('MessagingServiceSid', cfg.messagingServiceSid);
+      else if (cfg.fromNumber) form.set('From', cfg.fromNumber);
+      if (cfg.statusCallbackUrl) form.set('StatusCallback', cfg.statusCallbackUrl);
+
+      let res: Response;
+      try {
+        res = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            authorization: `Basic ${basicAuth}`,
+            'content-type': 'application/x-www-form-urlencoded',
+          },
+          body: form.toString(),
+          signal: AbortSignal.timeout(15_000),
+        });
+      } catch (err) {
+        return { ok: false, kind: 'transient', error: `network_error: ${err instanceof Error ? err.message : 'unknown'}` };
+      }
+
+      const raw: unknown = await res.json().catch(() => null);
+      const j = isRecord(raw) ? raw : {};
+
+      if (!res.ok) {
+        const code = typeof j.code === 'number' || typeof j.code === 'string' ? String(j.code) : null;
+        const message = typeof j.message === 'string' ? j.message : res.statusText;
+        const error = `http_${res.status}${code ? ` (${code})` : ''}: ${message}`;
+
+        // 429 y 5xx se pueden reintentar; el resto de 4xx son de datos/credenciales
+        const transient = res.status === 429 || res.status >= 500;
+        return { ok: false, kind: transient ? 'transient' : 'permanent', error };
+      }
+
+      const sid = typeof j.sid === 'string' ? j.sid : '';
+      if (!sid) return { ok: false, kind: 'transient', error: 'missing_message_sid' };
+
+      return { ok: true, providerMessageId: sid };
+    },
+  };
+}
+
+/**
+ * Firma de callbacks estilo Twilio: base64(HMAC-SHA1(authToken, url + claves ordenadas con su valor)).
+ */
+export function computeTwilioSignature(authToken: string, url: string, params: Record<string, string>): string {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, k) => acc + k + params[k], url);
+
+  return crypto.createHmac('sha1', authToken).update(data, 'utf8').digest('base64');
+}
+
+export function verifyTwilioSignature(args: {
+  authToken: string;
+  url: string;
+  params: Record<string, string>;
+  signature: string;
+}): boolean {
+  const expected = Buffer.from(computeTwilioSignature(args.authToken, args.url, args.params));
+  const got = Buffer.from(args.signature);
+  return expected.length === got.length && crypto.timingSafeEqual(expected, got);
+}
+
+export type SmsDeliveryStatus = 'delivered' | 'undelivered' | null;
+
+/** Estados intermedios (queued, sending, sent…) no cambian la fila: null. */
+export function mapTwilioStatus(status: string): SmsDeliveryStatus {
+  const s = status.trim().toLowerCase();
+  if (s === 'delivered' || s === 'read') return 'delivered';
+  if (s === 'undelivered' || s === 'failed' || s === 'canceled') return 'undelivered';
+  return null;
+}
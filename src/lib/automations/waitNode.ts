@@ -0,0 +1,188 @@
+// src/lib/automations/waitNode.ts
+
+export type WaitUnit = 'minutes' | 'hours' | 'days';
+
+export type WaitDurationConfig = { mode: 'duration'; amount: number; unit: WaitUnit };
+
+export type WaitUntilTimeConfig = {
+  mode: 'until_time';
+  weekdays: number[]; // 0 = domingo … 6 = sábado (vacío = cualquier día)
+  time: string; // HH:MM
+  timezone: string; // IANA, e.g. Europe/Madrid
+};
+
+export type WaitUntilFieldConfig = {
+  mode: 'until_field';
+  field: string; // columna del lead (created_at) o form_answers.<clave>
+  offsetAmount: number; // negativo = antes de la fecha
+  offsetUnit: WaitUnit;
+};
+
+export type WaitConfig = WaitDurationConfig | WaitUntilTimeConfig | WaitUntilFieldConfig;
+
+export type WaitResult = { ok: true; until: Date } | { ok: false; error: string };
+
+const UNIT_MS: Record<WaitUnit, number> = {
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function asUnit(v: unknown): WaitUnit {
+  return v === 'minutes' || v === 'hours' || v === 'days' ? v : 'days';
+}
+
+function asFiniteNumber(v: unknown, fallback: number): number {
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  if (typeof v === 'string' && v.trim() !== '') {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : fallback;
+  }
+  return fallback;
+}
+
+function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function parseWaitConfig(v: unknown): WaitConfig {
+  if (!isRecord(v)) return { mode: 'duration', amount: 1, unit: 'days' };
+
+  if (v.mode === 'until_time') {
+    const weekdays = Array.isArray(v.weekdays)
+      ? v.weekdays.filter((d): d is number => typeof d === 'number' && Number.isInteger(d) && d >= 0 && d <= 6)
+      : [];
+    const time = typeof v.time === 'string' && /^\d{2}:\d{2}$/.test(v.time) ? v.time : '09:00';
+    const timezone = typeof v.timezone === 'string' && v.timezone.trim() ? v.timezone.trim() : 'UTC';
+    return { mode: 'until_time', weekdays, time, timezone };
+  }
+
+  if (v.mode === 'until_field') {
+    return {
+      mode: 'until_field',
+      field: typeof v.field === 'string' ? v.field.trim() : '',
+      offsetAmount: asFiniteNumber(v.offsetAmount, 0),
+      offsetUnit: asUnit(v.offsetUnit),
+    };
+  }
+
+  return {
+    mode: 'duration',
+    amount: Math.max(0, asFiniteNumber(v.amount, 1)),
+    unit: asUnit(v.unit),
+  };
+}
+
+/* ---------------- Zonas horarias (sin dependencias) ---------------- */
+
+type ZonedParts = { year: number; month: number; day: number; hour: number; minute: number };
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const fmt = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  const parts: Record<string, string> = {};
+  for (const p of fmt.formatToParts(date)) parts[p.type] = p.value;
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
+
+/** Instante UTC de una hora "de pared" en la zona indicada. */
+function zonedTimeToUtc(args: { year: number; month: number; day: number; hour: number; minute: number; timeZone: string }): Date {
+  const wall = Date.UTC(args.year, args.month - 1, args.day, args.hour, args.minute);
+  let guess = wall;
+
+  // Dos pasadas bastan para absorber cambios de horario (DST)
+  for (let i = 0; i < 2; i += 1) {
+    const p = zonedParts(new Date(guess), args.timeZone);
+    const seen = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+    guess += wall - seen;
+  }
+
+  return new Date(guess);
+}
+
+function nextWeekdayTime(cfg: WaitUntilTimeConfig, now: Date): Date {
+  const tz = isValidTimezone(cfg.timezone) ? cfg.timezone : 'UTC';
+  const [hh, mm] = cfg.time.split(':').map((x) => Number(x));
+  const allowed = cfg.weekdays.length > 0 ? new Set(cfg.weekdays) : null;
+
+  const today = zonedParts(now, tz);
+
+  for (let offset = 0; offset <= 7; offset += 1) {
+    // fecha de calendario candidata (en la zona), normalizada vía Date.UTC
+    const probe = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const ymd = { year: probe.getUTCFullYear(), month: probe.getUTCMonth() + 1, day: probe.getUTCDate() };
+
+    if (allowed && !allowed.has(probe.getUTCDay())) continue;
+
+    const at = zonedTimeToUtc({ ...ymd, hour: hh, minute: mm, timeZone: tz });
+    if (at.getTime() > now.getTime()) return at;
+  }
+
+  // Nunca debería llegar aquí: 8 días cubren cualquier combinación
+  return new Date(now.getTime() + 7 * UNIT_MS.days);
+}
+
+function readLeadDate(lead: Record<string, unknown>, field: string): Date | null {
+  let raw: unknown;
+
+  if (field.startsWith('form_answers.')) {
+    const answers = isRecord(lead.form_answers) ? lead.form_answers : {};
+    raw = answers[field.slice('form_answers.'.length)];
+    if (Array.isArray(raw)) raw = raw[0];
+  } else {
+    raw = lead[field];
+  }
+
+  if (typeof raw !== 'string' || !raw.trim()) return null;
+  const t = Date.parse(raw);
+  return Number.isNaN(t) ? null : new Date(t);
+}
+
+/**
+ * Calcula cuándo deben ejecutarse los nodos siguientes a un nodo "wait".
+ * Si la fecha calculada ya pasó, se continúa de inmediato (`now`).
+ */
+export function computeWaitUntil(cfg: WaitConfig, args: { now: Date; lead: Record<string, unknown> | null }): WaitResult {
+  const { now } = args;
+
+  if (cfg.mode === 'duration') {
+    return { ok: true, until: new Date(now.getTime() + cfg.amount * UNIT_MS[cfg.unit]) };
+  }
+
+  if (cfg.mode === 'until_time') {
+    return { ok: true, until: nextWeekdayTime(cfg, now) };
+  }
+
+  if (!cfg.field) return { ok: false, error: 'wait_field_missing' };
+  if (!args.lead) return { ok: false, error: 'wait_lead_missing' };
+
+  const base = readLeadDate(args.lead, cfg.field);
+  if (!base) return { ok: false, error: `wait_field_not_a_date: ${cfg.field}` };
+
+  const at = new Date(base.getTime() + cfg.offsetAmount * UNIT_MS[cfg.offsetUnit]);
+  return { ok: true, until: at.getTime() > now.getTime() ? at : now };
+}
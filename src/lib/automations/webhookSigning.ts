@@ -0,0 +1,55 @@
+// src/lib/automations/webhookSigning.ts
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { decryptToken, encryptToken } from '@/server/crypto/tokenCrypto';
+
+/**
+ * Secreto por workspace para firmar las peticiones salientes de action.http_request.
+ *
+ * Cabecera: X-Kalue-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, `${t}.${body}`)>
+ * El receptor recalcula el HMAC con el cuerpo crudo y rechaza timestamps viejos (replay).
+ *
+ * Tabla (supabase/migrations/20261019000300_workflow_automation_schema.sql):
+ * - workspace_webhook_secrets (workspace_id pk, secret_ciphertext, rotated_at)
+ */
+
+export const SIGNATURE_HEADER = 'X-Kalue-Signature';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  const mac = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`, 'utf8').digest('hex');
+  return `t=${timestamp},v1=${mac}`;
+}
+
+export async function loadWebhookSecret(admin: SupabaseClient, workspaceId: string): Promise<string | null> {
+  const { data, error } = await admin.from('workspace_webhook_secrets').select('secret_ciphertext').eq('workspace_id', workspaceId).maybeSingle();
+
+  if (error) throw new Error(`webhook_secret_fetch_failed: ${error.message}`);
+  const ct = isRecord(data) && typeof data.secret_ciphertext === 'string' ? data.secret_ciphertext : null;
+  return ct ? decryptToken(ct) : null;
+}
+
+/** Solo metadatos: el secreto se enseña una única vez, al rotarlo. */
+export async function getWebhookSecretInfo(admin: SupabaseClient, workspaceId: string): Promise<{ hasSecret: boolean; rotatedAt: string | null }> {
+  const { data, error } = await admin.from('workspace_webhook_secrets').select('rotated_at').eq('workspace_id', workspaceId).maybeSingle();
+
+  if (error) throw new Error(`webhook_secret_fetch_failed: ${error.message}`);
+  if (!isRecord(data)) return { hasSecret: false, rotatedAt: null };
+  return { hasSecret: true, rotatedAt: typeof data.rotated_at === 'string' ? data.rotated_at : null };
+}
+
+/** Genera (o reemplaza) el secreto y lo devuelve en claro. */
+export async function rotateWebhookSecret(admin: SupabaseClient, workspaceId: string): Promise<{ secret: string; rotatedAt: string }> {
+  const secret = `whsec_${crypto.randomBytes(32).toString('hex')}`;
+  const rotatedAt = new Date().toISOString();
+
+  const { error } = await admin
+    .from('workspace_webhook_secrets')
+    .upsert({ workspace_id: workspaceId, secret_ciphertext: encryptToken(secret), rotated_at: rotatedAt }, { onConflict: 'workspace_id' });
+
+  if (error) throw new Error(`webhook_secret_save_failed: ${error.message}`);
+  return { secret, rotatedAt };
+}
@@ -0,0 +1,254 @@
+// src/lib/automations/worker.ts
+import { hostname } from 'node:os';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseServiceRole } from '@/lib/supabase/serviceRole';
+import { dispatchQueuedEvents } from '@/lib/automations/dispatchWorkflowEvents';
+import { processRunSteps } from '@/lib/automations/runStepsTick';
+import { processOutbox } from '@/lib/automations/outboxTick';
+import { scanIdleLeads } from '@/lib/automations/stageIdleTrigger';
+import { leaseTimeoutMs } from '@/lib/automations/queueLeases';
+
+/**
+ * Worker propio: alternativa a los crons de Vercel para desplegar en una máquina con Node.
+ * Hace en bucle lo mismo que runner/process-queue, outbox/cron y triggers/stage-idle/cron,
+ * con los mismos RPC de claim, así que puede convivir con los crons sin duplicar trabajo.
+ *
+ * Arranque: `npm run worker` (next start con KALUE_WORKER=1; lo registra src/instrumentation.ts).
+ * Config por env:
+ * - KALUE_WORKER_CONCURRENCY: bucles en paralelo para steps y outbox (por defecto 2)
+ * - KALUE_WORKER_BATCH: filas por claim (por defecto 25)
+ * - KALUE_WORKER_POLL_MS: espera cuando una cola está vacía (por defecto 1000)
+ * - KALUE_WORKER_IDLE_SCAN_MINUTES: frecuencia del scanner de lead.stage_idle (por defecto 15)
+ * - KALUE_WORKER_SHUTDOWN_MS: máximo a esperar por los lotes en vuelo al parar (por defecto 30000)
+ *
+ * Los eventos van en un solo bucle para respetar su orden. Si una cola tenía trabajo se vuelve a
+ * reclamar sin esperar; tras un error se espera con backoff.
+ *
+ * SIGTERM/SIGINT: deja de reclamar, espera a los lotes en vuelo y sale. Lo que quede a medias lo
+ * recupera el lease (queueLeases). Requiere NEXT_MANUAL_SIG_HANDLE=true para que Next no salga antes.
+ */
+
+export type WorkerConfig = {
+  concurrency: number;
+  batchSize: number;
+  pollMs: number;
+  idleScanMs: number;
+  shutdownMs: number;
+};
+
+export type WorkerLoopState = {
+  name: string;
+  intervalMs: number; // espera entre ciclos sin trabajo
+  busySince: string | null; // ciclo en curso
+  lastCycleAt: string | null; // último ciclo terminado (con o sin error)
+  lastError: string | null;
+  consecutiveErrors: number;
+  cycles: number;
+  processed: number;
+};
+
+export type WorkerState = {
+  id: string;
+  startedAt: string;
+  stoppingAt: string | null;
+  config: WorkerConfig;
+  loops: WorkerLoopState[];
+};
+
+export type WorkerHealth = { ok: boolean; status: 'running' | 'stopping' | 'not_running'; problems: string[] };
+
+const MAX_BACKOFF_MS = 60_000;
+
+// Un ciclo devuelve cuántas filas procesó (0 = cola vacía)
+type Cycle = (sb: SupabaseClient) => Promise<number>;
+
+type Runtime = {
+  state: WorkerState;
+  loops: Array<Promise<void>>;
+  wakers: Set<() => void>;
+};
+
+// En globalThis: el health route puede ir en otro bundle que este módulo
+const RUNTIME_KEY = Symbol.for('kalue.automations.worker');
+
+function getRuntime(): Runtime | null {
+  return ((globalThis as Record<symbol, unknown>)[RUNTIME_KEY] as Runtime | undefined) ?? null;
+}
+
+function setRuntime(rt: Runtime | null) {
+  (globalThis as Record<symbol, unknown>)[RUNTIME_KEY] = rt ?? undefined;
+}
+
+function envInt(name: string, fallback: number, min: number): number {
+  const n = Number(process.env[name] ?? '');
+  return Number.isFinite(n) && n >= min ? Math.floor(n) : fallback;
+}
+
+export function readWorkerConfig(): WorkerConfig {
+  return {
+    concurrency: envInt('KALUE_WORKER_CONCURRENCY', 2, 1),
+    batchSize: envInt('KALUE_WORKER_BATCH', 25, 1),
+    pollMs: envInt('KALUE_WORKER_POLL_MS', 1000, 100),
+    idleScanMs: envInt('KALUE_WORKER_IDLE_SCAN_MINUTES', 15, 1) * 60_000,
+    shutdownMs: envInt('KALUE_WORKER_SHUTDOWN_MS', 30_000, 0),
+  };
+}
+
+/** Espera interrumpible: stopWorker despierta a todos los bucles. */
+function sleep(rt: Runtime, ms: number): Promise<void> {
+  if (rt.state.stoppingAt) return Promise.resolve();
+  return new Promise((resolve) => {
+    const wake = () => {
+      clearTimeout(timer);
+      rt.wakers.delete(wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    rt.wakers.add(wake);
+  });
+}
+
+async function runLoop(rt: Runtime, sb: SupabaseClient, loop: WorkerLoopState, cycle: Cycle): Promise<void> {
+  while (!rt.state.stoppingAt) {
+    let found = 0;
+    loop.busySince = new Date().toISOString();
+    try {
+      found = await cycle(sb);
+      loop.processed += found;
+      loop.lastError = null;
+      loop.consecutiveErrors = 0;
+    } catch (e) {
+      loop.lastError = e instanceof Error ? e.message : 'unknown_error';
+      loop.consecutiveErrors += 1;
+      console.error(`[worker] ${loop.name} failed`, loop.lastError);
+    } finally {
+      loop.busySince = null;
+      loop.lastCycleAt = new Date().toISOString();
+      loop.cycles += 1;
+    }
+
+    if (loop.consecutiveErrors > 0) {
+      await sleep(rt, Math.min(loop.intervalMs * 2 ** loop.consecutiveErrors, MAX_BACKOFF_MS));
+    } else if (found === 0) {
+      await sleep(rt, loop.intervalMs);
+    }
+  }
+}
+
+function newLoop(name: string, intervalMs: number): WorkerLoopState {
+  return { name, intervalMs, busySince: null, lastCycleAt: null, lastError: null, consecutiveErrors: 0, cycles: 0, processed: 0 };
+}
+
+/** Arranca el worker en este proceso (idempotente). */
+export function startWorker(config: WorkerConfig = readWorkerConfig()): WorkerState {
+  const current = getRuntime();
+  if (current && !current.state.stoppingAt) return current.state;
+
+  const id = `worker-${hostname()}-${process.pid}`;
+  const rt: Runtime = {
+    state: { id, startedAt: new Date().toISOString(), stoppingAt: null, config, loops: [] },
+    loops: [],
+    wakers: new Set(),
+  };
+  setRuntime(rt);
+
+  const sb = supabaseServiceRole();
+  const add = (loop: WorkerLoopState, cycle: Cycle) => {
+    rt.state.loops.push(loop);
+    rt.loops.push(runLoop(rt, sb, loop, cycle));
+  };
+
+  add(newLoop('events', config.pollMs), async () => {
+    const r = await dispatchQueuedEvents({ limit: config.batchSize });
+    return r.processed + r.released + r.deadLettered;
+  });
+
+  for (let i = 0; i < config.concurrency; i += 1) {
+    add(newLoop(`steps-${i}`, config.pollMs), async (client) => {
+      const r = await processRunSteps(client, { batchSize: config.batchSize, locker: `${id}-steps-${i}` });
+      if (!r.ok) throw new Error(`${r.error}: ${r.detail}`);
+      return r.processed;
+    });
+
+    add(newLoop(`outbox-${i}`, config.pollMs), async (client) => {
+      const r = await processOutbox(client, { batchSize: config.batchSize, locker: `${id}-outbox-${i}` });
+      if (!r.ok) throw new Error(`${r.error}: ${r.detail}`);
+      return r.processed;
+    });
+  }
+
+  // El scanner no "vacía" una cola: siempre espera su intervalo
+  add(newLoop('stage-idle', config.idleScanMs), async (client) => {
+    await scanIdleLeads(client);
+    return 0;
+  });
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    console.log(`[worker] ${signal}: stopping`);
+    void stopWorker().finally(() => process.exit(0));
+  };
+  process.once('SIGTERM', onSignal);
+  process.once('SIGINT', onSignal);
+
+  console.log(`[worker] started ${id}`, config);
+  return rt.state;
+}
+
+/** Deja de reclamar y espera a los ciclos en curso (hasta config.shutdownMs). */
+export async function stopWorker(): Promise<void> {
+  const rt = getRuntime();
+  if (!rt) return;
+
+  if (!rt.state.stoppingAt) rt.state.stoppingAt = new Date().toISOString();
+  for (const wake of Array.from(rt.wakers)) wake();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<'timeout'>((resolve) => {
+    timer = setTimeout(() => resolve('timeout'), rt.state.config.shutdownMs);
+  });
+
+  const r = await Promise.race([Promise.allSettled(rt.loops).then(() => 'done' as const), timedOut]);
+  clearTimeout(timer);
+
+  if (r === 'timeout') {
+    const busy = rt.state.loops.filter((l) => l.busySince).map((l) => l.name);
+    console.error('[worker] shutdown timeout, abandoning', busy.join(', '));
+  } else {
+    console.log('[worker] stopped');
+  }
+
+  setRuntime(null);
+}
+
+export function getWorkerState(): WorkerState | null {
+  return getRuntime()?.state ?? null;
+}
+
+/**
+ * Sano si está corriendo y ningún bucle está atascado:
+ * - un ciclo en curso más largo que el lease (sus filas ya se consideran abandonadas)
+ * - sin ciclos terminados desde hace más de su intervalo (+ margen)
+ * - el último ciclo falló (la cola no avanza)
+ */
+export function workerHealth(now: Date = new Date()): WorkerHealth {
+  const state = getWorkerState();
+  if (!state) return { ok: false, status: 'not_running', problems: ['not_running'] };
+  if (state.stoppingAt) return { ok: false, status: 'stopping', problems: ['stopping'] };
+
+  const t = now.getTime();
+  const lease = leaseTimeoutMs();
+  const problems: string[] = [];
+
+  for (const l of state.loops) {
+    if (l.busySince) {
+      if (t - Date.parse(l.busySince) > lease) problems.push(`${l.name}: stuck`);
+      continue;
+    }
+
+    const since = Date.parse(l.lastCycleAt ?? state.startedAt);
+    if (t - since > l.intervalMs + MAX_BACKOFF_MS) problems.push(`${l.name}: stalled`);
+    if (l.lastError) problems.push(`${l.name}: ${l.lastError}`);
+  }
+
+  return { ok: problems.length === 0, status: 'running', problems };
+}
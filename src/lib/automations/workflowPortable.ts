@@ -0,0 +1,406 @@
+// src/lib/automations/workflowPortable.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadDraftGraph } from '@/lib/automations/workflowVersions';
+import { parseWorkflowSettings, type ExitGoal, type WorkflowSettings } from '@/lib/automations/workflowSettings';
+
+/**
+ * Formato portable de un workflow (exportar a JSON / importar en otro workspace / plantillas).
+ *
+ * El grafo viaja tal cual (configs y posiciones), pero los ids de stages y pipelines no sirven en otro
+ * workspace: `refs` guarda el nombre de cada uno para emparejarlos al importar (pipeline + stage por nombre),
+ * y el usuario puede corregir el emparejamiento o renombrar etiquetas. Nodos y edges reciben ids nuevos.
+ *
+ * Referencias que se remapean:
+ * - trigger: toStageId (lead.stage_changed), stageId (lead.stage_idle), label (eventos de etiquetas)
+ * - acción: pipelineId/stageId (lead.move_stage), label (lead.add_label / lead.remove_label),
+ *   miembros userIds (action.notify_team) y assigneeId (action.create_task)
+ * - condición: valores comparados con stage/stage_id y con labels
+ * - ajustes: objetivos de salida de stage y de etiqueta
+ */
+
+export const PORTABLE_FORMAT = 'kalue.workflow';
+export const PORTABLE_VERSION = 1;
+
+export type PortableNode = { id: string; type: string; name: string; config: Record<string, unknown>; ui: Record<string, unknown> };
+export type PortableEdge = { from: string; to: string; conditionKey: string | null };
+export type PortablePipelineRef = { id: string; name: string | null };
+export type PortableStageRef = { id: string; pipelineName: string | null; name: string | null };
+
+export type PortableWorkflow = {
+  format: typeof PORTABLE_FORMAT;
+  version: typeof PORTABLE_VERSION;
+  name: string;
+  settings: WorkflowSettings;
+  nodes: PortableNode[];
+  edges: PortableEdge[];
+  refs: { pipelines: PortablePipelineRef[]; stages: PortableStageRef[]; labels: string[] };
+};
+
+/** Emparejamiento propuesto para una referencia (null = sin equivalente en el workspace destino). */
+export type StageMatch = PortableStageRef & { suggestedId: string | null };
+export type PipelineMatch = PortablePipelineRef & { suggestedId: string | null };
+
+export type TargetPipeline = { id: string; name: string; stages: Array<{ id: string; name: string }> };
+
+export type ImportPreview = { stages: StageMatch[]; pipelines: PipelineMatch[]; labels: string[]; available: TargetPipeline[] };
+
+export type ImportMaps = {
+  stageMap?: Record<string, string>; // id origen → id destino ('' = dejar vacío)
+  pipelineMap?: Record<string, string>;
+  labelMap?: Record<string, string>; // etiqueta origen → etiqueta destino
+};
+
+export type ImportResult = { workflowId: string; unresolved: { stages: string[]; pipelines: string[]; members: string[] } };
+
+type RefMapper = {
+  stage: (id: string) => string;
+  pipeline: (id: string) => string;
+  label: (label: string) => string;
+  member: (userId: string) => string;
+  /** Pipeline al que pertenece un stage ya mapeado (move_stage debe quedar coherente). */
+  stagePipeline?: (stageId: string) => string | null;
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function str(v: unknown): string {
+  return typeof v === 'string' ? v.trim() : '';
+}
+
+function strOrNull(v: unknown): string | null {
+  return str(v) || null;
+}
+
+function norm(v: string | null): string {
+  return (v ?? '').trim().toLowerCase();
+}
+
+const STAGE_FIELDS = new Set(['stage', 'stage_id']);
+const LABEL_FIELDS = new Set(['labels', 'lead.labels']);
+const LABEL_EVENTS = new Set(['lead.label_added', 'lead.label_removed']);
+
+/** Aplica el mapper a las referencias de una config (devuelve copia; claves desconocidas se conservan). */
+function mapConfigRefs(type: string, config: Record<string, unknown>, m: RefMapper): Record<string, unknown> {
+  const c = { ...config };
+
+  if (type === 'trigger') {
+    const event = str(c.event) || 'lead.stage_changed';
+    if (event === 'lead.stage_changed' && str(c.toStageId)) c.toStageId = m.stage(str(c.toStageId));
+    if (event === 'lead.stage_idle' && str(c.stageId)) c.stageId = m.stage(str(c.stageId));
+    if (LABEL_EVENTS.has(event) && str(c.label)) c.label = m.label(str(c.label));
+    return c;
+  }
+
+  if (type === 'action') {
+    if ((c.action === 'lead.add_label' || c.action === 'lead.remove_label') && str(c.label)) c.label = m.label(str(c.label));
+    if (c.action === 'lead.move_stage') {
+      const stageId = str(c.stageId) ? m.stage(str(c.stageId)) : '';
+      const pipelineId = str(c.pipelineId) ? m.pipeline(str(c.pipelineId)) : '';
+      c.stageId = stageId;
+      c.pipelineId = (stageId && m.stagePipeline?.(stageId)) || pipelineId;
+    }
+    if (c.action === 'action.notify_team' && Array.isArray(c.userIds)) {
+      c.userIds = c.userIds.map((id) => m.member(str(id))).filter(Boolean);
+    }
+    if (c.action === 'action.create_task' && str(c.assigneeId)) c.assigneeId = m.member(str(c.assigneeId));
+    return c;
+  }
+
+  if (type === 'condition') {
+    const mapValue = (field: string, value: unknown): unknown => {
+      if (!str(value)) return value;
+      if (STAGE_FIELDS.has(field.trim())) return m.stage(str(value));
+      if (LABEL_FIELDS.has(field.trim())) return m.label(str(value));
+      return value;
+    };
+
+    if (c.mode === 'switch' && Array.isArray(c.cases)) {
+      const field = str(c.field);
+      c.cases = c.cases.map((x) => (isRecord(x) ? { ...x, value: mapValue(field, x.value) } : x));
+    } else if (Array.isArray(c.rules)) {
+      c.rules = c.rules.map((x) => (isRecord(x) ? { ...x, value: mapValue(str(x.field), x.value) } : x));
+    }
+    return c;
+  }
+
+  return c;
+}
+
+function mapGoalRefs(g: ExitGoal, m: RefMapper): ExitGoal {
+  if (g.kind === 'stage') return { kind: 'stage', stageId: m.stage(g.stageId) };
+  if (g.kind === 'label') return { kind: 'label', label: m.label(g.label) };
+  return g;
+}
+
+/** Ids de stages/pipelines y etiquetas a los que apunta el workflow. */
+function collectRefs(nodes: PortableNode[], settings: WorkflowSettings): { stageIds: string[]; pipelineIds: string[]; labels: string[] } {
+  const stageIds = new Set<string>();
+  const pipelineIds = new Set<string>();
+  const labels = new Map<string, string>();
+
+  const m: RefMapper = {
+    stage: (id) => (stageIds.add(id), id),
+    pipeline: (id) => (pipelineIds.add(id), id),
+    label: (l) => {
+      if (!labels.has(l.toLowerCase())) labels.set(l.toLowerCase(), l);
+      return l;
+    },
+    member: (id) => id,
+  };
+
+  for (const n of nodes) mapConfigRefs(n.type, n.config, m);
+  for (const g of settings.exitGoals) mapGoalRefs(g, m);
+
+  return { stageIds: [...stageIds], pipelineIds: [...pipelineIds], labels: [...labels.values()] };
+}
+
+export function parsePortableWorkflow(raw: unknown): PortableWorkflow | null {
+  if (!isRecord(raw) || raw.format !== PORTABLE_FORMAT || raw.version !== PORTABLE_VERSION) return null;
+
+  const nodes: PortableNode[] = [];
+  for (const n of Array.isArray(raw.nodes) ? raw.nodes : []) {
+    if (!isRecord(n) || !str(n.id) || !str(n.type)) return null;
+    nodes.push({
+      id: str(n.id),
+      type: str(n.type),
+      name: typeof n.name === 'string' ? n.name : '',
+      config: isRecord(n.config) ? n.config : {},
+      ui: isRecord(n.ui) ? n.ui : {},
+    });
+  }
+
+  const ids = new Set(nodes.map((n) => n.id));
+  if (ids.size !== nodes.length) return null;
+
+  const edges: PortableEdge[] = [];
+  for (const e of Array.isArray(raw.edges) ? raw.edges : []) {
+    if (!isRecord(e) || !ids.has(str(e.from)) || !ids.has(str(e.to))) return null;
+    edges.push({ from: str(e.from), to: str(e.to), conditionKey: strOrNull(e.conditionKey) });
+  }
+
+  const refs = isRecord(raw.refs) ? raw.refs : {};
+  const pipelines = (Array.isArray(refs.pipelines) ? refs.pipelines : [])
+    .filter(isRecord)
+    .map((p) => ({ id: str(p.id), name: strOrNull(p.name) }))
+    .filter((p) => p.id);
+  const stages = (Array.isArray(refs.stages) ? refs.stages : [])
+    .filter(isRecord)
+    .map((s) => ({ id: str(s.id), pipelineName: strOrNull(s.pipelineName), name: strOrNull(s.name) }))
+    .filter((s) => s.id);
+  const labels = (Array.isArray(refs.labels) ? refs.labels : []).map(str).filter(Boolean);
+
+  return {
+    format: PORTABLE_FORMAT,
+    version: PORTABLE_VERSION,
+    name: str(raw.name) || 'Workflow importado',
+    settings: parseWorkflowSettings(raw.settings),
+    nodes,
+    edges,
+    refs: { pipelines, stages, labels },
+  };
+}
+
+/** null = el workflow no existe en este workspace. */
+export async function exportWorkflow(admin: SupabaseClient, args: { workspaceId: string; workflowId: string }): Promise<PortableWorkflow | null> {
+  const { data: wf, error } = await admin
+    .from('workflows')
+    .select('id, name, settings')
+    .eq('id', args.workflowId)
+    .eq('workspace_id', args.workspaceId)
+    .maybeSingle();
+
+  if (error) throw new Error(`workflow_fetch_failed: ${error.message}`);
+  if (!isRecord(wf)) return null;
+
+  const graph = await loadDraftGraph(admin, args.workflowId);
+  const settings = parseWorkflowSettings(wf.settings);
+
+  const nodes: PortableNode[] = graph.nodes.map((n) => ({
+    id: n.id,
+    type: n.type,
+    name: n.name,
+    config: isRecord(n.config) ? n.config : {},
+    ui: isRecord(n.ui) ? n.ui : {},
+  }));
+  const edges: PortableEdge[] = graph.edges.map((e) => ({ from: e.from_node_id, to: e.to_node_id, conditionKey: e.condition_key }));
+
+  const used = collectRefs(nodes, settings);
+
+  const { data: stageRows, error: sErr } = used.stageIds.length
+    ? await admin.from('pipeline_stages').select('id, name, pipeline_id').in('id', used.stageIds)
+    : { data: [], error: null };
+  if (sErr) throw new Error(`stages_fetch_failed: ${sErr.message}`);
+
+  const stageInfo = new Map((stageRows ?? []).filter(isRecord).map((s) => [str(s.id), { name: strOrNull(s.name), pipelineId: str(s.pipeline_id) }]));
+  const pipelineIds = Array.from(new Set([...used.pipelineIds, ...[...stageInfo.values()].map((s) => s.pipelineId).filter(Boolean)]));
+
+  const { data: pipelineRows, error: pErr } = pipelineIds.length
+    ? await admin.from('pipelines').select('id, name').eq('workspace_id', args.workspaceId).in('id', pipelineIds)
+    : { data: [], error: null };
+  if (pErr) throw new Error(`pipelines_fetch_failed: ${pErr.message}`);
+
+  const pipelineName = new Map((pipelineRows ?? []).filter(isRecord).map((p) => [str(p.id), strOrNull(p.name)]));
+
+  return {
+    format: PORTABLE_FORMAT,
+    version: PORTABLE_VERSION,
+    name: str(wf.name) || 'Workflow',
+    settings,
+    nodes,
+    edges,
+    refs: {
+      pipelines: used.pipelineIds.map((id) => ({ id, name: pipelineName.get(id) ?? null })),
+      stages: used.stageIds.map((id) => {
+        const s = stageInfo.get(id);
+        return { id, name: s?.name ?? null, pipelineName: s ? (pipelineName.get(s.pipelineId) ?? null) : null };
+      }),
+      labels: used.labels,
+    },
+  };
+}
+
+async function loadTargetPipelines(admin: SupabaseClient, workspaceId: string): Promise<TargetPipeline[]> {
+  const { data: pipelines, error } = await admin.from('pipelines').select('id, name').eq('workspace_id', workspaceId).order('created_at', { ascending: true });
+  if (error) throw new Error(`pipelines_fetch_failed: ${error.message}`);
+
+  const out: TargetPipeline[] = (pipelines ?? []).filter(isRecord).map((p) => ({ id: str(p.id), name: str(p.name), stages: [] }));
+  if (out.length === 0) return out;
+
+  const { data: stages, error: sErr } = await admin
+    .from('pipeline_stages')
+    .select('id, pipeline_id, name, sort_order')
+    .in('pipeline_id', out.map((p) => p.id))
+    .order('sort_order', { ascending: true });
+  if (sErr) throw new Error(`stages_fetch_failed: ${sErr.message}`);
+
+  const byId = new Map(out.map((p) => [p.id, p]));
+  for (const s of (stages ?? []).filter(isRecord)) byId.get(str(s.pipeline_id))?.stages.push({ id: str(s.id), name: str(s.name) });
+  return out;
+}
+
+/** Stage por pipeline + nombre; si no, por nombre de stage cuando solo hay uno con ese nombre. */
+function matchStage(ref: PortableStageRef, target: TargetPipeline[]): string | null {
+  if (!ref.name) return null;
+  const byPipeline = target.find((p) => norm(p.name) === norm(ref.pipelineName))?.stages.find((s) => norm(s.name) === norm(ref.name));
+  if (byPipeline) return byPipeline.id;
+
+  const candidates = target.flatMap((p) => p.stages).filter((s) => norm(s.name) === norm(ref.name));
+  return candidates.length === 1 ? candidates[0].id : null;
+}
+
+export async function previewImport(admin: SupabaseClient, args: { workspaceId: string; workflow: PortableWorkflow }): Promise<ImportPreview> {
+  const available = await loadTargetPipelines(admin, args.workspaceId);
+  const { refs } = args.workflow;
+
+  return {
+    stages: refs.stages.map((s) => ({ ...s, suggestedId: matchStage(s, available) })),
+    pipelines: refs.pipelines.map((p) => ({ ...p, suggestedId: available.find((t) => norm(t.name) === norm(p.name))?.id ?? null })),
+    labels: refs.labels,
+    available,
+  };
+}
+
+/**
+ * Crea un workflow nuevo (borrador) a partir del formato portable. Las referencias sin emparejar quedan
+ * vacías: el editor las marca como error de validación hasta que se elijan.
+ */
+export async function importWorkflow(
+  admin: SupabaseClient,
+  args: { workspaceId: string; workflow: PortableWorkflow; name?: string; maps?: ImportMaps }
+): Promise<ImportResult> {
+  const preview = await previewImport(admin, { workspaceId: args.workspaceId, workflow: args.workflow });
+  const maps = args.maps ?? {};
+
+  const stagePipeline = new Map(preview.available.flatMap((p) => p.stages.map((s) => [s.id, p.id] as const)));
+  const pipelineIds = new Set(preview.available.map((p) => p.id));
+  const suggestedStage = new Map(preview.stages.map((s) => [s.id, s.suggestedId]));
+  const suggestedPipeline = new Map(preview.pipelines.map((p) => [p.id, p.suggestedId]));
+  const labelMap = new Map(Object.entries(maps.labelMap ?? {}).map(([k, v]) => [k.toLowerCase(), v.trim()]));
+
+  const unresolvedStages = new Set<string>();
+  const unresolvedPipelines = new Set<string>();
+  const unresolvedMembers = new Set<string>();
+
+  // Los miembros no se emparejan: solo se conservan si también lo son del workspace destino
+  // (un notify_team que se queda sin ninguno avisa a todo el equipo; se informa en unresolved.members)
+  const { data: memberRows, error: mErr } = await admin.from('workspace_members').select('user_id').eq('workspace_id', args.workspaceId);
+  if (mErr) throw new Error(`members_fetch_failed: ${mErr.message}`);
+  const memberIds = new Set((memberRows ?? []).map((r: { user_id: string }) => r.user_id));
+
+  const m: RefMapper = {
+    stage: (id) => {
+      const chosen = maps.stageMap?.[id] ?? suggestedStage.get(id) ?? (stagePipeline.has(id) ? id : null);
+      if (chosen && stagePipeline.has(chosen)) return chosen;
+      unresolvedStages.add(id);
+      return '';
+    },
+    pipeline: (id) => {
+      const chosen = maps.pipelineMap?.[id] ?? suggestedPipeline.get(id) ?? (pipelineIds.has(id) ? id : null);
+      if (chosen && pipelineIds.has(chosen)) return chosen;
+      unresolvedPipelines.add(id);
+      return '';
+    },
+    label: (l) => labelMap.get(l.toLowerCase()) || l,
+    member: (id) => {
+      if (memberIds.has(id)) return id;
+      unresolvedMembers.add(id);
+      return '';
+    },
+    stagePipeline: (stageId) => stagePipeline.get(stageId) ?? null,
+  };
+
+  const nodeIds = new Map(args.workflow.nodes.map((n) => [n.id, crypto.randomUUID()]));
+  const nodes = args.workflow.nodes.map((n) => ({
+    id: nodeIds.get(n.id) as string,
+    type: n.type,
+    name: n.name,
+    config: mapConfigRefs(n.type, n.config, m),
+    ui: n.ui,
+  }));
+
+  const settings: WorkflowSettings = {
+    enrollment: args.workflow.settings.enrollment,
+    // Un objetivo sin stage destino no tiene sentido: se descarta
+    exitGoals: args.workflow.settings.exitGoals.map((g) => mapGoalRefs(g, m)).filter((g) => g.kind !== 'stage' || g.stageId),
+  };
+
+  const { data: wf, error } = await admin
+    .from('workflows')
+    .insert({ workspace_id: args.workspaceId, name: args.name?.trim() || args.workflow.name, status: 'draft', settings })
+    .select('id')
+    .single();
+
+  if (error || !wf?.id) throw new Error(`workflow_insert_failed: ${error?.message ?? 'no_id'}`);
+  const workflowId = String(wf.id);
+
+  try {
+    if (nodes.length > 0) {
+      const { error: nErr } = await admin.from('workflow_nodes').insert(nodes.map((n) => ({ ...n, workflow_id: workflowId })));
+      if (nErr) throw new Error(`nodes_insert_failed: ${nErr.message}`);
+    }
+
+    if (args.workflow.edges.length > 0) {
+      const { error: eErr } = await admin.from('workflow_edges').insert(
+        args.workflow.edges.map((e) => ({
+          id: crypto.randomUUID(),
+          workflow_id: workflowId,
+          from_node_id: nodeIds.get(e.from),
+          to_node_id: nodeIds.get(e.to),
+          condition_key: e.conditionKey,
+        }))
+      );
+      if (eErr) throw new Error(`edges_insert_failed: ${eErr.message}`);
+    }
+  } catch (e) {
+    // Sin grafo el workflow no sirve: se borra para no dejar uno a medias
+    await admin.from('workflows').delete().eq('id', workflowId).eq('workspace_id', args.workspaceId);
+    throw e;
+  }
+
+  return {
+    workflowId,
+    unresolved: { stages: [...unresolvedStages], pipelines: [...unresolvedPipelines], members: [...unresolvedMembers] },
+  };
+}
@@ -0,0 +1,88 @@
+// src/lib/automations/workflowSettings.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Ajustes por workflow (workflows.settings jsonb). No se versionan: aplican en cuanto se guardan,
+ * también a los runs en curso.
+ *
+ * - enrollment: cuándo puede un lead volver a entrar
+ *   - always: sin límite
+ *   - once: una sola vez en la vida del workflow
+ *   - once_per_period: como mucho un run cada `periodDays` días
+ * - exitGoals: si el lead cumple cualquiera, el run termina (status 'exited') y sus steps pendientes se cancelan.
+ *   Un lead que ya cumple un objetivo tampoco entra.
+ *
+ * Columna workflows.settings jsonb null (supabase/migrations/20261019000300_workflow_automation_schema.sql)
+ */
+
+export type EnrollmentMode = 'always' | 'once' | 'once_per_period';
+
+export type EnrollmentPolicy = { mode: EnrollmentMode; periodDays: number };
+
+export type ExitGoal =
+  | { kind: 'stage_won' } // cualquier stage con is_won
+  | { kind: 'stage_lost' } // cualquier stage con is_lost
+  | { kind: 'stage'; stageId: string }
+  | { kind: 'status'; status: string }
+  | { kind: 'label'; label: string };
+
+export type WorkflowSettings = { enrollment: EnrollmentPolicy; exitGoals: ExitGoal[] };
+
+export const DEFAULT_WORKFLOW_SETTINGS: WorkflowSettings = {
+  enrollment: { mode: 'always', periodDays: 30 },
+  exitGoals: [],
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function str(v: unknown): string {
+  return typeof v === 'string' ? v.trim() : '';
+}
+
+function parseEnrollment(v: unknown): EnrollmentPolicy {
+  const e = isRecord(v) ? v : {};
+  const mode: EnrollmentMode = e.mode === 'once' || e.mode === 'once_per_period' ? e.mode : 'always';
+  const n = typeof e.periodDays === 'number' ? e.periodDays : Number(e.periodDays);
+  const periodDays = Number.isFinite(n) && n >= 1 ? Math.floor(n) : DEFAULT_WORKFLOW_SETTINGS.enrollment.periodDays;
+  return { mode, periodDays };
+}
+
+/** null = objetivo incompleto (se descarta al guardar). */
+function parseExitGoal(v: unknown): ExitGoal | null {
+  if (!isRecord(v)) return null;
+  if (v.kind === 'stage_won' || v.kind === 'stage_lost') return { kind: v.kind };
+  if (v.kind === 'stage') return str(v.stageId) ? { kind: 'stage', stageId: str(v.stageId) } : null;
+  if (v.kind === 'status') return str(v.status) ? { kind: 'status', status: str(v.status) } : null;
+  if (v.kind === 'label') return str(v.label) ? { kind: 'label', label: str(v.label) } : null;
+  return null;
+}
+
+export function parseWorkflowSettings(v: unknown): WorkflowSettings {
+  const s = isRecord(v) ? v : {};
+  const goals = Array.isArray(s.exitGoals) ? s.exitGoals.map(parseExitGoal).filter((g): g is ExitGoal => g !== null) : [];
+  return { enrollment: parseEnrollment(s.enrollment), exitGoals: goals };
+}
+
+export function describeExitGoal(g: ExitGoal): string {
+  if (g.kind === 'stage_won') return 'stage_won';
+  if (g.kind === 'stage_lost') return 'stage_lost';
+  if (g.kind === 'stage') return `stage:${g.stageId}`;
+  if (g.kind === 'status') return `status:${g.status}`;
+  return `label:${g.label}`;
+}
+
+export async function loadWorkflowSettings(admin: SupabaseClient, workflowIds: string[]): Promise<Map<string, WorkflowSettings>> {
+  const out = new Map<string, WorkflowSettings>();
+  const ids = Array.from(new Set(workflowIds.filter(Boolean)));
+  if (ids.length === 0) return out;
+
+  const { data, error } = await admin.from('workflows').select('id, settings').in('id', ids);
+  if (error) throw new Error(`workflow_settings_fetch_failed: ${error.message}`);
+
+  for (const r of (data ?? []).filter(isRecord)) {
+    if (typeof r.id === 'string') out.set(r.id, parseWorkflowSettings(r.settings));
+  }
+  return out;
+}
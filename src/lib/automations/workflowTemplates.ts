@@ -0,0 +1,172 @@
+// src/lib/automations/workflowTemplates.ts
+import type { PortableEdge, PortableNode, PortableWorkflow } from '@/lib/automations/workflowPortable';
+
+/**
+ * Plantillas de la galería de "Nuevo workflow", en el formato portable.
+ * Se crean con importWorkflow igual que un JSON importado. Sin referencias a stages ni pipelines
+ * (no existen en un workspace nuevo); las etiquetas se crean al usarse.
+ */
+
+export type WorkflowTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  workflow: PortableWorkflow;
+};
+
+const X = 80;
+const STEP_Y = 150;
+
+/** Nodos en columna, en el orden dado. */
+function column(nodes: Array<Omit<PortableNode, 'ui'>>): PortableNode[] {
+  return nodes.map((n, i) => ({ ...n, ui: { x: X, y: 80 + i * STEP_Y } }));
+}
+
+function chain(ids: string[]): PortableEdge[] {
+  return ids.slice(1).map((to, i) => ({ from: ids[i], to, conditionKey: null }));
+}
+
+function template(args: {
+  name: string;
+  nodes: PortableNode[];
+  edges: PortableEdge[];
+  settings?: PortableWorkflow['settings'];
+  labels?: string[];
+}): PortableWorkflow {
+  return {
+    format: 'kalue.workflow',
+    version: 1,
+    name: args.name,
+    settings: args.settings ?? { enrollment: { mode: 'always', periodDays: 30 }, exitGoals: [] },
+    nodes: args.nodes,
+    edges: args.edges,
+    refs: { pipelines: [], stages: [], labels: args.labels ?? [] },
+  };
+}
+
+const email = (subject: string, body: string) => ({ action: 'action.send_email', to: '{{lead.email}}', subject, body });
+const sms = (body: string) => ({ action: 'action.send_sms', to: '{{lead.phone}}', body });
+const waitDays = (amount: number) => ({ mode: 'duration', amount, unit: 'days' });
+
+const SPEED_TO_LEAD = template({
+  name: 'Speed-to-lead: SMS + email',
+  nodes: column([
+    { id: 'trigger', type: 'trigger', name: 'Nuevo lead', config: { event: 'lead.created' } },
+    {
+      id: 'sms',
+      type: 'action',
+      name: 'SMS inmediato',
+      config: sms('Hola {{lead.first_name | default:"!"}}, gracias por tu interés. Te llamamos en unos minutos. — {{workspace.name}}'),
+    },
+    {
+      id: 'email',
+      type: 'action',
+      name: 'Email de bienvenida',
+      config: email(
+        'Gracias por contactar con {{workspace.name}}',
+        'Hola {{lead.first_name | default:"de nuevo"}},\n\nHemos recibido tus datos y alguien del equipo te contactará hoy mismo.\n\nUn saludo,\n{{workspace.name}}'
+      ),
+    },
+    { id: 'label', type: 'action', name: 'Marcar contactado', config: { action: 'lead.add_label', label: 'contactado' } },
+  ]),
+  edges: chain(['trigger', 'sms', 'email', 'label']),
+  settings: { enrollment: { mode: 'once', periodDays: 30 }, exitGoals: [] },
+  labels: ['contactado'],
+});
+
+const NURTURE_7_DAYS = template({
+  name: 'Nurture de 7 días',
+  nodes: column([
+    { id: 'trigger', type: 'trigger', name: 'Nuevo lead', config: { event: 'lead.created' } },
+    {
+      id: 'e1',
+      type: 'action',
+      name: 'Día 0: bienvenida',
+      config: email('Bienvenido/a a {{workspace.name}}', 'Hola {{lead.first_name | default:""}},\n\nGracias por tu interés. Estos días te contaremos cómo trabajamos.'),
+    },
+    { id: 'w1', type: 'wait', name: 'Esperar 2 días', config: waitDays(2) },
+    {
+      id: 'e2',
+      type: 'action',
+      name: 'Día 2: caso de éxito',
+      config: email('Cómo lo consiguió uno de nuestros clientes', 'Hola {{lead.first_name | default:""}},\n\nTe contamos el caso de un cliente con una situación parecida a la tuya.'),
+    },
+    { id: 'w2', type: 'wait', name: 'Esperar 2 días', config: waitDays(2) },
+    {
+      id: 'e3',
+      type: 'action',
+      name: 'Día 4: dudas frecuentes',
+      config: email('Las preguntas que más nos hacen', 'Hola {{lead.first_name | default:""}},\n\nResolvemos las dudas más habituales antes de empezar.'),
+    },
+    { id: 'w3', type: 'wait', name: 'Esperar 3 días', config: waitDays(3) },
+    {
+      id: 'e4',
+      type: 'action',
+      name: 'Día 7: llamada a la acción',
+      config: email('¿Hablamos esta semana?', 'Hola {{lead.first_name | default:""}},\n\n¿Te viene bien una llamada de 15 minutos? Responde a este email y lo agendamos.'),
+    },
+    { id: 'done', type: 'action', name: 'Marcar nurture completado', config: { action: 'lead.add_label', label: 'nurture_completado' } },
+  ]),
+  edges: chain(['trigger', 'e1', 'w1', 'e2', 'w2', 'e3', 'w3', 'e4', 'done']),
+  // Si el lead se gana o se pierde a mitad, deja de recibir emails
+  settings: { enrollment: { mode: 'once', periodDays: 30 }, exitGoals: [{ kind: 'stage_won' }, { kind: 'stage_lost' }] },
+  labels: ['nurture_completado'],
+});
+
+const WELCOME_BY_CHANNEL = template({
+  name: 'Bienvenida por SMS o email',
+  nodes: [
+    { id: 'trigger', type: 'trigger', name: 'Nuevo lead', config: { event: 'lead.created' }, ui: { x: 240, y: 80 } },
+    {
+      id: 'has_phone',
+      type: 'condition',
+      name: '¿Tiene teléfono?',
+      config: { mode: 'if', match: 'all', rules: [{ field: 'lead.phone', operator: 'is_not_empty', value: '' }] },
+      ui: { x: 240, y: 230 },
+    },
+    {
+      id: 'sms',
+      type: 'action',
+      name: 'SMS de bienvenida',
+      config: sms('Hola {{lead.first_name | default:""}}, gracias por escribirnos. — {{workspace.name}}'),
+      ui: { x: 80, y: 400 },
+    },
+    {
+      id: 'email',
+      type: 'action',
+      name: 'Email de bienvenida',
+      config: email('Gracias por contactar con {{workspace.name}}', 'Hola {{lead.first_name | default:""}},\n\nGracias por escribirnos.'),
+      ui: { x: 400, y: 400 },
+    },
+  ],
+  edges: [
+    { from: 'trigger', to: 'has_phone', conditionKey: null },
+    { from: 'has_phone', to: 'sms', conditionKey: 'true' },
+    { from: 'has_phone', to: 'email', conditionKey: 'false' },
+  ],
+});
+
+export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
+  {
+    id: 'speed_to_lead',
+    name: 'Speed-to-lead: SMS + email',
+    description: 'Responde al instante a cada lead nuevo con un SMS y un email, y lo etiqueta como contactado.',
+    workflow: SPEED_TO_LEAD,
+  },
+  {
+    id: 'nurture_7_days',
+    name: 'Nurture de 7 días',
+    description: 'Cuatro emails en una semana. Se corta si el lead llega a un stage ganado o perdido.',
+    workflow: NURTURE_7_DAYS,
+  },
+  {
+    id: 'welcome_by_channel',
+    name: 'Bienvenida por SMS o email',
+    description: 'SMS si el lead dejó teléfono; si no, email.',
+    workflow: WELCOME_BY_CHANNEL,
+  },
+];
+
+export function findWorkflowTemplate(id: string): WorkflowTemplate | null {
+  return WORKFLOW_TEMPLATES.find((t) => t.id === id) ?? null;
+}
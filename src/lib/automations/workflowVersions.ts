@@ -0,0 +1,380 @@
+// src/lib/automations/workflowVersions.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Versiones publicadas de un workflow.
+ *
+ * workflow_nodes / workflow_edges son el borrador que edita el builder. Al publicar (set-status → active)
+ * se copia el grafo a una versión inmutable y los runs se ejecutan contra esa versión, así que editar
+ * el borrador no afecta a runs en curso.
+ *
+ * Tablas/columnas (supabase/migrations/20261019000300_workflow_automation_schema.sql):
+ * - workflow_versions (id, workflow_id, workspace_id, version int, graph jsonb, created_by, created_at)
+ *   unique (workflow_id, version)
+ * - workflows.published_version_id uuid null
+ * - workflow_runs.version_id uuid null (null = run anterior al versionado → se usa el borrador)
+ * - workflow_run_steps.node_id sin FK a workflow_nodes (apunta a nodos del snapshot)
+ */
+
+export type GraphNode = { id: string; type: string; name: string; config: unknown; ui: unknown };
+export type GraphEdge = { id: string; from_node_id: string; to_node_id: string; condition_key: string | null };
+export type WorkflowGraph = { nodes: GraphNode[]; edges: GraphEdge[] };
+
+export type NextEdge = { to: string; conditionKey: string | null };
+export type RuntimeGraph = { nodes: Map<string, GraphNode>; next: Map<string, NextEdge[]> };
+
+export type GraphRef = { workflowId: string; versionId: string | null };
+
+export type VersionSummary = {
+  id: string;
+  version: number;
+  createdAt: string | null;
+  createdBy: string | null;
+  nodeCount: number;
+  edgeCount: number;
+  published: boolean;
+};
+
+export type GraphDiff = {
+  nodes: { added: GraphNode[]; removed: GraphNode[]; changed: Array<{ id: string; name: string; fields: string[] }> };
+  edges: { added: GraphEdge[]; removed: GraphEdge[] };
+};
+
+export const DRAFT = 'draft';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
+
+function s(v: unknown): string | null {
+  return typeof v === 'string' && v ? v : null;
+}
+
+function parseNode(v: unknown): GraphNode | null {
+  if (!isRecord(v)) return null;
+  const id = s(v.id);
+  const type = s(v.type);
+  if (!id || !type) return null;
+  return { id, type, name: s(v.name) ?? '', config: v.config ?? {}, ui: v.ui ?? {} };
+}
+
+function parseEdge(v: unknown): GraphEdge | null {
+  if (!isRecord(v)) return null;
+  const id = s(v.id);
+  const from = s(v.from_node_id);
+  const to = s(v.to_node_id);
+  if (!id || !from || !to) return null;
+  return { id, from_node_id: from, to_node_id: to, condition_key: s(v.condition_key) };
+}
+
+export function parseGraph(raw: unknown): WorkflowGraph {
+  const g = isRecord(raw) ? raw : {};
+  const nodes = (Array.isArray(g.nodes) ? g.nodes : []).map(parseNode).filter((n): n is GraphNode => n !== null);
+  const edges = (Array.isArray(g.edges) ? g.edges : []).map(parseEdge).filter((e): e is GraphEdge => e !== null);
+  return { nodes, edges };
+}
+
+export function toRuntimeGraph(g: WorkflowGraph): RuntimeGraph {
+  const nodes = new Map(g.nodes.map((n) => [n.id, n]));
+  const next = new Map<string, NextEdge[]>();
+  for (const e of g.edges) {
+    const arr = next.get(e.from_node_id) ?? [];
+    arr.push({ to: e.to_node_id, conditionKey: e.condition_key });
+    next.set(e.from_node_id, arr);
+  }
+  return { nodes, next };
+}
+
+export function graphKey(ref: GraphRef): string {
+  return ref.versionId ?? `${DRAFT}:${ref.workflowId}`;
+}
+
+async function loadDraftGraphs(admin: SupabaseClient, workflowIds: string[]): Promise<Map<string, WorkflowGraph>> {
+  const out = new Map<string, WorkflowGraph>(workflowIds.map((id) => [id, { nodes: [], edges: [] }]));
+  if (workflowIds.length === 0) return out;
+
+  const [nodesRes, edgesRes] = await Promise.all([
+    admin.from('workflow_nodes').select('id, workflow_id, type, name, config, ui').in('workflow_id', workflowIds).order('created_at', { ascending: true }),
+    admin
+      .from('workflow_edges')
+      .select('id, workflow_id, from_node_id, to_node_id, condition_key')
+      .in('workflow_id', workflowIds)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (nodesRes.error) throw new Error(`nodes_fetch_failed: ${nodesRes.error.message}`);
+  if (edgesRes.error) throw new Error(`edges_fetch_failed: ${edgesRes.error.message}`);
+
+  for (const r of (nodesRes.data ?? []) as unknown[]) {
+    const n = parseNode(r);
+    const g = isRecord(r) ? out.get(String(r.workflow_id)) : undefined;
+    if (n && g) g.nodes.push(n);
+  }
+  for (const r of (edgesRes.data ?? []) as unknown[]) {
+    const e = parseEdge(r);
+    const g = isRecord(r) ? out.get(String(r.workflow_id)) : undefined;
+    if (e && g) g.edges.push(e);
+  }
+
+  return out;
+}
+
+export async function loadDraftGraph(admin: SupabaseClient, workflowId: string): Promise<WorkflowGraph> {
+  const m = await loadDraftGraphs(admin, [workflowId]);
+  return m.get(workflowId) ?? { nodes: [], edges: [] };
+}
+
+/** Grafos para ejecutar, indexados por graphKey(ref). */
+export async function loadRunGraphs(admin: SupabaseClient, refs: GraphRef[]): Promise<Map<string, RuntimeGraph>> {
+  const out = new Map<string, RuntimeGraph>();
+
+  const versionIds = Array.from(new Set(refs.map((r) => r.versionId).filter((x): x is string => Boolean(x))));
+  const draftIds = Array.from(new Set(refs.filter((r) => !r.versionId).map((r) => r.workflowId)));
+
+  if (versionIds.length > 0) {
+    const { data, error } = await admin.from('workflow_versions').select('id, graph').in('id', versionIds);
+    if (error) throw new Error(`versions_fetch_failed: ${error.message}`);
+
+    for (const r of (data ?? []) as unknown[]) {
+      if (!isRecord(r)) continue;
+      out.set(String(r.id), toRuntimeGraph(parseGraph(r.graph)));
+    }
+  }
+
+  const drafts = await loadDraftGraphs(admin, draftIds);
+  for (const [workflowId, g] of drafts) out.set(graphKey({ workflowId, versionId: null }), toRuntimeGraph(g));
+
+  return out;
+}
+
+/** Serialización estable para comparar grafos (orden de claves y de arrays independiente). */
+function stable(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stable).join(',')}]`;
+  if (isRecord(v)) {
+    return `{${Object.keys(v)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stable(v[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(v) ?? 'null';
+}
+
+function canonicalGraph(g: WorkflowGraph): string {
+  // ui (posición en el canvas) no cambia la ejecución: no cuenta como cambio de versión
+  const nodes = [...g.nodes].sort((a, b) => a.id.localeCompare(b.id)).map((n) => ({ id: n.id, type: n.type, name: n.name, config: n.config }));
+  const edges = [...g.edges]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((e) => ({ from: e.from_node_id, to: e.to_node_id, key: e.condition_key }));
+  return stable({ nodes, edges });
+}
+
+async function latestVersion(admin: SupabaseClient, workflowId: string): Promise<{ id: string; version: number; graph: WorkflowGraph } | null> {
+  const { data, error } = await admin
+    .from('workflow_versions')
+    .select('id, version, graph')
+    .eq('workflow_id', workflowId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`versions_fetch_failed: ${error.message}`);
+  if (!isRecord(data)) return null;
+  return { id: String(data.id), version: Number(data.version) || 0, graph: parseGraph(data.graph) };
+}
+
+/**
+ * Congela el borrador como nueva versión y la marca como publicada.
+ * Si el borrador no cambió desde la última versión se reutiliza (no se crean versiones vacías).
+ * Con `status`, el estado se escribe en el mismo update que published_version_id (activar = publicar,
+ * nunca queda un workflow activo apuntando a otra versión). Reintentar es seguro.
+ */
+export async function publishVersion(
+  admin: SupabaseClient,
+  args: { workspaceId: string; workflowId: string; userId: string | null; status?: string }
+): Promise<{ versionId: string; version: number; reused: boolean }> {
+  const draft = await loadDraftGraph(admin, args.workflowId);
+  const last = await latestVersion(admin, args.workflowId);
+
+  let result: { versionId: string; version: number; reused: boolean };
+
+  if (last && canonicalGraph(last.graph) === canonicalGraph(draft)) {
+    result = { versionId: last.id, version: last.version, reused: true };
+  } else {
+    const version = (last?.version ?? 0) + 1;
+    const { data, error } = await admin
+      .from('workflow_versions')
+      .insert({
+        workflow_id: args.workflowId,
+        workspace_id: args.workspaceId,
+        version,
+        graph: draft,
+        created_by: args.userId,
+      })
+      .select('id')
+      .single();
+
+    if (error || !data?.id) throw new Error(`version_insert_failed: ${error?.message ?? 'no_id'}`);
+    result = { versionId: String(data.id), version, reused: false };
+  }
+
+  const { error: upErr } = await admin
+    .from('workflows')
+    .update({
+      published_version_id: result.versionId,
+      ...(args.status ? { status: args.status } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', args.workflowId)
+    .eq('workspace_id', args.workspaceId);
+
+  if (upErr) throw new Error(`workflow_update_failed: ${upErr.message}`);
+  return result;
+}
+
+export async function listVersions(admin: SupabaseClient, workspaceId: string, workflowId: string): Promise<VersionSummary[]> {
+  const [wfRes, vRes] = await Promise.all([
+    admin.from('workflows').select('published_version_id').eq('id', workflowId).eq('workspace_id', workspaceId).maybeSingle(),
+    admin
+      .from('workflow_versions')
+      .select('id, version, graph, created_by, created_at')
+      .eq('workflow_id', workflowId)
+      .eq('workspace_id', workspaceId)
+      .order('version', { ascending: false }),
+  ]);
+
+  if (wfRes.error) throw new Error(`workflow_fetch_failed: ${wfRes.error.message}`);
+  if (vRes.error) throw new Error(`versions_fetch_failed: ${vRes.error.message}`);
+
+  const publishedId = isRecord(wfRes.data) ? s(wfRes.data.published_version_id) : null;
+
+  return (vRes.data ?? []).filter(isRecord).map((r) => {
+    const g = parseGraph(r.graph);
+    return {
+      id: String(r.id),
+      version: Number(r.version) || 0,
+      createdAt: s(r.created_at),
+      createdBy: s(r.created_by),
+      nodeCount: g.nodes.length,
+      edgeCount: g.edges.length,
+      published: String(r.id) === publishedId,
+    };
+  });
+}
+
+/** `versionId` puede ser DRAFT para el borrador actual. null = no existe en este workspace. */
+export async function getGraph(
+  admin: SupabaseClient,
+  workspaceId: string,
+  workflowId: string,
+  versionId: string
+): Promise<WorkflowGraph | null> {
+  if (versionId === DRAFT) {
+    const { data, error } = await admin.from('workflows').select('id').eq('id', workflowId).eq('workspace_id', workspaceId).maybeSingle();
+    if (error) throw new Error(`workflow_fetch_failed: ${error.message}`);
+    return data ? loadDraftGraph(admin, workflowId) : null;
+  }
+
+  const { data, error } = await admin
+    .from('workflow_versions')
+    .select('graph')
+    .eq('id', versionId)
+    .eq('workflow_id', workflowId)
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (error) throw new Error(`version_fetch_failed: ${error.message}`);
+  return isRecord(data) ? parseGraph(data.graph) : null;
+}
+
+export function diffGraphs(from: WorkflowGraph, to: WorkflowGraph): GraphDiff {
+  const fromNodes = new Map(from.nodes.map((n) => [n.id, n]));
+  const toNodes = new Map(to.nodes.map((n) => [n.id, n]));
+
+  const changed: GraphDiff['nodes']['changed'] = [];
+  for (const n of to.nodes) {
+    const prev = fromNodes.get(n.id);
+    if (!prev) continue;
+    const fields = (['name', 'type', 'config'] as const).filter((f) => stable(prev[f]) !== stable(n[f]));
+    if (fields.length > 0) changed.push({ id: n.id, name: n.name, fields: [...fields] });
+  }
+
+  // Un edge es el mismo si une los mismos nodos por la misma rama (el id se regenera al reconectar)
+  const edgeSig = (e: GraphEdge) => `${e.from_node_id}>${e.to_node_id}#${e.condition_key ?? ''}`;
+  const fromEdges = new Set(from.edges.map(edgeSig));
+  const toEdges = new Set(to.edges.map(edgeSig));
+
+  return {
+    nodes: {
+      added: to.nodes.filter((n) => !fromNodes.has(n.id)),
+      removed: from.nodes.filter((n) => !toNodes.has(n.id)),
+      changed,
+    },
+    edges: {
+      added: to.edges.filter((e) => !fromEdges.has(edgeSig(e))),
+      removed: from.edges.filter((e) => !toEdges.has(edgeSig(e))),
+    },
+  };
+}
+
+/**
+ * Rollback: el borrador pasa a ser el grafo de la versión y esa versión queda publicada
+ * (los runs nuevos la usan ya; los que están en curso siguen con la suya).
+ */
+export async function rollbackToVersion(
+  admin: SupabaseClient,
+  args: { workspaceId: string; workflowId: string; versionId: string }
+): Promise<{ version: number } | null> {
+  const { data, error } = await admin
+    .from('workflow_versions')
+    .select('id, version, graph')
+    .eq('id', args.versionId)
+    .eq('workflow_id', args.workflowId)
+    .eq('workspace_id', args.workspaceId)
+    .maybeSingle();
+
+  if (error) throw new Error(`version_fetch_failed: ${error.message}`);
+  if (!isRecord(data)) return null;
+
+  const graph = parseGraph(data.graph);
+  const keepIds = graph.nodes.map((n) => n.id);
+
+  // 1) nodos: fuera los que no están en la versión, upsert del resto
+  let del = admin.from('workflow_nodes').delete().eq('workflow_id', args.workflowId);
+  if (keepIds.length > 0) del = del.not('id', 'in', `(${keepIds.join(',')})`);
+  const { error: delErr } = await del;
+  if (delErr) throw new Error(`nodes_delete_failed: ${delErr.message}`);
+
+  if (graph.nodes.length > 0) {
+    const { error: upErr } = await admin.from('workflow_nodes').upsert(
+      graph.nodes.map((n) => ({ id: n.id, workflow_id: args.workflowId, type: n.type, name: n.name, config: n.config, ui: n.ui })),
+      { onConflict: 'id' }
+    );
+    if (upErr) throw new Error(`nodes_upsert_failed: ${upErr.message}`);
+  }
+
+  // 2) edges: mismo reemplazo completo que upsert-graph
+  const { error: eDelErr } = await admin.from('workflow_edges').delete().eq('workflow_id', args.workflowId);
+  if (eDelErr) throw new Error(`edges_delete_failed: ${eDelErr.message}`);
+
+  if (graph.edges.length > 0) {
+    const { error: eInsErr } = await admin.from('workflow_edges').insert(
+      graph.edges.map((e) => ({
+        id: e.id,
+        workflow_id: args.workflowId,
+        from_node_id: e.from_node_id,
+        to_node_id: e.to_node_id,
+        condition_key: e.condition_key,
+      }))
+    );
+    if (eInsErr) throw new Error(`edges_insert_failed: ${eInsErr.message}`);
+  }
+
+  const { error: wfErr } = await admin
+    .from('workflows')
+    .update({ published_version_id: args.versionId, updated_at: new Date().toISOString() })
+    .eq('id', args.workflowId)
+    .eq('workspace_id', args.workspaceId);
+
+  if (wfErr) throw new Error(`workflow_update_failed: ${wfErr.message}`);
+  return { version: Number(data.version) || 0 };
+}
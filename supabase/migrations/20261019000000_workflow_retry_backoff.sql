@@ -0,0 +1,94 @@
+-- Reintentos con backoff + dead-letter para workflow_run_steps y workflow_message_outbox
+-- (src/lib/automations/retryPolicy.ts, queueLeases.ts).
+--
+-- Los claim RPC solo reclaman filas 'queued' cuyo backoff ya venció (next_attempt_at null o <= now()),
+-- así las filas en espera no ocupan huecos del lote ni se quedan bloqueadas.
+
+alter table public.workflow_run_steps
+  add column if not exists attempts int not null default 0,
+  add column if not exists next_attempt_at timestamptz,
+  add column if not exists dead_at timestamptz,
+  add column if not exists error text,
+  add column if not exists locked_at timestamptz,
+  add column if not exists locked_by text;
+
+alter table public.workflow_message_outbox
+  add column if not exists attempts int not null default 0,
+  add column if not exists next_attempt_at timestamptz,
+  add column if not exists dead_at timestamptz,
+  add column if not exists error text,
+  add column if not exists locked_at timestamptz,
+  add column if not exists locked_by text;
+
+create index if not exists workflow_run_steps_claim_idx
+  on public.workflow_run_steps (scheduled_for)
+  where status = 'queued';
+
+create index if not exists workflow_message_outbox_claim_idx
+  on public.workflow_message_outbox (created_at)
+  where status = 'queued';
+
+drop function if exists public.workflow_claim_run_steps(int, text);
+
+create function public.workflow_claim_run_steps(p_batch_size int, p_locker text)
+returns setof public.workflow_run_steps
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with picked as (
+    select s.id
+    from public.workflow_run_steps s
+    where s.status = 'queued'
+      and (s.scheduled_for is null or s.scheduled_for <= now())
+      and (s.next_attempt_at is null or s.next_attempt_at <= now())
+    order by s.scheduled_for nulls first
+    limit greatest(p_batch_size, 0)
+    for update skip locked
+  )
+  update public.workflow_run_steps s
+     set status = 'running',
+         locked_at = now(),
+         locked_by = p_locker
+    from picked
+   where s.id = picked.id
+  returning s.*;
+end;
+$$;
+
+drop function if exists public.workflow_claim_outbox(int, text);
+
+create function public.workflow_claim_outbox(p_batch_size int, p_locker text)
+returns setof public.workflow_message_outbox
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with picked as (
+    select o.id
+    from public.workflow_message_outbox o
+    where o.status = 'queued'
+      and (o.next_attempt_at is null or o.next_attempt_at <= now())
+    order by o.created_at
+    limit greatest(p_batch_size, 0)
+    for update skip locked
+  )
+  update public.workflow_message_outbox o
+     set status = 'sending',
+         locked_at = now(),
+         locked_by = p_locker
+    from picked
+   where o.id = picked.id
+  returning o.*;
+end;
+$$;
+
+-- Solo el service role (runner, outbox, worker) reclama filas
+revoke all on function public.workflow_claim_run_steps(int, text) from public, anon, authenticated;
+revoke all on function public.workflow_claim_outbox(int, text) from public, anon, authenticated;
+grant execute on function public.workflow_claim_run_steps(int, text) to service_role;
+grant execute on function public.workflow_claim_outbox(int, text) to service_role;
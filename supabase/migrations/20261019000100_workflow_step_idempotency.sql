@@ -0,0 +1,16 @@
+-- Encadenado idempotente de steps (src/lib/automations/runStepsTick.ts).
+--
+-- Si un step falla después de su efecto (al encadenar) se reintenta: no debe encolar otro mensaje
+-- ni duplicar los steps siguientes.
+-- - workflow_run_steps.parent_step_id: step que encoló a este; (parent_step_id, node_id) es único
+-- - workflow_message_outbox.step_id: un mensaje por step
+-- Índices únicos completos (no parciales) para que sirvan de on_conflict; los null no chocan entre sí.
+
+alter table public.workflow_run_steps
+  add column if not exists parent_step_id uuid references public.workflow_run_steps (id) on delete set null;
+
+create unique index if not exists workflow_run_steps_parent_node_uidx
+  on public.workflow_run_steps (parent_step_id, node_id);
+
+create unique index if not exists workflow_message_outbox_step_uidx
+  on public.workflow_message_outbox (step_id);
@@ -0,0 +1,10 @@
+-- Un run por (evento, workflow) (src/lib/automations/dispatchWorkflowEvents.ts, startRun).
+--
+-- Si un evento falla tras crear los runs de algunos workflows se reintenta entero: el índice único
+-- evita duplicar esos runs. Las inscripciones manuales no tienen evento (null, no chocan).
+
+alter table public.workflow_runs
+  add column if not exists trigger_event_id uuid;
+
+create unique index if not exists workflow_runs_trigger_event_workflow_uidx
+  on public.workflow_runs (trigger_event_id, workflow_id);
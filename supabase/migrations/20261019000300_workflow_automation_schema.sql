@@ -0,0 +1,150 @@
+-- Esquema de las automatizaciones (tablas y columnas nuevas sobre el esquema base).
+--
+-- Todo es idempotente (if not exists): se puede aplicar sobre una base que ya tenga parte de esto.
+-- Las tablas nuevas solo se usan con service role: RLS activado y sin políticas.
+
+/* ---------------- Versionado (workflowVersions.ts) ---------------- */
+
+create table if not exists public.workflow_versions (
+  id uuid primary key default gen_random_uuid(),
+  workflow_id uuid not null references public.workflows (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  version int not null,
+  graph jsonb not null,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  unique (workflow_id, version)
+);
+
+alter table public.workflow_versions enable row level security;
+
+-- settings: política de inscripción y objetivos de salida (workflowSettings.ts)
+alter table public.workflows
+  add column if not exists published_version_id uuid references public.workflow_versions (id) on delete set null,
+  add column if not exists settings jsonb;
+
+/* ---------------- Runs y steps ---------------- */
+
+-- version_id null = run anterior al versionado (usa el borrador). exit_reason: objetivo cumplido (runControl.ts)
+alter table public.workflow_runs
+  add column if not exists lead_id uuid,
+  add column if not exists status text not null default 'running',
+  add column if not exists started_at timestamptz not null default now(),
+  add column if not exists version_id uuid references public.workflow_versions (id) on delete set null,
+  add column if not exists finished_at timestamptz,
+  add column if not exists exit_reason text;
+
+-- canEnroll / exitLeadRunsOnGoals
+create index if not exists workflow_runs_workflow_lead_idx
+  on public.workflow_runs (workflow_id, lead_id, started_at);
+
+-- node_id apunta a nodos del snapshot de la versión, que pueden ya no existir en el borrador
+do $$
+declare
+  c record;
+begin
+  for c in
+    select con.conname
+    from pg_constraint con
+    join pg_attribute a on a.attrelid = con.conrelid and a.attnum = any (con.conkey)
+    where con.conrelid = 'public.workflow_run_steps'::regclass
+      and con.contype = 'f'
+      and con.confrelid = 'public.workflow_nodes'::regclass
+      and a.attname = 'node_id'
+  loop
+    execute format('alter table public.workflow_run_steps drop constraint %I', c.conname);
+  end loop;
+end $$;
+
+/* ---------------- Colas ---------------- */
+
+-- Intentos y dead-letter del dispatcher (dispatchWorkflowEvents.ts, queueLeases.ts)
+alter table public.workflow_event_queue
+  add column if not exists attempts int not null default 0,
+  add column if not exists dead_at timestamptz,
+  add column if not exists last_error text;
+
+-- Callback de estado de SMS (outbox/sms-status): se busca por provider_message_id
+alter table public.workflow_message_outbox
+  add column if not exists delivered_at timestamptz;
+
+create index if not exists workflow_message_outbox_provider_message_idx
+  on public.workflow_message_outbox (provider_message_id);
+
+/* ---------------- Proveedores y secretos por workspace ---------------- */
+
+-- config: solo datos no sensibles; el secreto va cifrado (messageProviders.ts)
+create table if not exists public.workspace_message_providers (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  channel text not null check (channel in ('email', 'sms')),
+  provider text not null,
+  config jsonb not null default '{}'::jsonb,
+  secret_ciphertext text,
+  enabled boolean not null default true,
+  updated_at timestamptz not null default now(),
+  primary key (workspace_id, channel)
+);
+
+alter table public.workspace_message_providers enable row level security;
+
+-- Firma de action.http_request (webhookSigning.ts)
+create table if not exists public.workspace_webhook_secrets (
+  workspace_id uuid primary key references public.workspaces (id) on delete cascade,
+  secret_ciphertext text not null,
+  rotated_at timestamptz not null default now()
+);
+
+alter table public.workspace_webhook_secrets enable row level security;
+
+-- Nonces de las peticiones firmadas a endpoints internos (internalJobAuth.ts)
+create table if not exists public.internal_job_nonces (
+  nonce text primary key,
+  expires_at timestamptz not null
+);
+
+create index if not exists internal_job_nonces_expires_idx on public.internal_job_nonces (expires_at);
+
+alter table public.internal_job_nonces enable row level security;
+
+/* ---------------- Trigger lead.stage_idle (stageIdleTrigger.ts) ---------------- */
+
+-- Una fila por visita al stage ya disparada; la clave primaria es el claim del scanner
+create table if not exists public.workflow_stage_idle_fires (
+  workflow_id uuid not null references public.workflows (id) on delete cascade,
+  lead_id uuid not null references public.leads (id) on delete cascade,
+  stage_id uuid not null,
+  stage_changed_at timestamptz not null,
+  fired_at timestamptz not null default now(),
+  primary key (workflow_id, lead_id, stage_id, stage_changed_at)
+);
+
+alter table public.workflow_stage_idle_fires enable row level security;
+
+/* ---------------- Acciones de equipo (teamActions.ts) ---------------- */
+
+-- target_user_ids null = todo el equipo. workflow_step_id: una notificación por step
+alter table public.lead_notifications
+  add column if not exists target_user_ids uuid[],
+  add column if not exists workflow_step_id uuid;
+
+create unique index if not exists lead_notifications_workflow_step_uidx
+  on public.lead_notifications (workflow_step_id);
+
+create table if not exists public.lead_tasks (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  lead_id uuid references public.leads (id) on delete cascade,
+  assigned_to uuid not null,
+  title text not null,
+  notes text,
+  due_at timestamptz,
+  status text not null default 'open' check (status in ('open', 'done')),
+  source text,
+  workflow_run_id uuid references public.workflow_runs (id) on delete set null,
+  workflow_step_id uuid unique,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lead_tasks_assignee_idx on public.lead_tasks (workspace_id, assigned_to, status, due_at);
+
+alter table public.lead_tasks enable row level security;
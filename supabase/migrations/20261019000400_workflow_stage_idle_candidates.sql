@@ -0,0 +1,42 @@
+-- Candidatas del trigger lead.stage_idle (src/lib/automations/stageIdleTrigger.ts).
+--
+-- Visitas a un stage más antiguas que el umbral que aún no han disparado para el workflow,
+-- las más antiguas primero. Excluir las ya disparadas aquí (y no en el cliente) evita que un stage
+-- con más de p_limit leads parados devuelva siempre las mismas visitas y las demás no disparen nunca.
+
+create or replace function public.workflow_stage_idle_candidates(
+  p_workflow_id uuid,
+  p_workspace_id uuid,
+  p_stage_id uuid,
+  p_cutoff timestamptz,
+  p_limit int
+)
+returns table (lead_id uuid, pipeline_id uuid, stage_changed_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.lead_id, s.pipeline_id, s.stage_changed_at
+  from public.lead_pipeline_state s
+  where s.workspace_id = p_workspace_id
+    and s.stage_id = p_stage_id
+    and s.stage_changed_at is not null
+    and s.stage_changed_at <= p_cutoff
+    and not exists (
+      select 1
+      from public.workflow_stage_idle_fires f
+      where f.workflow_id = p_workflow_id
+        and f.lead_id = s.lead_id
+        and f.stage_id = p_stage_id
+        and f.stage_changed_at = s.stage_changed_at
+    )
+  order by s.stage_changed_at asc
+  limit p_limit;
+$$;
+
+create index if not exists lead_pipeline_state_stage_changed_idx
+  on public.lead_pipeline_state (workspace_id, stage_id, stage_changed_at);
+
+revoke all on function public.workflow_stage_idle_candidates(uuid, uuid, uuid, timestamptz, int) from public, anon, authenticated;
+grant execute on function public.workflow_stage_idle_candidates(uuid, uuid, uuid, timestamptz, int) to service_role;